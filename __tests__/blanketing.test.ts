@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest"
+import { computeBlanketing } from "@/lib/calculations/blanketing"
+import { calcValveGasFlow } from "@/lib/calculations/gasFlow"
+import { computeDerivedGeometry } from "@/lib/calculations/geometry"
+import { computeNormalVenting } from "@/lib/calculations/normalVenting"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [{ streamNo: "S-1", flowrate: 150 }],
+  apiEdition: "7TH",
+  blanketed: true,
+}
+const NORMAL = computeNormalVenting(INPUT, computeDerivedGeometry(INPUT))
+
+describe("computeBlanketing", () => {
+  it("returns undefined for an unblanketed tank", () => {
+    expect(computeBlanketing({ ...INPUT, blanketed: false }, NORMAL)).toBeUndefined()
+    expect(computeBlanketing({ ...INPUT, blanketed: undefined }, NORMAL)).toBeUndefined()
+  })
+
+  it("air-equivalent demand = pump-out + thermal inbreathing", () => {
+    const r = computeBlanketing(INPUT, NORMAL)!
+    expect(NORMAL.inbreathing.processFlowrate).toBeGreaterThan(0)
+    expect(r.airEquivalent).toBeCloseTo(NORMAL.inbreathing.total, 8)
+    expect(r.failure).toBeUndefined()
+  })
+
+  it("regulator capacity is the air-equivalent demand as nitrogen: × √(28.96 / 28.013)", () => {
+    const r = computeBlanketing(INPUT, NORMAL)!
+    expect(r.requiredCapacity).toBeCloseTo(r.airEquivalent * Math.sqrt(28.96 / 28.013), 8)
+    expect(r.requiredCapacity).toBeGreaterThan(r.airEquivalent)
+  })
+
+  it("the 5th edition also sums pump-out and thermal, not its max() vent rule", () => {
+    const fifth = { ...INPUT, apiEdition: "5TH" as const }
+    const normal = computeNormalVenting(fifth, computeDerivedGeometry(fifth))
+    const { processFlowrate, thermalInbreathing, total } = normal.inbreathing
+    expect(total).toBeCloseTo(Math.max(processFlowrate, thermalInbreathing), 8)
+    expect(computeBlanketing(fifth, normal)!.airEquivalent).toBeCloseTo(processFlowrate + thermalInbreathing, 8)
+  })
+
+  it("mass flow of nitrogen by default: Q / 0.022414 × 28.013 / 1000", () => {
+    const r = computeBlanketing(INPUT, NORMAL)!
+    expect(r.requiredMassFlow).toBeCloseTo((r.requiredCapacity / 0.022414) * 0.028013, 8)
+  })
+
+  it("a custom blanket gas is converted with its own molecular mass", () => {
+    const n2 = computeBlanketing(INPUT, NORMAL)!
+    const gas = computeBlanketing({ ...INPUT, blanketGasMolecularMass: 16.04 }, NORMAL)!
+    expect(gas.airEquivalent).toBe(n2.airEquivalent)
+    expect(gas.requiredCapacity).toBeCloseTo(n2.airEquivalent * Math.sqrt(28.96 / 16.04), 8)
+    expect(gas.requiredMassFlow).toBeCloseTo((gas.requiredCapacity / 0.022414) * 0.01604, 8)
+  })
+
+  it("air as the blanket gas needs no conversion", () => {
+    const air = computeBlanketing({ ...INPUT, blanketGasMolecularMass: 28.96 }, NORMAL)!
+    expect(air.requiredCapacity).toBeCloseTo(air.airEquivalent, 8)
+  })
+
+  it("failed-open regulator passes its valve flow from supply to atmospheric", () => {
+    const r = computeBlanketing({ ...INPUT, blanketSupplyPressure: 700, blanketRegulatorCv: 1.5 }, NORMAL)!
+    const flow = calcValveGasFlow(1.5, 700, 101.325, 28.013, 15)
+    expect(r.failure?.outbreathing).toBeCloseTo(flow.flowrate, 8)
+    expect(r.failure?.massFlow).toBeCloseTo(flow.massFlow, 8)
+    expect(r.failure?.choked).toBe(true)
+  })
+
+  it("the failure case needs both Cv and supply pressure", () => {
+    expect(computeBlanketing({ ...INPUT, blanketRegulatorCv: 1.5 }, NORMAL)!.failure).toBeUndefined()
+    expect(computeBlanketing({ ...INPUT, blanketSupplyPressure: 700 }, NORMAL)!.failure).toBeUndefined()
+  })
+})
@@ -1,6 +1,10 @@
 import { describe, it, expect } from "vitest"
 import { calculate } from "@/lib/calculations"
-import { TankConfiguration } from "@/types"
+import { computeDrainInbreathing } from "@/lib/calculations/drain"
+import { calcDisplacedFlow, calcVapourFlow } from "@/lib/calculations/vapourFlow"
+import { formatStandard } from "@/lib/lookups/clauses"
+import { getFluid } from "@/lib/lookups/fluids"
+import { FloatingRoofType, TankConfiguration } from "@/types"
 import type { CalculationInput } from "@/types"
 
 // ─── Reference input (from PD.md §15 / Excel reference) ──────────────────────
@@ -146,6 +150,301 @@ describe("calculate — with drain system", () => {
     )
     expect(r.summary.designInbreathing).toBeCloseTo(expected, 8)
   })
+
+  it("cone-down bottom adds its sump depth to the drain head", () => {
+    const r = calculate({ ...withDrain, bottomProfile: "CONE_DOWN", bottomSlope: 10 })
+    // r = 12 m, 1:10 → 1,200 mm sump
+    expect(r.drainInbreathing).toBeCloseTo(computeDrainInbreathing(200, 6_200), 8)
+  })
+})
+
+// ─── Gas blow-through ─────────────────────────────────────────────────────────
+
+describe("calculate — gas blow-through", () => {
+  const withBlowThrough: CalculationInput = {
+    ...REF,
+    blowThroughPressure: 800,        // kPa(a)
+    blowThroughCv: 10,
+    blowThroughMolecularMass: 20,
+    blowThroughTemperature: 40,
+  }
+
+  it("blowThrough is undefined without blow-through input", () => {
+    expect(calculate(REF).blowThrough).toBeUndefined()
+  })
+
+  it("designOutbreathing = normalOut + blow-through", () => {
+    const r = calculate(withBlowThrough)
+    expect(r.blowThrough?.restriction).toBe("VALVE")
+    expect(r.blowThrough?.choked).toBe(true)
+    expect(r.summary.designOutbreathing).toBeCloseTo(
+      r.normalVenting.outbreathing.total + (r.blowThrough?.flowrate ?? 0),
+      8,
+    )
+  })
+
+  it("blow-through does not change design inbreathing", () => {
+    expect(calculate(withBlowThrough).summary.designInbreathing).toBeCloseTo(
+      calculate(REF).summary.designInbreathing,
+      8,
+    )
+  })
+})
+
+// ─── Inert gas blanketing ─────────────────────────────────────────────────────
+
+describe("calculate — inert gas blanketing", () => {
+  const withBlanketing: CalculationInput = {
+    ...REF,
+    blanketed: true,
+    blanketSupplyPressure: 700,      // kPa(a)
+    blanketRegulatorCv: 1.5,
+  }
+
+  it("blanketing is undefined for an unblanketed tank", () => {
+    expect(calculate(REF).blanketing).toBeUndefined()
+  })
+
+  it("regulator capacity covers normal inbreathing", () => {
+    const r = calculate(withBlanketing)
+    expect(r.blanketing?.airEquivalent).toBeCloseTo(r.normalVenting.inbreathing.total, 8)
+  })
+
+  it("designOutbreathing = normalOut + failed-open regulator", () => {
+    const r = calculate(withBlanketing)
+    expect(r.summary.designOutbreathing).toBeCloseTo(
+      r.normalVenting.outbreathing.total + (r.blanketing?.failure?.outbreathing ?? 0),
+      8,
+    )
+  })
+
+  it("takes the larger of blow-through and regulator failure, not both", () => {
+    const r = calculate({
+      ...withBlanketing,
+      blowThroughPressure: 800,
+      blowThroughCv: 10,
+      blowThroughMolecularMass: 20,
+      blowThroughTemperature: 40,
+    })
+    expect(r.summary.designOutbreathing).toBeCloseTo(
+      r.normalVenting.outbreathing.total +
+        Math.max(r.blowThrough?.flowrate ?? 0, r.blanketing?.failure?.outbreathing ?? 0),
+      8,
+    )
+  })
+
+  it("a blanket failure scenario carries the failed-open flow", () => {
+    const r = calculate({ ...withBlanketing, scenarios: [{ name: "Regulator", causes: ["BLANKET_FAILURE"] }] })
+    expect(r.scenarios?.[0].outbreathing).toBeCloseTo(r.blanketing?.failure?.outbreathing ?? 0, 8)
+  })
+})
+
+// ─── Steam-out ────────────────────────────────────────────────────────────────
+
+describe("calculate — steam-out", () => {
+  const withSteamOut: CalculationInput = { ...REF, steamOutRate: 2_000, steamOutAmbientTemp: 15 }
+
+  it("steamOut is undefined without steam-out input", () => {
+    expect(calculate(REF).steamOut).toBeUndefined()
+  })
+
+  it("designInbreathing = max(normalIn, steam-out + thermalIn)", () => {
+    const r = calculate(withSteamOut)
+    expect(r.steamOut).toBeDefined()
+    expect(r.summary.designInbreathing).toBeCloseTo(
+      Math.max(
+        r.normalVenting.inbreathing.total,
+        (r.steamOut?.inbreathing ?? 0) + r.normalVenting.inbreathing.thermalInbreathing,
+      ),
+      8,
+    )
+  })
+
+  it("a steam-out + thermal scenario matches the summary case", () => {
+    const r = calculate({
+      ...withSteamOut,
+      scenarios: [{ name: "Steam-out", causes: ["STEAM_OUT", "THERMAL"] }],
+    })
+    expect(r.scenarios?.[0].inbreathing).toBeCloseTo(
+      (r.steamOut?.inbreathing ?? 0) + r.normalVenting.inbreathing.thermalInbreathing,
+      8,
+    )
+  })
+
+  it("a steam-out scenario carries the condensing inbreathing", () => {
+    const r = calculate({ ...withSteamOut, scenarios: [{ name: "Steam-out", causes: ["STEAM_OUT"] }] })
+    expect(r.scenarios?.[0].inbreathing).toBeCloseTo(r.steamOut?.inbreathing ?? 0, 8)
+  })
+})
+
+// ─── Scenario matrix ──────────────────────────────────────────────────────────
+
+describe("calculate — scenario matrix", () => {
+  const withScenarios: CalculationInput = {
+    ...REF,
+    incomingStreams: [{ streamNo: "S-2", flowrate: 200 }],
+    drainLineSize: 200,
+    maxHeightAboveDrain: 5_000,
+    scenarios: [
+      { name: "Filling + heating", causes: ["FILLING", "THERMAL"] },
+      { name: "Pump-out + cooling + drain", causes: ["EMPTYING", "THERMAL", "DRAIN"] },
+      { name: "Thermal only", causes: ["THERMAL"] },
+    ],
+  }
+
+  it("no scenarios → no matrix", () => {
+    const r = calculate(REF)
+    expect(r.scenarios).toBeUndefined()
+    expect(r.summary.governingScenario).toBeUndefined()
+  })
+
+  it("returns one result per scenario", () => {
+    const r = calculate(withScenarios)
+    expect(r.scenarios?.map((s) => s.name)).toEqual([
+      "Filling + heating",
+      "Pump-out + cooling + drain",
+      "Thermal only",
+    ])
+  })
+
+  it("governing scenario sets the design flows", () => {
+    const r = calculate(withScenarios)
+    expect(r.summary.governingScenario).toEqual({
+      outbreathing: "Filling + heating",
+      inbreathing: "Pump-out + cooling + drain",
+    })
+    expect(r.summary.designOutbreathing).toBeCloseTo(r.normalVenting.outbreathing.total, 8)
+    // Drain adds to normal inbreathing within the scenario (not max as without scenarios)
+    expect(r.summary.designInbreathing).toBeCloseTo(
+      r.normalVenting.inbreathing.total + (r.drainInbreathing ?? 0),
+      8,
+    )
+  })
+})
+
+// ─── Horizontal tank ──────────────────────────────────────────────────────────
+
+describe("calculate — horizontal cylinder", () => {
+  const bullet: CalculationInput = {
+    ...REF,
+    tankShape: "HORIZONTAL_CYLINDER",
+    headType: "ELLIPSOIDAL_2_1",
+    diameter: 3_000,
+    height: 12_000,
+  }
+
+  it("thermal venting uses the shell + heads volume", () => {
+    const r = calculate(bullet)
+    const expected = 0.32 * Math.pow(r.derived.maxTankVolume, 0.9)
+    expect(r.derived.headVolume).toBeGreaterThan(0)
+    expect(r.normalVenting.outbreathing.thermalOutbreathing).toBeCloseTo(expected, 6)
+  })
+
+  it("emergency heat input uses the horizontal wetted area", () => {
+    const r = calculate(bullet)
+    const { a, n } = r.emergencyVenting.coefficients
+    expect(r.emergencyVenting.heatInput).toBeCloseTo(a * Math.pow(r.derived.wettedArea, n), 4)
+  })
+})
+
+// ─── Floating roof ────────────────────────────────────────────────────────────
+
+describe("calculate — external floating roof", () => {
+  it("design flows follow the roof-landed scenario", () => {
+    const r = calculate({ ...REF, floatingRoofType: FloatingRoofType.EXTERNAL, roofLegHeight: 2_000 })
+    expect(r.normalVenting.roofLanded).toBeDefined()
+    expect(r.summary.designOutbreathing).toBeCloseTo(r.normalVenting.roofLanded!.outbreathing.total, 8)
+    expect(r.summary.designInbreathing).toBeCloseTo(r.normalVenting.roofLanded!.inbreathing.total, 8)
+  })
+})
+
+// ─── Strapping table ──────────────────────────────────────────────────────────
+
+describe("calculate — strapping table", () => {
+  const strappingTable = {
+    source: "TK-3120 gauge table",
+    points: [
+      { level: 0, volume: 0 },
+      { level: 8_000, volume: 3_500 },
+      { level: 16_000, volume: 7_200 },
+    ],
+  }
+
+  it("capacity and wetted height come from the table", () => {
+    const r = calculate({ ...REF, strappingTable })
+    expect(r.derived.maxTankVolume).toBe(7_200)
+    expect(r.derived.wettedHeight).toBe(9_144)
+    expect(r.normalVenting.capacity).toEqual({ value: 7_200, basis: "STRAPPING", level: 16_000 })
+  })
+})
+
+// ─── Compartments ─────────────────────────────────────────────────────────────
+
+describe("calculate — compartments with separate vapour spaces", () => {
+  const compartment = (name: string, capacity: number, flowrate: number) => ({
+    name,
+    capacity,
+    avgStorageTemp: 35,
+    vapourPressure: 5.6,
+    flashBoilingPointType: "FP" as const,
+    incomingStreams: [{ streamNo: `${name}-in`, flowrate }],
+    outgoingStreams: [{ streamNo: `${name}-out`, flowrate }],
+  })
+
+  it("summary names the governing compartment", () => {
+    const r = calculate({
+      ...REF,
+      vapourSpaceMode: "SEPARATE",
+      compartments: [compartment("A", 2_000, 50), compartment("B", 5_000, 300)],
+    })
+    expect(r.summary.governingCompartment).toEqual({ outbreathing: "B", inbreathing: "B" })
+    expect(r.summary.designOutbreathing).toBeCloseTo(r.normalVenting.compartments![1].outbreathing.total, 8)
+  })
+
+  it("no governing compartment without compartments", () => {
+    expect(calculate(REF).summary.governingCompartment).toBeUndefined()
+  })
+})
+
+// ─── Sphere / spheroid ────────────────────────────────────────────────────────
+
+describe("calculate — spheroid on legs", () => {
+  const spheroid: CalculationInput = {
+    ...REF,
+    tankShape: "SPHEROID",
+    diameter: 20_000,
+    height: 12_000,
+    elevation: 2_000,
+  }
+
+  it("emergency heat input uses the spheroid wetted area", () => {
+    const r = calculate(spheroid)
+    const { a, n } = r.emergencyVenting.coefficients
+    expect(r.derived.wettedHeight).toBe(7_144)
+    expect(r.emergencyVenting.heatInput).toBeCloseTo(a * Math.pow(r.derived.wettedArea, n), 4)
+  })
+
+  it("thermal venting uses the spheroid volume", () => {
+    const r = calculate(spheroid)
+    expect(r.normalVenting.capacity.value).toBeCloseTo((4 / 3) * Math.PI * 100 * 6, 6)
+  })
+})
+
+// ─── Elevation / liquid level ─────────────────────────────────────────────────
+
+describe("calculate — elevated tank with max liquid level", () => {
+  it("elevation reduces wetted area and heat input", () => {
+    const base = calculate(REF)
+    const r = calculate({ ...REF, elevation: 4_000 })
+    expect(r.derived.wettedHeight).toBe(5_144)
+    expect(r.emergencyVenting.heatInput).toBeLessThan(base.emergencyVenting.heatInput)
+  })
+
+  it("max liquid level caps the wetted height", () => {
+    const r = calculate({ ...REF, maxLiquidLevel: 7_000 })
+    expect(r.derived.wettedHeight).toBe(7_000)
+    expect(r.derived.wettedArea).toBeCloseTo(Math.PI * 24 * 7, 6)
+  })
 })
 
 // ─── Underground tank ─────────────────────────────────────────────────────────
@@ -221,6 +520,75 @@ describe("calculate — API edition comparison", () => {
     expect(r5.normalVenting.inbreathing.processFlowrate).toBeCloseTo(94, 5)
     expect(r7.normalVenting.inbreathing.processFlowrate).toBeCloseTo(100, 5)
   })
+
+  it("clause references follow the selected standard", () => {
+    const r7 = calculate(REF)
+    const rIso = calculate({ ...REF, apiEdition: "ISO_28300" })
+    expect(r7.clauses.standard).toBe("API 2000 7th Edition")
+    expect(r7.clauses.thermal).toBe("4.3.2.3")
+    expect(r7.clauses.emergency).toBe("4.3.3")
+    expect(rIso.clauses.standard).toBe("ISO 28300:2008")
+    expect(rIso.clauses.thermal).toBe("4.3.2.3")
+  })
+
+  it("ISO 28300 matches the 6th edition numerically", () => {
+    const r6 = calculate({ ...REF, apiEdition: "6TH" })
+    const rIso = calculate({ ...REF, apiEdition: "ISO_28300" })
+    expect(rIso.summary.designOutbreathing).toBeCloseTo(r6.summary.designOutbreathing, 8)
+    expect(rIso.summary.designInbreathing).toBeCloseTo(r6.summary.designInbreathing, 8)
+    expect(rIso.summary.emergencyVenting).toBeCloseTo(r6.summary.emergencyVenting, 8)
+  })
+
+  it("ISO 28300 is reported as equivalent to the 6th edition", () => {
+    const r6 = calculate({ ...REF, apiEdition: "6TH" })
+    const rIso = calculate({ ...REF, apiEdition: "ISO_28300" })
+    expect(rIso.normalVenting).toEqual(r6.normalVenting)
+    expect(rIso.emergencyVenting).toEqual(r6.emergencyVenting)
+    expect(rIso.clauses).toEqual({
+      standard: "ISO 28300:2008",
+      equivalentTo: "API 2000 6th Edition",
+      liquidMovement: "4.3.2.2",
+      thermal: "4.3.2.3",
+      emergency: "4.3.3",
+      environmentalFactor: "4.3.3.3",
+    })
+    expect(formatStandard(rIso.clauses)).toBe("ISO 28300:2008 (equivalent to API 2000 6th Edition)")
+    expect(formatStandard(r6.clauses)).toBe("API 2000 6th Edition")
+  })
+})
+
+// ─── Vapour pressure correlation ──────────────────────────────────────────────
+
+describe("calculate — vapour pressure from a correlation", () => {
+  const toluene = getFluid("toluene")!
+  const filling: CalculationInput = {
+    ...REF,
+    incomingStreams: [{ streamNo: "F-1", flowrate: 100 }],
+    vapourPressureCorrelation: toluene.vapourPressure,
+    fluidName: toluene.name,
+  }
+
+  it("typed vapour pressure is reported as the input source", () => {
+    const r = calculate(REF)
+    expect(r.vapourPressure).toEqual({ value: 5.6, source: "INPUT" })
+    expect(r.warnings.vapourPressureNearThreshold).toBe(false)
+  })
+
+  it("the correlation value replaces the typed one (7th ed factor 1.0× below 5 kPa)", () => {
+    // Toluene ≈ 2.9 kPa at 20 °C; the typed 5.6 kPa alone would give 2.0×
+    const r = calculate({ ...filling, avgStorageTemp: 20 })
+    expect(r.vapourPressure.source).toBe("ANTOINE")
+    expect(r.vapourPressure.fluidName).toBe("Toluene")
+    expect(r.vapourPressure.value).toBeLessThan(5)
+    expect(r.normalVenting.outbreathing.processFlowrate).toBeCloseTo(100, 8)
+  })
+
+  it("warns when the storage temperature sits near the 5 kPa crossing", () => {
+    // Toluene crosses 5 kPa at ≈ 30.5 °C
+    const r = calculate({ ...filling, avgStorageTemp: 32 })
+    expect(r.vapourPressure.thresholdTemperature).toBeCloseTo(30.5, 1)
+    expect(r.warnings.vapourPressureNearThreshold).toBe(true)
+  })
 })
 
 // ─── Fully user-specified fluid ───────────────────────────────────────────────
@@ -242,4 +610,96 @@ describe("calculate — user-specified fluid properties", () => {
     const r = calculate(userFluid)
     expect(r.warnings.hexaneDefaults).toBe(false)
   })
+
+  it("actual emergency vapour = heat absorbed / latent heat", () => {
+    const r = calculate(userFluid)
+    // ṁ = Q × F / L  [kg/s] → kg/h
+    const massFlow = ((r.emergencyVenting.heatInput * r.emergencyVenting.environmentalFactor) / (1000 * 400)) * 3600
+    expect(r.vapourFlows.emergencyVenting.massFlow).toBeCloseTo(massFlow, 6)
+    expect(r.vapourFlows.molecularMass).toBe(100)
+    expect(r.vapourFlows.relievingTemperature).toBe(20)
+  })
+})
+
+// ─── Actual vapour flows ──────────────────────────────────────────────────────
+
+describe("calculate — actual vapour flows", () => {
+  it("converts the design outbreathing and emergency venting, Hexane by default", () => {
+    const r = calculate(REF)
+    expect(r.vapourFlows.molecularMass).toBe(86.17)
+    expect(r.vapourFlows.designOutbreathing.airEquivalent).toBe(r.summary.designOutbreathing)
+    expect(r.vapourFlows.emergencyVenting.airEquivalent).toBe(r.summary.emergencyVenting)
+  })
+
+  it("design outbreathing is tank vapour displaced at the storage temperature", () => {
+    const r = calculate(REF)
+    const flow = r.vapourFlows.designOutbreathing
+    // ṁ = V_n / 0.022414 × M / 1000, Q_act = V_n × T_s / 273.15
+    expect(flow.massFlow).toBeCloseTo(((r.summary.designOutbreathing / 0.022414) * 86.17) / 1000, 6)
+    expect(flow.actualFlow).toBeCloseTo(r.summary.designOutbreathing * (308.15 / 273.15), 6)
+    expect(r.vapourFlows.storageTemperature).toBe(35)
+  })
+
+  it("design inbreathing is air at the design ambient", () => {
+    const heated = { ...REF, storageCondition: "HEATED" as const, avgStorageTemp: 180, ambientTemp: 20 }
+    const r = calculate(heated)
+    const flow = r.vapourFlows.designInbreathing
+    expect(flow.airEquivalent).toBe(r.summary.designInbreathing)
+    expect(flow.massFlow).toBeCloseTo(((r.summary.designInbreathing / 0.022414) * 28.96) / 1000, 6)
+    expect(flow.actualFlow).toBeCloseTo(r.summary.designInbreathing * (293.15 / 273.15), 6)
+    // Ambient storage: air enters at the storage temperature
+    expect(calculate(REF).vapourFlows.ambientTemperature).toBe(35)
+  })
+
+  it("nitrogen from a failed regulator keeps its own M, not the tank vapour's", () => {
+    const r = calculate({ ...REF, blanketed: true, blanketSupplyPressure: 700, blanketRegulatorCv: 1.5 })
+    const failure = r.blanketing!.failure!
+    const breathing = calcDisplacedFlow(r.normalVenting.outbreathing.total, 86.17, 35)
+    const flow = r.vapourFlows.designOutbreathing
+    expect(flow.airEquivalent).toBeCloseTo(r.normalVenting.outbreathing.total + failure.outbreathing, 8)
+    expect(flow.massFlow).toBeCloseTo(breathing.massFlow + failure.massFlow, 6)
+    expect(flow.actualFlow).toBeCloseTo(breathing.actualFlow + failure.outbreathing * (308.15 / 273.15), 6)
+    // Converting the N₂ with the hexane M would overstate its mass
+    expect(flow.massFlow).toBeLessThan(calcDisplacedFlow(flow.airEquivalent, 86.17, 35).massFlow)
+  })
+
+  it("steam from a ruptured coil keeps the steam mass, not the tank vapour's", () => {
+    const r = calculate({ ...REF, coilFluid: "STEAM", coilPressure: 1_000, coilTubeDiameter: 40 })
+    const coil = r.normalVenting.coilRupture!
+    const breathing = calcDisplacedFlow(r.summary.designOutbreathing - coil.flowrate, 86.17, 35)
+    expect(r.vapourFlows.designOutbreathing.massFlow).toBeCloseTo(breathing.massFlow + coil.massFlow, 6)
+  })
+
+  it("a governing coil-rupture scenario carries the steam mass", () => {
+    const r = calculate({
+      ...REF,
+      coilFluid: "STEAM",
+      coilPressure: 1_000,
+      coilTubeDiameter: 40,
+      scenarios: [
+        { name: "Thermal", causes: ["THERMAL"] },
+        { name: "Coil rupture", causes: ["THERMAL", "COIL_RUPTURE"] },
+      ],
+    })
+    expect(r.summary.governingScenario?.outbreathing).toBe("Coil rupture")
+    const thermal = calcDisplacedFlow(r.normalVenting.outbreathing.thermalOutbreathing, 86.17, 35)
+    const coil = r.normalVenting.coilRupture!
+    expect(r.vapourFlows.designOutbreathing.massFlow).toBeCloseTo(thermal.massFlow + coil.massFlow, 6)
+  })
+
+  it("a governing blow-through scenario carries the blow-through gas mass", () => {
+    const r = calculate({
+      ...REF,
+      blowThroughPressure: 800,
+      blowThroughCv: 10,
+      blowThroughTemperature: 40,
+      scenarios: [
+        { name: "Thermal", causes: ["THERMAL"] },
+        { name: "Blow-through", causes: ["THERMAL", "CONTROL_VALVE_FAILURE"] },
+      ],
+    })
+    expect(r.summary.governingScenario?.outbreathing).toBe("Blow-through")
+    const thermal = calcDisplacedFlow(r.normalVenting.outbreathing.thermalOutbreathing, 86.17, 35)
+    expect(r.vapourFlows.designOutbreathing.massFlow).toBeCloseTo(thermal.massFlow + r.blowThrough!.massFlow, 6)
+  })
 })
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest"
+import { calcSteamSaturationTemp, computeCoilRupture } from "@/lib/calculations/coilRupture"
+import { calcOrificeGasFlow } from "@/lib/calculations/gasFlow"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+
+describe("calcSteamSaturationTemp", () => {
+  it("100 °C at atmospheric pressure", () => {
+    expect(calcSteamSaturationTemp(101.325)).toBeCloseTo(100, 8)
+  })
+
+  it("≈ 180 °C at 1000 kPa(a) (steam tables: 179.9 °C)", () => {
+    expect(calcSteamSaturationTemp(1_000)).toBeCloseTo(180, -1)
+  })
+})
+
+describe("computeCoilRupture", () => {
+  it("returns undefined without coil data", () => {
+    expect(computeCoilRupture(INPUT)).toBeUndefined()
+    expect(computeCoilRupture({ ...INPUT, coilFluid: "STEAM", coilPressure: 1_000 })).toBeUndefined()
+  })
+
+  it("steam: both tube ends discharge at saturation temperature", () => {
+    const r = computeCoilRupture({ ...INPUT, coilFluid: "STEAM", coilPressure: 1_000, coilTubeDiameter: 40 })!
+    const oneEnd = calcOrificeGasFlow(40, 1_000, 101.325, 18.015, calcSteamSaturationTemp(1_000), 1.33)
+    expect(r.fluid).toBe("STEAM")
+    expect(r.choked).toBe(true)
+    expect(r.flowrate).toBeCloseTo(2 * oneEnd.flowrate, 8)
+    expect(r.massFlow).toBeCloseTo(2 * oneEnd.massFlow, 8)
+  })
+
+  it("steam: a superheat temperature replaces saturation", () => {
+    const saturated = computeCoilRupture({ ...INPUT, coilFluid: "STEAM", coilPressure: 1_000, coilTubeDiameter: 40 })!
+    const superheated = computeCoilRupture({
+      ...INPUT,
+      coilFluid: "STEAM",
+      coilPressure: 1_000,
+      coilTubeDiameter: 40,
+      coilFluidTemperature: 250,
+    })!
+    expect(superheated.massFlow).toBeLessThan(saturated.massFlow)
+  })
+
+  it("hot oil needs its temperature and density", () => {
+    const partial = { ...INPUT, coilFluid: "HOT_OIL" as const, coilPressure: 600, coilTubeDiameter: 25 }
+    expect(computeCoilRupture(partial)).toBeUndefined()
+    expect(computeCoilRupture({ ...partial, coilFluidDensity: 750 })).toBeUndefined()
+  })
+
+  it("hot oil: displacement + stored liquid boiled off by the oil's excess heat", () => {
+    const r = computeCoilRupture({
+      ...INPUT,
+      coilFluid: "HOT_OIL",
+      coilPressure: 600,
+      coilTubeDiameter: 25,
+      coilFluidTemperature: 250,
+      coilFluidDensity: 750,
+    })!
+    // ṁ = 2 × 0.61 × A × √(2 ρ ΔP) × 3600
+    const area = (Math.PI / 4) * 0.025 ** 2
+    const massFlow = 2 * 0.61 * area * Math.sqrt(2 * 750 * (600 - 101.325) * 1000) * 3600
+    const boilOff = (massFlow * 2.3 * (250 - 35)) / 334.9
+    expect(r.choked).toBe(false)
+    expect(r.massFlow).toBeCloseTo(massFlow, 6)
+    expect(r.flowrate).toBeCloseTo(massFlow / 750 + (boilOff / 86.17) * 1000 * 0.022414, 6)
+  })
+
+  it("hot oil below the storage temperature only displaces", () => {
+    const r = computeCoilRupture({
+      ...INPUT,
+      coilFluid: "HOT_OIL",
+      coilPressure: 600,
+      coilTubeDiameter: 25,
+      coilFluidTemperature: 30,
+      coilFluidDensity: 750,
+    })!
+    expect(r.flowrate).toBeCloseTo(r.massFlow / 750, 8)
+  })
+})
@@ -213,6 +213,14 @@ describe("user-specified fluid properties", () => {
     expect(r5.emergencyVentRequired / r6.emergencyVentRequired).toBeCloseTo(881.55 / 906.6, 8)
   })
 
+  it("user-defined fluid: ISO 28300 uses the 6th edition coefficient", () => {
+    const inputUser6 = makeInput({ apiEdition: "6TH", latentHeat: 600 })
+    const inputUserIso = makeInput({ apiEdition: "ISO_28300", latentHeat: 600 })
+    const r6 = computeEmergencyVenting(inputUser6, REF_DERIVED)
+    const rIso = computeEmergencyVenting(inputUserIso, REF_DERIVED)
+    expect(rIso.emergencyVentRequired).toBeCloseTo(r6.emergencyVentRequired, 8)
+  })
+
   it("higher latent heat → lower vent required (less vapour per unit heat)", () => {
     const rLow = computeEmergencyVenting(makeInput({ latentHeat: 300 }), REF_DERIVED)
     const rHigh = computeEmergencyVenting(makeInput({ latentHeat: 600 }), REF_DERIVED)
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest"
+import { calcFlashFraction, calcFlashVapour, computeFlashOutbreathing } from "@/lib/calculations/flash"
+import { calcSaturationTemperature } from "@/lib/calculations/vapourPressure"
+import { getFluid } from "@/lib/lookups/fluids"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput, Stream } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+
+describe("calcFlashFraction", () => {
+  it("streams without hot-feed data do not flash", () => {
+    expect(calcFlashFraction({ streamNo: "S-1", flowrate: 100 }, INPUT)).toBe(0)
+  })
+
+  it("an explicit flash fraction overrides the estimate", () => {
+    const stream: Stream = { streamNo: "S-1", flowrate: 100, temperature: 150, flashFraction: 0.05 }
+    expect(calcFlashFraction(stream, INPUT)).toBe(0.05)
+  })
+
+  it("hot feed flashes down to the Hexane normal boiling point", () => {
+    const stream: Stream = { streamNo: "S-1", flowrate: 100, temperature: 100 }
+    expect(calcFlashFraction(stream, INPUT)).toBeCloseTo((2.27 * (100 - 68.7)) / 334.9, 10)
+  })
+
+  it("cold feeds do not flash, however high the upstream pressure was", () => {
+    // Subcooled hexane at 20 °C / 25 °C — no vapour at tank pressure
+    expect(calcFlashFraction({ streamNo: "S-1", flowrate: 100, temperature: 20 }, INPUT)).toBe(0)
+    expect(calcFlashFraction({ streamNo: "S-1", flowrate: 100, temperature: 25 }, INPUT)).toBe(0)
+    expect(calcFlashVapour({ streamNo: "S-1", flowrate: 100, temperature: 25 }, INPUT)).toBe(0)
+  })
+
+  it("uses the tank fluid's boiling point from its correlation or a typed BP", () => {
+    const toluene = getFluid("toluene")!
+    const withCorrelation = { ...INPUT, vapourPressureCorrelation: toluene.vapourPressure, latentHeat: 363 }
+    const tBp = calcSaturationTemperature(toluene.vapourPressure!, 101.325)!
+    const hot: Stream = { streamNo: "S-1", flowrate: 100, temperature: 130 }
+    expect(calcFlashFraction(hot, withCorrelation)).toBeCloseTo((2.27 * (130 - tBp)) / 363, 10)
+    expect(calcFlashFraction({ ...hot, temperature: 100 }, withCorrelation)).toBe(0)
+
+    const typedBp = { ...INPUT, flashBoilingPointType: "BP" as const, flashBoilingPoint: 120 }
+    expect(calcFlashFraction(hot, typedBp)).toBeCloseTo((2.27 * 10) / 334.9, 10)
+  })
+
+  it("flashes against the feed's own bubble point when its liquid differs from the tank's", () => {
+    // Acetone feed at 80 °C into a tank of heavy liquid boiling at 120 °C
+    const acetone = getFluid("acetone")!
+    const heavyTank = { ...INPUT, flashBoilingPointType: "BP" as const, flashBoilingPoint: 120 }
+    const feed: Stream = { streamNo: "S-1", flowrate: 100, temperature: 80 }
+    expect(calcFlashFraction(feed, heavyTank)).toBe(0)
+
+    const acetoneFeed: Stream = { ...feed, composition: [{ fluidId: "acetone", fraction: 1 }] }
+    const tBubble = calcSaturationTemperature(acetone.vapourPressure!, 101.325)!
+    const x = (2.27 * (80 - tBubble)) / acetone.latentHeat!
+    expect(calcFlashFraction(acetoneFeed, heavyTank)).toBeCloseTo(x, 10)
+    // The flashed vapour is acetone
+    expect(calcFlashVapour(acetoneFeed, heavyTank)).toBeCloseTo(
+      ((100 * 655 * x * 1000) / acetone.molecularMass!) * 0.022414,
+      8,
+    )
+  })
+
+  it("a feed without a temperature is saturated liquid at its line pressure", () => {
+    const acetone = getFluid("acetone")!
+    const feed: Stream = {
+      streamNo: "S-1",
+      flowrate: 100,
+      pressure: 300,
+      composition: [{ fluidId: "acetone", fraction: 1 }],
+    }
+    const tFeed = calcSaturationTemperature(acetone.vapourPressure!, 300)!
+    const tBubble = calcSaturationTemperature(acetone.vapourPressure!, 101.325)!
+    expect(calcFlashFraction(feed, INPUT)).toBeCloseTo((2.27 * (tFeed - tBubble)) / acetone.latentHeat!, 10)
+  })
+
+  it("a line pressure alone gives no flash when the tank liquid has no vapour pressure curve", () => {
+    expect(calcFlashFraction({ streamNo: "S-1", flowrate: 100, pressure: 300 }, INPUT)).toBe(0)
+  })
+
+  it("defaults the feed to a stored mixture", () => {
+    const mixture = { ...INPUT, mixtureComponents: [{ fluidId: "acetone", fraction: 1 }] }
+    const acetone = getFluid("acetone")!
+    const tBubble = calcSaturationTemperature(acetone.vapourPressure!, 101.325)!
+    const hot: Stream = { streamNo: "S-1", flowrate: 100, temperature: 80 }
+    expect(calcFlashFraction(hot, mixture)).toBeCloseTo((2.27 * (80 - tBubble)) / acetone.latentHeat!, 10)
+  })
+
+  it("is clamped to 1", () => {
+    const stream: Stream = { streamNo: "S-1", flowrate: 100, temperature: 400 }
+    expect(calcFlashFraction(stream, { ...INPUT, latentHeat: 100 })).toBe(1)
+  })
+})
+
+describe("calcFlashVapour", () => {
+  it("Q × ρ × x / M × 1000 × 0.022414", () => {
+    const stream: Stream = { streamNo: "S-1", flowrate: 50, flashFraction: 0.1, density: 700, molecularMass: 44 }
+    expect(calcFlashVapour(stream, INPUT)).toBeCloseTo(((50 * 700 * 0.1 * 1000) / 44) * 0.022414, 8)
+  })
+
+  it("defaults density and molecular mass to Hexane", () => {
+    const stream: Stream = { streamNo: "S-1", flowrate: 50, flashFraction: 0.1 }
+    expect(calcFlashVapour(stream, INPUT)).toBeCloseTo(((50 * 655 * 0.1 * 1000) / 86.17) * 0.022414, 8)
+  })
+
+  it("sums the incoming streams only", () => {
+    const input = {
+      ...INPUT,
+      incomingStreams: [
+        { streamNo: "S-1", flowrate: 50, flashFraction: 0.1 },
+        { streamNo: "S-2", flowrate: 20 },
+      ],
+      outgoingStreams: [{ streamNo: "S-3", flowrate: 80, flashFraction: 0.5 }],
+    }
+    expect(computeFlashOutbreathing(input)).toBeCloseTo(calcFlashVapour(input.incomingStreams[0], input), 10)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest"
+import { calcOrificeGasFlow, calcValveGasFlow, computeBlowThrough } from "@/lib/calculations/gasFlow"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+
+describe("calcValveGasFlow", () => {
+  it("choked flow limits x to F_k × x_T", () => {
+    // x = (800 − 101.325) / 800 = 0.873 > F_k × x_T = 1.3/1.4 × 0.72 = 0.669
+    const xT = (1.3 / 1.4) * 0.72
+    const expected = 21.2 * 10 * 800 * (2 / 3) * Math.sqrt(xT / (20 * 313.15))
+    const flow = calcValveGasFlow(10, 800, 101.325, 20, 40)
+    expect(flow.choked).toBe(true)
+    expect(flow.flowrate).toBeCloseTo(expected, 6)
+    expect(flow.flowrate).toBeCloseTo(1168, 0)
+  })
+
+  it("subcritical flow applies the expansion factor", () => {
+    const x = (150 - 101.325) / 150
+    const xT = (1.3 / 1.4) * 0.72
+    const expected = 21.2 * 10 * 150 * (1 - x / (3 * xT)) * Math.sqrt(x / (20 * 313.15))
+    const flow = calcValveGasFlow(10, 150, 101.325, 20, 40)
+    expect(flow.choked).toBe(false)
+    expect(flow.flowrate).toBeCloseTo(expected, 6)
+  })
+
+  it("mass flow is consistent with the normal volumetric flow", () => {
+    const flow = calcValveGasFlow(10, 800, 101.325, 20, 40)
+    expect(flow.massFlow).toBeCloseTo((flow.flowrate / 0.022414) * 0.02, 6)
+  })
+
+  it("no flow when upstream is not above downstream", () => {
+    expect(calcValveGasFlow(10, 101.325, 101.325, 20, 40)).toEqual({ massFlow: 0, flowrate: 0, choked: false })
+  })
+
+  it("scales linearly with Cv", () => {
+    const one = calcValveGasFlow(5, 400, 101.325, 28, 20).flowrate
+    const two = calcValveGasFlow(10, 400, 101.325, 28, 20).flowrate
+    expect(two).toBeCloseTo(2 * one, 8)
+  })
+})
+
+describe("calcOrificeGasFlow", () => {
+  it("choked flow matches the isentropic nozzle formula × C_d", () => {
+    const k = 1.3
+    const area = (Math.PI / 4) * 0.01 ** 2
+    const term = ((k * 0.02) / (8.314 * 313.15)) * Math.pow(2 / (k + 1), (k + 1) / (k - 1))
+    const massFlow = 0.61 * area * 800_000 * Math.sqrt(term) // kg/s
+    const flow = calcOrificeGasFlow(10, 800, 101.325, 20, 40)
+    expect(flow.choked).toBe(true)
+    expect(flow.massFlow).toBeCloseTo(massFlow * 3600, 6)
+    expect(flow.flowrate).toBeCloseTo((massFlow / 0.02) * 0.022414 * 3600, 6)
+  })
+
+  it("subcritical flow below the critical pressure ratio", () => {
+    // r_c = (2/2.3)^(1.3/0.3) ≈ 0.546; 101.325 / 150 = 0.676 > r_c
+    const flow = calcOrificeGasFlow(10, 150, 101.325, 20, 40)
+    expect(flow.choked).toBe(false)
+    expect(flow.flowrate).toBeGreaterThan(0)
+    expect(flow.flowrate).toBeLessThan(calcOrificeGasFlow(10, 800, 101.325, 20, 40).flowrate)
+  })
+
+  it("flow is continuous across the critical pressure ratio", () => {
+    const rc = Math.pow(2 / 2.3, 1.3 / 0.3)
+    const p1 = 101.325 / rc
+    const atCritical = calcOrificeGasFlow(10, p1, 101.325, 20, 40).flowrate
+    const justBelow = calcOrificeGasFlow(10, p1 * 0.9999, 101.325, 20, 40).flowrate
+    expect(justBelow).toBeCloseTo(atCritical, 0)
+  })
+
+  it("no flow when upstream is not above downstream", () => {
+    expect(calcOrificeGasFlow(10, 100, 101.325, 20, 40).flowrate).toBe(0)
+  })
+})
+
+describe("computeBlowThrough", () => {
+  const BLOW_THROUGH = {
+    blowThroughPressure: 800,
+    blowThroughMolecularMass: 20,
+    blowThroughTemperature: 40,
+  }
+
+  it("returns undefined without blow-through data", () => {
+    expect(computeBlowThrough(INPUT)).toBeUndefined()
+  })
+
+  it("returns undefined without a valve Cv or orifice", () => {
+    expect(computeBlowThrough({ ...INPUT, ...BLOW_THROUGH })).toBeUndefined()
+  })
+
+  it("uses the orifice when no Cv is given", () => {
+    const result = computeBlowThrough({ ...INPUT, ...BLOW_THROUGH, blowThroughOrifice: 10 })
+    expect(result?.restriction).toBe("ORIFICE")
+    expect(result?.flowrate).toBeCloseTo(calcOrificeGasFlow(10, 800, 101.325, 20, 40).flowrate, 8)
+  })
+
+  it("gas molecular mass defaults to nitrogen", () => {
+    const result = computeBlowThrough({ ...INPUT, ...BLOW_THROUGH, blowThroughMolecularMass: undefined, blowThroughCv: 10 })
+    const n2 = calcValveGasFlow(10, 800, 101.325, 28.013, 40)
+    expect(result?.flowrate).toBeCloseTo(n2.flowrate, 8)
+    expect(result?.massFlow).toBeCloseTo(n2.massFlow, 8)
+  })
+
+  it("a valve Cv takes precedence over the orifice", () => {
+    const result = computeBlowThrough({ ...INPUT, ...BLOW_THROUGH, blowThroughCv: 10, blowThroughOrifice: 10 })
+    expect(result?.restriction).toBe("VALVE")
+    expect(result?.flowrate).toBeCloseTo(calcValveGasFlow(10, 800, 101.325, 20, 40).flowrate, 8)
+  })
+})
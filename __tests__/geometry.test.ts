@@ -3,10 +3,29 @@ import {
   calcMaxTankVolume,
   calcShellSurfaceArea,
   calcConeRoofArea,
+  calcConeRoofVolume,
+  calcDomeRoofHeight,
+  calcDomeRoofArea,
+  calcDomeRoofVolume,
+  calcUmbrellaRoofArea,
+  calcUmbrellaRoofVolume,
+  calcRoofGeometry,
   calcTotalSurfaceArea,
+  calcBottomGeometry,
+  calcWettedHeight,
   calcWettedArea,
+  calcHeadDepth,
+  calcHeadArea,
+  calcHeadVolume,
+  calcHorizontalWettedArea,
+  calcHorizontalLiquidVolume,
+  calcSpheroidVolume,
+  calcSpheroidSurfaceArea,
+  calcSpheroidWettedArea,
+  calcSpheroidLiquidVolume,
   calcR_in,
   calcR_inp,
+  calcVolumeToLevel,
   computeDerivedGeometry,
 } from "@/lib/calculations/geometry"
 import { TankConfiguration } from "@/types"
@@ -87,6 +106,91 @@ describe("calcConeRoofArea", () => {
   })
 })
 
+// ─── Roof types ───────────────────────────────────────────────────────────────
+
+describe("calcConeRoofArea / calcConeRoofVolume — custom slope", () => {
+  it("default slope argument reproduces the 1:12 reference", () => {
+    expect(calcConeRoofArea(D, 12)).toBeCloseTo(calcConeRoofArea(D), 10)
+  })
+
+  it("steeper slope (1:6) gives a larger roof area", () => {
+    expect(calcConeRoofArea(D, 6)).toBeGreaterThan(calcConeRoofArea(D))
+  })
+
+  it("volume: π × r² × h / 3 — D=24000, 1:12 → h=2 m → 301.59 m³", () => {
+    expect(calcConeRoofVolume(D)).toBeCloseTo((Math.PI * 144 * 2) / 3, 8)
+  })
+})
+
+describe("dome roof (spherical cap)", () => {
+  it("R = D: rise = R − √(R² − r²) = 24 − √(576 − 144) ≈ 3.2154 m", () => {
+    expect(calcDomeRoofHeight(D, D)).toBeCloseTo(24_000 - Math.sqrt(576e6 - 144e6), 6)
+  })
+
+  it("area = 2π × R × h", () => {
+    const h = calcDomeRoofHeight(D, D) / 1000
+    expect(calcDomeRoofArea(D, D)).toBeCloseTo(2 * Math.PI * 24 * h, 8)
+  })
+
+  it("volume = π × h² × (3R − h) / 3", () => {
+    const h = calcDomeRoofHeight(D, D) / 1000
+    expect(calcDomeRoofVolume(D, D)).toBeCloseTo((Math.PI * h * h * (3 * 24 - h)) / 3, 8)
+  })
+
+  it("hemispherical limit (R = D/2): area = 2π r², volume = 2/3 π r³", () => {
+    expect(calcDomeRoofArea(D, D / 2)).toBeCloseTo(2 * Math.PI * 144, 6)
+    expect(calcDomeRoofVolume(D, D / 2)).toBeCloseTo((2 / 3) * Math.PI * 1728, 6)
+  })
+})
+
+describe("calcRoofGeometry", () => {
+  it("defaults to a 1:12 cone", () => {
+    const roof = calcRoofGeometry(D)
+    expect(roof.height).toBeCloseTo(2_000, 8)
+    expect(roof.area).toBeCloseTo(calcConeRoofArea(D), 10)
+    expect(roof.volume).toBeCloseTo(calcConeRoofVolume(D), 10)
+  })
+
+  it("DOME defaults radius to 1.0 × D", () => {
+    const roof = calcRoofGeometry(D, "DOME")
+    expect(roof.area).toBeCloseTo(calcDomeRoofArea(D, D), 10)
+  })
+
+  it("UMBRELLA: dome rise, polygonal sections below the dome's area and volume", () => {
+    const umbrella = calcRoofGeometry(D, "UMBRELLA", undefined, 20_000, 8)
+    const dome = calcRoofGeometry(D, "DOME", undefined, 20_000)
+    expect(umbrella.height).toBeCloseTo(dome.height, 10)
+    expect(umbrella.area).toBeLessThan(dome.area)
+    expect(umbrella.volume).toBeCloseTo(dome.volume * (8 * Math.sin(Math.PI / 4)) / (2 * Math.PI), 10)
+  })
+
+  it("UMBRELLA area matches the plate integral ∫ chord × apothem arc length", () => {
+    // N plates, ρ from 0 to r: dA = N × 2ρ sin(π/N) × √(cos²(π/N) + ρ² / (R² − ρ²)) dρ
+    const N = 8, R = 20, r = 12, steps = 20_000
+    const s = Math.sin(Math.PI / N), c = Math.cos(Math.PI / N)
+    let area = 0
+    for (let i = 0; i < steps; i++) {
+      const rho = ((i + 0.5) / steps) * r
+      area += N * 2 * rho * s * Math.sqrt(c * c + (rho * rho) / (R * R - rho * rho)) * (r / steps)
+    }
+    expect(calcUmbrellaRoofArea(D, 20_000, N)).toBeCloseTo(area, 4)
+  })
+
+  it("UMBRELLA tends to the dome with many plates; defaults to 16", () => {
+    expect(calcUmbrellaRoofArea(D, 20_000, 10_000)).toBeCloseTo(calcDomeRoofArea(D, 20_000), 3)
+    expect(calcUmbrellaRoofVolume(D, 20_000, 10_000)).toBeCloseTo(calcDomeRoofVolume(D, 20_000), 3)
+    expect(calcRoofGeometry(D, "UMBRELLA", undefined, 20_000))
+      .toEqual(calcRoofGeometry(D, "UMBRELLA", undefined, 20_000, 16))
+  })
+
+  it("FLAT: no rise, no volume, area = π r²", () => {
+    const roof = calcRoofGeometry(D, "FLAT")
+    expect(roof.height).toBe(0)
+    expect(roof.volume).toBe(0)
+    expect(roof.area).toBeCloseTo(Math.PI * 144, 8)
+  })
+})
+
 // ─── calcTotalSurfaceArea ─────────────────────────────────────────────────────
 
 describe("calcTotalSurfaceArea", () => {
@@ -101,6 +205,75 @@ describe("calcTotalSurfaceArea", () => {
   })
 })
 
+// ─── Bottom profiles ──────────────────────────────────────────────────────────
+
+describe("calcBottomGeometry", () => {
+  it("flat bottom: plate only, no volume", () => {
+    expect(calcBottomGeometry(D, "FLAT")).toEqual({ depth: 0, area: Math.PI * 144, volume: 0 })
+  })
+
+  it("cone-down 1:10 → depth r/10, cone volume added", () => {
+    const b = calcBottomGeometry(D, "CONE_DOWN", 10)
+    expect(b.depth).toBeCloseTo(1_200, 8)
+    expect(b.area).toBeCloseTo(Math.PI * 12 * Math.sqrt(144 + 1.44), 8)
+    expect(b.volume).toBeCloseTo(Math.PI * 144 * 1.2 / 3, 8)
+  })
+
+  it("cone-up displaces the same volume a cone-down adds", () => {
+    const down = calcBottomGeometry(D, "CONE_DOWN", 10)
+    const up   = calcBottomGeometry(D, "CONE_UP", 10)
+    expect(up.volume).toBeCloseTo(-down.volume, 10)
+    expect(up.area).toBeCloseTo(down.area, 10)
+  })
+
+  it("sloped 1:100 → drop D/100, half-cylinder wedge volume", () => {
+    const b = calcBottomGeometry(D, "SLOPED", 100)
+    expect(b.depth).toBeCloseTo(240, 8)
+    expect(b.volume).toBeCloseTo(Math.PI * 144 * 0.24 / 2, 8)
+  })
+})
+
+describe("computeDerivedGeometry — bottom profile", () => {
+  const base: CalculationInput = {
+    tankNumber: "TK-3120",
+    diameter: D,
+    height: H,
+    latitude: 12.7,
+    designPressure: 101.32,
+    tankConfiguration: TankConfiguration.BARE_METAL,
+    avgStorageTemp: 35,
+    vapourPressure: 5.6,
+    flashBoilingPointType: "FP",
+    incomingStreams: [],
+    outgoingStreams: [],
+    apiEdition: "7TH",
+  }
+
+  it("cone-down adds to capacity and total surface area", () => {
+    const flat = computeDerivedGeometry(base)
+    const cone = computeDerivedGeometry({ ...base, bottomProfile: "CONE_DOWN", bottomSlope: 10 })
+    expect(cone.maxTankVolume).toBeCloseTo(flat.maxTankVolume + cone.bottomVolume, 8)
+    expect(cone.totalSurfaceArea).toBeCloseTo(flat.totalSurfaceArea + cone.bottomArea, 8)
+  })
+
+  it("cone-up displaces only the part of its cone below the level", () => {
+    const coneUp = { ...base, bottomProfile: "CONE_UP" as const, bottomSlope: 10 } // apex 1 200 mm
+    const cone = Math.PI * 144 * 1.2 / 3
+    // 600 mm: the cone below is the full cone less the half-height cone above (1/8 of it)
+    expect(calcVolumeToLevel(coneUp, 600)).toBeCloseTo(Math.PI * 144 * 0.6 - cone * (1 - 1 / 8), 8)
+    expect(calcVolumeToLevel(coneUp, 600)).toBeGreaterThan(0)
+    expect(calcVolumeToLevel(coneUp, 0)).toBe(0)
+    // Above the apex the whole cone displaces
+    expect(calcVolumeToLevel(coneUp, 2_000)).toBeCloseTo(Math.PI * 144 * 2 - cone, 8)
+  })
+
+  it("flat bottom leaves the reference totals unchanged", () => {
+    const g = computeDerivedGeometry(base)
+    expect(g.bottomVolume).toBe(0)
+    expect(g.totalSurfaceArea).toBeCloseTo(calcShellSurfaceArea(D, H) + calcConeRoofArea(D), 8)
+  })
+})
+
 // ─── calcWettedArea ───────────────────────────────────────────────────────────
 
 describe("calcWettedArea", () => {
@@ -125,6 +298,266 @@ describe("calcWettedArea", () => {
     const atCap = calcWettedArea(D, 9_144)
     expect(tall).toBeCloseTo(atCap, 8)
   })
+
+  it("elevation lowers the 9144 mm cap measured from grade", () => {
+    // 3 m skirt → only 6144 mm of shell within the fire zone
+    expect(calcWettedArea(D, H, 3_000)).toBeCloseTo(Math.PI * 24 * 6.144, 6)
+  })
+
+  it("max liquid level below the cap governs", () => {
+    expect(calcWettedArea(D, H, 0, 6_000)).toBeCloseTo(calcShellSurfaceArea(D, 6_000), 8)
+  })
+})
+
+describe("calcWettedHeight", () => {
+  it("defaults to min(H, 9144)", () => {
+    expect(calcWettedHeight(H)).toBe(9_144)
+    expect(calcWettedHeight(5_000)).toBe(5_000)
+  })
+
+  it("takes the lowest of H, liquid level and cap − elevation", () => {
+    expect(calcWettedHeight(H, 2_000, 8_000)).toBe(7_144)
+    expect(calcWettedHeight(H, 2_000, 6_000)).toBe(6_000)
+  })
+
+  it("is zero when the tank bottom is above the fire zone", () => {
+    expect(calcWettedHeight(H, 10_000)).toBe(0)
+  })
+})
+
+// ─── Horizontal cylinder ──────────────────────────────────────────────────────
+// Bullet: D = 3000 mm, L = 12000 mm
+
+const HD = 3_000
+const HL = 12_000
+
+describe("horizontal heads", () => {
+  it("head depth: flat 0, 2:1 ellipsoidal D/4, hemispherical D/2", () => {
+    expect(calcHeadDepth(HD, "FLAT")).toBe(0)
+    expect(calcHeadDepth(HD, "ELLIPSOIDAL_2_1")).toBe(750)
+    expect(calcHeadDepth(HD, "HEMISPHERICAL")).toBe(1_500)
+  })
+
+  it("head area: flat π r², hemispherical 2π r², 2:1 ellipsoidal ≈ 1.084 D²", () => {
+    expect(calcHeadArea(HD, "FLAT")).toBeCloseTo(Math.PI * 1.5 * 1.5, 8)
+    expect(calcHeadArea(HD, "HEMISPHERICAL")).toBeCloseTo(2 * Math.PI * 1.5 * 1.5, 8)
+    expect(calcHeadArea(HD, "ELLIPSOIDAL_2_1")).toBeCloseTo(1.084 * 9, 2)
+  })
+
+  it("head volume: flat 0, 2:1 ellipsoidal π D³/24, hemispherical ⅔ π r³", () => {
+    expect(calcHeadVolume(HD, "FLAT")).toBe(0)
+    expect(calcHeadVolume(HD, "ELLIPSOIDAL_2_1")).toBeCloseTo((Math.PI * 27) / 24, 8)
+    expect(calcHeadVolume(HD, "HEMISPHERICAL")).toBeCloseTo((2 / 3) * Math.PI * 3.375, 8)
+  })
+})
+
+describe("calcHorizontalWettedArea", () => {
+  it("full height wets the entire shell and both heads", () => {
+    for (const head of ["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"] as const) {
+      const full = calcShellSurfaceArea(HD, HL) + 2 * calcHeadArea(HD, head)
+      expect(calcHorizontalWettedArea(HD, HL, head, HD), head).toBeCloseTo(full, 6)
+    }
+  })
+
+  it("half height wets exactly half the vessel", () => {
+    for (const head of ["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"] as const) {
+      const full = calcShellSurfaceArea(HD, HL) + 2 * calcHeadArea(HD, head)
+      expect(calcHorizontalWettedArea(HD, HL, head, HD / 2), head).toBeCloseTo(full / 2, 6)
+    }
+  })
+
+  it("zero height wets nothing", () => {
+    expect(calcHorizontalWettedArea(HD, HL, "FLAT", 0)).toBeCloseTo(0, 10)
+  })
+
+  it("hemispherical heads: wetted head area = 2π r h (sphere zone)", () => {
+    const h = 1_000
+    const shell = 1.5 * 2 * Math.acos((1.5 - 1) / 1.5) * 12
+    expect(calcHorizontalWettedArea(HD, HL, "HEMISPHERICAL", h))
+      .toBeCloseTo(shell + 2 * Math.PI * 1.5 * 1, 8)
+  })
+})
+
+describe("calcHorizontalLiquidVolume", () => {
+  it("full level holds shell + both heads", () => {
+    for (const head of ["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"] as const) {
+      const full = calcMaxTankVolume(HD, HL) + 2 * calcHeadVolume(HD, head)
+      expect(calcHorizontalLiquidVolume(HD, HL, head, HD), head).toBeCloseTo(full, 6)
+    }
+  })
+
+  it("half level holds exactly half the vessel", () => {
+    for (const head of ["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"] as const) {
+      const full = calcMaxTankVolume(HD, HL) + 2 * calcHeadVolume(HD, head)
+      expect(calcHorizontalLiquidVolume(HD, HL, head, HD / 2), head).toBeCloseTo(full / 2, 6)
+    }
+  })
+
+  it("hemispherical heads: both caps form a spherical cap π h² (3r − h) / 3", () => {
+    const h = 1.0
+    const r = 1.5
+    const segment = r * r * Math.acos((r - h) / r) - (r - h) * Math.sqrt(2 * r * h - h * h)
+    expect(calcHorizontalLiquidVolume(HD, HL, "HEMISPHERICAL", 1_000))
+      .toBeCloseTo(segment * 12 + Math.PI * h * h * (3 * r - h) / 3, 8)
+  })
+})
+
+describe("computeDerivedGeometry — horizontal cylinder", () => {
+  const horizontal: CalculationInput = {
+    tankNumber: "V-201",
+    tankShape: "HORIZONTAL_CYLINDER",
+    headType: "HEMISPHERICAL",
+    diameter: HD,
+    height: HL,
+    latitude: 12.7,
+    designPressure: 50,
+    tankConfiguration: TankConfiguration.BARE_METAL,
+    avgStorageTemp: 35,
+    vapourPressure: 5.6,
+    flashBoilingPointType: "FP",
+    incomingStreams: [],
+    outgoingStreams: [],
+    apiEdition: "7TH",
+  }
+
+  it("volume = shell + both heads", () => {
+    const g = computeDerivedGeometry(horizontal)
+    expect(g.maxTankVolume).toBeCloseTo(
+      calcMaxTankVolume(HD, HL) + 2 * calcHeadVolume(HD, "HEMISPHERICAL"), 8,
+    )
+    expect(g.headVolume).toBeCloseTo(2 * calcHeadVolume(HD, "HEMISPHERICAL"), 8)
+  })
+
+  it("total area = shell + both heads; no roof", () => {
+    const g = computeDerivedGeometry(horizontal)
+    expect(g.roofArea).toBe(0)
+    expect(g.roofVolume).toBe(0)
+    expect(g.totalSurfaceArea).toBeCloseTo(
+      calcShellSurfaceArea(HD, HL) + 2 * calcHeadArea(HD, "HEMISPHERICAL"), 8,
+    )
+  })
+
+  it("vessel below 9,144 mm is fully wetted", () => {
+    const g = computeDerivedGeometry(horizontal)
+    expect(g.wettedHeight).toBe(HD)
+    expect(g.wettedArea).toBeCloseTo(g.totalSurfaceArea, 6)
+  })
+
+  it("vessel taller than 9,144 mm is wetted to the cap only", () => {
+    const g = computeDerivedGeometry({ ...horizontal, diameter: 12_000 })
+    expect(g.wettedHeight).toBe(9_144)
+    expect(g.wettedArea).toBeLessThan(g.totalSurfaceArea)
+  })
+
+  it("wetted area is at least 75 % of the total surface", () => {
+    // Raised so the fire reaches 1,200 mm of the 3,000 mm shell: zone ≈ 57.1 m² < 0.75 × 132.6 m²
+    const raised = { ...horizontal, headType: undefined, elevation: 7_944 }
+    const g = computeDerivedGeometry(raised)
+    expect(g.wettedHeight).toBe(1_200)
+    expect(calcHorizontalWettedArea(HD, HL, "ELLIPSOIDAL_2_1", 1_200)).toBeCloseTo(57.1, 1)
+    expect(g.totalSurfaceArea).toBeCloseTo(132.6, 1)
+    expect(g.wettedArea).toBeCloseTo(0.75 * g.totalSurfaceArea, 8) // ≈ 99.5 m²
+  })
+
+  it("max liquid level does not cut the wetted area below the 75 % floor", () => {
+    // D 3000, L 12000 on 1 m supports, LL_max 1200: the whole vessel lies within 9,144 mm of grade
+    const g = computeDerivedGeometry({ ...horizontal, headType: undefined, elevation: 1_000, maxLiquidLevel: 1_200 })
+    expect(g.wettedHeight).toBe(HD)
+    expect(g.wettedArea).toBeCloseTo(g.totalSurfaceArea, 6)
+    expect(g.wettedArea).toBeGreaterThan(0.75 * g.totalSurfaceArea)
+  })
+
+  it("head type defaults to 2:1 ellipsoidal", () => {
+    const g = computeDerivedGeometry({ ...horizontal, headType: undefined })
+    expect(g.headArea).toBeCloseTo(2 * calcHeadArea(HD, "ELLIPSOIDAL_2_1"), 8)
+  })
+})
+
+// ─── Sphere / spheroid ────────────────────────────────────────────────────────
+// Sphere: D = 15,000 mm; oblate spheroid: D = 20,000 mm, H = 12,000 mm
+
+describe("sphere and spheroid geometry", () => {
+  it("sphere: V = π D³ / 6, A = π D²", () => {
+    expect(calcSpheroidVolume(15_000, 15_000)).toBeCloseTo(Math.PI * Math.pow(15, 3) / 6, 8)
+    expect(calcSpheroidSurfaceArea(15_000, 15_000)).toBeCloseTo(Math.PI * 225, 8)
+  })
+
+  it("sphere zone area = 2π r h", () => {
+    expect(calcSpheroidWettedArea(15_000, 15_000, 4_000)).toBeCloseTo(2 * Math.PI * 7.5 * 4, 8)
+  })
+
+  it("oblate spheroid area matches the closed form", () => {
+    // A = 2π a² + π c² / ε × ln((1 + ε) / (1 − ε)),  ε = √(1 − c²/a²)
+    const a = 10
+    const c = 6
+    const eps = Math.sqrt(1 - (c * c) / (a * a))
+    const expected = 2 * Math.PI * a * a + (Math.PI * c * c / eps) * Math.log((1 + eps) / (1 - eps))
+    expect(calcSpheroidSurfaceArea(20_000, 12_000)).toBeCloseTo(expected, 6)
+  })
+
+  it("prolate spheroid area matches the closed form", () => {
+    // A = 2π a² (1 + c / (a ε) × asin ε),  ε = √(1 − a²/c²)
+    const a = 5
+    const c = 8
+    const eps = Math.sqrt(1 - (a * a) / (c * c))
+    const expected = 2 * Math.PI * a * a * (1 + (c / (a * eps)) * Math.asin(eps))
+    expect(calcSpheroidSurfaceArea(10_000, 16_000)).toBeCloseTo(expected, 6)
+  })
+
+  it("half height wets half the spheroid and holds half its volume", () => {
+    expect(calcSpheroidWettedArea(20_000, 12_000, 6_000))
+      .toBeCloseTo(calcSpheroidSurfaceArea(20_000, 12_000) / 2, 8)
+    expect(calcSpheroidLiquidVolume(20_000, 12_000, 6_000))
+      .toBeCloseTo(calcSpheroidVolume(20_000, 12_000) / 2, 8)
+  })
+})
+
+describe("computeDerivedGeometry — sphere", () => {
+  const sphere: CalculationInput = {
+    tankNumber: "TK-501",
+    tankShape: "SPHERE",
+    diameter: 15_000,
+    height: 1,            // ignored for SPHERE
+    elevation: 3_000,     // support height
+    latitude: 12.7,
+    designPressure: 50,
+    tankConfiguration: TankConfiguration.BARE_METAL,
+    avgStorageTemp: 35,
+    vapourPressure: 5.6,
+    flashBoilingPointType: "FP",
+    incomingStreams: [],
+    outgoingStreams: [],
+    apiEdition: "7TH",
+  }
+
+  it("uses D for both axes and has no roof, heads or bottom", () => {
+    const g = computeDerivedGeometry(sphere)
+    expect(g.maxTankVolume).toBeCloseTo(Math.PI * Math.pow(15, 3) / 6, 8)
+    expect(g.totalSurfaceArea).toBeCloseTo(Math.PI * 225, 8)
+    expect(g.roofArea + g.headArea + g.bottomArea).toBe(0)
+  })
+
+  it("wets the body up to 9,144 mm above grade less the support height", () => {
+    // Grade-mounted: zone 9.144 m of 15 m ≈ 431 m² > 0.55 × 706.9 m²
+    const g = computeDerivedGeometry({ ...sphere, elevation: 0 })
+    expect(g.wettedHeight).toBe(9_144)
+    expect(g.wettedArea).toBeCloseTo(2 * Math.PI * 7.5 * 9.144, 8)
+  })
+
+  it("wetted area is at least 55 % of the total surface", () => {
+    // On 5 m supports the zone is 4.144 m ≈ 195 m²; 55 % of 706.9 m² ≈ 389 m² governs
+    const g = computeDerivedGeometry({ ...sphere, elevation: 5_000 })
+    expect(g.wettedHeight).toBe(4_144)
+    expect(calcSpheroidWettedArea(15_000, 15_000, 4_144)).toBeCloseTo(195.3, 1)
+    expect(g.wettedArea).toBeCloseTo(0.55 * Math.PI * 225, 8)
+    expect(computeDerivedGeometry(sphere).wettedArea).toBeCloseTo(0.55 * Math.PI * 225, 8)
+  })
+
+  it("max liquid level does not reduce the wetted zone", () => {
+    const g = computeDerivedGeometry({ ...sphere, elevation: 0, maxLiquidLevel: 2_000 })
+    expect(g.wettedHeight).toBe(9_144)
+    expect(g.wettedArea).toBeCloseTo(2 * Math.PI * 7.5 * 9.144, 8)
+  })
 })
 
 // ─── calcR_in ─────────────────────────────────────────────────────────────────
@@ -214,9 +647,11 @@ describe("computeDerivedGeometry", () => {
     const g = computeDerivedGeometry(BASE_INPUT)
     expect(g.maxTankVolume).toBeCloseTo(7916.81, 1)
     expect(g.shellSurfaceArea).toBeCloseTo(1319.47, 1)
-    expect(g.coneRoofArea).toBeCloseTo(458.63, 1)
+    expect(g.roofArea).toBeCloseTo(458.63, 1)
     expect(g.totalSurfaceArea).toBeCloseTo(1319.47 + 458.63, 0)
     expect(g.wettedArea).toBeCloseTo(689.44, 1)
+    expect(g.wettedHeight).toBe(9_144)
+    expect(g.headArea).toBe(0)
     expect(g.reductionFactor).toBe(1.0)
   })
 
@@ -236,6 +671,28 @@ describe("computeDerivedGeometry", () => {
     }
   })
 
+  it("dome roof flows into roofArea, roofVolume and totalSurfaceArea", () => {
+    const g = computeDerivedGeometry({ ...BASE_INPUT, roofType: "DOME", roofRadius: D })
+    expect(g.roofArea).toBeCloseTo(calcDomeRoofArea(D, D), 8)
+    expect(g.roofVolume).toBeCloseTo(calcDomeRoofVolume(D, D), 8)
+    expect(g.totalSurfaceArea).toBeCloseTo(calcShellSurfaceArea(D, H) + calcDomeRoofArea(D, D), 8)
+  })
+
+  it("flat roof lowers R_inp denominator (A_TTS) vs the default cone", () => {
+    const partial = {
+      ...BASE_INPUT,
+      tankConfiguration: TankConfiguration.INSULATED_PARTIAL,
+      insideHeatTransferCoeff: 5.7,
+      insulationThickness: 102,
+      insulationConductivity: 0.05,
+      insulatedSurfaceArea: 500,
+    }
+    const cone = computeDerivedGeometry(partial)
+    const flat = computeDerivedGeometry({ ...partial, roofType: "FLAT" })
+    expect(flat.totalSurfaceArea).toBeLessThan(cone.totalSurfaceArea)
+    expect(flat.reductionFactor).toBeLessThan(cone.reductionFactor)
+  })
+
   describe("INSULATED_FULL", () => {
     const insulatedInput: CalculationInput = {
       ...BASE_INPUT,
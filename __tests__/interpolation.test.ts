@@ -4,7 +4,14 @@ import { getYFactor } from "@/lib/lookups/yFactor"
 import { getCFactor, isLowVolatility } from "@/lib/lookups/cFactor"
 import { getFFactorInsulated, getEnvironmentalFactor } from "@/lib/lookups/fFactor"
 import { normalVentInbreathing, normalVentOutbreathing } from "@/lib/lookups/normalVentTable"
+import { annexAInbreathing, annexAOutbreathing } from "@/lib/lookups/annexATable"
 import { emergencyVentTableLookup } from "@/lib/lookups/emergencyVentTable"
+import {
+  parseStrappingCsv,
+  strappingLevelAt,
+  strappingTop,
+  strappingVolumeAt,
+} from "@/lib/lookups/strapping"
 import { TankConfiguration } from "@/types"
 
 // ─── Generic interpolate() ────────────────────────────────────────────────────
@@ -290,6 +297,39 @@ describe("normalVentOutbreathing", () => {
   })
 })
 
+// ─── Annex A Thermal Table ────────────────────────────────────────────────────
+
+describe("annexAInbreathing / annexAOutbreathing", () => {
+  it("returns exact table values at 1000 m³", () => {
+    expect(annexAInbreathing(1000)).toBeCloseTo(169, 4)
+    expect(annexAOutbreathing(1000, true)).toBeCloseTo(101, 4)
+    expect(annexAOutbreathing(1000, false)).toBeCloseTo(169, 4)
+  })
+
+  it("returns the 700, 1500 and 3180 m³ rows exactly", () => {
+    expect(annexAInbreathing(700)).toBeCloseTo(118, 4)
+    expect(annexAOutbreathing(700, true)).toBeCloseTo(70.8, 4)
+    expect(annexAInbreathing(1500)).toBeCloseTo(253, 4)
+    expect(annexAOutbreathing(1500, true)).toBeCloseTo(152, 4)
+    expect(annexAInbreathing(3180)).toBeCloseTo(536, 4)
+    expect(annexAOutbreathing(3180, true)).toBeCloseTo(322, 4)
+    expect(annexAOutbreathing(3180, false)).toBeCloseTo(536, 4)
+  })
+
+  it("reference case: capacity 7916.81 m³ → interpolated between 7000 and 8000", () => {
+    const inb = 1003 + (1077 - 1003) / (8000 - 7000) * (7916.81 - 7000)
+    const lowVol = 602 + (646 - 602) / (8000 - 7000) * (7916.81 - 7000)
+    expect(annexAInbreathing(7916.81)).toBeCloseTo(inb, 4)
+    expect(annexAOutbreathing(7916.81, false)).toBeCloseTo(inb, 4)
+    expect(annexAOutbreathing(7916.81, true)).toBeCloseTo(lowVol, 4)
+  })
+
+  it("clamps at the table boundaries", () => {
+    expect(annexAInbreathing(1)).toBeCloseTo(1.69, 4)
+    expect(annexAOutbreathing(50000, true)).toBeCloseTo(1497, 4)
+  })
+})
+
 // ─── Emergency Venting Table ──────────────────────────────────────────────────
 
 describe("emergencyVentTableLookup", () => {
@@ -320,3 +360,41 @@ describe("emergencyVentTableLookup", () => {
     expect(emergencyVentTableLookup(689.44)).toBeCloseTo(19910, 2)
   })
 })
+
+// ─── Strapping Table ──────────────────────────────────────────────────────────
+
+describe("strapping table", () => {
+  const TABLE = {
+    points: [
+      { level: 0, volume: 0 },
+      { level: 1_000, volume: 400 },
+      { level: 2_000, volume: 1_000 },
+    ],
+  }
+
+  it("interpolates volume between calibration points", () => {
+    expect(strappingVolumeAt(TABLE, 1_500)).toBeCloseTo(700, 8)
+  })
+
+  it("inverts volume → level", () => {
+    expect(strappingLevelAt(TABLE, 700)).toBeCloseTo(1_500, 8)
+  })
+
+  it("clamps beyond the top of the table", () => {
+    expect(strappingVolumeAt(TABLE, 5_000)).toBe(1_000)
+    expect(strappingTop(TABLE)).toEqual({ level: 2_000, volume: 1_000 })
+  })
+
+  it("parses a CSV with header, semicolons and unordered rows", () => {
+    const csv = "Level (mm);Volume (m3)\n2000;1000\n\n0;0\n1000;400\n"
+    expect(parseStrappingCsv(csv, "TK-1.csv")).toEqual({ source: "TK-1.csv", ...TABLE })
+  })
+
+  it("rejects a malformed row with its line number", () => {
+    expect(() => parseStrappingCsv("0,0\n1000,abc\n")).toThrow(/line 2/)
+  })
+
+  it("rejects a CSV with fewer than two rows", () => {
+    expect(() => parseStrappingCsv("level,volume\n0,0")).toThrow(/at least two/)
+  })
+})
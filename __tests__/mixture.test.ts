@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest"
+import { calcMixtureProperties, isMixtureFluid } from "@/lib/calculations/mixture"
+import { computeEmergencyVenting } from "@/lib/calculations/emergencyVenting"
+import { computeDerivedGeometry } from "@/lib/calculations/geometry"
+import { calcSaturationTemperature, calcVapourPressure } from "@/lib/calculations/vapourPressure"
+import { calculate } from "@/lib/calculations"
+import { getFluid } from "@/lib/lookups/fluids"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput, MixtureComponent } from "@/types"
+
+// Design pressure ≈ 0 → relieving at atmospheric, where textbook bubble points apply
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 0,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+
+const BENZENE_TOLUENE: MixtureComponent[] = [
+  { fluidId: "benzene", fraction: 0.5 },
+  { fluidId: "toluene", fraction: 0.5 },
+]
+
+const benzene = getFluid("benzene")!
+const toluene = getFluid("toluene")!
+
+describe("isMixtureFluid", () => {
+  it("accepts a library fluid with vapour pressure, L and M", () => {
+    expect(isMixtureFluid(benzene)).toBe(true)
+  })
+
+  it("rejects a fluid missing any of them, or none at all", () => {
+    expect(isMixtureFluid({ ...benzene, latentHeat: undefined })).toBe(false)
+    expect(isMixtureFluid({ ...benzene, vapourPressure: undefined })).toBe(false)
+    expect(isMixtureFluid({ ...benzene, molecularMass: undefined })).toBe(false)
+    expect(isMixtureFluid(undefined)).toBe(false)
+  })
+})
+
+describe("calcMixtureProperties", () => {
+  it("undefined without components", () => {
+    expect(calcMixtureProperties(INPUT)).toBeUndefined()
+    expect(calcMixtureProperties({ ...INPUT, mixtureComponents: [] })).toBeUndefined()
+  })
+
+  it("single component: pure fluid boiling at the relieving pressure", () => {
+    const r = calcMixtureProperties({ ...INPUT, mixtureComponents: [{ fluidId: "toluene", fraction: 1 }] })!
+    expect(r.molecularMass).toBeCloseTo(toluene.molecularMass!, 10)
+    expect(r.latentHeat).toBeCloseTo(toluene.latentHeat!, 10)
+    expect(r.bubbleTemperature).toBeCloseTo(calcSaturationTemperature(toluene.vapourPressure!, 101.325)!, 6)
+  })
+
+  it("equimolar benzene / toluene bubbles at ≈ 92 °C at 1 atm", () => {
+    const r = calcMixtureProperties({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })!
+    expect(r.basis).toBe("MOLE")
+    expect(r.relievingPressure).toBeCloseTo(101.325, 6)
+    expect(r.bubbleTemperature).toBeGreaterThan(91)
+    expect(r.bubbleTemperature).toBeLessThan(93.5)
+    // Raoult: Σ x_i P_i = P at the bubble point
+    const sum = r.components.reduce((s, c) => s + c.moleFraction * c.vapourPressure, 0)
+    expect(sum).toBeCloseTo(101.325, 4)
+  })
+
+  it("M is mole-weighted, L mass-weighted", () => {
+    const r = calcMixtureProperties({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })!
+    const m = 0.5 * benzene.molecularMass! + 0.5 * toluene.molecularMass!
+    expect(r.molecularMass).toBeCloseTo(m, 10)
+    const wBenzene = (0.5 * benzene.molecularMass!) / m
+    expect(r.components[0].massFraction).toBeCloseTo(wBenzene, 10)
+    const [lB, lT] = r.components.map((c) => c.latentHeat)
+    expect(r.latentHeat).toBeCloseTo(wBenzene * lB + (1 - wBenzene) * lT, 10)
+  })
+
+  it("component L is Watson-corrected from its boiling point to the bubble temperature", () => {
+    // Benzene (bp 80 °C) is above, toluene (bp 111 °C) below its boiling point at ≈ 92 °C
+    const r = calcMixtureProperties({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })!
+    const tB = calcSaturationTemperature(benzene.vapourPressure!, 101.325)!
+    const tC = benzene.criticalTemperature!
+    const watson = benzene.latentHeat! * Math.pow((tC - r.bubbleTemperature) / (tC - tB), 0.38)
+    expect(r.components[0].latentHeat).toBeCloseTo(watson, 10)
+    expect(r.components[0].latentHeat).toBeLessThan(benzene.latentHeat!)
+    expect(r.components[1].latentHeat).toBeGreaterThan(toluene.latentHeat!)
+  })
+
+  it("mass basis converts to mole fractions through M", () => {
+    const r = calcMixtureProperties({
+      ...INPUT,
+      mixtureComponents: BENZENE_TOLUENE,
+      compositionBasis: "MASS",
+    })!
+    const nB = 0.5 / benzene.molecularMass!
+    const nT = 0.5 / toluene.molecularMass!
+    expect(r.components[0].moleFraction).toBeCloseTo(nB / (nB + nT), 10) // ≈ 0.541
+    expect(r.components[0].massFraction).toBeCloseTo(0.5, 10)
+  })
+
+  it("fractions are normalised — percentages give the same result", () => {
+    const a = calcMixtureProperties({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })!
+    const b = calcMixtureProperties({
+      ...INPUT,
+      mixtureComponents: [
+        { fluidId: "benzene", fraction: 50 },
+        { fluidId: "toluene", fraction: 50 },
+      ],
+    })!
+    expect(b.bubbleTemperature).toBeCloseTo(a.bubbleTemperature, 8)
+  })
+
+  it("a higher relieving pressure raises the bubble temperature", () => {
+    const atm = calcMixtureProperties({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })!
+    const pressurised = calcMixtureProperties({ ...INPUT, designPressure: 50, mixtureComponents: BENZENE_TOLUENE })!
+    expect(pressurised.relievingPressure).toBeCloseTo(151.325, 6)
+    expect(pressurised.bubbleTemperature).toBeGreaterThan(atm.bubbleTemperature)
+  })
+
+  it("undefined for an unknown fluid or without a bubble point", () => {
+    expect(
+      calcMixtureProperties({ ...INPUT, mixtureComponents: [{ fluidId: "unobtainium", fraction: 1 }] }),
+    ).toBeUndefined()
+    // Diesel will not boil at 1000 kPa below 400 °C
+    expect(
+      calcMixtureProperties({ ...INPUT, designPressure: 1000, mixtureComponents: [{ fluidId: "diesel", fraction: 1 }] }),
+    ).toBeUndefined()
+  })
+})
+
+describe("emergency venting with a mixture", () => {
+  const mixture = calcMixtureProperties({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })!
+  const derived = computeDerivedGeometry(INPUT)
+
+  it("feeds L, T_r and M into the Eq. 14 general formula and reports the derivation", () => {
+    const r = computeEmergencyVenting(INPUT, derived, mixture)
+    const expected =
+      ((906.6 * r.heatInput * r.environmentalFactor) / (1000 * mixture.latentHeat)) *
+      Math.sqrt((mixture.bubbleTemperature + 273.15) / mixture.molecularMass)
+    expect(r.referenceFluid).toBe("User-defined")
+    expect(r.emergencyVentRequired).toBeCloseTo(expected, 6)
+    expect(r.mixture).toBe(mixture)
+  })
+
+  it("mixture values take precedence over typed L, T_r and M", () => {
+    const typed = { ...INPUT, latentHeat: 500, relievingTemperature: 20, molecularMass: 40 }
+    expect(computeEmergencyVenting(typed, derived, mixture).emergencyVentRequired).toBeCloseTo(
+      computeEmergencyVenting(INPUT, derived, mixture).emergencyVentRequired,
+      8,
+    )
+  })
+
+  it("calculate() uses the mixture for emergency venting and the vapour flows", () => {
+    const r = calculate({ ...INPUT, mixtureComponents: BENZENE_TOLUENE })
+    expect(r.emergencyVenting.mixture?.bubbleTemperature).toBeCloseTo(mixture.bubbleTemperature, 8)
+    expect(r.vapourFlows.molecularMass).toBeCloseTo(mixture.molecularMass, 8)
+    expect(r.vapourFlows.relievingTemperature).toBeCloseTo(mixture.bubbleTemperature, 8)
+    expect(r.warnings.hexaneDefaults).toBe(false)
+    expect(calculate(INPUT).emergencyVenting.mixture).toBeUndefined()
+  })
+
+  it("component vapour pressures are reported at the bubble temperature", () => {
+    expect(mixture.components[1].vapourPressure).toBeCloseTo(
+      calcVapourPressure(toluene.vapourPressure!, mixture.bubbleTemperature),
+      10,
+    )
+  })
+})
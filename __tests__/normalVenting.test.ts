@@ -1,9 +1,14 @@
 import { describe, it, expect } from "vitest"
-import { computeNormalVenting } from "@/lib/calculations/normalVenting"
+import {
+  calcHeatedThermalInbreathing,
+  computeNormalVenting,
+  resolveThermalCapacity,
+} from "@/lib/calculations/normalVenting"
 import { computeDerivedGeometry } from "@/lib/calculations/geometry"
 import { normalVentInbreathing, normalVentOutbreathing } from "@/lib/lookups/normalVentTable"
-import { TankConfiguration } from "@/types"
-import type { CalculationInput, DerivedGeometry } from "@/types"
+import { annexAInbreathing, annexAOutbreathing } from "@/lib/lookups/annexATable"
+import { FloatingRoofType, TankConfiguration } from "@/types"
+import type { CalculationInput, Compartment, DerivedGeometry } from "@/types"
 
 // ─── Reference geometry (pre-computed for speed) ──────────────────────────────
 const REF_INPUT: CalculationInput = {
@@ -196,6 +201,75 @@ describe("computeNormalVenting — 6th edition", () => {
   })
 })
 
+// ─── ISO 28300 ───────────────────────────────────────────────────────────────
+
+describe("computeNormalVenting — ISO 28300", () => {
+  it("process outbreathing: 1.0 × sum of incoming flowrates (as 6th ed)", () => {
+    const r = computeNormalVenting(
+      makeInput({ apiEdition: "ISO_28300", incomingStreams: [{ streamNo: "S-9", flowrate: 123.4 }] }),
+      REF_DERIVED,
+    )
+    expect(r.outbreathing.processFlowrate).toBeCloseTo(123.4, 8)
+  })
+
+  it("totals match the 6th edition", () => {
+    const r6 = computeNormalVenting(makeInput({ apiEdition: "6TH" }), REF_DERIVED)
+    const rIso = computeNormalVenting(makeInput({ apiEdition: "ISO_28300" }), REF_DERIVED)
+    expect(rIso.outbreathing.total).toBeCloseTo(r6.outbreathing.total, 8)
+    expect(rIso.inbreathing.total).toBeCloseTo(r6.inbreathing.total, 8)
+  })
+})
+
+// ─── Annex A thermal method ──────────────────────────────────────────────────
+
+describe("computeNormalVenting — Annex A thermal method", () => {
+  const annexA = makeInput({ thermalVentingMethod: "ANNEX_A" })
+
+  it("thermal rates come from the Annex A table × R", () => {
+    const cap = REF_DERIVED.maxTankVolume
+    const r = computeNormalVenting(annexA, REF_DERIVED)
+    expect(r.outbreathing.thermalOutbreathing).toBeCloseTo(annexAOutbreathing(cap, false), 5)
+    expect(r.inbreathing.thermalInbreathing).toBeCloseTo(annexAInbreathing(cap), 5)
+  })
+
+  it("Y and C are not applied (reported as 1)", () => {
+    const r = computeNormalVenting(annexA, REF_DERIVED)
+    expect(r.outbreathing.yFactor).toBe(1)
+    expect(r.inbreathing.cFactor).toBe(1)
+  })
+
+  it("total keeps the edition rule (process + thermal)", () => {
+    const r = computeNormalVenting(annexA, REF_DERIVED)
+    expect(r.inbreathing.total).toBeCloseTo(
+      r.inbreathing.processFlowrate + r.inbreathing.thermalInbreathing, 8,
+    )
+  })
+
+  it("low-volatility fluids use the FP ≥ 37.8 °C outbreathing column", () => {
+    const cap = REF_DERIVED.maxTankVolume
+    const r = computeNormalVenting(
+      makeInput({ apiEdition: "6TH", thermalVentingMethod: "ANNEX_A", flashBoilingPoint: 60 }),
+      REF_DERIVED,
+    )
+    expect(r.outbreathing.thermalOutbreathing).toBeCloseTo(annexAOutbreathing(cap, true), 5)
+  })
+
+  it("reports the thermal venting method, defaulting to FORMULA", () => {
+    expect(computeNormalVenting(annexA, REF_DERIVED).thermalVentingMethod).toBe("ANNEX_A")
+    expect(computeNormalVenting(REF_INPUT, REF_DERIVED).thermalVentingMethod).toBe("FORMULA")
+  })
+
+  it("is ignored for the 5th edition (always tabulated)", () => {
+    const r5 = computeNormalVenting(makeInput({ apiEdition: "5TH" }), REF_DERIVED)
+    const r5a = computeNormalVenting(
+      makeInput({ apiEdition: "5TH", thermalVentingMethod: "ANNEX_A" }),
+      REF_DERIVED,
+    )
+    expect(r5a.thermalVentingMethod).toBeUndefined()
+    expect(r5a.outbreathing.total).toBeCloseTo(r5.outbreathing.total, 8)
+  })
+})
+
 // ─── 5th Edition ─────────────────────────────────────────────────────────────
 
 describe("computeNormalVenting — 5th edition", () => {
@@ -283,3 +357,352 @@ describe("computeNormalVenting — 5th edition", () => {
     expect(r.outbreathing.total).toBeCloseTo(r.outbreathing.processFlowrate, 8)
   })
 })
+
+// ─── Thermal capacity basis ──────────────────────────────────────────────────
+
+describe("resolveThermalCapacity", () => {
+  it("defaults to the geometric volume", () => {
+    expect(resolveThermalCapacity(REF_INPUT, REF_DERIVED)).toEqual({
+      value: REF_DERIVED.maxTankVolume,
+      basis: "GEOMETRIC",
+    })
+  })
+
+  it("nominal capacity takes precedence over HHLL and ullage", () => {
+    const input = makeInput({ nominalCapacity: 7_500, highHighLiquidLevel: 15_000, ullage: 200 })
+    expect(resolveThermalCapacity(input, REF_DERIVED)).toEqual({ value: 7_500, basis: "NOMINAL" })
+  })
+
+  it("HHLL → shell volume up to the level", () => {
+    const c = resolveThermalCapacity(makeInput({ highHighLiquidLevel: 15_000 }), REF_DERIVED)
+    expect(c.basis).toBe("HIGH_HIGH_LEVEL")
+    expect(c.value).toBeCloseTo(Math.PI * 144 * 15, 6)
+  })
+
+  it("ullage is subtracted from the geometric volume", () => {
+    const c = resolveThermalCapacity(makeInput({ ullage: 400 }), REF_DERIVED)
+    expect(c.basis).toBe("ULLAGE")
+    expect(c.value).toBeCloseTo(REF_DERIVED.maxTankVolume - 400, 8)
+  })
+
+  it("strapping table → top volume, with the liquid level holding it", () => {
+    const strappingTable = { points: [{ level: 0, volume: 0 }, { level: 16_000, volume: 7_000 }] }
+    const input = makeInput({ strappingTable })
+    const c = resolveThermalCapacity(input, computeDerivedGeometry(input))
+    expect(c).toEqual({ value: 7_000, basis: "STRAPPING", level: 16_000 })
+  })
+
+  it("HHLL reads its volume from the strapping table", () => {
+    const strappingTable = { points: [{ level: 0, volume: 0 }, { level: 16_000, volume: 8_000 }] }
+    const input = makeInput({ strappingTable, highHighLiquidLevel: 12_000 })
+    const c = resolveThermalCapacity(input, computeDerivedGeometry(input))
+    expect(c.basis).toBe("HIGH_HIGH_LEVEL")
+    expect(c.value).toBeCloseTo(6_000, 8)
+    expect(c.level).toBeCloseTo(12_000, 8)
+  })
+
+  it("thermal venting uses the resolved capacity", () => {
+    const input = makeInput({ nominalCapacity: 5_000 })
+    const r = computeNormalVenting(input, REF_DERIVED)
+    expect(r.capacity.basis).toBe("NOMINAL")
+    expect(r.outbreathing.thermalOutbreathing).toBeCloseTo(0.32 * Math.pow(5_000, 0.9), 6)
+    expect(r.inbreathing.thermalInbreathing).toBeCloseTo(6.5 * Math.pow(5_000, 0.7), 6)
+  })
+
+  it("5th edition table lookup uses the resolved capacity", () => {
+    const input = makeInput({ apiEdition: "5TH", nominalCapacity: 5_000 })
+    const r = computeNormalVenting(input, REF_DERIVED)
+    expect(r.inbreathing.thermalInbreathing).toBeCloseTo(normalVentInbreathing(5_000), 6)
+  })
+})
+
+// ─── Floating roof ───────────────────────────────────────────────────────────
+
+describe("computeNormalVenting — floating roof", () => {
+  const ifr = makeInput({
+    floatingRoofType: FloatingRoofType.INTERNAL,
+    roofLegHeight: 1_800,
+    incomingStreams: [{ streamNo: "S-2", flowrate: 200 }],
+  })
+
+  it("fixed-roof tanks report no roof-landed scenario", () => {
+    expect(computeNormalVenting(REF_INPUT, REF_DERIVED).roofLanded).toBeUndefined()
+  })
+
+  it("deck floating: no venting through the rim / bleeder vents", () => {
+    const r = computeNormalVenting(ifr, REF_DERIVED)
+    expect(r.outbreathing.total).toBe(0)
+    expect(r.inbreathing.total).toBe(0)
+  })
+
+  it("roof landed: vapour space = π r² × leg height", () => {
+    const r = computeNormalVenting(ifr, REF_DERIVED)
+    expect(r.roofLanded?.vapourSpaceVolume).toBeCloseTo(Math.PI * 144 * 1.8, 6)
+  })
+
+  it("roof landed: thermal breathing over the under-deck space, process at full rate", () => {
+    const r = computeNormalVenting(ifr, REF_DERIVED)
+    const v = Math.PI * 144 * 1.8
+    expect(r.roofLanded?.outbreathing.thermalOutbreathing).toBeCloseTo(0.32 * Math.pow(v, 0.9), 6)
+    expect(r.roofLanded?.outbreathing.processFlowrate).toBeCloseTo(400, 6) // VP 5.6 kPa → 2.0×
+    expect(r.roofLanded?.inbreathing.processFlowrate).toBeCloseTo(368.9, 6)
+  })
+
+  it("is ignored for non-vertical shapes", () => {
+    const input = { ...ifr, tankShape: "SPHERE" as const }
+    expect(computeNormalVenting(input, computeDerivedGeometry(input)).roofLanded).toBeUndefined()
+  })
+})
+
+// ─── Compartments ────────────────────────────────────────────────────────────
+
+describe("computeNormalVenting — compartments", () => {
+  const NORTH: Compartment = {
+    name: "North",
+    capacity: 4_000,
+    avgStorageTemp: 35,
+    vapourPressure: 10,
+    flashBoilingPointType: "FP",
+    incomingStreams: [{ streamNo: "S-1", flowrate: 100 }],
+    outgoingStreams: [],
+  }
+  const SOUTH: Compartment = {
+    name: "South",
+    capacity: 3_000,
+    avgStorageTemp: 35,
+    vapourPressure: 2,
+    flashBoilingPointType: "FP",
+    flashBoilingPoint: 60,
+    incomingStreams: [{ streamNo: "S-2", flowrate: 50 }],
+    outgoingStreams: [{ streamNo: "S-3", flowrate: 80 }],
+  }
+
+  /** The compartment vented on its own as a single tank of its capacity. */
+  function alone(c: Compartment) {
+    return computeNormalVenting(makeInput({ ...c, nominalCapacity: c.capacity }), REF_DERIVED)
+  }
+
+  it("single-compartment tanks report no compartments", () => {
+    expect(computeNormalVenting(REF_INPUT, REF_DERIVED).compartments).toBeUndefined()
+  })
+
+  it("SEPARATE: each compartment breathes over its own capacity", () => {
+    const input = makeInput({ compartments: [NORTH, SOUTH], vapourSpaceMode: "SEPARATE" })
+    const r = computeNormalVenting(input, REF_DERIVED)
+    expect(r.compartments?.[0].outbreathing).toEqual(alone(NORTH).outbreathing)
+    expect(r.compartments?.[1].inbreathing).toEqual(alone(SOUTH).inbreathing)
+    expect(r.compartments?.[1].capacity).toBe(3_000)
+  })
+
+  it("SEPARATE: tank-level flows are the governing compartment's", () => {
+    const input = makeInput({ compartments: [NORTH, SOUTH], vapourSpaceMode: "SEPARATE" })
+    const r = computeNormalVenting(input, REF_DERIVED)
+    const expectedOut = Math.max(alone(NORTH).outbreathing.total, alone(SOUTH).outbreathing.total)
+    const expectedIn = Math.max(alone(NORTH).inbreathing.total, alone(SOUTH).inbreathing.total)
+    expect(r.outbreathing.total).toBeCloseTo(expectedOut, 8)
+    expect(r.inbreathing.total).toBeCloseTo(expectedIn, 8)
+  })
+
+  it("SHARED: process flows add up, thermal counted once over the tank V_tk", () => {
+    const r = computeNormalVenting(makeInput({ compartments: [NORTH, SOUTH] }), REF_DERIVED)
+    const v = REF_DERIVED.maxTankVolume
+    expect(r.vapourSpaceMode).toBe("SHARED")
+    expect(r.outbreathing.processFlowrate).toBeCloseTo(2.0 * 100 + 1.0 * 50, 8) // 7th: VP > 5 kPa → 2.0×
+    expect(r.outbreathing.thermalOutbreathing).toBeCloseTo(0.32 * Math.pow(v, 0.9), 6)
+    expect(r.outbreathing.total).toBeCloseTo(250 + 0.32 * Math.pow(v, 0.9), 6)
+    expect(r.inbreathing.processFlowrate).toBeCloseTo(80, 8)
+  })
+
+  it("SHARED: a simultaneity group spans compartments — only its largest stream runs", () => {
+    const group = (c: Compartment): Compartment => ({
+      ...c,
+      incomingStreams: c.incomingStreams.map((s) => ({ ...s, simultaneityGroup: "FILL" })),
+    })
+    const r = computeNormalVenting(makeInput({ compartments: [group(NORTH), group(SOUTH)] }), REF_DERIVED)
+    // North 100 m³/h × 2.0 = 200 beats South 50 m³/h × 1.0 = 50
+    expect(r.outbreathing.processFlowrate).toBeCloseTo(200, 8)
+    expect(r.outbreathing.processCase.running.map((s) => s.streamNo)).toEqual(["S-1"])
+    expect(r.outbreathing.processCase.idle.map((s) => s.streamNo)).toEqual(["S-2"])
+    expect(r.compartments?.[1].outbreathing.processFlowrate).toBeCloseTo(50, 8)
+  })
+
+  it("SHARED: thermal inbreathing follows the most onerous compartment fluid", () => {
+    const r = computeNormalVenting(makeInput({ compartments: [NORTH, SOUTH] }), REF_DERIVED)
+    const thermal = r.compartments!.map((c) => c.inbreathing.thermalInbreathing)
+    expect(r.inbreathing.thermalInbreathing).toBe(Math.max(...thermal))
+  })
+
+  it("SHARED 5th edition: total = max(process, thermal)", () => {
+    const input = makeInput({ apiEdition: "5TH", compartments: [NORTH, SOUTH] })
+    const r = computeNormalVenting(input, REF_DERIVED)
+    expect(r.outbreathing.total).toBe(
+      Math.max(r.outbreathing.processFlowrate, r.outbreathing.thermalOutbreathing),
+    )
+  })
+})
+
+// ─── Heated tanks ────────────────────────────────────────────────────────────
+
+describe("computeNormalVenting — heated tank", () => {
+  const bitumen = makeInput({ storageCondition: "HEATED", avgStorageTemp: 180, ambientTemp: 30 })
+
+  it("rainstorm cooling: Q / (c_p × T_a) × V_m", () => {
+    const q = (1 / (1 / 10 + 1 / 4)) * REF_DERIVED.totalSurfaceArea * 150 * REF_DERIVED.reductionFactor
+    const expected = (q / (29.1 * 303.15)) * 0.022414 * 3600
+    const { totalSurfaceArea, reductionFactor } = REF_DERIVED
+    expect(calcHeatedThermalInbreathing(bitumen, totalSurfaceArea, reductionFactor)).toBeCloseTo(expected, 6)
+  })
+
+  it("worked example: 1 000 m², 180 °C storage, 30 °C ambient, bare metal", () => {
+    // U_in = 1 / (1/10 + 1/4) = 2.857 W/m²·K → Q = 2.857 × 1 000 × 150 = 428.6 kW
+    // ṅ = 428 571 / (29.1 × 303.15) = 48.58 mol/s → 48.58 × 0.022414 × 3600 = 3 920.1 Nm³/h
+    expect(calcHeatedThermalInbreathing(bitumen, 1_000, 1)).toBeCloseTo(3_920.08, 2)
+  })
+
+  it("takes the rain cooling coefficient of the site-specific model", () => {
+    // h_rain = 20 → U_in = 1 / (1/20 + 1/4) = 3.333 W/m²·K
+    const wetter = { ...bitumen, rainCoolingHtc: 20 }
+    expect(calcHeatedThermalInbreathing(wetter, 1_000, 1)).toBeCloseTo((3_920.08 * (10 / 3)) / (20 / 7), 1)
+  })
+
+  it("heated case governs thermal inbreathing when larger", () => {
+    const r = computeNormalVenting(bitumen, REF_DERIVED)
+    expect(r.inbreathing.thermalMethod).toBe("HEATED")
+    expect(r.inbreathing.thermalInbreathing).toBeCloseTo(
+      calcHeatedThermalInbreathing(bitumen, REF_DERIVED.totalSurfaceArea, REF_DERIVED.reductionFactor),
+      6,
+    )
+    expect(r.inbreathing.total).toBeCloseTo(368.9 + r.inbreathing.thermalInbreathing, 6)
+  })
+
+  it("outbreathing is unaffected", () => {
+    expect(computeNormalVenting(bitumen, REF_DERIVED).outbreathing).toEqual(
+      computeNormalVenting(REF_INPUT, REF_DERIVED).outbreathing,
+    )
+  })
+
+  it("small storage-to-ambient difference keeps the standard method", () => {
+    const warm = makeInput({ storageCondition: "HEATED", avgStorageTemp: 35, ambientTemp: 34 })
+    expect(computeNormalVenting(warm, REF_DERIVED).inbreathing.thermalMethod).toBe("STANDARD")
+  })
+
+  it("ambient storage never uses the heated method", () => {
+    const r = computeNormalVenting(makeInput({ avgStorageTemp: 180, ambientTemp: 30 }), REF_DERIVED)
+    expect(r.inbreathing.thermalMethod).toBe("STANDARD")
+  })
+})
+
+// ─── Flash vapour ────────────────────────────────────────────────────────────
+
+describe("computeNormalVenting — hot feed flash", () => {
+  const hotFeed = makeInput({
+    incomingStreams: [{ streamNo: "S-1", flowrate: 100, flashFraction: 0.02 }],
+  })
+  const flash = ((100 * 655 * 0.02 * 1000) / 86.17) * 0.022414
+
+  it("flash vapour is its own line item, added to the 7th edition total", () => {
+    const r = computeNormalVenting(hotFeed, REF_DERIVED)
+    expect(r.outbreathing.flashFlowrate).toBeCloseTo(flash, 8)
+    expect(r.outbreathing.total).toBeCloseTo(
+      r.outbreathing.processFlowrate + flash + r.outbreathing.thermalOutbreathing,
+      8,
+    )
+  })
+
+  it("5th edition: flash joins the process term in max(process + flash, thermal)", () => {
+    const r = computeNormalVenting({ ...hotFeed, apiEdition: "5TH" }, REF_DERIVED)
+    expect(r.outbreathing.total).toBe(
+      Math.max(r.outbreathing.processFlowrate + flash, r.outbreathing.thermalOutbreathing),
+    )
+  })
+
+  it("no hot feeds → no flash", () => {
+    expect(computeNormalVenting(REF_INPUT, REF_DERIVED).outbreathing.flashFlowrate).toBe(0)
+  })
+})
+
+// ─── Heating coil rupture ─────────────────────────────────────────────────────
+
+describe("computeNormalVenting — heating coil rupture", () => {
+  const coil = { coilFluid: "STEAM" as const, coilPressure: 1_000, coilTubeDiameter: 40 }
+
+  it("no coil data → no coil rupture term", () => {
+    const r = computeNormalVenting(REF_INPUT, REF_DERIVED)
+    expect(r.coilRupture).toBeUndefined()
+    expect(r.outbreathing.coilRuptureFlowrate).toBe(0)
+  })
+
+  it("adds the rupture vapour on top of the 7th edition total", () => {
+    const base = computeNormalVenting(REF_INPUT, REF_DERIVED)
+    const r = computeNormalVenting(makeInput(coil), REF_DERIVED)
+    expect(r.outbreathing.coilRuptureFlowrate).toBeCloseTo(r.coilRupture?.flowrate ?? 0, 8)
+    expect(r.outbreathing.total).toBeCloseTo(base.outbreathing.total + r.outbreathing.coilRuptureFlowrate, 8)
+    expect(r.inbreathing.total).toBe(base.inbreathing.total)
+  })
+
+  it("5th edition: outside max(process, thermal)", () => {
+    const base = computeNormalVenting(makeInput({ apiEdition: "5TH" }), REF_DERIVED)
+    const r = computeNormalVenting(makeInput({ ...coil, apiEdition: "5TH" }), REF_DERIVED)
+    expect(r.outbreathing.total).toBeCloseTo(base.outbreathing.total + r.outbreathing.coilRuptureFlowrate, 8)
+  })
+
+  it("floating roof: added to the roof-landed case, not the floating deck", () => {
+    const input = makeInput({ ...coil, floatingRoofType: FloatingRoofType.INTERNAL, roofLegHeight: 1_800 })
+    const r = computeNormalVenting(input, REF_DERIVED)
+    expect(r.outbreathing.total).toBe(0)
+    expect(r.roofLanded?.outbreathing.coilRuptureFlowrate).toBeCloseTo(r.coilRupture?.flowrate ?? 0, 8)
+  })
+})
+
+// ─── Stream simultaneity ─────────────────────────────────────────────────────
+
+describe("computeNormalVenting — simultaneity groups", () => {
+  const grouped = makeInput({
+    incomingStreams: [
+      { streamNo: "P-1A", flowrate: 120, type: "PUMP", simultaneityGroup: "P-1" },
+      { streamNo: "P-1B", flowrate: 80, type: "PUMP", simultaneityGroup: "P-1" },
+      { streamNo: "TRK", flowrate: 40, type: "TRUCK_UNLOADING" },
+    ],
+    outgoingStreams: [
+      { streamNo: "S-1", flowrate: 200, simultaneityGroup: "FILL/DRAW" },
+      { streamNo: "S-2", flowrate: 300, simultaneityGroup: "FILL/DRAW" },
+      { streamNo: "S-3", flowrate: 50 },
+    ],
+  })
+
+  it("counts the largest stream of each group plus every ungrouped stream", () => {
+    const r = computeNormalVenting(grouped, REF_DERIVED)
+    // 7th ed, Pv 5.6 kPa > 5.0 → 2.0 × (120 + 40)
+    expect(r.outbreathing.processFlowrate).toBeCloseTo(2.0 * 160, 8)
+    expect(r.inbreathing.processFlowrate).toBeCloseTo(350, 8)
+  })
+
+  it("reports the governing streams and the idle group members", () => {
+    const r = computeNormalVenting(grouped, REF_DERIVED)
+    expect(r.outbreathing.processCase.running.map((s) => s.streamNo)).toEqual(["P-1A", "TRK"])
+    expect(r.outbreathing.processCase.idle.map((s) => s.streamNo)).toEqual(["P-1B"])
+    expect(r.outbreathing.processCase.running[0]).toMatchObject({ type: "PUMP", simultaneityGroup: "P-1" })
+    expect(r.inbreathing.processCase.running.map((s) => s.streamNo)).toEqual(["S-2", "S-3"])
+  })
+
+  it("flash vapour counts toward picking the governing group member", () => {
+    const r = computeNormalVenting(
+      makeInput({
+        incomingStreams: [
+          { streamNo: "COLD", flowrate: 100, simultaneityGroup: "A" },
+          { streamNo: "HOT", flowrate: 90, flashFraction: 0.05, simultaneityGroup: "A" },
+        ],
+      }),
+      REF_DERIVED,
+    )
+    expect(r.outbreathing.processCase.running.map((s) => s.streamNo)).toEqual(["HOT"])
+    expect(r.outbreathing.processFlowrate).toBeCloseTo(2.0 * 90, 8)
+    expect(r.outbreathing.flashFlowrate).toBeGreaterThan(0)
+  })
+
+  it("ungrouped streams keep the all-simultaneous sum", () => {
+    const r = computeNormalVenting(REF_INPUT, REF_DERIVED)
+    expect(r.inbreathing.processFlowrate).toBeCloseTo(368.9, 8)
+    expect(r.inbreathing.processCase.idle).toEqual([])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest"
+import { calcRelievingConditions, calcWatsonLatentHeat } from "@/lib/calculations/relievingConditions"
+import { calcRelievingPressure, computeEmergencyVenting } from "@/lib/calculations/emergencyVenting"
+import { computeDerivedGeometry } from "@/lib/calculations/geometry"
+import { calcSaturationTemperature } from "@/lib/calculations/vapourPressure"
+import { calculate } from "@/lib/calculations"
+import { getFluid } from "@/lib/lookups/fluids"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput } from "@/types"
+
+const toluene = getFluid("toluene")!
+
+// Toluene from the library: correlation, L at the boiling point and T_c; T_r blank
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 50,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 6.24,
+  vapourPressureCorrelation: toluene.vapourPressure,
+  flashBoilingPointType: "FP",
+  flashBoilingPoint: toluene.flashBoilingPoint,
+  latentHeat: toluene.latentHeat,
+  molecularMass: toluene.molecularMass,
+  criticalTemperature: toluene.criticalTemperature,
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+
+describe("calcWatsonLatentHeat", () => {
+  it("water: 2257 kJ/kg at 100 °C → ≈ 2193 kJ/kg at 120 °C (steam tables 2203)", () => {
+    expect(calcWatsonLatentHeat(2257, 100, 120, 374)).toBeCloseTo(2193, 0)
+  })
+
+  it("unchanged at the reference temperature, undefined at or above T_c", () => {
+    expect(calcWatsonLatentHeat(363, 110.6, 110.6, 318.6)).toBe(363)
+    expect(calcWatsonLatentHeat(363, 110.6, 318.6, 318.6)).toBeUndefined()
+  })
+})
+
+describe("calcRelievingPressure", () => {
+  it("atmospheric + design pressure, raised by the overpressure percentage", () => {
+    expect(calcRelievingPressure(INPUT)).toBeCloseTo(151.325, 6)
+    expect(calcRelievingPressure({ ...INPUT, emergencyOverpressure: 10 })).toBeCloseTo(156.325, 6)
+  })
+})
+
+describe("calcRelievingConditions", () => {
+  it("T_r is the boiling point at the relieving pressure", () => {
+    const r = calcRelievingConditions({ ...INPUT, emergencyOverpressure: 10 })!
+    expect(r.relievingPressure).toBeCloseTo(156.325, 6)
+    expect(r.relievingTemperature).toBeCloseTo(calcSaturationTemperature(toluene.vapourPressure!, 156.325)!, 6)
+    expect(r.relievingTemperature).toBeGreaterThan(120)
+  })
+
+  it("L is Watson-corrected from the normal boiling point", () => {
+    const r = calcRelievingConditions(INPUT)!
+    const tB = calcSaturationTemperature(toluene.vapourPressure!, 101.325)!
+    expect(r.normalBoilingPoint).toBeCloseTo(tB, 6)
+    expect(r.latentHeat).toBeCloseTo(calcWatsonLatentHeat(363, tB, r.relievingTemperature, 318.6)!, 10)
+    expect(r.latentHeat!).toBeLessThan(363)
+  })
+
+  it("near-atmospheric relief: T_r at the normal boiling point, L unchanged", () => {
+    const r = calcRelievingConditions({ ...INPUT, designPressure: 0 })!
+    expect(r.relievingTemperature).toBeCloseTo(110.6, 0)
+    expect(r.latentHeat).toBeCloseTo(363, 6)
+  })
+
+  it("without T_c only T_r is derived", () => {
+    const r = calcRelievingConditions({ ...INPUT, criticalTemperature: undefined })!
+    expect(r.relievingTemperature).toBeDefined()
+    expect(r.latentHeat).toBeUndefined()
+  })
+
+  it("undefined without a correlation, with a typed T_r or for a mixture", () => {
+    expect(calcRelievingConditions({ ...INPUT, vapourPressureCorrelation: undefined })).toBeUndefined()
+    expect(calcRelievingConditions({ ...INPUT, relievingTemperature: 60 })).toBeUndefined()
+    expect(
+      calcRelievingConditions({ ...INPUT, mixtureComponents: [{ fluidId: "toluene", fraction: 1 }] }),
+    ).toBeUndefined()
+  })
+})
+
+describe("emergency venting with derived relieving conditions", () => {
+  const derived = computeDerivedGeometry(INPUT)
+  const conditions = calcRelievingConditions(INPUT)!
+
+  it("Eq. 14 uses the derived T_r and L and flags them", () => {
+    const r = computeEmergencyVenting(INPUT, derived, undefined, conditions)
+    const expected =
+      ((906.6 * r.heatInput * r.environmentalFactor) / (1000 * conditions.latentHeat!)) *
+      Math.sqrt((conditions.relievingTemperature + 273.15) / toluene.molecularMass!)
+    expect(r.emergencyVentRequired).toBeCloseTo(expected, 6)
+    expect(r.relievingConditions).toBe(conditions)
+  })
+
+  it("a derived T_r alone switches a blank fluid to the general formula", () => {
+    const blank = { ...INPUT, latentHeat: undefined, molecularMass: undefined, criticalTemperature: undefined }
+    const r = computeEmergencyVenting(blank, derived, undefined, calcRelievingConditions(blank))
+    expect(r.referenceFluid).toBe("User-defined")
+  })
+
+  it("calculate() derives T_r and L and carries them to the vapour flows", () => {
+    const r = calculate(INPUT)
+    expect(r.emergencyVenting.relievingConditions?.relievingTemperature).toBeCloseTo(conditions.relievingTemperature, 8)
+    expect(r.vapourFlows.relievingTemperature).toBeCloseTo(conditions.relievingTemperature, 8)
+    expect(calculate({ ...INPUT, relievingTemperature: 60 }).emergencyVenting.relievingConditions).toBeUndefined()
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest"
+import { computeScenarios, governingScenario } from "@/lib/calculations/scenarios"
+import type { NormalVentingResult, ScenarioResult } from "@/types"
+
+// ─── Hand-built venting results ──────────────────────────────────────────────
+const NO_STREAMS = { running: [], idle: [] }
+
+const NORMAL: NormalVentingResult = {
+  capacity: { value: 1_000, basis: "GEOMETRIC" },
+  outbreathing: {
+    processFlowrate: 200,
+    processCase: NO_STREAMS,
+    flashFlowrate: 10,
+    coilRuptureFlowrate: 0,
+    yFactor: 0.32,
+    reductionFactor: 1,
+    thermalOutbreathing: 150,
+    total: 360,
+  },
+  inbreathing: {
+    processFlowrate: 300,
+    processCase: NO_STREAMS,
+    cFactor: 6.5,
+    reductionFactor: 1,
+    thermalInbreathing: 400,
+    thermalMethod: "STANDARD",
+    total: 700,
+  },
+}
+
+const SOURCES = {
+  normalVenting: NORMAL,
+  blowThrough: { restriction: "VALVE" as const, massFlow: 900, flowrate: 1_000, choked: true },
+  drainInbreathing: 50,
+}
+
+describe("computeScenarios", () => {
+  it("lists one contribution per enabled cause, in cause order", () => {
+    const [r] = computeScenarios([{ name: "A", causes: ["THERMAL", "FILLING"] }], "7TH", SOURCES)
+    expect(r.contributions).toEqual([
+      { cause: "FILLING", outbreathing: 210, inbreathing: 0 },
+      { cause: "THERMAL", outbreathing: 150, inbreathing: 400 },
+    ])
+  })
+
+  it("6th / 7th: process + thermal", () => {
+    const [r] = computeScenarios([{ name: "A", causes: ["FILLING", "EMPTYING", "THERMAL"] }], "7TH", SOURCES)
+    expect(r.outbreathing).toBe(360)
+    expect(r.inbreathing).toBe(700)
+  })
+
+  it("5th: max(process, thermal)", () => {
+    const [r] = computeScenarios([{ name: "A", causes: ["FILLING", "EMPTYING", "THERMAL"] }], "5TH", SOURCES)
+    expect(r.outbreathing).toBe(210)
+    expect(r.inbreathing).toBe(400)
+  })
+
+  it("control valve failure and drain add on top of normal breathing", () => {
+    const [r] = computeScenarios(
+      [{ name: "A", causes: ["THERMAL", "CONTROL_VALVE_FAILURE", "DRAIN"] }],
+      "5TH",
+      SOURCES,
+    )
+    expect(r.outbreathing).toBe(150 + 1_000)
+    expect(r.inbreathing).toBe(400 + 50)
+  })
+
+  it("a heating coil rupture adds its vapour to outbreathing", () => {
+    const ruptured: NormalVentingResult = {
+      ...NORMAL,
+      outbreathing: { ...NORMAL.outbreathing, coilRuptureFlowrate: 80, total: 440 },
+    }
+    const [r] = computeScenarios(
+      [{ name: "A", causes: ["THERMAL", "COIL_RUPTURE"] }],
+      "7TH",
+      { normalVenting: ruptured },
+    )
+    expect(r.contributions).toContainEqual({ cause: "COIL_RUPTURE", outbreathing: 80, inbreathing: 0 })
+    expect(r.outbreathing).toBe(150 + 80)
+  })
+
+  it("causes without their inputs contribute nothing", () => {
+    const [r] = computeScenarios(
+      [{ name: "A", causes: ["CONTROL_VALVE_FAILURE", "DRAIN"] }],
+      "7TH",
+      { normalVenting: NORMAL },
+    )
+    expect(r.outbreathing).toBe(0)
+    expect(r.inbreathing).toBe(0)
+  })
+
+  it("floating-roof tanks use the roof-landed breathing", () => {
+    const landed = { ...NORMAL, roofLanded: { vapourSpaceVolume: 100, ...NORMAL } }
+    const floating: NormalVentingResult = {
+      ...landed,
+      outbreathing: { ...NORMAL.outbreathing, processFlowrate: 0, flashFlowrate: 0, thermalOutbreathing: 0, total: 0 },
+    }
+    const [r] = computeScenarios([{ name: "A", causes: ["FILLING"] }], "7TH", { normalVenting: floating })
+    expect(r.outbreathing).toBe(210)
+  })
+})
+
+describe("governingScenario", () => {
+  const results: ScenarioResult[] = [
+    { name: "Fill", contributions: [], outbreathing: 500, inbreathing: 100 },
+    { name: "Pump-out", contributions: [], outbreathing: 100, inbreathing: 800 },
+    { name: "Tie", contributions: [], outbreathing: 500, inbreathing: 0 },
+  ]
+
+  it("names the largest scenario per direction", () => {
+    expect(governingScenario(results)).toEqual({ outbreathing: "Fill", inbreathing: "Pump-out" })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest"
+import { selectGoverningStreams, toProcessCase } from "@/lib/calculations/simultaneity"
+import type { Stream } from "@/types"
+
+const byFlowrate = (s: Stream) => s.flowrate
+
+describe("selectGoverningStreams", () => {
+  it("runs every stream when none are grouped", () => {
+    const streams: Stream[] = [
+      { streamNo: "S-1", flowrate: 10 },
+      { streamNo: "S-2", flowrate: 20 },
+    ]
+    expect(selectGoverningStreams(streams, byFlowrate)).toEqual({ running: streams, idle: [] })
+  })
+
+  it("keeps the largest member of each group", () => {
+    const streams: Stream[] = [
+      { streamNo: "A-1", flowrate: 10, simultaneityGroup: "A" },
+      { streamNo: "B-1", flowrate: 50, simultaneityGroup: "B" },
+      { streamNo: "A-2", flowrate: 30, simultaneityGroup: "A" },
+      { streamNo: "B-2", flowrate: 5, simultaneityGroup: "B" },
+    ]
+    const { running, idle } = selectGoverningStreams(streams, byFlowrate)
+    expect(running.map((s) => s.streamNo)).toEqual(["B-1", "A-2"])
+    expect(idle.map((s) => s.streamNo)).toEqual(["A-1", "B-2"])
+  })
+
+  it("matches the best of every one-per-group combination", () => {
+    const streams: Stream[] = [
+      { streamNo: "U", flowrate: 7 },
+      { streamNo: "A-1", flowrate: 12, simultaneityGroup: "A" },
+      { streamNo: "A-2", flowrate: 15, simultaneityGroup: "A" },
+      { streamNo: "B-1", flowrate: 9, simultaneityGroup: "B" },
+      { streamNo: "B-2", flowrate: 4, simultaneityGroup: "B" },
+      { streamNo: "B-3", flowrate: 11, simultaneityGroup: "B" },
+    ]
+    let best = 0
+    for (const a of [12, 15]) for (const b of [9, 4, 11]) best = Math.max(best, 7 + a + b)
+    const { running } = selectGoverningStreams(streams, byFlowrate)
+    expect(running.reduce((acc, s) => acc + s.flowrate, 0)).toBe(best)
+  })
+
+  it("ranks group members by the supplied contribution", () => {
+    const streams: Stream[] = [
+      { streamNo: "BIG", flowrate: 100, simultaneityGroup: "A" },
+      { streamNo: "HOT", flowrate: 60, simultaneityGroup: "A", flashFraction: 0.1 },
+    ]
+    const { running } = selectGoverningStreams(streams, (s) => s.flowrate + (s.flashFraction ?? 0) * 1000)
+    expect(running.map((s) => s.streamNo)).toEqual(["HOT"])
+  })
+
+  it("ties keep the first listed stream", () => {
+    const streams: Stream[] = [
+      { streamNo: "DUTY", flowrate: 50, simultaneityGroup: "P" },
+      { streamNo: "STANDBY", flowrate: 50, simultaneityGroup: "P" },
+    ]
+    expect(selectGoverningStreams(streams, byFlowrate).running.map((s) => s.streamNo)).toEqual(["DUTY"])
+  })
+
+  it("blank groups count as ungrouped and groups are trimmed", () => {
+    const streams: Stream[] = [
+      { streamNo: "S-1", flowrate: 10, simultaneityGroup: "" },
+      { streamNo: "S-2", flowrate: 20, simultaneityGroup: "  " },
+      { streamNo: "A-1", flowrate: 30, simultaneityGroup: "A" },
+      { streamNo: "A-2", flowrate: 40, simultaneityGroup: " A " },
+    ]
+    const { running } = selectGoverningStreams(streams, byFlowrate)
+    expect(running.map((s) => s.streamNo)).toEqual(["S-1", "S-2", "A-2"])
+  })
+})
+
+describe("toProcessCase", () => {
+  it("keeps identity, type, group and flowrate only", () => {
+    const stream: Stream = {
+      streamNo: "S-1",
+      flowrate: 10,
+      type: "PUMP",
+      simultaneityGroup: " A ",
+      temperature: 120,
+    }
+    expect(toProcessCase({ running: [stream], idle: [] })).toEqual({
+      running: [{ streamNo: "S-1", type: "PUMP", simultaneityGroup: "A", flowrate: 10 }],
+      idle: [],
+    })
+  })
+})
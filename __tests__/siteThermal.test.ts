@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest"
+import { calcSiteThermalVenting } from "@/lib/calculations/siteThermal"
+import { computeDerivedGeometry } from "@/lib/calculations/geometry"
+import { computeNormalVenting } from "@/lib/calculations/normalVenting"
+import { getPaintAbsorptivity } from "@/lib/lookups/paintAbsorptivity"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+const DERIVED = computeDerivedGeometry(INPUT)
+const SITE: CalculationInput = {
+  ...INPUT,
+  thermalVentingMethod: "SITE_SPECIFIC",
+  ambientTempSwing: 10,
+  shellPaint: "WHITE",
+}
+
+// Q [W] → Nm³/h of air at the storage temperature
+const toNormalFlow = (q: number) => (q / (29.1 * 308.15)) * 0.022414 * 3600
+
+describe("getPaintAbsorptivity", () => {
+  it("white reflects most, black absorbs almost all", () => {
+    expect(getPaintAbsorptivity("WHITE")).toBe(0.17)
+    expect(getPaintAbsorptivity("BLACK")).toBe(0.97)
+  })
+})
+
+describe("calcSiteThermalVenting", () => {
+  it("returns undefined without the ambient swing or the shell paint", () => {
+    expect(calcSiteThermalVenting(INPUT, DERIVED.totalSurfaceArea, 1)).toBeUndefined()
+    expect(calcSiteThermalVenting({ ...INPUT, ambientTempSwing: 10 }, DERIVED.totalSurfaceArea, 1))
+      .toBeUndefined()
+  })
+
+  it("white shell, 10 K swing: sol-air excess 0.17 × 1000 / 15", () => {
+    const r = calcSiteThermalVenting(SITE, DERIVED.totalSurfaceArea, 1)!
+    const solAir = (0.17 * 1000) / 15
+    const uOut = 1 / (1 / 15 + 1 / 4)
+    const uIn = 1 / (1 / 10 + 1 / 4)
+    expect(r.outbreathing).toBeCloseTo(toNormalFlow(uOut * DERIVED.totalSurfaceArea * (solAir + 5)), 6)
+    expect(r.inbreathing).toBeCloseTo(toNormalFlow(uIn * DERIVED.totalSurfaceArea * (solAir + 10)), 6)
+  })
+
+  it("a darker paint raises both rates", () => {
+    const white = calcSiteThermalVenting(SITE, DERIVED.totalSurfaceArea, 1)!
+    const black = calcSiteThermalVenting({ ...SITE, shellPaint: "BLACK" }, DERIVED.totalSurfaceArea, 1)!
+    expect(black.outbreathing).toBeGreaterThan(white.outbreathing)
+    expect(black.inbreathing).toBeGreaterThan(white.inbreathing)
+  })
+
+  it("a custom rain cooling coefficient changes inbreathing only", () => {
+    const base = calcSiteThermalVenting(SITE, DERIVED.totalSurfaceArea, 1)!
+    const heavy = calcSiteThermalVenting({ ...SITE, rainCoolingHtc: 40 }, DERIVED.totalSurfaceArea, 1)!
+    expect(heavy.outbreathing).toBeCloseTo(base.outbreathing, 8)
+    expect(heavy.inbreathing).toBeGreaterThan(base.inbreathing)
+  })
+
+  it("insulation scales both rates by R", () => {
+    const bare = calcSiteThermalVenting(SITE, DERIVED.totalSurfaceArea, 1)!
+    const insulated = calcSiteThermalVenting(SITE, DERIVED.totalSurfaceArea, 0.25)!
+    expect(insulated.outbreathing).toBeCloseTo(bare.outbreathing * 0.25, 8)
+    expect(insulated.inbreathing).toBeCloseTo(bare.inbreathing * 0.25, 8)
+  })
+})
+
+describe("computeNormalVenting — site-specific thermal method", () => {
+  it("uses the site-specific rates and keeps the code formula beside them", () => {
+    const site = calcSiteThermalVenting(SITE, DERIVED.totalSurfaceArea, 1)!
+    const formula = computeNormalVenting(INPUT, DERIVED)
+    const r = computeNormalVenting(SITE, DERIVED)
+    expect(r.thermalVentingMethod).toBe("SITE_SPECIFIC")
+    expect(r.outbreathing.thermalOutbreathing).toBeCloseTo(site.outbreathing, 8)
+    expect(r.inbreathing.thermalInbreathing).toBeCloseTo(site.inbreathing, 8)
+    expect(r.outbreathing.codeThermalOutbreathing).toBeCloseTo(formula.outbreathing.thermalOutbreathing, 8)
+    expect(r.inbreathing.codeThermalInbreathing).toBeCloseTo(formula.inbreathing.thermalInbreathing, 8)
+  })
+
+  it("white tropical tank vents below the code formula", () => {
+    const r = computeNormalVenting(SITE, DERIVED)
+    expect(r.outbreathing.thermalOutbreathing).toBeLessThan(r.outbreathing.codeThermalOutbreathing!)
+    expect(r.inbreathing.thermalInbreathing).toBeLessThan(r.inbreathing.codeThermalInbreathing!)
+  })
+
+  it("the formula method reports no code comparison", () => {
+    const r = computeNormalVenting(INPUT, DERIVED)
+    expect(r.outbreathing.codeThermalOutbreathing).toBeUndefined()
+    expect(r.inbreathing.codeThermalInbreathing).toBeUndefined()
+  })
+
+  it("is ignored for the 5th edition", () => {
+    const r = computeNormalVenting({ ...SITE, apiEdition: "5TH" }, DERIVED)
+    expect(r.thermalVentingMethod).toBeUndefined()
+    expect(r.outbreathing.codeThermalOutbreathing).toBeUndefined()
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest"
+import { calcSteamDensity, computeSteamOut } from "@/lib/calculations/steamOut"
+import { computeDerivedGeometry } from "@/lib/calculations/geometry"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+const DERIVED = computeDerivedGeometry(INPUT)
+
+describe("calcSteamDensity", () => {
+  it("saturated steam at 100 °C, 101.325 kPa ≈ 0.588 kg/m³ (ideal gas)", () => {
+    expect(calcSteamDensity()).toBeCloseTo(0.588, 3)
+  })
+})
+
+describe("computeSteamOut", () => {
+  it("returns undefined without steam-out data", () => {
+    expect(computeSteamOut(INPUT, DERIVED)).toBeUndefined()
+    expect(computeSteamOut({ ...INPUT, steamOutRate: 2_000 }, DERIVED)).toBeUndefined()
+  })
+
+  it("shell cooling governs a large tank", () => {
+    const r = computeSteamOut({ ...INPUT, steamOutRate: 2_000, steamOutAmbientTemp: 15 }, DERIVED)!
+    // h × A_TTS × ΔT × 3600 / (λ × 1000)
+    const cooling = (10 * DERIVED.totalSurfaceArea * 85 * 3600) / (2_257 * 1000)
+    expect(r.basis).toBe("COOLING")
+    expect(r.condensingRate).toBeCloseTo(cooling, 8)
+    expect(r.inbreathing).toBeCloseTo(((cooling / calcSteamDensity()) * 273.15) / 288.15, 8)
+  })
+
+  it("the steam rate governs when it exceeds shell cooling", () => {
+    const r = computeSteamOut({ ...INPUT, steamOutRate: 10_000, steamOutAmbientTemp: 15 }, DERIVED)!
+    expect(r.basis).toBe("STEAM_RATE")
+    expect(r.condensingRate).toBe(10_000)
+  })
+
+  it("a custom cooling coefficient scales the cooling rate", () => {
+    const base = computeSteamOut({ ...INPUT, steamOutRate: 1, steamOutAmbientTemp: 15 }, DERIVED)!
+    const wet = computeSteamOut(
+      { ...INPUT, steamOutRate: 1, steamOutAmbientTemp: 15, steamOutCoolingHtc: 30 },
+      DERIVED,
+    )!
+    expect(wet.condensingRate).toBeCloseTo(3 * base.condensingRate, 8)
+  })
+
+  it("steam inventory fills the tank; condensing time = inventory / rate", () => {
+    const r = computeSteamOut({ ...INPUT, steamOutRate: 10_000, steamOutAmbientTemp: 15 }, DERIVED)!
+    expect(r.steamInventory).toBeCloseTo(calcSteamDensity() * DERIVED.maxTankVolume, 6)
+    expect(r.condensingTime).toBeCloseTo(r.steamInventory / 10_000, 8)
+  })
+})
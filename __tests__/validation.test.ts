@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest"
 import { z } from "zod"
 import { calculationInputSchema } from "@/lib/validation/inputSchema"
-import { TankConfiguration } from "@/types"
+import { FloatingRoofType, TankConfiguration } from "@/types"
 
 type Input = z.input<typeof calculationInputSchema>
 
@@ -149,6 +149,351 @@ describe("calculationInputSchema", () => {
     expect(pathErrors(data, "height")).toHaveLength(1)
   })
 
+  it("rejects a max liquid level above the tank height", () => {
+    const data = { ...VALID_BASE, maxLiquidLevel: 18_000 }
+    expect(pathErrors(data, "maxLiquidLevel")).toEqual(["Max liquid level must be ≤ tank height"])
+  })
+
+  it("checks a sphere's max liquid level against its diameter", () => {
+    const data = { ...VALID_BASE, tankShape: "SPHERE" as const, diameter: 15_000, maxLiquidLevel: 16_000 }
+    expect(pathErrors(data, "maxLiquidLevel")).toEqual(["Max liquid level must be ≤ tank diameter"])
+  })
+
+  it("rejects a negative elevation", () => {
+    const data = { ...VALID_BASE, elevation: -1 }
+    expect(pathErrors(data, "elevation")).toHaveLength(1)
+  })
+
+  it("rejects a high-high liquid level above the tank height", () => {
+    const data = { ...VALID_BASE, highHighLiquidLevel: 18_000 }
+    expect(pathErrors(data, "highHighLiquidLevel")).toEqual(["High-high liquid level must be ≤ tank height"])
+  })
+
+  it("rejects high-high liquid level and ullage together", () => {
+    const data = { ...VALID_BASE, highHighLiquidLevel: 15_000, ullage: 300 }
+    expect(pathErrors(data, "ullage")).toHaveLength(1)
+  })
+
+  // ── Roof geometry ─────────────────────────────────────────────────────────
+
+  it("accepts every roof type", () => {
+    for (const roofType of ["CONE", "DOME", "UMBRELLA", "FLAT"] as const) {
+      expect(calculationInputSchema.safeParse({ ...VALID_BASE, roofType }).success).toBe(true)
+    }
+  })
+
+  it("rejects an umbrella roof of fewer than 3 plates", () => {
+    const data = { ...VALID_BASE, roofType: "UMBRELLA", roofSegments: 2 }
+    expect(pathErrors(data, "roofSegments")).toEqual(["An umbrella roof needs at least 3 plates"])
+  })
+
+  it("accepts a horizontal cylinder with each head type", () => {
+    for (const headType of ["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"] as const) {
+      const data = { ...VALID_BASE, tankShape: "HORIZONTAL_CYLINDER" as const, headType }
+      expect(calculationInputSchema.safeParse(data).success).toBe(true)
+    }
+  })
+
+  it("rejects an unknown head type", () => {
+    const data = { ...VALID_BASE, tankShape: "HORIZONTAL_CYLINDER", headType: "TORISPHERICAL" }
+    expect(pathErrors(data, "headType")).toHaveLength(1)
+  })
+
+  it("rejects a dome radius shorter than D/2", () => {
+    const data = { ...VALID_BASE, roofType: "DOME" as const, roofRadius: 11_000 }
+    expect(pathErrors(data, "roofRadius")).toEqual(["Roof radius must be ≥ D/2"])
+  })
+
+  it("treats a blank roof slope (NaN) as absent", () => {
+    const result = calculationInputSchema.safeParse({ ...VALID_BASE, roofSlope: NaN })
+    expect(result.success).toBe(true)
+    if (result.success) expect(result.data.roofSlope).toBeUndefined()
+  })
+
+  it("accepts every bottom profile with a slope", () => {
+    for (const bottomProfile of ["FLAT", "CONE_DOWN", "CONE_UP", "SLOPED"] as const) {
+      const data = { ...VALID_BASE, bottomProfile, bottomSlope: 100 }
+      expect(calculationInputSchema.safeParse(data).success).toBe(true)
+    }
+  })
+
+  it("rejects a non-positive bottom slope", () => {
+    const data = { ...VALID_BASE, bottomProfile: "CONE_DOWN" as const, bottomSlope: 0 }
+    expect(pathErrors(data, "bottomSlope")).toHaveLength(1)
+  })
+
+  // ── Floating roof ─────────────────────────────────────────────────────────
+
+  it("requires a roof leg height for floating-roof tanks", () => {
+    const data = { ...VALID_BASE, floatingRoofType: FloatingRoofType.INTERNAL }
+    expect(pathErrors(data, "roofLegHeight")).toEqual(["Required for floating-roof tanks"])
+  })
+
+  it("accepts a floating roof with leg height", () => {
+    const data = { ...VALID_BASE, floatingRoofType: FloatingRoofType.EXTERNAL, roofLegHeight: 1_800 }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  // ── Strapping table ───────────────────────────────────────────────────────
+
+  it("accepts a strictly ascending strapping table", () => {
+    const strappingTable = { source: "TK-3120.csv", points: [{ level: 0, volume: 0 }, { level: 1_000, volume: 450 }] }
+    expect(calculationInputSchema.safeParse({ ...VALID_BASE, strappingTable }).success).toBe(true)
+  })
+
+  it("rejects a strapping table with fewer than two points", () => {
+    const strappingTable = { points: [{ level: 0, volume: 0 }] }
+    expect(pathErrors({ ...VALID_BASE, strappingTable }, "strappingTable.points")).toEqual([
+      "Strapping table needs at least two points",
+    ])
+  })
+
+  it("rejects a strapping table whose volume does not increase", () => {
+    const strappingTable = { points: [{ level: 0, volume: 10 }, { level: 500, volume: 10 }] }
+    expect(pathErrors({ ...VALID_BASE, strappingTable }, "strappingTable.points.1")).toEqual([
+      "Strapping levels and volumes must both increase strictly",
+    ])
+  })
+
+  // ── Hot feeds ─────────────────────────────────────────────────────────────
+
+  it("accepts a feed temperature on its own", () => {
+    const data = { ...VALID_BASE, incomingStreams: [{ streamNo: "S-1", flowrate: 10, temperature: 120 }] }
+    expect(errorsFor(data)).toEqual([])
+  })
+
+  it("accepts a feed line pressure and composition", () => {
+    const feed = { streamNo: "S-1", flowrate: 10, pressure: 300, composition: [{ fluidId: "acetone", fraction: 1 }] }
+    expect(errorsFor({ ...VALID_BASE, incomingStreams: [feed] })).toEqual([])
+  })
+
+  it("rejects a feed component outside the fluid library", () => {
+    const feed = { streamNo: "S-1", flowrate: 10, composition: [{ fluidId: "unobtainium", fraction: 1 }] }
+    expect(pathErrors({ ...VALID_BASE, incomingStreams: [feed] }, "incomingStreams.0.composition.0.fluidId")).toEqual([
+      "Select a fluid from the library",
+    ])
+  })
+
+  it("rejects a flash fraction above 1", () => {
+    const data = { ...VALID_BASE, incomingStreams: [{ streamNo: "S-1", flowrate: 10, flashFraction: 1.5 }] }
+    expect(pathErrors(data, "incomingStreams.0.flashFraction")).toEqual(["Flash fraction must be ≤ 1"])
+  })
+
+  it("accepts a stream type and simultaneity group", () => {
+    const data = {
+      ...VALID_BASE,
+      outgoingStreams: [{ streamNo: "S-1", flowrate: 10, type: "PUMP", simultaneityGroup: "P-1" }],
+    }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("rejects an unknown stream type", () => {
+    const data = { ...VALID_BASE, outgoingStreams: [{ streamNo: "S-1", flowrate: 10, type: "CONVEYOR" }] }
+    expect(pathErrors(data, "outgoingStreams.0.type")).toEqual(["Unknown stream type"])
+  })
+
+  // ── Heated tanks ──────────────────────────────────────────────────────────
+
+  it("requires an ambient temperature for heated tanks", () => {
+    const data = { ...VALID_BASE, storageCondition: "HEATED" }
+    expect(pathErrors(data, "ambientTemp")).toEqual(["Required for heated tanks"])
+  })
+
+  it("rejects an ambient temperature at or above storage", () => {
+    const data = { ...VALID_BASE, storageCondition: "HEATED", ambientTemp: VALID_BASE.avgStorageTemp }
+    expect(pathErrors(data, "ambientTemp")).toEqual([
+      "Ambient temperature must be below the storage temperature",
+    ])
+  })
+
+  it("accepts a heated tank below storage temperature", () => {
+    const data = { ...VALID_BASE, storageCondition: "HEATED", avgStorageTemp: 150, ambientTemp: 30 }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  // ── Compartments ──────────────────────────────────────────────────────────
+
+  const COMPARTMENT = {
+    name: "C-1",
+    capacity: 1_000,
+    avgStorageTemp: 25,
+    vapourPressure: 5,
+    flashBoilingPointType: "FP" as const,
+    incomingStreams: [],
+    outgoingStreams: [],
+  }
+
+  it("accepts two compartments with a separate vapour space", () => {
+    const data = {
+      ...VALID_BASE,
+      vapourSpaceMode: "SEPARATE",
+      compartments: [COMPARTMENT, { ...COMPARTMENT, name: "C-2" }],
+    }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("rejects a single compartment", () => {
+    const data = { ...VALID_BASE, compartments: [COMPARTMENT] }
+    expect(pathErrors(data, "compartments")).toEqual([
+      "A compartmented tank needs at least two compartments",
+    ])
+  })
+
+  it("rejects duplicate compartment names", () => {
+    const data = { ...VALID_BASE, compartments: [COMPARTMENT, COMPARTMENT] }
+    expect(pathErrors(data, "compartments.1.name")).toEqual(["Compartment names must be unique"])
+  })
+
+  it("rejects compartments on a floating-roof tank", () => {
+    const data = {
+      ...VALID_BASE,
+      floatingRoofType: FloatingRoofType.INTERNAL,
+      roofLegHeight: 1_800,
+      compartments: [COMPARTMENT, { ...COMPARTMENT, name: "C-2" }],
+    }
+    expect(pathErrors(data, "compartments")).toEqual([
+      "Compartments are not supported on floating-roof tanks",
+    ])
+  })
+
+  // ── Gas blow-through ──────────────────────────────────────────────────────
+
+  it("requires pressure and temperature once blow-through data is started; MW defaults", () => {
+    const data = { ...VALID_BASE, blowThroughCv: 10 }
+    for (const path of ["blowThroughPressure", "blowThroughTemperature"]) {
+      expect(pathErrors(data, path)).toEqual(["Required for gas blow-through"])
+    }
+    expect(pathErrors(data, "blowThroughMolecularMass")).toEqual([])
+  })
+
+  it("requires a valve Cv or an orifice size", () => {
+    const data = {
+      ...VALID_BASE,
+      blowThroughPressure: 800,
+      blowThroughMolecularMass: 20,
+      blowThroughTemperature: 40,
+    }
+    expect(pathErrors(data, "blowThroughCv")).toEqual([
+      "Specify a valve Cv or a restriction orifice size",
+    ])
+  })
+
+  it("rejects an upstream pressure at or below atmospheric", () => {
+    const data = {
+      ...VALID_BASE,
+      blowThroughPressure: 101,
+      blowThroughOrifice: 10,
+      blowThroughMolecularMass: 20,
+      blowThroughTemperature: 40,
+    }
+    expect(pathErrors(data, "blowThroughPressure")).toEqual([
+      "Upstream pressure must exceed atmospheric (101.325 kPa a)",
+    ])
+  })
+
+  // ── Heating coil rupture ──────────────────────────────────────────────────
+
+  it("accepts a steam coil without a temperature", () => {
+    const data = { ...VALID_BASE, coilFluid: "STEAM", coilPressure: 1_000, coilTubeDiameter: 40 }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("requires pressure and tube size once a coil fluid is chosen", () => {
+    const data = { ...VALID_BASE, coilFluid: "STEAM" }
+    expect(pathErrors(data, "coilPressure")).toEqual(["Required for heating coil rupture"])
+    expect(pathErrors(data, "coilTubeDiameter")).toEqual(["Required for heating coil rupture"])
+  })
+
+  it("requires temperature and density for a hot oil coil", () => {
+    const data = { ...VALID_BASE, coilFluid: "HOT_OIL", coilPressure: 600, coilTubeDiameter: 25 }
+    expect(pathErrors(data, "coilFluidTemperature")).toEqual(["Required for heating coil rupture"])
+    expect(pathErrors(data, "coilFluidDensity")).toEqual(["Required for heating coil rupture"])
+  })
+
+  it("rejects a coil pressure at or below atmospheric", () => {
+    const data = { ...VALID_BASE, coilFluid: "STEAM", coilPressure: 100, coilTubeDiameter: 40 }
+    expect(pathErrors(data, "coilPressure")).toEqual([
+      "Coil pressure must exceed atmospheric (101.325 kPa a)",
+    ])
+  })
+
+  // ── Steam-out ─────────────────────────────────────────────────────────────
+
+  it("requires a cooling temperature with a steam rate", () => {
+    const data = { ...VALID_BASE, steamOutRate: 2_000 }
+    expect(pathErrors(data, "steamOutAmbientTemp")).toEqual(["Required for steam-out"])
+  })
+
+  it("requires a steam rate with steam-out cooling data", () => {
+    const data = { ...VALID_BASE, steamOutAmbientTemp: 15, steamOutCoolingHtc: 20 }
+    expect(pathErrors(data, "steamOutRate")).toEqual(["Required for steam-out"])
+  })
+
+  it("rejects a cooling temperature at or above 100 °C", () => {
+    const data = { ...VALID_BASE, steamOutRate: 2_000, steamOutAmbientTemp: 100 }
+    expect(pathErrors(data, "steamOutAmbientTemp")).toEqual(["Cooling temperature must be below 100 °C"])
+  })
+
+  // ── Blanketing ────────────────────────────────────────────────────────────
+
+  it("accepts a blanketed tank without regulator data", () => {
+    const data = { ...VALID_BASE, blanketed: true }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("requires supply pressure and regulator Cv together", () => {
+    expect(pathErrors({ ...VALID_BASE, blanketed: true, blanketRegulatorCv: 1.5 }, "blanketSupplyPressure")).toEqual([
+      "Required when regulator Cv is specified",
+    ])
+    expect(pathErrors({ ...VALID_BASE, blanketed: true, blanketSupplyPressure: 700 }, "blanketRegulatorCv")).toEqual([
+      "Required when supply pressure is specified",
+    ])
+  })
+
+  it("rejects a blanket supply pressure at or below atmospheric", () => {
+    const data = { ...VALID_BASE, blanketed: true, blanketSupplyPressure: 100, blanketRegulatorCv: 1.5 }
+    expect(pathErrors(data, "blanketSupplyPressure")).toEqual([
+      "Supply pressure must exceed atmospheric (101.325 kPa a)",
+    ])
+  })
+
+  // ── Scenarios ─────────────────────────────────────────────────────────────
+
+  it("accepts a scenario matrix", () => {
+    const data = { ...VALID_BASE, scenarios: [{ name: "Pump-out", causes: ["EMPTYING", "THERMAL"] }] }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("rejects a scenario without causes", () => {
+    const data = { ...VALID_BASE, scenarios: [{ name: "Empty", causes: [] }] }
+    expect(pathErrors(data, "scenarios.0.causes")).toEqual(["Select at least one cause"])
+  })
+
+  it("rejects duplicate scenario names", () => {
+    const scenario = { name: "Case 1", causes: ["THERMAL"] }
+    const data = { ...VALID_BASE, scenarios: [scenario, scenario] }
+    expect(pathErrors(data, "scenarios.1.name")).toEqual(["Scenario names must be unique"])
+  })
+
+  it("rejects causes whose inputs are missing", () => {
+    const data = {
+      ...VALID_BASE,
+      scenarios: [
+        {
+          name: "Upset",
+          causes: ["CONTROL_VALVE_FAILURE", "DRAIN", "STEAM_OUT", "BLANKET_FAILURE", "COIL_RUPTURE"],
+        },
+      ],
+    }
+    expect(pathErrors(data, "scenarios.0.causes")).toEqual([
+      "Control valve failure needs the gas blow-through inputs",
+      "Drain needs the drain system inputs",
+      "Steam-out needs the steam-out inputs",
+      "Blanket failure needs the blanketing regulator inputs",
+      "Coil rupture needs the heating coil inputs",
+    ])
+  })
+
   // ── Insulation conditional fields ─────────────────────────────────────────
 
   it("rejects INSULATED_FULL without insulation fields (3 errors)", () => {
@@ -198,10 +543,89 @@ describe("calculationInputSchema", () => {
     expect(pathErrors(data, "drainLineSize")).toHaveLength(1)
   })
 
+  // ── Vapour pressure correlation ───────────────────────────────────────────
+
+  it("accepts an Antoine correlation", () => {
+    const data = {
+      ...VALID_BASE,
+      vapourPressureCorrelation: { form: "ANTOINE", a: 6.07954, b: 1344.8, c: 219.482 },
+      fluidName: "Toluene",
+    }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("accepts a mixture of library fluids", () => {
+    const data = {
+      ...VALID_BASE,
+      mixtureComponents: [
+        { fluidId: "benzene", fraction: 60 },
+        { fluidId: "toluene", fraction: 40 },
+      ],
+      compositionBasis: "MASS",
+    }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("rejects an unknown, repeated or zero-fraction mixture component", () => {
+    const data = {
+      ...VALID_BASE,
+      mixtureComponents: [
+        { fluidId: "toluene", fraction: 1 },
+        { fluidId: "toluene", fraction: 0 },
+        { fluidId: "unobtainium", fraction: 1 },
+      ],
+    }
+    expect(pathErrors(data, "mixtureComponents.1.fluidId")).toContain("Each fluid may appear once")
+    expect(pathErrors(data, "mixtureComponents.1.fraction")).toHaveLength(1)
+    expect(pathErrors(data, "mixtureComponents.2.fluidId")).toContain("Select a fluid from the library")
+  })
+
+  it("rejects a mixture with no bubble point at the relieving pressure", () => {
+    // Diesel does not boil below 400 °C at 1000 kPag (outside the design range anyway)
+    const data = { ...VALID_BASE, designPressure: 1000, mixtureComponents: [{ fluidId: "diesel", fraction: 1 }] }
+    expect(pathErrors(data, "mixtureComponents")).toHaveLength(1)
+  })
+
+  it("rejects a critical temperature below the normal boiling point", () => {
+    const data = {
+      ...VALID_BASE,
+      vapourPressureCorrelation: { form: "ANTOINE", a: 6.07954, b: 1344.8, c: 219.482 },
+      criticalTemperature: 100,
+    }
+    expect(pathErrors(data, "criticalTemperature")).toHaveLength(1)
+    expect(pathErrors({ ...data, criticalTemperature: 318.6 }, "criticalTemperature")).toHaveLength(0)
+  })
+
+  it("rejects a negative overpressure", () => {
+    expect(pathErrors({ ...VALID_BASE, emergencyOverpressure: -5 }, "emergencyOverpressure")).toHaveLength(1)
+  })
+
+  it("accepts a library fluid reference", () => {
+    const r = calculationInputSchema.safeParse({ ...VALID_BASE, fluidId: "gasoline", fluidName: "Gasoline (RVP 10)" })
+    expect(r.success).toBe(true)
+    expect(r.data?.fluidId).toBe("gasoline")
+  })
+
+  it("rejects a correlation with a missing coefficient", () => {
+    const data = { ...VALID_BASE, vapourPressureCorrelation: { form: "ANTOINE", a: 6, b: NaN, c: 220 } }
+    expect(pathErrors(data, "vapourPressureCorrelation.b")).toHaveLength(1)
+  })
+
+  it("rejects a correlation that is undefined at the storage temperature", () => {
+    // DIPPR exponent overflows → no finite vapour pressure
+    const data = {
+      ...VALID_BASE,
+      vapourPressureCorrelation: { form: "DIPPR", a: 1, b: 0, c: 0, d: 1, e: 10 },
+    }
+    expect(pathErrors(data, "vapourPressureCorrelation")).toContain(
+      "Correlation gives no vapour pressure at the storage temperature",
+    )
+  })
+
   // ── API edition ───────────────────────────────────────────────────────────
 
   it("accepts all valid API editions", () => {
-    for (const edition of ["5TH", "6TH", "7TH"] as const) {
+    for (const edition of ["5TH", "6TH", "7TH", "ISO_28300"] as const) {
       const data = { ...VALID_BASE, apiEdition: edition }
       expect(calculationInputSchema.safeParse(data).success).toBe(true)
     }
@@ -212,6 +636,32 @@ describe("calculationInputSchema", () => {
     expect(pathErrors(data, "apiEdition")).toHaveLength(1)
   })
 
+  it("accepts the Annex A thermal venting method", () => {
+    const data = { ...VALID_BASE, thermalVentingMethod: "ANNEX_A" }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("site-specific thermal method requires the ambient swing and shell paint", () => {
+    const data = { ...VALID_BASE, thermalVentingMethod: "SITE_SPECIFIC" }
+    expect(pathErrors(data, "ambientTempSwing")).toContain("Required for the site-specific thermal method")
+    expect(pathErrors(data, "shellPaint")).toContain("Required for the site-specific thermal method")
+  })
+
+  it("accepts a complete site-specific thermal method", () => {
+    const data = {
+      ...VALID_BASE,
+      thermalVentingMethod: "SITE_SPECIFIC",
+      ambientTempSwing: 10,
+      shellPaint: "ALUMINIUM",
+    }
+    expect(calculationInputSchema.safeParse(data).success).toBe(true)
+  })
+
+  it("rejects an unknown thermal venting method", () => {
+    const data = { ...VALID_BASE, thermalVentingMethod: "TABLE" }
+    expect(pathErrors(data, "thermalVentingMethod")).toHaveLength(1)
+  })
+
   // ── Tank number ───────────────────────────────────────────────────────────
 
   it("rejects empty tank number", () => {
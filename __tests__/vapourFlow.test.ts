@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest"
+import { calcDisplacedFlow, calcVapourFlow } from "@/lib/calculations/vapourFlow"
+
+describe("calcVapourFlow", () => {
+  it("mass flow = V_air × 3600 / 906.6 × √(M / T_r) for the 6th / 7th edition", () => {
+    const flow = calcVapourFlow(1_000, 86.17, 15.6, "7TH")
+    expect(flow.airEquivalent).toBe(1_000)
+    expect(flow.massFlow).toBeCloseTo(((1_000 * 3600) / 906.6) * Math.sqrt(86.17 / 288.75), 8)
+  })
+
+  it("5th edition uses the 881.55 coefficient", () => {
+    const r5 = calcVapourFlow(1_000, 86.17, 15.6, "5TH")
+    const r7 = calcVapourFlow(1_000, 86.17, 15.6, "7TH")
+    expect(r5.massFlow / r7.massFlow).toBeCloseTo(906.6 / 881.55, 8)
+  })
+
+  it("actual flow = mass flow / ideal-gas density at atmospheric pressure", () => {
+    const flow = calcVapourFlow(1_000, 86.17, 15.6, "7TH")
+    const density = (101.325 * 86.17) / (8.314 * 288.75)
+    expect(flow.actualFlow).toBeCloseTo(flow.massFlow / density, 8)
+  })
+
+  it("air at 0 °C maps back to ≈ its own normal volume (6th / 7th)", () => {
+    // ρ_air,n = 28.96 / 22.414 ≈ 1.292 kg/Nm³
+    const flow = calcVapourFlow(1_000, 28.96, 0, "7TH")
+    expect(flow.actualFlow).toBeCloseTo(1_000, -1)
+    expect(flow.massFlow).toBeCloseTo(1_292, -1)
+  })
+
+  it("zero air-equivalent gives zero vapour", () => {
+    expect(calcVapourFlow(0, 86.17, 15.6, "7TH")).toEqual({ airEquivalent: 0, massFlow: 0, actualFlow: 0 })
+  })
+})
+
+describe("calcDisplacedFlow", () => {
+  it("normal volume at its own molecular mass, expanded to the gas temperature", () => {
+    const flow = calcDisplacedFlow(1_000, 28.96, 20)
+    expect(flow.airEquivalent).toBe(1_000)
+    expect(flow.massFlow).toBeCloseTo((1_000 / 0.022414) * 0.02896, 8)
+    expect(flow.actualFlow).toBeCloseTo((1_000 * 293.15) / 273.15, 8)
+  })
+
+  it("scales with the molecular mass, not its square root", () => {
+    expect(calcDisplacedFlow(1_000, 86.17, 35).massFlow / calcDisplacedFlow(1_000, 28.96, 35).massFlow).toBeCloseTo(
+      86.17 / 28.96,
+      10,
+    )
+  })
+})
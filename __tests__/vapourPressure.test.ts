@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest"
+import {
+  calcSaturationTemperature,
+  calcVapourPressure,
+  isNearVapourPressureThreshold,
+  resolveVapourPressure,
+} from "@/lib/calculations/vapourPressure"
+import { FLUID_LIBRARY, getFluid, searchFluids } from "@/lib/lookups/fluids"
+import { TankConfiguration } from "@/types"
+import type { CalculationInput, FluidLibraryEntry, VapourPressureCorrelation } from "@/types"
+
+const INPUT: CalculationInput = {
+  tankNumber: "TK-3120",
+  diameter: 24_000,
+  height: 17_500,
+  latitude: 12.7,
+  designPressure: 101.32,
+  tankConfiguration: TankConfiguration.BARE_METAL,
+  avgStorageTemp: 35,
+  vapourPressure: 5.6,
+  flashBoilingPointType: "FP",
+  incomingStreams: [],
+  outgoingStreams: [],
+  apiEdition: "7TH",
+}
+
+const WATER_ANTOINE = getFluid("water")!.vapourPressure!
+// Water, DIPPR eq. 101 (Perry's Table 2-8)
+const WATER_DIPPR: VapourPressureCorrelation = {
+  form: "DIPPR",
+  a: 73.649,
+  b: -7258.2,
+  c: -7.3037,
+  d: 4.1653e-6,
+  e: 2,
+}
+
+describe("calcVapourPressure", () => {
+  it("Antoine: water boils at 100 °C (101.3 kPa)", () => {
+    expect(calcVapourPressure(WATER_ANTOINE, 100)).toBeCloseTo(101.3, 0)
+  })
+
+  it("Antoine: n-hexane ≈ 13.2 kPa at 15.6 °C", () => {
+    expect(calcVapourPressure(getFluid("hexane")!.vapourPressure!, 15.6)).toBeCloseTo(13.2, 1)
+  })
+
+  it("DIPPR 101: water ≈ 101.3 kPa at 100 °C, agrees with Antoine at 25 °C", () => {
+    expect(calcVapourPressure(WATER_DIPPR, 100)).toBeCloseTo(101.3, 0)
+    expect(calcVapourPressure(WATER_DIPPR, 25)).toBeCloseTo(calcVapourPressure(WATER_ANTOINE, 25), 1)
+  })
+})
+
+describe("calcSaturationTemperature", () => {
+  it("inverts the correlation — water boils at 100 °C at 101.325 kPa", () => {
+    expect(calcSaturationTemperature(WATER_ANTOINE, 101.325)).toBeCloseTo(100, 1)
+    expect(calcSaturationTemperature(WATER_DIPPR, 101.325)).toBeCloseTo(100, 0)
+  })
+
+  it("round-trips every library fluid at 5 kPa", () => {
+    for (const fluid of FLUID_LIBRARY) {
+      const t = calcSaturationTemperature(fluid.vapourPressure!, 5)!
+      expect(calcVapourPressure(fluid.vapourPressure!, t)).toBeCloseTo(5, 6)
+    }
+  })
+
+  it("undefined when the pressure is not reached between −100 and 400 °C", () => {
+    expect(calcSaturationTemperature(WATER_ANTOINE, 1e9)).toBeUndefined()
+  })
+})
+
+describe("resolveVapourPressure", () => {
+  it("without a correlation the typed value is used", () => {
+    expect(resolveVapourPressure(INPUT)).toEqual({ value: 5.6, source: "INPUT" })
+  })
+
+  it("a correlation replaces the typed value at the storage temperature", () => {
+    const toluene = getFluid("toluene")!
+    const r = resolveVapourPressure({
+      ...INPUT,
+      vapourPressureCorrelation: toluene.vapourPressure,
+      fluidName: toluene.name,
+    })
+    expect(r.source).toBe("ANTOINE")
+    expect(r.fluidName).toBe("Toluene")
+    expect(r.value).toBeCloseTo(calcVapourPressure(toluene.vapourPressure!, 35), 10)
+    expect(calcVapourPressure(toluene.vapourPressure!, r.thresholdTemperature!)).toBeCloseTo(5, 6)
+  })
+})
+
+describe("isNearVapourPressureThreshold", () => {
+  const toluene = getFluid("toluene")!.vapourPressure!
+  const crossing = calcSaturationTemperature(toluene, 5)!
+
+  it("flags a 7th edition storage temperature within 5 K of the crossing", () => {
+    const input = { ...INPUT, avgStorageTemp: crossing + 3, vapourPressureCorrelation: toluene }
+    expect(isNearVapourPressureThreshold(input, resolveVapourPressure(input))).toBe(true)
+  })
+
+  it("not flagged further away, for other editions or without a correlation", () => {
+    const far = { ...INPUT, avgStorageTemp: crossing + 10, vapourPressureCorrelation: toluene }
+    const sixth = { ...INPUT, apiEdition: "6TH" as const, avgStorageTemp: crossing, vapourPressureCorrelation: toluene }
+    expect(isNearVapourPressureThreshold(far, resolveVapourPressure(far))).toBe(false)
+    expect(isNearVapourPressureThreshold(sixth, resolveVapourPressure(sixth))).toBe(false)
+    expect(isNearVapourPressureThreshold(INPUT, resolveVapourPressure(INPUT))).toBe(false)
+  })
+})
+
+describe("fluid library", () => {
+  it("covers the common refinery and chemical liquids", () => {
+    for (const id of ["gasoline", "kerosene", "diesel", "crude-light", "crude-medium", "crude-heavy", "methanol", "toluene", "acetic-acid"]) {
+      expect(getFluid(id)).toBeDefined()
+    }
+    expect(new Set(FLUID_LIBRARY.map((f) => f.id)).size).toBe(FLUID_LIBRARY.length)
+  })
+
+  it("every entry fills the emergency venting properties", () => {
+    for (const fluid of FLUID_LIBRARY) {
+      expect(fluid.latentHeat).toBeGreaterThan(0)
+      expect(fluid.molecularMass).toBeGreaterThan(0)
+      expect(fluid.flashBoilingPoint).toBeDefined()
+    }
+  })
+
+  it("leaves T_r to be derived; chemicals carry a critical temperature above the boiling point", () => {
+    for (const fluid of FLUID_LIBRARY) {
+      expect(fluid.relievingTemperature).toBeUndefined()
+      const nbp = calcSaturationTemperature(fluid.vapourPressure!, 101.325)
+      expect(nbp).toBeDefined()
+      if (fluid.category === "CHEMICAL") expect(fluid.criticalTemperature!).toBeGreaterThan(nbp!)
+    }
+  })
+
+  it("petroleum fits reproduce AP-42 vapour pressures at 60 °F", () => {
+    // Gasoline RVP 10: 5.2 psia; jet kerosene: 0.0085 psia
+    expect(calcVapourPressure(getFluid("gasoline")!.vapourPressure!, 15.56)).toBeCloseTo(5.2 * 6.895, 0)
+    expect(calcVapourPressure(getFluid("kerosene")!.vapourPressure!, 15.56)).toBeCloseTo(0.0085 * 6.895, 2)
+  })
+})
+
+describe("searchFluids", () => {
+  const custom: FluidLibraryEntry = {
+    id: "custom-slop-oil",
+    name: "Slop oil",
+    category: "CUSTOM",
+    flashBoilingPointType: "FP",
+    flashBoilingPoint: 20,
+  }
+
+  it("matches every word of the query, case-insensitive", () => {
+    expect(searchFluids("CRUDE").map((f) => f.id)).toEqual(["crude-light", "crude-medium", "crude-heavy"])
+    expect(searchFluids("oil heavy").map((f) => f.id)).toEqual(["crude-heavy"])
+  })
+
+  it("an empty query lists the library then the custom fluids", () => {
+    const all = searchFluids("  ", [custom])
+    expect(all).toHaveLength(FLUID_LIBRARY.length + 1)
+    expect(all.at(-1)).toBe(custom)
+    expect(searchFluids("oil", [custom]).map((f) => f.id)).toContain("custom-slop-oil")
+  })
+})
@@ -9,7 +9,7 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
-import { TankConfiguration } from "@/types"
+import { FloatingRoofType, TankConfiguration } from "@/types"
 import type { CalculationInput } from "@/types"
 import { INSULATION_MATERIALS } from "@/lib/constants"
 import { FieldRow } from "./FieldRow"
@@ -27,6 +27,12 @@ const CONFIG_OPTIONS: { value: TankConfiguration; label: string }[] = [
   { value: TankConfiguration.IMPOUNDMENT, label: "Impoundment" },
 ]
 
+const FLOATING_ROOF_OPTIONS: { value: FloatingRoofType; label: string }[] = [
+  { value: FloatingRoofType.NONE, label: "Fixed Roof" },
+  { value: FloatingRoofType.INTERNAL, label: "Internal Floating Roof (IFR)" },
+  { value: FloatingRoofType.EXTERNAL, label: "External Floating Roof (EFR)" },
+]
+
 export function ConfigSelector() {
   const {
     register,
@@ -40,6 +46,9 @@ export function ConfigSelector() {
     config === TankConfiguration.INSULATED_FULL ||
     config === TankConfiguration.INSULATED_PARTIAL
   const isPartial = config === TankConfiguration.INSULATED_PARTIAL
+  const isVertical = (watch("tankShape") ?? "VERTICAL_CYLINDER") === "VERTICAL_CYLINDER"
+  const floatingRoof = watch("floatingRoofType") ?? FloatingRoofType.NONE
+  const isFloating = isVertical && floatingRoof !== FloatingRoofType.NONE
 
   return (
     <div className="space-y-4">
@@ -70,6 +79,54 @@ export function ConfigSelector() {
         />
       </FieldRow>
 
+      {/* Floating roof — vertical tanks only */}
+      {isVertical && (
+        <div className="grid grid-cols-2 gap-3">
+          <FieldRow
+            label="Roof Construction"
+            htmlFor="floatingRoofType"
+            error={errors.floatingRoofType?.message}
+          >
+            <Controller
+              name="floatingRoofType"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? FloatingRoofType.NONE} onValueChange={field.onChange}>
+                  <SelectTrigger id="floatingRoofType" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FLOATING_ROOF_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+          {isFloating && (
+            <FieldRow
+              label="Roof Leg Height"
+              htmlFor="roofLegHeight"
+              unit="mm"
+              required
+              error={errors.roofLegHeight?.message}
+              hint="Deck underside when landed — sets the bleeder-vent basis"
+            >
+              <Input
+                id="roofLegHeight"
+                type="number"
+                step="any"
+                placeholder="e.g. 1800"
+                {...register("roofLegHeight", { valueAsNumber: true })}
+              />
+            </FieldRow>
+          )}
+        </div>
+      )}
+
       {/* Insulation fields — shown only for insulated configs */}
       {isInsulated && (
         <div className="rounded-md border border-dashed p-3 space-y-3 bg-muted/20">
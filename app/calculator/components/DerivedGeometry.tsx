@@ -54,16 +54,54 @@ export function DerivedGeometry() {
               value={derivedGeometry.shellSurfaceArea.toFixed(2)}
               unit="m²"
             />
-            <MetricRow
-              label="Cone Roof Area"
-              value={derivedGeometry.coneRoofArea.toFixed(2)}
-              unit="m²"
-            />
+            {derivedGeometry.headArea > 0 && (
+              <>
+                <MetricRow
+                  label="Head Area (both)"
+                  value={derivedGeometry.headArea.toFixed(2)}
+                  unit="m²"
+                />
+                <MetricRow
+                  label="Head Volume (both)"
+                  value={derivedGeometry.headVolume.toFixed(2)}
+                  unit="m³"
+                />
+              </>
+            )}
+            {derivedGeometry.roofArea > 0 && (
+              <>
+                <MetricRow
+                  label="Roof Area"
+                  value={derivedGeometry.roofArea.toFixed(2)}
+                  unit="m²"
+                />
+                <MetricRow
+                  label="Roof Volume"
+                  value={derivedGeometry.roofVolume.toFixed(2)}
+                  unit="m³"
+                />
+                <MetricRow
+                  label="Bottom Area"
+                  value={derivedGeometry.bottomArea.toFixed(2)}
+                  unit="m²"
+                />
+                <MetricRow
+                  label="Bottom Volume"
+                  value={derivedGeometry.bottomVolume.toFixed(2)}
+                  unit="m³"
+                />
+              </>
+            )}
             <MetricRow
               label="Total Surface Area"
               value={derivedGeometry.totalSurfaceArea.toFixed(2)}
               unit="m²"
             />
+            <MetricRow
+              label="Wetted Height"
+              value={derivedGeometry.wettedHeight.toFixed(0)}
+              unit="mm"
+            />
             <MetricRow
               label="Wetted Area (ATWS)"
               value={derivedGeometry.wettedArea.toFixed(2)}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useFormContext } from "react-hook-form"
+import { Save, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FLUID_CATEGORY_LABELS, searchFluids } from "@/lib/lookups/fluids"
+import { useFluidLibraryStore } from "@/lib/store/fluidLibraryStore"
+import type { CalculationInput, FluidCategory, FluidLibraryEntry } from "@/types"
+import { FieldRow } from "./FieldRow"
+
+const CATEGORIES: FluidCategory[] = ["PETROLEUM", "CHEMICAL", "CUSTOM"]
+
+const finite = (v: number | undefined) => (v !== undefined && Number.isFinite(v) ? v : undefined)
+
+/**
+ * FluidLibraryPicker — searchable list of built-in and user-saved fluids.
+ * Picking one fills flash / boiling point, the vapour pressure correlation,
+ * latent heat, molecular mass and critical temperature (plus the relieving
+ * temperature saved with a custom fluid), and records the
+ * entry as `fluidId` / `fluidName`. The current fluid fields can be saved
+ * as a custom fluid, kept in this browser.
+ */
+export function FluidLibraryPicker() {
+  const { watch, setValue, getValues } = useFormContext<CalculationInput>()
+  const { customFluids, saveCustomFluid, removeCustomFluid } = useFluidLibraryStore()
+  const [query, setQuery] = useState("")
+  const [customName, setCustomName] = useState("")
+
+  useEffect(() => {
+    useFluidLibraryStore.persist.rehydrate()
+  }, [])
+
+  const fluidId = watch("fluidId")
+  const fluidName = watch("fluidName")
+  const allFluids = searchFluids("", customFluids)
+  const matches = searchFluids(query, customFluids)
+  const selected = allFluids.find((f) => f.id === fluidId)
+
+  const applyFluid = (fluid: FluidLibraryEntry) => {
+    const opts = { shouldValidate: true, shouldDirty: true }
+    setValue("fluidId", fluid.id)
+    setValue("fluidName", fluid.name)
+    setValue("vapourPressureCorrelation", fluid.vapourPressure, opts)
+    setValue("flashBoilingPointType", fluid.flashBoilingPointType, opts)
+    setValue("flashBoilingPoint", fluid.flashBoilingPoint, opts)
+    setValue("latentHeat", fluid.latentHeat, opts)
+    setValue("relievingTemperature", fluid.relievingTemperature, opts)
+    setValue("molecularMass", fluid.molecularMass, opts)
+    setValue("criticalTemperature", fluid.criticalTemperature, opts)
+  }
+
+  const handlePick = (id: string) => {
+    const fluid = allFluids.find((f) => f.id === id)
+    if (fluid) applyFluid(fluid)
+  }
+
+  const handleClear = () => {
+    setValue("fluidId", undefined)
+    setValue("fluidName", undefined)
+  }
+
+  const handleSave = () => {
+    const name = customName.trim()
+    if (!name) return
+    const v = getValues()
+    const correlation = v.vapourPressureCorrelation
+    const fluid: FluidLibraryEntry = {
+      id: `custom-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+      name,
+      category: "CUSTOM",
+      vapourPressure:
+        correlation && [correlation.a, correlation.b, correlation.c].every(Number.isFinite)
+          ? correlation
+          : undefined,
+      flashBoilingPointType: v.flashBoilingPointType,
+      flashBoilingPoint:    finite(v.flashBoilingPoint),
+      latentHeat:           finite(v.latentHeat),
+      relievingTemperature: finite(v.relievingTemperature),
+      molecularMass:        finite(v.molecularMass),
+      criticalTemperature:  finite(v.criticalTemperature),
+    }
+    saveCustomFluid(fluid)
+    setValue("fluidId", fluid.id)
+    setValue("fluidName", fluid.name)
+    setCustomName("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <FieldRow
+        label="Fluid Library"
+        htmlFor="fluidId"
+        hint={
+          fluidName
+            ? `Filled from ${fluidName} — fields below can still be edited`
+            : "Fills FP / BP, vapour pressure, L, M and T_c"
+        }
+      >
+        <div className="grid grid-cols-[1fr_1.5fr_auto] gap-2">
+          <Input
+            placeholder="Search…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <Select value={fluidId ?? ""} onValueChange={handlePick}>
+            <SelectTrigger id="fluidId" className="w-full">
+              <SelectValue placeholder={fluidName ?? "Select fluid"} />
+            </SelectTrigger>
+            <SelectContent>
+              {CATEGORIES.map((category) => {
+                const fluids = matches.filter((f) => f.category === category)
+                if (fluids.length === 0) return null
+                return (
+                  <SelectGroup key={category}>
+                    <SelectLabel>{FLUID_CATEGORY_LABELS[category]}</SelectLabel>
+                    {fluids.map(({ id, name }) => (
+                      <SelectItem key={id} value={id}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )
+              })}
+              {matches.length === 0 && (
+                <p className="px-2 py-1.5 text-xs text-muted-foreground">No fluid matches “{query}”</p>
+              )}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center">
+            {selected?.category === "CUSTOM" && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Delete custom fluid"
+                className="text-muted-foreground hover:text-destructive"
+                onClick={() => {
+                  removeCustomFluid(selected.id)
+                  handleClear()
+                }}
+              >
+                <Trash2 />
+              </Button>
+            )}
+            {fluidId && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Clear fluid reference"
+                onClick={handleClear}
+              >
+                <X />
+              </Button>
+            )}
+          </div>
+        </div>
+      </FieldRow>
+
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-7 text-xs"
+          placeholder="Save current fluid as…"
+          value={customName}
+          onChange={(e) => setCustomName(e.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs gap-1"
+          disabled={!customName.trim()}
+          onClick={handleSave}
+        >
+          <Save className="h-3.5 w-3.5" />
+          Save custom
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,13 @@
 import { TankDetailSection } from "../sections/TankDetailSection"
 import { FluidPropertiesSection } from "../sections/FluidPropertiesSection"
 import { StreamFlowSection } from "../sections/StreamFlowSection"
+import { CompartmentSection } from "../sections/CompartmentSection"
 import { DrainSystemSection } from "../sections/DrainSystemSection"
+import { BlowThroughSection } from "../sections/BlowThroughSection"
+import { CoilRuptureSection } from "../sections/CoilRuptureSection"
+import { SteamOutSection } from "../sections/SteamOutSection"
+import { BlanketingSection } from "../sections/BlanketingSection"
+import { ScenarioSection } from "../sections/ScenarioSection"
 import { ApiEditionSelector } from "../sections/ApiEditionSelector"
 import { DerivedGeometry } from "./DerivedGeometry"
 import { SectionCard } from "./SectionCard"
@@ -15,7 +21,13 @@ export function InputPanel() {
       <DerivedGeometry />
       <FluidPropertiesSection />
       <StreamFlowSection />
+      <CompartmentSection />
       <DrainSystemSection />
+      <BlowThroughSection />
+      <CoilRuptureSection />
+      <SteamOutSection />
+      <BlanketingSection />
+      <ScenarioSection />
       <SectionCard title="Calculation Standard">
         <ApiEditionSelector />
       </SectionCard>
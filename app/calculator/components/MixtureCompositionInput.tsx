@@ -0,0 +1,144 @@
+"use client"
+
+import { Controller, useFieldArray, useFormContext } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FLUID_CATEGORY_LABELS, FLUID_LIBRARY } from "@/lib/lookups/fluids"
+import type { CalculationInput, CompositionBasis, FluidCategory } from "@/types"
+import { FieldRow } from "./FieldRow"
+
+const BASIS_OPTIONS: { value: CompositionBasis; label: string }[] = [
+  { value: "MOLE", label: "Mole fractions" },
+  { value: "MASS", label: "Mass fractions" },
+]
+
+const CATEGORIES: FluidCategory[] = ["PETROLEUM", "CHEMICAL"]
+
+/**
+ * MixtureCompositionInput — components of a stored mixture, picked from the
+ * built-in fluid library with mole or mass fractions. The engine derives L,
+ * the bubble temperature at relieving pressure (T_r) and M from them.
+ */
+export function MixtureCompositionInput() {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const { fields, append, remove } = useFieldArray({ control, name: "mixtureComponents" })
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium">Mixture Composition</p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => append({ fluidId: "", fraction: NaN })}
+          className="h-6 text-xs gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add component
+        </Button>
+      </div>
+
+      {fields.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Single fluid — add components to derive L, T_r and M from a mixture
+        </p>
+      ) : (
+        <>
+          <FieldRow
+            label="Fractions"
+            htmlFor="compositionBasis"
+            error={errors.mixtureComponents?.message ?? errors.mixtureComponents?.root?.message}
+            hint="Normalised by their sum; T_r is the bubble point at relieving pressure"
+          >
+            <Controller
+              name="compositionBasis"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? "MOLE"} onValueChange={field.onChange}>
+                  <SelectTrigger id="compositionBasis" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BASIS_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+          {fields.map((field, index) => {
+            const rowErrors = errors.mixtureComponents?.[index]
+            return (
+              <div key={field.id} className="space-y-1">
+                <div className="grid grid-cols-[1fr_6rem_2rem] gap-2 items-center">
+                  <Controller
+                    name={`mixtureComponents.${index}.fluidId`}
+                    control={control}
+                    render={({ field: fluidField }) => (
+                      <Select value={fluidField.value} onValueChange={fluidField.onChange}>
+                        <SelectTrigger className="h-7 w-full text-xs">
+                          <SelectValue placeholder="Select fluid" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CATEGORIES.map((category) => (
+                            <SelectGroup key={category}>
+                              <SelectLabel>{FLUID_CATEGORY_LABELS[category]}</SelectLabel>
+                              {FLUID_LIBRARY.filter((f) => f.category === category).map(({ id, name }) => (
+                                <SelectItem key={id} value={id}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                  <Input
+                    className="h-7 text-xs"
+                    type="number"
+                    step="any"
+                    placeholder="Fraction"
+                    {...register(`mixtureComponents.${index}.fraction`, { valueAsNumber: true })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                {(rowErrors?.fluidId?.message ?? rowErrors?.fraction?.message) && (
+                  <p className="text-xs text-destructive">
+                    {rowErrors?.fluidId?.message ?? rowErrors?.fraction?.message}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+        </>
+      )}
+    </div>
+  )
+}
@@ -6,10 +6,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { Loader2, AlertCircle, CheckCircle2, Circle } from "lucide-react"
+import { formatStandard } from "@/lib/lookups/clauses"
 import { SectionCard } from "./SectionCard"
 import { TankSchematic } from "./TankSchematic"
 import { SummaryResult } from "../results/SummaryResult"
 import { NormalVentingResult } from "../results/NormalVentingResult"
+import { ScenarioMatrixResult } from "../results/ScenarioMatrixResult"
+import { BlanketingResult } from "../results/BlanketingResult"
 import { EmergencyVentingResult } from "../results/EmergencyVentingResult"
 import type { CalculationInput } from "@/types"
 
@@ -44,7 +47,8 @@ export function ResultsPanel() {
           {/* ── Warnings ────────────────────────────────────────────────────── */}
           {(calculationResult.warnings.capacityExceedsTable ||
             calculationResult.warnings.undergroundTank ||
-            calculationResult.warnings.hexaneDefaults) && (
+            calculationResult.warnings.hexaneDefaults ||
+            calculationResult.warnings.vapourPressureNearThreshold) && (
               <div className="space-y-1.5">
                 {calculationResult.warnings.capacityExceedsTable && (
                   <WarningBanner color="yellow">
@@ -61,6 +65,13 @@ export function ResultsPanel() {
                     Using Hexane defaults for latent heat / relieving temperature / molecular mass
                   </WarningBanner>
                 )}
+                {calculationResult.warnings.vapourPressureNearThreshold && (
+                  <WarningBanner color="yellow">
+                    Storage temperature is within 5 K of the 5 kPa vapour pressure crossing
+                    ({calculationResult.vapourPressure.thresholdTemperature?.toFixed(1)} °C) — the 7th
+                    edition 1.0× / 2.0× outbreathing factor is sensitive to it
+                  </WarningBanner>
+                )}
               </div>
             )}
 
@@ -69,12 +80,15 @@ export function ResultsPanel() {
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
                 <CardTitle className="text-base font-semibold">Design Summary</CardTitle>
-                <Badge variant="secondary">{calculationResult.apiEdition} Edition</Badge>
+                <Badge variant="secondary">{formatStandard(calculationResult.clauses)}</Badge>
               </div>
               <Separator />
             </CardHeader>
             <CardContent>
-              <SummaryResult summary={calculationResult.summary} />
+              <SummaryResult
+                summary={calculationResult.summary}
+                vapourFlows={calculationResult.vapourFlows}
+              />
             </CardContent>
           </Card>
 
@@ -86,10 +100,31 @@ export function ResultsPanel() {
             <NormalVentingResult
               result={calculationResult.normalVenting}
               apiEdition={calculationResult.apiEdition}
+              clauses={calculationResult.clauses}
+              vapourPressure={calculationResult.vapourPressure}
               drainInbreathing={calculationResult.drainInbreathing}
+              blowThrough={calculationResult.blowThrough}
+              steamOut={calculationResult.steamOut}
             />
           </SectionCard>
 
+          {/* ── Inert Gas Blanketing ─────────────────────────────────────────── */}
+          {calculationResult.blanketing && (
+            <SectionCard title="Inert Gas Blanketing">
+              <BlanketingResult result={calculationResult.blanketing} />
+            </SectionCard>
+          )}
+
+          {/* ── Scenario Matrix ──────────────────────────────────────────────── */}
+          {calculationResult.scenarios && calculationResult.summary.governingScenario && (
+            <SectionCard title="Scenario Matrix">
+              <ScenarioMatrixResult
+                scenarios={calculationResult.scenarios}
+                governing={calculationResult.summary.governingScenario}
+              />
+            </SectionCard>
+          )}
+
           {/* ── Emergency Venting ────────────────────────────────────────────── */}
           <SectionCard
             title="Emergency Venting"
@@ -102,6 +137,7 @@ export function ResultsPanel() {
             <EmergencyVentingResult
               result={calculationResult.emergencyVenting}
               apiEdition={calculationResult.apiEdition}
+              clauses={calculationResult.clauses}
             />
           </SectionCard>
         </>
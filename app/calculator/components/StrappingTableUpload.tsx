@@ -0,0 +1,88 @@
+"use client"
+
+import { useRef, useState } from "react"
+import type { ChangeEvent } from "react"
+import { useFormContext } from "react-hook-form"
+import { Upload, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { parseStrappingCsv, strappingTop } from "@/lib/lookups/strapping"
+import type { CalculationInput } from "@/types"
+import { FieldRow } from "./FieldRow"
+
+/**
+ * StrappingTableUpload — imports a calibrated level-vs-volume CSV into the
+ * form as `strappingTable`. Once loaded the table replaces the geometric
+ * volume for capacity, working volume and liquid height.
+ */
+export function StrappingTableUpload() {
+  const {
+    watch,
+    setValue,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  const table = watch("strappingTable")
+  const top = table ? strappingTop(table) : null
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // allow re-selecting the same file
+    if (!file) return
+
+    try {
+      const parsed = parseStrappingCsv(await file.text(), file.name)
+      setValue("strappingTable", parsed, { shouldValidate: true, shouldDirty: true })
+      setParseError(null)
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : "Could not read strapping table")
+    }
+  }
+
+  const handleClear = () => {
+    setValue("strappingTable", undefined, { shouldValidate: true, shouldDirty: true })
+    setParseError(null)
+  }
+
+  return (
+    <FieldRow
+      label="Strapping Table"
+      htmlFor="strappingTable"
+      error={parseError ?? errors.strappingTable?.message}
+      hint="CSV of level (mm), volume (m³) — replaces geometric volumes"
+    >
+      <div className="flex items-center gap-2">
+        <input
+          ref={fileRef}
+          id="strappingTable"
+          type="file"
+          accept=".csv,.txt,text/csv"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+          <Upload />
+          {table ? "Replace CSV" : "Import CSV"}
+        </Button>
+        {table && top && (
+          <>
+            <span className="flex-1 truncate text-xs text-muted-foreground">
+              {table.source ?? "Imported"} — {table.points.length} points, top{" "}
+              {top.level.toFixed(0)} mm / {top.volume.toFixed(2)} m³
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Clear strapping table"
+              onClick={handleClear}
+            >
+              <X />
+            </Button>
+          </>
+        )}
+      </div>
+    </FieldRow>
+  )
+}
@@ -1,55 +1,108 @@
 "use client"
 
+import { useId } from "react"
 import { useCalculatorStore } from "@/lib/store/calculatorStore"
 import { useFormContext } from "react-hook-form"
-import type { CalculationInput } from "@/types"
+import type { BottomProfile, CalculationInput, HeadType, RoofType } from "@/types"
+import { calcBottomGeometry, calcHeadDepth, calcRoofGeometry } from "@/lib/calculations/geometry"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 
+// ─── Shared annotations ────────────────────────────────────────────────────────
+
+function LiquidLevelLine({ x1, x2, y }: { x1: number; x2: number; y: number }) {
+  return (
+    <>
+      <line
+        x1={x1}
+        y1={y}
+        x2={x2}
+        y2={y}
+        stroke="hsl(210 80% 35%)"
+        strokeWidth={0.8}
+      />
+      <text x={x1 + 3} y={y - 2} fontSize={7} fill="hsl(210 80% 35%)" className="font-mono">
+        LL
+      </text>
+    </>
+  )
+}
+
+function ElevationLabel({ x, y, elevationMm }: { x: number; y: number; elevationMm: number }) {
+  return (
+    <text x={x} y={y} textAnchor="end" fontSize={7} fill="currentColor" className="font-mono">
+      Bottom EL +{(elevationMm / 1000).toFixed(2)} m
+    </text>
+  )
+}
+
 // ─── SVG Tank Schematic ────────────────────────────────────────────────────────
-// Draws a simplified cylindrical tank cross-section with:
+// Draws a simplified vertical tank cross-section with:
 //   - Tank shell (rectangle)
-//   - Cone roof (triangle)
-//   - Wetted area shading (blue fill up to the 9144mm cap or full height)
+//   - Roof (cone triangle, dome / umbrella arc, or flat)
+//   - Bottom (cone-down / cone-up / single slope; depth exaggerated)
+//   - Wetted area shading (blue fill up to the wetted height — the lower of the
+//     max liquid level and 9,144 mm above grade)
+//   - Max liquid level line, elevation above grade
 //   - D and H dimension annotations
 
 interface SchematicSVGProps {
   diameterMm: number
   heightMm: number
-  wettedAreaM2: number
-  shellAreaM2: number
+  wettedHeightMm: number
+  liquidLevelMm: number
+  elevationMm: number
+  roofType: RoofType
+  roofHeightMm: number
+  bottomProfile: BottomProfile
+  bottomDepthMm: number
 }
 
-function SchematicSVG({ diameterMm, heightMm, wettedAreaM2, shellAreaM2 }: SchematicSVGProps) {
+function SchematicSVG({
+  diameterMm,
+  heightMm,
+  wettedHeightMm,
+  liquidLevelMm,
+  elevationMm,
+  roofType,
+  roofHeightMm,
+  bottomProfile,
+  bottomDepthMm,
+}: SchematicSVGProps) {
   // ── Layout constants ────────────────────────────────────────────────────────
   const SVG_W = 260
   const SVG_H = 220
   const MARGIN_L = 40  // left margin for H label
   const MARGIN_R = 20
-  const MARGIN_T = 24  // top margin for cone + D label
+  const MARGIN_T = 24  // top margin for roof + D label
   const MARGIN_B = 20  // bottom margin
 
   const tankW = SVG_W - MARGIN_L - MARGIN_R
-  const tankH = SVG_H - MARGIN_T - MARGIN_B - 20 // reserve 20px for cone
+  const ROOF_RESERVE = 20
+  const BOTTOM_RESERVE = bottomProfile === "FLAT" ? 0 : 12
+  const tankH = SVG_H - MARGIN_T - MARGIN_B - ROOF_RESERVE - BOTTOM_RESERVE
 
-  // ── Cone dimensions (1:12 slope) ────────────────────────────────────────────
-  const coneH = Math.max(8, tankW / 24) // proportional to tank width
+  // ── Roof rise — drawn to scale against tank width, clamped to the reserve ──
+  const roofH = Math.min(ROOF_RESERVE, (tankW * roofHeightMm) / diameterMm)
+  // Bottom depth — exaggerated ×4 so a 1:120 slope is still visible
+  const bottomH = Math.min(BOTTOM_RESERVE, (4 * tankW * bottomDepthMm) / diameterMm)
 
   // ── Wetted height ratio ──────────────────────────────────────────────────────
-  // wettedArea = π × D × wettedH — solve for wettedH
-  const fullShellAreaM2 = shellAreaM2
-  const wettedRatio = Math.min(wettedAreaM2 / fullShellAreaM2, 1)
+  const wettedRatio = Math.min(wettedHeightMm / heightMm, 1)
   const wettedPx = tankH * wettedRatio
 
   // ── Coordinates ─────────────────────────────────────────────────────────────
   const tankLeft  = MARGIN_L
   const tankRight = MARGIN_L + tankW
-  const tankTop   = MARGIN_T + coneH
+  const tankTop   = MARGIN_T + ROOF_RESERVE
   const tankBot   = tankTop + tankH
-  const coneApex  = { x: MARGIN_L + tankW / 2, y: MARGIN_T }
+  const roofApex  = { x: MARGIN_L + tankW / 2, y: tankTop - roofH }
+  const dimY      = tankBot + BOTTOM_RESERVE // baseline for the D annotation
 
   // Wetted fill (from bottom up)
   const wettedTop = tankBot - wettedPx
+  const liquidRatio = Math.min(liquidLevelMm / heightMm, 1)
+  const liquidTop = tankBot - tankH * liquidRatio
 
   const dmStr = (diameterMm / 1000).toFixed(2)
   const hmStr = (heightMm / 1000).toFixed(2)
@@ -82,14 +135,55 @@ function SchematicSVG({ diameterMm, heightMm, wettedAreaM2, shellAreaM2 }: Schem
         className="text-foreground"
       />
 
-      {/* Cone roof */}
-      <polygon
-        points={`${tankLeft},${tankTop} ${coneApex.x},${coneApex.y} ${tankRight},${tankTop}`}
-        fill="none"
-        stroke="currentColor"
-        strokeWidth={1.5}
-        className="text-foreground"
-      />
+      {/* Roof */}
+      {roofType === "CONE" && (
+        <polygon
+          points={`${tankLeft},${tankTop} ${roofApex.x},${roofApex.y} ${tankRight},${tankTop}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className="text-foreground"
+        />
+      )}
+      {(roofType === "DOME" || roofType === "UMBRELLA") && (
+        <path
+          d={`M ${tankLeft} ${tankTop} Q ${roofApex.x} ${tankTop - 2 * roofH} ${tankRight} ${tankTop}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeDasharray={roofType === "UMBRELLA" ? "6 1" : undefined}
+          className="text-foreground"
+        />
+      )}
+
+      {/* Bottom */}
+      {bottomProfile === "CONE_DOWN" && (
+        <polyline
+          points={`${tankLeft},${tankBot} ${roofApex.x},${tankBot + bottomH} ${tankRight},${tankBot}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className="text-foreground"
+        />
+      )}
+      {bottomProfile === "CONE_UP" && (
+        <polyline
+          points={`${tankLeft},${tankBot} ${roofApex.x},${tankBot - bottomH} ${tankRight},${tankBot}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className="text-foreground"
+        />
+      )}
+      {bottomProfile === "SLOPED" && (
+        <polyline
+          points={`${tankLeft},${tankBot} ${tankRight},${tankBot + bottomH} ${tankRight},${tankBot}`}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className="text-foreground"
+        />
+      )}
 
       {/* Wetted level line */}
       {wettedRatio < 1 && wettedRatio > 0.01 && (
@@ -115,12 +209,20 @@ function SchematicSVG({ diameterMm, heightMm, wettedAreaM2, shellAreaM2 }: Schem
         </>
       )}
 
+      {/* Max liquid level line */}
+      {liquidRatio < 1 && (
+        <LiquidLevelLine x1={tankLeft} x2={tankRight} y={liquidTop} />
+      )}
+
+      {/* Elevation above grade */}
+      {elevationMm > 0 && <ElevationLabel x={tankRight} y={MARGIN_T - 6} elevationMm={elevationMm} />}
+
       {/* D (diameter) annotation — horizontal, below tank top */}
       <line
         x1={tankLeft}
-        y1={tankBot + 10}
+        y1={dimY + 10}
         x2={tankRight}
-        y2={tankBot + 10}
+        y2={dimY + 10}
         stroke="currentColor"
         strokeWidth={0.8}
         className="text-muted-foreground"
@@ -129,7 +231,7 @@ function SchematicSVG({ diameterMm, heightMm, wettedAreaM2, shellAreaM2 }: Schem
       />
       <text
         x={tankLeft + tankW / 2}
-        y={tankBot + 18}
+        y={dimY + 18}
         textAnchor="middle"
         fontSize={8}
         className="text-muted-foreground fill-current"
@@ -165,9 +267,9 @@ function SchematicSVG({ diameterMm, heightMm, wettedAreaM2, shellAreaM2 }: Schem
         <line
           key={i}
           x1={x}
-          y1={tankBot + 6}
+          y1={dimY + 6}
           x2={x}
-          y2={tankBot + 14}
+          y2={dimY + 14}
           stroke="currentColor"
           strokeWidth={0.8}
           className="text-muted-foreground"
@@ -197,16 +299,461 @@ function SchematicSVG({ diameterMm, heightMm, wettedAreaM2, shellAreaM2 }: Schem
   )
 }
 
+// ─── Horizontal Tank Schematic ─────────────────────────────────────────────────
+// Side elevation of a horizontal cylinder with:
+//   - Shell (rectangle) and heads (elliptical arcs; straight lines when flat)
+//   - Wetted area shading clipped to the vessel outline
+//   - Max liquid level line, elevation above grade
+//   - D and L dimension annotations
+
+interface HorizontalSchematicSVGProps {
+  diameterMm: number
+  lengthMm: number
+  wettedHeightMm: number
+  liquidLevelMm: number
+  elevationMm: number
+  headType: HeadType
+}
+
+function HorizontalSchematicSVG({
+  diameterMm,
+  lengthMm,
+  wettedHeightMm,
+  liquidLevelMm,
+  elevationMm,
+  headType,
+}: HorizontalSchematicSVGProps) {
+  const clipId = useId()
+
+  // ── Layout constants ────────────────────────────────────────────────────────
+  const SVG_W = 260
+  const SVG_H = 220
+  const MARGIN_X = 30  // side margins (left holds the D label)
+  const MARGIN_T = 24  // top margin for legend
+  const MAX_BODY_H = 140
+
+  // ── Scale the vessel to fit ─────────────────────────────────────────────────
+  const headDepthMm = calcHeadDepth(diameterMm, headType)
+  const overallMm = lengthMm + 2 * headDepthMm
+  const scale = Math.min((SVG_W - 2 * MARGIN_X) / overallMm, MAX_BODY_H / diameterMm)
+
+  const bodyW = lengthMm * scale
+  const headW = headDepthMm * scale
+  const bodyH = diameterMm * scale
+
+  // ── Coordinates ─────────────────────────────────────────────────────────────
+  const shellLeft  = (SVG_W - bodyW) / 2
+  const shellRight = shellLeft + bodyW
+  const top        = MARGIN_T + (MAX_BODY_H - bodyH) / 2 + 8
+  const bot        = top + bodyH
+  const ry         = bodyH / 2
+
+  const outline =
+    `M ${shellLeft} ${top} L ${shellRight} ${top} ` +
+    `A ${headW} ${ry} 0 0 1 ${shellRight} ${bot} ` +
+    `L ${shellLeft} ${bot} ` +
+    `A ${headW} ${ry} 0 0 1 ${shellLeft} ${top} Z`
+
+  const wettedRatio = Math.min(wettedHeightMm / diameterMm, 1)
+  const wettedTop = bot - bodyH * wettedRatio
+  const liquidRatio = Math.min(liquidLevelMm / diameterMm, 1)
+  const liquidTop = bot - bodyH * liquidRatio
+
+  const dmStr = (diameterMm / 1000).toFixed(2)
+  const lmStr = (lengthMm / 1000).toFixed(2)
+
+  return (
+    <svg
+      viewBox={`0 0 ${SVG_W} ${SVG_H}`}
+      className="w-full max-w-[300px] mx-auto"
+      aria-label="Horizontal tank schematic showing diameter, length, and wetted area"
+    >
+      <defs>
+        <clipPath id={clipId}>
+          <path d={outline} />
+        </clipPath>
+      </defs>
+
+      {/* Wetted area fill */}
+      <rect
+        x={shellLeft - headW}
+        y={wettedTop}
+        width={bodyW + 2 * headW}
+        height={bot - wettedTop}
+        fill="hsl(210 80% 70% / 0.25)"
+        stroke="none"
+        clipPath={`url(#${clipId})`}
+      />
+
+      {/* Vessel outline */}
+      <path
+        d={outline}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        className="text-foreground"
+      />
+
+      {/* Tangent lines */}
+      {headW > 0 && [shellLeft, shellRight].map((x, i) => (
+        <line
+          key={i}
+          x1={x}
+          y1={top}
+          x2={x}
+          y2={bot}
+          stroke="currentColor"
+          strokeWidth={0.6}
+          strokeDasharray="2 2"
+          className="text-muted-foreground"
+        />
+      ))}
+
+      {/* Wetted level line */}
+      {wettedRatio < 1 && wettedRatio > 0.01 && (
+        <>
+          <line
+            x1={shellLeft - headW}
+            y1={wettedTop}
+            x2={shellRight + headW}
+            y2={wettedTop}
+            stroke="hsl(210 80% 50%)"
+            strokeWidth={1}
+            strokeDasharray="3 2"
+            clipPath={`url(#${clipId})`}
+          />
+          <text
+            x={shellRight + headW + 3}
+            y={wettedTop + 4}
+            fontSize={7}
+            fill="hsl(210 80% 50%)"
+            className="font-mono"
+          >
+            ATWS
+          </text>
+        </>
+      )}
+
+      {/* Max liquid level line */}
+      {liquidRatio < 1 && (
+        <g clipPath={`url(#${clipId})`}>
+          <LiquidLevelLine x1={shellLeft - headW} x2={shellRight + headW} y={liquidTop} />
+        </g>
+      )}
+
+      {/* Elevation above grade */}
+      {elevationMm > 0 && <ElevationLabel x={SVG_W - MARGIN_X} y={MARGIN_T - 6} elevationMm={elevationMm} />}
+
+      {/* L (length) annotation — horizontal, below vessel */}
+      <line
+        x1={shellLeft}
+        y1={bot + 10}
+        x2={shellRight}
+        y2={bot + 10}
+        stroke="currentColor"
+        strokeWidth={0.8}
+        className="text-muted-foreground"
+      />
+      <text
+        x={(shellLeft + shellRight) / 2}
+        y={bot + 18}
+        textAnchor="middle"
+        fontSize={8}
+        className="text-muted-foreground fill-current"
+        fill="currentColor"
+      >
+        L = {lmStr} m
+      </text>
+
+      {/* D (diameter) annotation — vertical, left of vessel */}
+      <line
+        x1={shellLeft - headW - 8}
+        y1={top}
+        x2={shellLeft - headW - 8}
+        y2={bot}
+        stroke="currentColor"
+        strokeWidth={0.8}
+        className="text-muted-foreground"
+      />
+      <text
+        x={shellLeft - headW - 14}
+        y={(top + bot) / 2}
+        textAnchor="middle"
+        fontSize={8}
+        className="text-muted-foreground fill-current"
+        fill="currentColor"
+        transform={`rotate(-90, ${shellLeft - headW - 14}, ${(top + bot) / 2})`}
+      >
+        D = {dmStr} m
+      </text>
+
+      {/* Tick marks for L annotation */}
+      {[shellLeft, shellRight].map((x, i) => (
+        <line
+          key={i}
+          x1={x}
+          y1={bot + 6}
+          x2={x}
+          y2={bot + 14}
+          stroke="currentColor"
+          strokeWidth={0.8}
+          className="text-muted-foreground"
+        />
+      ))}
+
+      {/* Legend */}
+      <rect x={MARGIN_X} y={MARGIN_T - 14} width={9} height={9}
+        fill="hsl(210 80% 70% / 0.25)" stroke="hsl(210 80% 50%)" strokeWidth={0.7} />
+      <text x={MARGIN_X + 12} y={MARGIN_T - 6} fontSize={7} fill="currentColor">
+        Wetted area
+      </text>
+    </svg>
+  )
+}
+
+// ─── Sphere / Spheroid Schematic ───────────────────────────────────────────────
+// Elevation of a sphere or spheroid on legs with:
+//   - Body (ellipse; a circle for spheres)
+//   - Wetted area shading clipped to the body outline
+//   - Support legs down to a grade line at the support height
+//   - Max liquid level line, D and H annotations
+
+interface SphereSchematicSVGProps {
+  diameterMm: number
+  heightMm: number
+  wettedHeightMm: number
+  liquidLevelMm: number
+  elevationMm: number
+}
+
+function SphereSchematicSVG({
+  diameterMm,
+  heightMm,
+  wettedHeightMm,
+  liquidLevelMm,
+  elevationMm,
+}: SphereSchematicSVGProps) {
+  const clipId = useId()
+
+  // ── Layout constants ────────────────────────────────────────────────────────
+  const SVG_W = 260
+  const SVG_H = 220
+  const MARGIN_X = 40  // side margins (left holds the H label)
+  const MARGIN_T = 34  // top margin for legend + D label
+  const MAX_BODY_H = 130
+  const MAX_LEG_H = 36
+
+  // ── Scale the body to fit; legs drawn to scale, clamped ─────────────────────
+  const scale = Math.min((SVG_W - 2 * MARGIN_X) / diameterMm, MAX_BODY_H / heightMm)
+  const rx = (diameterMm * scale) / 2
+  const ry = (heightMm * scale) / 2
+  const legH = Math.min(MAX_LEG_H, elevationMm * scale)
+
+  // ── Coordinates ─────────────────────────────────────────────────────────────
+  const cx    = SVG_W / 2
+  const top   = MARGIN_T
+  const cy    = top + ry
+  const bot   = top + 2 * ry
+  const grade = bot + legH
+
+  const wettedRatio = Math.min(wettedHeightMm / heightMm, 1)
+  const wettedTop = bot - 2 * ry * wettedRatio
+  const liquidRatio = Math.min(liquidLevelMm / heightMm, 1)
+  const liquidTop = bot - 2 * ry * liquidRatio
+
+  const dmStr = (diameterMm / 1000).toFixed(2)
+  const hmStr = (heightMm / 1000).toFixed(2)
+
+  return (
+    <svg
+      viewBox={`0 0 ${SVG_W} ${SVG_H}`}
+      className="w-full max-w-[300px] mx-auto"
+      aria-label="Spherical tank schematic showing diameter, height, support height, and wetted area"
+    >
+      <defs>
+        <clipPath id={clipId}>
+          <ellipse cx={cx} cy={cy} rx={rx} ry={ry} />
+        </clipPath>
+      </defs>
+
+      {/* Wetted area fill */}
+      <rect
+        x={cx - rx}
+        y={wettedTop}
+        width={2 * rx}
+        height={bot - wettedTop}
+        fill="hsl(210 80% 70% / 0.25)"
+        stroke="none"
+        clipPath={`url(#${clipId})`}
+      />
+
+      {/* Body outline */}
+      <ellipse
+        cx={cx}
+        cy={cy}
+        rx={rx}
+        ry={ry}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        className="text-foreground"
+      />
+
+      {/* Support legs (from the equator) and grade */}
+      {legH > 0 && (
+        <>
+          {[cx - rx, cx + rx].map((x, i) => (
+            <line
+              key={i}
+              x1={x}
+              y1={cy}
+              x2={x}
+              y2={grade}
+              stroke="currentColor"
+              strokeWidth={1}
+              className="text-foreground"
+            />
+          ))}
+          <line
+            x1={cx - rx - 12}
+            y1={grade}
+            x2={cx + rx + 12}
+            y2={grade}
+            stroke="currentColor"
+            strokeWidth={0.8}
+            strokeDasharray="4 2"
+            className="text-muted-foreground"
+          />
+        </>
+      )}
+
+      {/* Wetted level line */}
+      {wettedRatio < 1 && wettedRatio > 0.01 && (
+        <>
+          <line
+            x1={cx - rx}
+            y1={wettedTop}
+            x2={cx + rx}
+            y2={wettedTop}
+            stroke="hsl(210 80% 50%)"
+            strokeWidth={1}
+            strokeDasharray="3 2"
+            clipPath={`url(#${clipId})`}
+          />
+          <text
+            x={cx + rx + 3}
+            y={wettedTop + 4}
+            fontSize={7}
+            fill="hsl(210 80% 50%)"
+            className="font-mono"
+          >
+            ATWS
+          </text>
+        </>
+      )}
+
+      {/* Max liquid level line */}
+      {liquidRatio < 1 && (
+        <g clipPath={`url(#${clipId})`}>
+          <LiquidLevelLine x1={cx - rx} x2={cx + rx} y={liquidTop} />
+        </g>
+      )}
+
+      {/* Support height */}
+      {elevationMm > 0 && <ElevationLabel x={SVG_W - 10} y={MARGIN_T - 18} elevationMm={elevationMm} />}
+
+      {/* D annotation — horizontal, above body */}
+      <line
+        x1={cx - rx}
+        y1={top - 6}
+        x2={cx + rx}
+        y2={top - 6}
+        stroke="currentColor"
+        strokeWidth={0.8}
+        className="text-muted-foreground"
+      />
+      <text
+        x={cx}
+        y={top - 9}
+        textAnchor="middle"
+        fontSize={8}
+        className="text-muted-foreground fill-current"
+        fill="currentColor"
+      >
+        D = {dmStr} m
+      </text>
+
+      {/* H annotation — vertical, left of body */}
+      <line
+        x1={cx - rx - 10}
+        y1={top}
+        x2={cx - rx - 10}
+        y2={bot}
+        stroke="currentColor"
+        strokeWidth={0.8}
+        className="text-muted-foreground"
+      />
+      <text
+        x={cx - rx - 16}
+        y={cy}
+        textAnchor="middle"
+        fontSize={8}
+        className="text-muted-foreground fill-current"
+        fill="currentColor"
+        transform={`rotate(-90, ${cx - rx - 16}, ${cy})`}
+      >
+        H = {hmStr} m
+      </text>
+
+      {/* Legend */}
+      <rect x={10} y={MARGIN_T - 26} width={9} height={9}
+        fill="hsl(210 80% 70% / 0.25)" stroke="hsl(210 80% 50%)" strokeWidth={0.7} />
+      <text x={22} y={MARGIN_T - 18} fontSize={7} fill="currentColor">
+        Wetted area
+      </text>
+    </svg>
+  )
+}
+
 // ─── Card wrapper ──────────────────────────────────────────────────────────────
 
 export function TankSchematic() {
   const derivedGeometry = useCalculatorStore((s) => s.derivedGeometry)
   const { watch } = useFormContext<CalculationInput>()
-  const diameter = watch("diameter")
-  const height   = watch("height")
+  const tankShape  = watch("tankShape") ?? "VERTICAL_CYLINDER"
+  const headType   = watch("headType") ?? "ELLIPSOIDAL_2_1"
+  const diameter   = watch("diameter")
+  const height     = watch("height")
+  const roofType   = watch("roofType") ?? "CONE"
+  const roofSlope  = watch("roofSlope")
+  const roofRadius = watch("roofRadius")
+  const roofSegments = watch("roofSegments")
+  const elevation  = watch("elevation")
+  const maxLiquidLevel = watch("maxLiquidLevel")
+  const bottomProfile = watch("bottomProfile") ?? "FLAT"
+  const bottomSlope   = watch("bottomSlope")
 
   if (!derivedGeometry || !diameter || !height) return null
 
+  // Blank numeric inputs arrive as NaN — fall back to the roof defaults
+  const roof = calcRoofGeometry(
+    diameter,
+    roofType,
+    Number.isFinite(roofSlope) ? roofSlope : undefined,
+    Number.isFinite(roofRadius) ? roofRadius : undefined,
+    Number.isFinite(roofSegments) ? roofSegments : undefined,
+  )
+
+  const bottom = calcBottomGeometry(
+    diameter,
+    bottomProfile,
+    Number.isFinite(bottomSlope) ? bottomSlope : undefined,
+  )
+
+  const elevationMm = Number.isFinite(elevation) ? (elevation as number) : 0
+  const fullHeightMm = tankShape === "HORIZONTAL_CYLINDER" || tankShape === "SPHERE" ? diameter : height
+  const liquidLevelMm = Number.isFinite(maxLiquidLevel) ? (maxLiquidLevel as number) : fullHeightMm
+
   return (
     <Card className="shadow-sm">
       <CardHeader className="pb-3">
@@ -214,12 +761,36 @@ export function TankSchematic() {
         <Separator />
       </CardHeader>
       <CardContent className="pt-2">
-        <SchematicSVG
-          diameterMm={diameter}
-          heightMm={height}
-          wettedAreaM2={derivedGeometry.wettedArea}
-          shellAreaM2={derivedGeometry.shellSurfaceArea}
-        />
+        {tankShape === "SPHERE" || tankShape === "SPHEROID" ? (
+          <SphereSchematicSVG
+            diameterMm={diameter}
+            heightMm={fullHeightMm}
+            wettedHeightMm={derivedGeometry.wettedHeight}
+            liquidLevelMm={liquidLevelMm}
+            elevationMm={elevationMm}
+          />
+        ) : tankShape === "HORIZONTAL_CYLINDER" ? (
+          <HorizontalSchematicSVG
+            diameterMm={diameter}
+            lengthMm={height}
+            wettedHeightMm={derivedGeometry.wettedHeight}
+            liquidLevelMm={liquidLevelMm}
+            elevationMm={elevationMm}
+            headType={headType}
+          />
+        ) : (
+          <SchematicSVG
+            diameterMm={diameter}
+            heightMm={height}
+            wettedHeightMm={derivedGeometry.wettedHeight}
+            liquidLevelMm={liquidLevelMm}
+            elevationMm={elevationMm}
+            roofType={roofType}
+            roofHeightMm={roof.height}
+            bottomProfile={bottomProfile}
+            bottomDepthMm={bottom.depth}
+          />
+        )}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useFormContext } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { calcSaturationTemperature, calcVapourPressure } from "@/lib/calculations/vapourPressure"
+import { searchFluids } from "@/lib/lookups/fluids"
+import { useFluidLibraryStore } from "@/lib/store/fluidLibraryStore"
+import { VAPOUR_PRESSURE_THRESHOLD } from "@/lib/constants"
+import type { CalculationInput, VapourPressureCorrelation, VapourPressureForm } from "@/types"
+import { FieldRow } from "./FieldRow"
+
+type Mode = "MANUAL" | "LIBRARY" | VapourPressureForm
+
+const MODE_OPTIONS: { value: Mode; label: string }[] = [
+  { value: "MANUAL", label: "Typed in" },
+  { value: "LIBRARY", label: "Selected fluid" },
+  { value: "ANTOINE", label: "Antoine coefficients" },
+  { value: "DIPPR", label: "DIPPR 101 coefficients" },
+]
+
+const FORM_HINTS: Record<VapourPressureForm, string> = {
+  ANTOINE: "log10(P/kPa) = A − B / (C + T/°C)",
+  DIPPR:   "ln(P/Pa) = A + B/T + C·ln T + D·T^E, T in K",
+}
+
+const COEFFICIENTS = ["a", "b", "c", "d", "e"] as const
+
+function isComplete(correlation: VapourPressureCorrelation | undefined): correlation is VapourPressureCorrelation {
+  return (
+    correlation !== undefined &&
+    [correlation.a, correlation.b, correlation.c].every((v) => Number.isFinite(v))
+  )
+}
+
+/**
+ * VapourPressureCorrelationInput — picks where the vapour pressure comes from.
+ * The correlation of the fluid chosen in the library, or typed Antoine / DIPPR
+ * coefficients, are stored as `vapourPressureCorrelation`; the value at the
+ * storage temperature is written into `vapourPressure` and the 5 kPa crossing
+ * temperature is shown. Typing a correlation drops the fluid reference.
+ */
+export function VapourPressureCorrelationInput() {
+  const {
+    register,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+
+  const customFluids = useFluidLibraryStore((s) => s.customFluids)
+  const correlation = watch("vapourPressureCorrelation")
+  const fluidId = watch("fluidId")
+  const fluidName = watch("fluidName")
+  const storageTemp = watch("avgStorageTemp")
+  const [mode, setMode] = useState<Mode>(
+    correlation ? (fluidId ? "LIBRARY" : correlation.form) : "MANUAL",
+  )
+  const fluidCorrelation = searchFluids("", customFluids).find((f) => f.id === fluidId)?.vapourPressure
+
+  const complete = isComplete(correlation)
+  const vapourPressure =
+    complete && Number.isFinite(storageTemp) ? calcVapourPressure(correlation, storageTemp) : undefined
+  const crossing = complete ? calcSaturationTemperature(correlation, VAPOUR_PRESSURE_THRESHOLD) : undefined
+
+  useEffect(() => {
+    if (vapourPressure !== undefined && Number.isFinite(vapourPressure)) {
+      setValue("vapourPressure", Number(vapourPressure.toFixed(3)), { shouldValidate: true })
+    }
+  }, [vapourPressure, setValue])
+
+  const handleMode = (next: Mode) => {
+    setMode(next)
+    if (next === "LIBRARY") {
+      setValue("vapourPressureCorrelation", fluidCorrelation, { shouldValidate: true })
+      return
+    }
+    setValue("fluidId", undefined)
+    setValue("fluidName", undefined)
+    setValue(
+      "vapourPressureCorrelation",
+      next === "ANTOINE" || next === "DIPPR" ? { form: next, a: NaN, b: NaN, c: NaN } : undefined,
+      { shouldValidate: true },
+    )
+  }
+
+  const coefficients = correlation?.form === "DIPPR" ? COEFFICIENTS : COEFFICIENTS.slice(0, 3)
+  const modeOptions = MODE_OPTIONS.filter((o) => o.value !== "LIBRARY" || fluidCorrelation)
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <FieldRow
+          label="Vapour Pressure From"
+          htmlFor="vapourPressureMode"
+          hint={mode === "LIBRARY" ? fluidName : undefined}
+        >
+          <Select value={mode} onValueChange={(v) => handleMode(v as Mode)}>
+            <SelectTrigger id="vapourPressureMode" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {modeOptions.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FieldRow>
+      </div>
+
+      {(mode === "ANTOINE" || mode === "DIPPR") && (
+        <FieldRow
+          label="Coefficients"
+          htmlFor="vapourPressureCorrelation.a"
+          error={
+            errors.vapourPressureCorrelation?.message ??
+            errors.vapourPressureCorrelation?.a?.message ??
+            errors.vapourPressureCorrelation?.b?.message ??
+            errors.vapourPressureCorrelation?.c?.message
+          }
+          hint={FORM_HINTS[mode]}
+        >
+          <div className="grid grid-cols-5 gap-2">
+            {coefficients.map((key) => (
+              <Input
+                key={key}
+                id={`vapourPressureCorrelation.${key}`}
+                type="number"
+                step="any"
+                placeholder={key.toUpperCase()}
+                {...register(`vapourPressureCorrelation.${key}`, { valueAsNumber: true })}
+              />
+            ))}
+          </div>
+        </FieldRow>
+      )}
+
+      {complete && vapourPressure !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          {correlation.form === "ANTOINE" ? "Antoine" : "DIPPR 101"}
+          {fluidName && ` (${fluidName})`}: {vapourPressure.toFixed(3)} kPa at {storageTemp} °C
+          {crossing !== undefined && ` — crosses ${VAPOUR_PRESSURE_THRESHOLD} kPa at ${crossing.toFixed(1)} °C`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import { calculationInputSchema } from "@/lib/validation/inputSchema"
 import { useCalculation } from "@/lib/hooks/useCalculation"
 import type { CalculationInput } from "@/types"
-import { TankConfiguration } from "@/types"
+import { FloatingRoofType, TankConfiguration } from "@/types"
 import type { Resolver } from "react-hook-form"
 import { InputPanel } from "./components/InputPanel"
 import { ResultsPanel } from "./components/ResultsPanel"
@@ -17,7 +17,13 @@ import { ExportButton } from "./components/ExportButton"
 const DEFAULT_VALUES = {
   tankNumber: "",
   description: "",
+  tankShape: "VERTICAL_CYLINDER" as const,
+  headType: "ELLIPSOIDAL_2_1" as const,
+  roofType: "CONE" as const,
+  bottomProfile: "FLAT" as const,
   tankConfiguration: TankConfiguration.BARE_METAL,
+  floatingRoofType: FloatingRoofType.NONE,
+  storageCondition: "AMBIENT" as const,
   flashBoilingPointType: "FP" as const,
   incomingStreams: [] as CalculationInput["incomingStreams"],
   outgoingStreams: [] as CalculationInput["outgoingStreams"],
@@ -53,7 +59,7 @@ export default function CalculatorPage() {
                   Tank Venting Calculator
                 </h1>
                 <p className="text-sm text-muted-foreground">
-                  Atmospheric &amp; Low Pressure Storage Tank — API 2000 (5th / 6th / 7th Edition)
+                  Atmospheric &amp; Low Pressure Storage Tank — API 2000 (5th / 6th / 7th Edition) / ISO 28300
                 </p>
               </div>
               <ExportButton />
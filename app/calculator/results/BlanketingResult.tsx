@@ -0,0 +1,46 @@
+"use client"
+
+import type { BlanketingResult as BResult } from "@/types"
+
+interface Props {
+  result: BResult
+}
+
+export function BlanketingResult({ result }: Props) {
+  const { failure } = result
+
+  return (
+    <div className="divide-y rounded-md border overflow-hidden">
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Regulator demand basis</span>
+        <span className="font-mono tabular-nums text-muted-foreground">Pump-out + thermal inbreathing</span>
+      </div>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Air-equivalent demand</span>
+        <span className="font-mono tabular-nums">{result.airEquivalent.toFixed(2)} Nm³/h</span>
+      </div>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Blanket gas mass flow</span>
+        <span className="font-mono tabular-nums">{result.requiredMassFlow.toFixed(2)} kg/h</span>
+      </div>
+      <div className="flex justify-between px-3 py-1.5 text-xs bg-muted/30 font-semibold">
+        <span>Required regulator capacity</span>
+        <span className="font-mono tabular-nums">{result.requiredCapacity.toFixed(2)} Nm³/h</span>
+      </div>
+      {failure && (
+        <>
+          <div className="flex justify-between px-3 py-1.5 text-xs">
+            <span className="text-muted-foreground">
+              Failed-open regulator flow ({failure.choked ? "choked" : "subcritical"})
+            </span>
+            <span className="font-mono tabular-nums">{failure.massFlow.toFixed(1)} kg/h</span>
+          </div>
+          <div className="flex justify-between px-3 py-1.5 text-xs bg-muted/30 font-semibold">
+            <span>Regulator failure outbreathing</span>
+            <span className="font-mono tabular-nums">{failure.outbreathing.toFixed(2)} Nm³/h</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 "use client"
 
-import type { ApiEdition } from "@/types"
+import type { ApiEdition, ClauseReferences, MixtureResult, RelievingConditionsResult } from "@/types"
 import type { EmergencyVentingResult as EVResult } from "@/types"
 
 interface Props {
   result: EVResult
   apiEdition: ApiEdition
+  clauses: ClauseReferences
 }
 
 function getEquationHint(result: EVResult, apiEdition: ApiEdition): string {
@@ -26,11 +27,80 @@ function getEquationHint(result: EVResult, apiEdition: ApiEdition): string {
   return "V = 208.2 x F x ATWS^0.82"
 }
 
-export function EmergencyVentingResult({ result, apiEdition }: Props) {
+const BASIS_LABELS: Record<MixtureResult["basis"], string> = {
+  MOLE: "mole",
+  MASS: "mass",
+}
+
+/** Mixture derivation of L, T_r and M — one row per component, then the results. */
+function MixtureRows({ mixture }: { mixture: MixtureResult }) {
+  return (
+    <>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Mixture ({BASIS_LABELS[mixture.basis]} basis)</span>
+        <span className="font-mono tabular-nums text-muted-foreground">x, w, P_i at T_r</span>
+      </div>
+      {mixture.components.map((c) => (
+        <div key={c.fluidId} className="flex justify-between px-3 py-1.5 text-xs">
+          <span className="text-muted-foreground pl-3">{c.name}</span>
+          <span className="font-mono tabular-nums">
+            {c.moleFraction.toFixed(3)}, {c.massFraction.toFixed(3)}, {c.vapourPressure.toFixed(1)} kPa
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Molecular mass (M = Σ x·M)</span>
+        <span className="font-mono tabular-nums">{mixture.molecularMass.toFixed(2)} g/mol</span>
+      </div>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Latent heat (L = Σ w·L at T_r)</span>
+        <span className="font-mono tabular-nums">{mixture.latentHeat.toFixed(1)} kJ/kg</span>
+      </div>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">
+          Relieving temp (T_r) — derived, bubble point at {mixture.relievingPressure.toFixed(1)} kPa a
+        </span>
+        <span className="font-mono tabular-nums">{mixture.bubbleTemperature.toFixed(1)} °C</span>
+      </div>
+    </>
+  )
+}
+
+/** T_r (and L) derived from the vapour pressure curve, flagged as derived. */
+function RelievingConditionsRows({ conditions }: { conditions: RelievingConditionsResult }) {
+  return (
+    <>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Relieving pressure (DP + overpressure)</span>
+        <span className="font-mono tabular-nums">{conditions.relievingPressure.toFixed(1)} kPa a</span>
+      </div>
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">Relieving temp (T_r) — derived, boiling point</span>
+        <span className="font-mono tabular-nums">{conditions.relievingTemperature.toFixed(1)} °C</span>
+      </div>
+      {conditions.latentHeat !== undefined && conditions.normalBoilingPoint !== undefined && (
+        <div className="flex justify-between px-3 py-1.5 text-xs">
+          <span className="text-muted-foreground">
+            Latent heat (L) — derived, Watson from {conditions.normalBoilingPoint.toFixed(1)} °C
+          </span>
+          <span className="font-mono tabular-nums">{conditions.latentHeat.toFixed(1)} kJ/kg</span>
+        </div>
+      )}
+    </>
+  )
+}
+
+export function EmergencyVentingResult({ result, apiEdition, clauses }: Props) {
   const equationHint = getEquationHint(result, apiEdition)
 
   return (
     <div className="divide-y rounded-md border overflow-hidden">
+      <div className="flex justify-between px-3 py-1.5 text-xs">
+        <span className="text-muted-foreground">{clauses.standard}</span>
+        <span className="font-mono tabular-nums text-muted-foreground">
+          {clauses.emergency}; F {clauses.environmentalFactor}
+        </span>
+      </div>
       <div className="flex justify-between px-3 py-1.5 text-xs">
         <span className="text-muted-foreground">
           Coefficients (a = {result.coefficients.a.toLocaleString()}, n = {result.coefficients.n})
@@ -41,6 +111,8 @@ export function EmergencyVentingResult({ result, apiEdition }: Props) {
         <span className="text-muted-foreground">Emergency vent equation</span>
         <span className="font-mono tabular-nums text-muted-foreground">{equationHint}</span>
       </div>
+      {result.mixture && <MixtureRows mixture={result.mixture} />}
+      {result.relievingConditions && <RelievingConditionsRows conditions={result.relievingConditions} />}
       <div className="flex justify-between px-3 py-1.5 text-xs">
         <span className="text-muted-foreground">Heat input (Q)</span>
         <span className="font-mono tabular-nums">
@@ -1,11 +1,71 @@
 "use client"
 
-import type { NormalVentingResult as NVResult, ApiEdition } from "@/types"
+import type {
+  NormalVentingResult as NVResult,
+  ApiEdition,
+  BlowThroughResult,
+  CapacityBasis,
+  ClauseReferences,
+  CoilFluid,
+  CoilRuptureResult,
+  ProcessCase,
+  ProcessStream,
+  SteamOutResult,
+  StreamType,
+  ThermalMethod,
+  ThermalVentingMethod,
+  VapourPressureResult,
+  VapourPressureSource,
+} from "@/types"
+
+const CAPACITY_BASIS_LABELS: Record<CapacityBasis, string> = {
+  NOMINAL:         "nominal capacity",
+  HIGH_HIGH_LEVEL: "working capacity to HHLL",
+  ULLAGE:          "geometric volume less ullage",
+  STRAPPING:       "strapping table capacity",
+  GEOMETRIC:       "geometric volume",
+}
+
+const THERMAL_METHOD_LABELS: Record<ThermalMethod, string> = {
+  STANDARD: "API thermal inbreathing (C-factor / table)",
+  HEATED:   "heated tank — rainstorm cooling from storage to ambient",
+}
+
+const THERMAL_VENTING_METHOD_LABELS: Record<ThermalVentingMethod, string> = {
+  FORMULA:       "Y / C formulas",
+  ANNEX_A:       "Annex A tables",
+  SITE_SPECIFIC: "site-specific heat-transfer model",
+}
+
+const VAPOUR_PRESSURE_SOURCE_LABELS: Record<VapourPressureSource, string> = {
+  INPUT:   "as entered",
+  ANTOINE: "Antoine",
+  DIPPR:   "DIPPR 101",
+}
+
+const COIL_FLUID_LABELS: Record<CoilFluid, string> = {
+  STEAM:   "steam",
+  HOT_OIL: "hot oil",
+}
+
+const STREAM_TYPE_LABELS: Record<StreamType, string> = {
+  PUMP:            "pump",
+  GRAVITY:         "gravity",
+  TRUCK_UNLOADING: "truck unloading",
+  RAIL_UNLOADING:  "rail unloading",
+  MARINE:          "ship / barge",
+  PIPELINE:        "pipeline",
+  OTHER:           "other",
+}
 
 interface Props {
   result: NVResult
   apiEdition: ApiEdition
+  clauses: ClauseReferences
+  vapourPressure: VapourPressureResult
   drainInbreathing?: number
+  blowThrough?: BlowThroughResult
+  steamOut?: SteamOutResult
 }
 
 interface RowProps {
@@ -23,50 +83,224 @@ function Row({ label, value, bold }: RowProps) {
   )
 }
 
-export function NormalVentingResult({ result, apiEdition, drainInbreathing }: Props) {
-  const { outbreathing, inbreathing } = result
-  const showFactors = apiEdition === "6TH" || apiEdition === "7TH"
+function streamLabel({ streamNo, type, simultaneityGroup, flowrate }: ProcessStream): string {
+  const tags = [
+    type && STREAM_TYPE_LABELS[type],
+    simultaneityGroup && `group ${simultaneityGroup}`,
+  ].filter(Boolean)
+  const name = streamNo || "(unnamed)"
+  return `${name} ${flowrate.toFixed(1)} m³/h${tags.length ? ` (${tags.join(", ")})` : ""}`
+}
+
+function coilRuptureLabel({ fluid, massFlow, choked }: CoilRuptureResult): string {
+  return `Heating coil rupture (${COIL_FLUID_LABELS[fluid]} ${massFlow.toFixed(0)} kg/h${choked ? ", choked" : ""})`
+}
+
+/** Which streams make up the governing process rate, and which grouped streams sit idle. */
+function ProcessCaseNote({ processCase }: { processCase: ProcessCase }) {
+  if (processCase.running.length === 0) return null
+  return (
+    <p className="text-xs text-muted-foreground mt-1">
+      Governing streams: {processCase.running.map(streamLabel).join(" + ")}
+      {processCase.idle.length > 0 && (
+        <> — not simultaneous: {processCase.idle.map(streamLabel).join(", ")}</>
+      )}
+    </p>
+  )
+}
+
+export function NormalVentingResult({
+  result,
+  apiEdition,
+  clauses,
+  vapourPressure,
+  drainInbreathing,
+  blowThrough,
+  steamOut,
+}: Props) {
+  const {
+    capacity,
+    thermalVentingMethod,
+    outbreathing,
+    inbreathing,
+    roofLanded,
+    vapourSpaceMode,
+    compartments,
+    coilRupture,
+  } = result
+  const headingSuffix = roofLanded
+    ? " — Deck Floating"
+    : vapourSpaceMode === "SEPARATE"
+      ? " — Governing Compartment"
+      : vapourSpaceMode === "SHARED"
+        ? " — Shared Vapour Space"
+        : ""
+  const showFactors = apiEdition !== "5TH" && thermalVentingMethod !== "ANNEX_A"
 
   return (
     <div className="space-y-4">
+      {/* Capacity basis */}
+      <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
+        <span className="text-muted-foreground">
+          V_tk ({CAPACITY_BASIS_LABELS[capacity.basis]})
+        </span>
+        <span className="font-mono tabular-nums">{capacity.value.toFixed(2)} m³</span>
+      </div>
+      {capacity.level !== undefined && (
+        <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
+          <span className="text-muted-foreground">Liquid level at V_tk (strapping)</span>
+          <span className="font-mono tabular-nums">{capacity.level.toFixed(0)} mm</span>
+        </div>
+      )}
+      <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
+        <span className="text-muted-foreground">
+          Vapour pressure ({VAPOUR_PRESSURE_SOURCE_LABELS[vapourPressure.source]}
+          {vapourPressure.fluidName && `, ${vapourPressure.fluidName}`})
+        </span>
+        <span className="font-mono tabular-nums">{vapourPressure.value.toFixed(3)} kPa</span>
+      </div>
+      {thermalVentingMethod && (
+        <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
+          <span className="text-muted-foreground">Thermal venting method</span>
+          <span>{THERMAL_VENTING_METHOD_LABELS[thermalVentingMethod]}</span>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {clauses.standard} — liquid movement {clauses.liquidMovement}, thermal {clauses.thermal}
+      </p>
+
       {/* Outbreathing */}
       <div>
         <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
-          Outbreathing
+          Outbreathing{headingSuffix}
         </p>
         <div className="divide-y rounded-md border overflow-hidden">
           <Row label="Process flowrate" value={outbreathing.processFlowrate} />
+          {outbreathing.flashFlowrate > 0 && (
+            <Row label="Flash vapour (hot feed)" value={outbreathing.flashFlowrate} />
+          )}
           <Row
             label={
-              showFactors
-                ? `Thermal (Y = ${outbreathing.yFactor.toFixed(2)}, R = ${outbreathing.reductionFactor.toFixed(4)})`
-                : "Thermal outbreathing"
+              outbreathing.codeThermalOutbreathing !== undefined
+                ? `Thermal (site-specific, R = ${outbreathing.reductionFactor.toFixed(4)})`
+                : showFactors
+                  ? `Thermal (Y = ${outbreathing.yFactor.toFixed(2)}, R = ${outbreathing.reductionFactor.toFixed(4)})`
+                  : "Thermal outbreathing"
             }
             value={outbreathing.thermalOutbreathing}
           />
+          {outbreathing.codeThermalOutbreathing !== undefined && (
+            <Row
+              label={`vs code formula (Y = ${outbreathing.yFactor.toFixed(2)}) — not in total`}
+              value={outbreathing.codeThermalOutbreathing}
+            />
+          )}
+          {coilRupture && !roofLanded && (
+            <Row label={coilRuptureLabel(coilRupture)} value={outbreathing.coilRuptureFlowrate} />
+          )}
           <Row label="Total outbreathing" value={outbreathing.total} bold />
         </div>
+        <ProcessCaseNote processCase={outbreathing.processCase} />
       </div>
 
       {/* Inbreathing */}
       <div>
         <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
-          Inbreathing
+          Inbreathing{headingSuffix}
         </p>
         <div className="divide-y rounded-md border overflow-hidden">
           <Row label="Process flowrate" value={inbreathing.processFlowrate} />
           <Row
             label={
-              showFactors
-                ? `Thermal (C = ${inbreathing.cFactor.toFixed(2)}, R = ${inbreathing.reductionFactor.toFixed(4)})`
-                : "Thermal inbreathing"
+              inbreathing.thermalMethod === "HEATED"
+                ? `Thermal (heated tank, R = ${inbreathing.reductionFactor.toFixed(4)})`
+                : inbreathing.codeThermalInbreathing !== undefined
+                  ? `Thermal (site-specific, R = ${inbreathing.reductionFactor.toFixed(4)})`
+                  : showFactors
+                    ? `Thermal (C = ${inbreathing.cFactor.toFixed(2)}, R = ${inbreathing.reductionFactor.toFixed(4)})`
+                    : "Thermal inbreathing"
             }
             value={inbreathing.thermalInbreathing}
           />
+          {inbreathing.codeThermalInbreathing !== undefined && (
+            <Row
+              label={`vs code formula (C = ${inbreathing.cFactor.toFixed(2)}) — not in total`}
+              value={inbreathing.codeThermalInbreathing}
+            />
+          )}
           <Row label="Total inbreathing" value={inbreathing.total} bold />
         </div>
+        <ProcessCaseNote processCase={inbreathing.processCase} />
+        <p className="text-xs text-muted-foreground mt-1">
+          Thermal method: {THERMAL_METHOD_LABELS[inbreathing.thermalMethod]}
+        </p>
       </div>
 
+      {/* Floating roof — deck landed on its legs */}
+      {roofLanded && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+            Roof Landed ({roofLanded.vapourSpaceVolume.toFixed(2)} m³ under deck)
+          </p>
+          <div className="divide-y rounded-md border overflow-hidden">
+            <Row label="Process outbreathing (refloating)" value={roofLanded.outbreathing.processFlowrate} />
+            {roofLanded.outbreathing.flashFlowrate > 0 && (
+              <Row label="Flash vapour (hot feed)" value={roofLanded.outbreathing.flashFlowrate} />
+            )}
+            <Row label="Thermal outbreathing" value={roofLanded.outbreathing.thermalOutbreathing} />
+            {coilRupture && (
+              <Row label={coilRuptureLabel(coilRupture)} value={roofLanded.outbreathing.coilRuptureFlowrate} />
+            )}
+            <Row label="Total outbreathing" value={roofLanded.outbreathing.total} bold />
+            <Row label="Process inbreathing (pump-out)" value={roofLanded.inbreathing.processFlowrate} />
+            <Row label="Thermal inbreathing" value={roofLanded.inbreathing.thermalInbreathing} />
+            <Row label="Total inbreathing" value={roofLanded.inbreathing.total} bold />
+          </div>
+          <ProcessCaseNote processCase={roofLanded.outbreathing.processCase} />
+          <ProcessCaseNote processCase={roofLanded.inbreathing.processCase} />
+        </div>
+      )}
+
+      {/* Compartments — each over the vapour space it breathes into */}
+      {compartments && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+            Compartments ({vapourSpaceMode === "SEPARATE" ? "separate vapour spaces" : "shared vapour space"})
+          </p>
+          <div className="rounded-md border overflow-hidden text-xs">
+            <div className="grid grid-cols-[1fr_5rem_6rem_6rem] gap-2 px-3 py-1.5 bg-muted/50 border-b font-medium text-muted-foreground">
+              <span>Compartment</span>
+              <span className="text-right">V_tk (m³)</span>
+              <span className="text-right">Out (Nm³/h)</span>
+              <span className="text-right">In (Nm³/h)</span>
+            </div>
+            {compartments.map((c) => (
+              <div
+                key={c.name}
+                className="grid grid-cols-[1fr_5rem_6rem_6rem] gap-2 px-3 py-1.5 border-b last:border-b-0 font-mono tabular-nums"
+              >
+                <span className="font-sans truncate">{c.name}</span>
+                <span className="text-right">{c.capacity.toFixed(1)}</span>
+                <span className="text-right">{c.outbreathing.total.toFixed(2)}</span>
+                <span className="text-right">{c.inbreathing.total.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Gas blow-through — added to design outbreathing */}
+      {blowThrough && (
+        <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
+          <span className="text-muted-foreground">
+            Gas blow-through ({blowThrough.restriction === "VALVE" ? "valve Cv" : "orifice"}
+            {blowThrough.choked ? ", choked" : ""})
+          </span>
+          <span className="font-mono tabular-nums">{blowThrough.flowrate.toFixed(2)} Nm³/h</span>
+        </div>
+      )}
+
       {/* Drain */}
       {drainInbreathing !== undefined && (
         <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
@@ -74,6 +308,17 @@ export function NormalVentingResult({ result, apiEdition, drainInbreathing }: Pr
           <span className="font-mono tabular-nums">{drainInbreathing.toFixed(2)} Nm³/h</span>
         </div>
       )}
+
+      {/* Steam-out — condensing after the steam supply stops */}
+      {steamOut && (
+        <div className="flex justify-between px-3 py-1.5 text-xs rounded-md border">
+          <span className="text-muted-foreground">
+            Steam-out inbreathing ({steamOut.condensingRate.toFixed(0)} kg/h condensing,{" "}
+            {steamOut.basis === "COOLING" ? "shell cooling" : "steam rate"})
+          </span>
+          <span className="font-mono tabular-nums">{steamOut.inbreathing.toFixed(2)} Nm³/h</span>
+        </div>
+      )}
     </div>
   )
 }
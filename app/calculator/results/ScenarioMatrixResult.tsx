@@ -0,0 +1,82 @@
+"use client"
+
+import { VENTING_CAUSES } from "@/lib/calculations/scenarios"
+import type { GoverningScenario, ScenarioContribution, ScenarioResult, VentingCause } from "@/types"
+
+const CAUSE_LABELS: Record<VentingCause, string> = {
+  FILLING:               "Filling",
+  EMPTYING:              "Emptying",
+  THERMAL:               "Thermal",
+  CONTROL_VALVE_FAILURE: "CV failure",
+  DRAIN:                 "Drain",
+  STEAM_OUT:             "Steam-out",
+  BLANKET_FAILURE:       "Blanket failure",
+  COIL_RUPTURE:          "Coil rupture",
+}
+
+interface Props {
+  scenarios: ScenarioResult[]
+  governing: GoverningScenario
+}
+
+/** "out / in" for causes acting both ways, otherwise the single non-zero direction. */
+function formatContribution({ outbreathing, inbreathing }: ScenarioContribution): string {
+  if (outbreathing > 0 && inbreathing > 0) return `${outbreathing.toFixed(1)} / ${inbreathing.toFixed(1)}`
+  return (outbreathing || inbreathing).toFixed(1)
+}
+
+/**
+ * Scenario matrix — one row per scenario, one column per cause used by any
+ * scenario (blank where the cause is off), then the combined totals. The
+ * governing scenario in each direction is bold.
+ */
+export function ScenarioMatrixResult({ scenarios, governing }: Props) {
+  const causes = VENTING_CAUSES.filter((cause) =>
+    scenarios.some((s) => s.contributions.some((c) => c.cause === cause)),
+  )
+  const columns = `minmax(6rem,1fr) repeat(${causes.length}, 4.5rem) 4.5rem 4.5rem`
+
+  return (
+    <div className="space-y-1">
+      <div className="rounded-md border overflow-x-auto text-xs">
+        <div
+          className="grid gap-2 px-3 py-1.5 bg-muted/50 border-b font-medium text-muted-foreground"
+          style={{ gridTemplateColumns: columns }}
+        >
+          <span>Scenario</span>
+          {causes.map((cause) => (
+            <span key={cause} className="text-right">{CAUSE_LABELS[cause]}</span>
+          ))}
+          <span className="text-right">Out</span>
+          <span className="text-right">In</span>
+        </div>
+        {scenarios.map((scenario) => (
+          <div
+            key={scenario.name}
+            className="grid gap-2 px-3 py-1.5 border-b last:border-b-0 font-mono tabular-nums"
+            style={{ gridTemplateColumns: columns }}
+          >
+            <span className="font-sans truncate">{scenario.name}</span>
+            {causes.map((cause) => {
+              const contribution = scenario.contributions.find((c) => c.cause === cause)
+              return (
+                <span key={cause} className="text-right text-muted-foreground">
+                  {contribution ? formatContribution(contribution) : "—"}
+                </span>
+              )
+            })}
+            <span className={`text-right ${scenario.name === governing.outbreathing ? "font-semibold" : ""}`}>
+              {scenario.outbreathing.toFixed(2)}
+            </span>
+            <span className={`text-right ${scenario.name === governing.inbreathing ? "font-semibold" : ""}`}>
+              {scenario.inbreathing.toFixed(2)}
+            </span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Nm³/h. Thermal shows out / in. Filling, emptying and thermal combine per the edition rule; other causes add.
+      </p>
+    </div>
+  )
+}
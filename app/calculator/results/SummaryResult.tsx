@@ -1,9 +1,10 @@
 "use client"
 
-import type { VentingSummary } from "@/types"
+import type { VapourFlow, VapourFlowSummary, VentingSummary } from "@/types"
 
 interface Props {
   summary: VentingSummary
+  vapourFlows?: VapourFlowSummary
 }
 
 interface SummaryMetricProps {
@@ -24,21 +25,72 @@ function SummaryMetric({ label, value, sub }: SummaryMetricProps) {
   )
 }
 
-export function SummaryResult({ summary }: Props) {
+function VapourFlowRow({ label, flow }: { label: string; flow: VapourFlow }) {
   return (
-    <div className="grid grid-cols-3 gap-4 py-1">
-      <SummaryMetric
-        label="Design Outbreathing"
-        value={summary.designOutbreathing}
-      />
-      <SummaryMetric
-        label="Design Inbreathing"
-        value={summary.designInbreathing}
-      />
-      <SummaryMetric
-        label="Emergency Venting"
-        value={summary.emergencyVenting}
-      />
+    <div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 px-3 py-1.5 border-b last:border-b-0 font-mono tabular-nums">
+      <span className="font-sans text-muted-foreground">{label}</span>
+      <span className="text-right">{flow.airEquivalent.toFixed(1)}</span>
+      <span className="text-right">{flow.massFlow.toFixed(1)}</span>
+      <span className="text-right">{flow.actualFlow.toFixed(1)}</span>
+    </div>
+  )
+}
+
+/** Air-equivalent design flows beside the actual gas behind each design case. */
+function VapourFlowTable({ vapourFlows }: { vapourFlows: VapourFlowSummary }) {
+  return (
+    <div>
+      <div className="rounded-md border overflow-hidden text-xs">
+        <div className="grid grid-cols-[1fr_6rem_6rem_6rem] gap-2 px-3 py-1.5 bg-muted/50 border-b font-medium text-muted-foreground">
+          <span>Design case</span>
+          <span className="text-right">Air (Nm³/h)</span>
+          <span className="text-right">Vapour (kg/h)</span>
+          <span className="text-right">Actual (m³/h)</span>
+        </div>
+        <VapourFlowRow label="Outbreathing" flow={vapourFlows.designOutbreathing} />
+        <VapourFlowRow label="Inbreathing (air)" flow={vapourFlows.designInbreathing} />
+        <VapourFlowRow label="Emergency venting" flow={vapourFlows.emergencyVenting} />
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Vapour M = {vapourFlows.molecularMass} g/mol — outbreathing at T_s = {vapourFlows.storageTemperature} °C,
+        emergency at T_r = {vapourFlows.relievingTemperature} °C; air in at {vapourFlows.ambientTemperature} °C;
+        atmospheric pressure
+      </p>
+    </div>
+  )
+}
+
+export function SummaryResult({ summary, vapourFlows }: Props) {
+  const { governingCompartment, governingScenario } = summary
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-4 py-1">
+        <SummaryMetric
+          label="Design Outbreathing"
+          value={summary.designOutbreathing}
+        />
+        <SummaryMetric
+          label="Design Inbreathing"
+          value={summary.designInbreathing}
+        />
+        <SummaryMetric
+          label="Emergency Venting"
+          value={summary.emergencyVenting}
+        />
+      </div>
+      {governingCompartment && (
+        <p className="text-xs text-center text-muted-foreground">
+          Governing compartment — outbreathing: {governingCompartment.outbreathing}, inbreathing:{" "}
+          {governingCompartment.inbreathing}
+        </p>
+      )}
+      {governingScenario && (
+        <p className="text-xs text-center text-muted-foreground">
+          Governing scenario — outbreathing: {governingScenario.outbreathing}, inbreathing:{" "}
+          {governingScenario.inbreathing}
+        </p>
+      )}
+      {vapourFlows && <VapourFlowTable vapourFlows={vapourFlows} />}
     </div>
   )
 }
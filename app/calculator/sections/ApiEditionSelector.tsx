@@ -1,8 +1,18 @@
 "use client"
 
-import { useFormContext } from "react-hook-form"
+import { useFormContext, Controller } from "react-hook-form"
+import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import type { CalculationInput, ApiEdition } from "@/types"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { CalculationInput, ApiEdition, ShellPaint, ThermalVentingMethod } from "@/types"
+import { getPaintAbsorptivity } from "@/lib/lookups/paintAbsorptivity"
+import { FieldRow } from "../components/FieldRow"
 
 const EDITIONS: { value: ApiEdition; label: string; description: string }[] = [
   {
@@ -20,17 +30,43 @@ const EDITIONS: { value: ApiEdition; label: string; description: string }[] = [
     label: "7th Edition (Recommended)",
     description: "process + thermal with Y/C-factor adjustments",
   },
+  {
+    value: "ISO_28300",
+    label: "ISO 28300:2008",
+    description: "Equivalent to API 2000 6th edition — same method and clause numbers",
+  },
+]
+
+const THERMAL_METHODS: { value: ThermalVentingMethod; label: string }[] = [
+  { value: "FORMULA", label: "Y / C formulas (latitude bands)" },
+  { value: "ANNEX_A", label: "Annex A tables (tanks of known history)" },
+  { value: "SITE_SPECIFIC", label: "Site-specific (climate + paint heat transfer)" },
+]
+
+const PAINT_OPTIONS: { value: ShellPaint; label: string }[] = [
+  { value: "WHITE", label: "White" },
+  { value: "ALUMINIUM", label: "Aluminium" },
+  { value: "LIGHT_GREY", label: "Light grey" },
+  { value: "MEDIUM_GREY", label: "Medium grey" },
+  { value: "RED_PRIMER", label: "Red primer" },
+  { value: "BLACK", label: "Black" },
 ]
 
 export function ApiEditionSelector() {
   const {
     register,
+    watch,
+    control,
     formState: { errors },
   } = useFormContext<CalculationInput>()
 
+  // The 5th edition is tabulated already — no alternative thermal method
+  const isFifth = watch("apiEdition") === "5TH"
+  const isSiteSpecific = watch("thermalVentingMethod") === "SITE_SPECIFIC"
+
   return (
     <div className="space-y-2">
-      <Label className="text-sm font-semibold">API 2000 Edition</Label>
+      <Label className="text-sm font-semibold">Standard</Label>
       <div className="flex flex-col gap-2">
         {EDITIONS.map(({ value, label, description }) => (
           <label
@@ -53,6 +89,93 @@ export function ApiEditionSelector() {
       {errors.apiEdition && (
         <p className="text-xs text-destructive">{errors.apiEdition.message}</p>
       )}
+      {!isFifth && (
+        <div className="space-y-1.5 pt-1">
+          <Label htmlFor="thermalVentingMethod" className="text-xs">
+            Thermal Venting Method
+          </Label>
+          <Controller
+            name="thermalVentingMethod"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value ?? "FORMULA"} onValueChange={field.onChange}>
+                <SelectTrigger id="thermalVentingMethod" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THERMAL_METHODS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          {errors.thermalVentingMethod && (
+            <p className="text-xs text-destructive">{errors.thermalVentingMethod.message}</p>
+          )}
+        </div>
+      )}
+      {!isFifth && isSiteSpecific && (
+        <div className="grid grid-cols-3 gap-3">
+          <FieldRow
+            label="Ambient Swing"
+            htmlFor="ambientTempSwing"
+            unit="K"
+            required
+            error={errors.ambientTempSwing?.message}
+            hint="Design daily max − min"
+          >
+            <Input
+              id="ambientTempSwing"
+              type="number"
+              step="any"
+              placeholder="e.g. 10"
+              {...register("ambientTempSwing", { valueAsNumber: true })}
+            />
+          </FieldRow>
+          <FieldRow
+            label="Shell Paint"
+            htmlFor="shellPaint"
+            required
+            error={errors.shellPaint?.message}
+          >
+            <Controller
+              name="shellPaint"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                  <SelectTrigger id="shellPaint" className="w-full">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAINT_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label} (α = {getPaintAbsorptivity(value)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+          <FieldRow
+            label="Rain Cooling"
+            htmlFor="rainCoolingHtc"
+            unit="W/m²·K"
+            error={errors.rainCoolingHtc?.message}
+          >
+            <Input
+              id="rainCoolingHtc"
+              type="number"
+              step="any"
+              placeholder="10"
+              {...register("rainCoolingHtc", { valueAsNumber: true })}
+            />
+          </FieldRow>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { useFormContext } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import type { CalculationInput } from "@/types"
+import { FieldRow } from "../components/FieldRow"
+
+export function BlanketingSection() {
+  const [open, setOpen] = useState(false)
+
+  const {
+    register,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const blanketed = watch("blanketed")
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="shadow-sm">
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              className="flex w-full items-center justify-between p-0 h-auto hover:bg-transparent"
+            >
+              <span className="text-base font-semibold">
+                Inert Gas Blanketing
+              </span>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground font-normal">
+                {open ? (
+                  <>
+                    <ChevronDown className="h-4 w-4" />
+                    Collapse
+                  </>
+                ) : (
+                  <>
+                    <ChevronRight className="h-4 w-4" />
+                    Expand (optional)
+                  </>
+                )}
+              </span>
+            </Button>
+          </CollapsibleTrigger>
+          <Separator />
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4 pt-0">
+            <p className="text-xs text-muted-foreground">
+              The blanketing regulator must make up pump-out and thermal inbreathing. With its Cv and
+              supply pressure, a regulator failed open is added to design outbreathing.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                id="blanketed"
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                {...register("blanketed")}
+              />
+              <Label htmlFor="blanketed" className="text-sm">
+                Tank is inert gas blanketed
+              </Label>
+            </div>
+            {blanketed && (
+              <div className="grid grid-cols-2 gap-3">
+                <FieldRow
+                  label="Supply Pressure"
+                  htmlFor="blanketSupplyPressure"
+                  unit="kPa a"
+                  error={errors.blanketSupplyPressure?.message}
+                  hint="Regulator inlet"
+                >
+                  <Input
+                    id="blanketSupplyPressure"
+                    type="number"
+                    step="any"
+                    placeholder="e.g. 700"
+                    {...register("blanketSupplyPressure", { valueAsNumber: true })}
+                  />
+                </FieldRow>
+                <FieldRow
+                  label="Regulator Cv"
+                  htmlFor="blanketRegulatorCv"
+                  error={errors.blanketRegulatorCv?.message}
+                  hint="Full open"
+                >
+                  <Input
+                    id="blanketRegulatorCv"
+                    type="number"
+                    step="any"
+                    placeholder="e.g. 1.5"
+                    {...register("blanketRegulatorCv", { valueAsNumber: true })}
+                  />
+                </FieldRow>
+                <FieldRow
+                  label="Gas Molecular Mass"
+                  htmlFor="blanketGasMolecularMass"
+                  unit="g/mol"
+                  error={errors.blanketGasMolecularMass?.message}
+                  hint="Default: 28.013 (nitrogen)"
+                >
+                  <Input
+                    id="blanketGasMolecularMass"
+                    type="number"
+                    step="any"
+                    placeholder="28.013"
+                    {...register("blanketGasMolecularMass", { valueAsNumber: true })}
+                  />
+                </FieldRow>
+                <FieldRow
+                  label="Gas Temperature"
+                  htmlFor="blanketGasTemperature"
+                  unit="°C"
+                  error={errors.blanketGasTemperature?.message}
+                  hint="Default: 15"
+                >
+                  <Input
+                    id="blanketGasTemperature"
+                    type="number"
+                    step="any"
+                    placeholder="15"
+                    {...register("blanketGasTemperature", { valueAsNumber: true })}
+                  />
+                </FieldRow>
+              </div>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  )
+}
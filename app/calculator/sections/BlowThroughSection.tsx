@@ -0,0 +1,144 @@
+"use client"
+
+import { useState } from "react"
+import { useFormContext } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import type { CalculationInput } from "@/types"
+import { FieldRow } from "../components/FieldRow"
+
+export function BlowThroughSection() {
+  const [open, setOpen] = useState(false)
+
+  const {
+    register,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="shadow-sm">
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              className="flex w-full items-center justify-between p-0 h-auto hover:bg-transparent"
+            >
+              <span className="text-base font-semibold">
+                Gas Blow-Through
+              </span>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground font-normal">
+                {open ? (
+                  <>
+                    <ChevronDown className="h-4 w-4" />
+                    Collapse
+                  </>
+                ) : (
+                  <>
+                    <ChevronRight className="h-4 w-4" />
+                    Expand (optional)
+                  </>
+                )}
+              </span>
+            </Button>
+          </CollapsibleTrigger>
+          <Separator />
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4 pt-0">
+            <p className="text-xs text-muted-foreground">
+              Failed-open valve letting gas from an upstream vessel into the tank
+              — added to design outbreathing. Give a valve Cv or an orifice bore.
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <FieldRow
+                label="Upstream Pressure"
+                htmlFor="blowThroughPressure"
+                unit="kPa a"
+                error={errors.blowThroughPressure?.message}
+              >
+                <Input
+                  id="blowThroughPressure"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. 800"
+                  {...register("blowThroughPressure", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Valve Cv"
+                htmlFor="blowThroughCv"
+                error={errors.blowThroughCv?.message}
+                hint="Full open"
+              >
+                <Input
+                  id="blowThroughCv"
+                  type="number"
+                  step="any"
+                  placeholder="Optional"
+                  {...register("blowThroughCv", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Orifice Bore"
+                htmlFor="blowThroughOrifice"
+                unit="mm"
+                error={errors.blowThroughOrifice?.message}
+                hint="If no Cv"
+              >
+                <Input
+                  id="blowThroughOrifice"
+                  type="number"
+                  step="any"
+                  placeholder="Optional"
+                  {...register("blowThroughOrifice", { valueAsNumber: true })}
+                />
+              </FieldRow>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FieldRow
+                label="Gas Molecular Mass"
+                htmlFor="blowThroughMolecularMass"
+                unit="g/mol"
+                error={errors.blowThroughMolecularMass?.message}
+                hint="Blank → nitrogen"
+              >
+                <Input
+                  id="blowThroughMolecularMass"
+                  type="number"
+                  step="any"
+                  placeholder="28.01 (N₂)"
+                  {...register("blowThroughMolecularMass", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Gas Temperature"
+                htmlFor="blowThroughTemperature"
+                unit="°C"
+                error={errors.blowThroughTemperature?.message}
+              >
+                <Input
+                  id="blowThroughTemperature"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. 40"
+                  {...register("blowThroughTemperature", { valueAsNumber: true })}
+                />
+              </FieldRow>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  )
+}
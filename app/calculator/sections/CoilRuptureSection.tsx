@@ -0,0 +1,170 @@
+"use client"
+
+import { useState } from "react"
+import { Controller, useFormContext } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import type { CalculationInput, CoilFluid } from "@/types"
+import { FieldRow } from "../components/FieldRow"
+
+const COIL_FLUID_OPTIONS: { value: CoilFluid; label: string }[] = [
+  { value: "STEAM", label: "Steam" },
+  { value: "HOT_OIL", label: "Hot oil" },
+]
+
+const NO_COIL = "__none"
+
+export function CoilRuptureSection() {
+  const [open, setOpen] = useState(false)
+
+  const {
+    register,
+    control,
+    watch,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const isHotOil = watch("coilFluid") === "HOT_OIL"
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="shadow-sm">
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              className="flex w-full items-center justify-between p-0 h-auto hover:bg-transparent"
+            >
+              <span className="text-base font-semibold">
+                Heating Coil Rupture
+              </span>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground font-normal">
+                {open ? (
+                  <>
+                    <ChevronDown className="h-4 w-4" />
+                    Collapse
+                  </>
+                ) : (
+                  <>
+                    <ChevronRight className="h-4 w-4" />
+                    Expand (optional)
+                  </>
+                )}
+              </span>
+            </Button>
+          </CollapsibleTrigger>
+          <Separator />
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4 pt-0">
+            <p className="text-xs text-muted-foreground">
+              Full-bore break of one coil tube, both ends discharging into the tank. The vapour
+              generated is added to outbreathing.
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <FieldRow label="Coil Fluid" htmlFor="coilFluid" error={errors.coilFluid?.message}>
+                <Controller
+                  name="coilFluid"
+                  control={control}
+                  render={({ field }) => (
+                    <Select
+                      value={field.value ?? NO_COIL}
+                      onValueChange={(v) => field.onChange(v === NO_COIL ? undefined : v)}
+                    >
+                      <SelectTrigger id="coilFluid" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COIL}>No heating coil</SelectItem>
+                        {COIL_FLUID_OPTIONS.map(({ value, label }) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Coil Pressure"
+                htmlFor="coilPressure"
+                unit="kPa a"
+                error={errors.coilPressure?.message}
+              >
+                <Input
+                  id="coilPressure"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. 1000"
+                  {...register("coilPressure", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Tube ID"
+                htmlFor="coilTubeDiameter"
+                unit="mm"
+                error={errors.coilTubeDiameter?.message}
+              >
+                <Input
+                  id="coilTubeDiameter"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. 40"
+                  {...register("coilTubeDiameter", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Fluid Temperature"
+                htmlFor="coilFluidTemperature"
+                unit="°C"
+                error={errors.coilFluidTemperature?.message}
+                hint={isHotOil ? undefined : "Default: saturation"}
+              >
+                <Input
+                  id="coilFluidTemperature"
+                  type="number"
+                  step="any"
+                  placeholder={isHotOil ? "e.g. 250" : "Saturated"}
+                  {...register("coilFluidTemperature", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              {isHotOil && (
+                <FieldRow
+                  label="Oil Density"
+                  htmlFor="coilFluidDensity"
+                  unit="kg/m³"
+                  error={errors.coilFluidDensity?.message}
+                >
+                  <Input
+                    id="coilFluidDensity"
+                    type="number"
+                    step="any"
+                    placeholder="e.g. 750"
+                    {...register("coilFluidDensity", { valueAsNumber: true })}
+                  />
+                </FieldRow>
+              )}
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  )
+}
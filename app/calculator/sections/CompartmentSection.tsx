@@ -0,0 +1,280 @@
+"use client"
+
+import { useFormContext, useFieldArray, Controller } from "react-hook-form"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import type { CalculationInput, VapourSpaceMode } from "@/types"
+import { SectionCard } from "../components/SectionCard"
+import { FieldRow } from "../components/FieldRow"
+
+const VAPOUR_SPACE_OPTIONS: { value: VapourSpaceMode; label: string }[] = [
+  { value: "SHARED", label: "Shared roof vapour space" },
+  { value: "SEPARATE", label: "Separate vapour spaces" },
+]
+
+// ─── Compartment streams ──────────────────────────────────────────────────────
+// Same columns as the tank-level stream tables, one pair per compartment
+
+interface CompartmentStreamTableProps {
+  index: number
+  direction: "incomingStreams" | "outgoingStreams"
+}
+
+function CompartmentStreamTable({ index, direction }: CompartmentStreamTableProps) {
+  const { register, control } = useFormContext<CalculationInput>()
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `compartments.${index}.${direction}`,
+  })
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium">
+          {direction === "incomingStreams" ? "Incoming (to compartment)" : "Outgoing (from compartment)"}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => append({ streamNo: "", description: "", flowrate: 0 })}
+          className="h-6 text-xs gap-1"
+        >
+          <Plus className="h-3 w-3" />
+          Add
+        </Button>
+      </div>
+      {fields.map((field, streamIndex) => (
+        <div key={field.id} className="grid grid-cols-[5rem_1fr_2rem] gap-2 items-center">
+          <Input
+            className="h-7 text-xs"
+            placeholder="S-01"
+            {...register(`compartments.${index}.${direction}.${streamIndex}.streamNo`)}
+          />
+          <Input
+            className="h-7 text-xs"
+            type="number"
+            step="any"
+            placeholder="Flowrate (m³/h)"
+            {...register(`compartments.${index}.${direction}.${streamIndex}.flowrate`, {
+              valueAsNumber: true,
+            })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground hover:text-destructive"
+            onClick={() => remove(streamIndex)}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// ─── Compartment card ─────────────────────────────────────────────────────────
+
+function CompartmentCard({ index, onRemove }: { index: number; onRemove: () => void }) {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const fieldErrors = errors.compartments?.[index]
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="grid grid-cols-[1fr_1fr_2rem] gap-3 items-start">
+        <FieldRow label="Name" htmlFor={`compartments.${index}.name`} required error={fieldErrors?.name?.message}>
+          <Input
+            id={`compartments.${index}.name`}
+            placeholder="e.g. North"
+            {...register(`compartments.${index}.name`)}
+          />
+        </FieldRow>
+        <FieldRow
+          label="Capacity"
+          htmlFor={`compartments.${index}.capacity`}
+          unit="m³"
+          required
+          error={fieldErrors?.capacity?.message}
+        >
+          <Input
+            id={`compartments.${index}.capacity`}
+            type="number"
+            step="any"
+            {...register(`compartments.${index}.capacity`, { valueAsNumber: true })}
+          />
+        </FieldRow>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="mt-5 h-7 w-7 text-muted-foreground hover:text-destructive"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <FieldRow
+          label="Avg Storage Temp"
+          htmlFor={`compartments.${index}.avgStorageTemp`}
+          unit="°C"
+          required
+          error={fieldErrors?.avgStorageTemp?.message}
+        >
+          <Input
+            id={`compartments.${index}.avgStorageTemp`}
+            type="number"
+            step="any"
+            {...register(`compartments.${index}.avgStorageTemp`, { valueAsNumber: true })}
+          />
+        </FieldRow>
+        <FieldRow
+          label="Vapour Pressure"
+          htmlFor={`compartments.${index}.vapourPressure`}
+          unit="kPa"
+          required
+          error={fieldErrors?.vapourPressure?.message}
+        >
+          <Input
+            id={`compartments.${index}.vapourPressure`}
+            type="number"
+            step="any"
+            {...register(`compartments.${index}.vapourPressure`, { valueAsNumber: true })}
+          />
+        </FieldRow>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <FieldRow label="Flash / Boiling Point Type" htmlFor={`compartments.${index}.flashBoilingPointType`}>
+          <Controller
+            name={`compartments.${index}.flashBoilingPointType`}
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger id={`compartments.${index}.flashBoilingPointType`} className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FP">Flash Point (FP)</SelectItem>
+                  <SelectItem value="BP">Boiling Point (BP)</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </FieldRow>
+        <FieldRow
+          label="Flash / Boiling Point"
+          htmlFor={`compartments.${index}.flashBoilingPoint`}
+          unit="°C"
+          error={fieldErrors?.flashBoilingPoint?.message}
+        >
+          <Input
+            id={`compartments.${index}.flashBoilingPoint`}
+            type="number"
+            step="any"
+            placeholder="Optional"
+            {...register(`compartments.${index}.flashBoilingPoint`, { valueAsNumber: true })}
+          />
+        </FieldRow>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <CompartmentStreamTable index={index} direction="incomingStreams" />
+        <CompartmentStreamTable index={index} direction="outgoingStreams" />
+      </div>
+    </div>
+  )
+}
+
+// ─── Main section ─────────────────────────────────────────────────────────────
+
+export function CompartmentSection() {
+  const {
+    control,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const { fields, append, remove } = useFieldArray({ control, name: "compartments" })
+
+  const addCompartment = () =>
+    append({
+      name: `C-${fields.length + 1}`,
+      capacity: NaN,
+      avgStorageTemp: NaN,
+      vapourPressure: NaN,
+      flashBoilingPointType: "FP",
+      incomingStreams: [],
+      outgoingStreams: [],
+    })
+
+  return (
+    <SectionCard
+      title="Compartments"
+      action={
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addCompartment}
+          className="h-7 text-xs gap-1"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      }
+    >
+      {fields.length === 0 ? (
+        <div className="rounded-md border border-dashed py-3 text-center">
+          <p className="text-xs text-muted-foreground">
+            Single compartment — add compartments for a partitioned tank
+          </p>
+        </div>
+      ) : (
+        <>
+          <FieldRow
+            label="Vapour Space"
+            htmlFor="vapourSpaceMode"
+            error={errors.compartments?.message ?? errors.compartments?.root?.message}
+            hint="Compartment streams and fluids replace the tank-level ones for normal venting"
+          >
+            <Controller
+              name="vapourSpaceMode"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? "SHARED"} onValueChange={field.onChange}>
+                  <SelectTrigger id="vapourSpaceMode" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VAPOUR_SPACE_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+          {fields.map((field, index) => (
+            <CompartmentCard key={field.id} index={index} onRemove={() => remove(index)} />
+          ))}
+        </>
+      )}
+    </SectionCard>
+  )
+}
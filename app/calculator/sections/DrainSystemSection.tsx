@@ -80,6 +80,7 @@ export function DrainSystemSection() {
                 htmlFor="maxHeightAboveDrain"
                 unit="mm"
                 error={errors.maxHeightAboveDrain?.message}
+                hint="From shell bottom — cone-down / sloped sump depth is added"
               >
                 <Input
                   id="maxHeightAboveDrain"
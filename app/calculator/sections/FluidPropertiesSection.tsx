@@ -10,10 +10,18 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import type { CalculationInput } from "@/types"
+import type { CalculationInput, StorageCondition } from "@/types"
 import { HEXANE_DEFAULTS, FLASH_POINT_THRESHOLD, BOILING_POINT_THRESHOLD } from "@/lib/constants"
 import { SectionCard } from "../components/SectionCard"
 import { FieldRow } from "../components/FieldRow"
+import { FluidLibraryPicker } from "../components/FluidLibraryPicker"
+import { MixtureCompositionInput } from "../components/MixtureCompositionInput"
+import { VapourPressureCorrelationInput } from "../components/VapourPressureCorrelationInput"
+
+const STORAGE_OPTIONS: { value: StorageCondition; label: string }[] = [
+  { value: "AMBIENT", label: "Ambient storage" },
+  { value: "HEATED", label: "Heated (above ambient)" },
+]
 
 export function FluidPropertiesSection() {
   const {
@@ -23,6 +31,14 @@ export function FluidPropertiesSection() {
     formState: { errors },
   } = useFormContext<CalculationInput>()
 
+  const isHeated = watch("storageCondition") === "HEATED"
+  // Site-specific thermal venting shows the same rain cooling coefficient
+  const showsRainCooling = watch("apiEdition") !== "5TH" && watch("thermalVentingMethod") === "SITE_SPECIFIC"
+  const hasCorrelation = watch("vapourPressureCorrelation") !== undefined
+  const fluidId = watch("fluidId")
+  const isMixture = (watch("mixtureComponents")?.length ?? 0) > 0
+  // With a VP curve a blank T_r is derived at the relieving pressure
+  const derivesRelieving = hasCorrelation && !isMixture
   const fpType = watch("flashBoilingPointType")
   const flashBPValue = watch("flashBoilingPoint")
   const hasFlashBP = flashBPValue !== undefined && !Number.isNaN(flashBPValue)
@@ -34,6 +50,8 @@ export function FluidPropertiesSection() {
 
   return (
     <SectionCard title="Fluid Properties">
+      <FluidLibraryPicker />
+
       <div className="grid grid-cols-2 gap-3">
         <FieldRow
           label="Average Storage Temp"
@@ -56,17 +74,85 @@ export function FluidPropertiesSection() {
           unit="kPa"
           required
           error={errors.vapourPressure?.message}
+          hint={hasCorrelation ? "Calculated at the storage temperature" : undefined}
         >
           <Input
             id="vapourPressure"
             type="number"
             step="any"
             placeholder="e.g. 17.5"
+            readOnly={hasCorrelation}
             {...register("vapourPressure", { valueAsNumber: true })}
           />
         </FieldRow>
       </div>
 
+      {/* Remount on a library pick so the source mode follows the new fluid */}
+      <VapourPressureCorrelationInput key={fluidId ?? "none"} />
+
+      {/* Heated storage — rainstorm cooling check on thermal inbreathing */}
+      <div className="grid grid-cols-2 gap-3">
+        <FieldRow
+          label="Storage Condition"
+          htmlFor="storageCondition"
+          error={errors.storageCondition?.message}
+        >
+          <Controller
+            name="storageCondition"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value ?? "AMBIENT"} onValueChange={field.onChange}>
+                <SelectTrigger id="storageCondition" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STORAGE_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </FieldRow>
+        {isHeated && (
+          <FieldRow
+            label="Design Ambient Temp"
+            htmlFor="ambientTemp"
+            unit="°C"
+            required
+            error={errors.ambientTemp?.message}
+            hint="Rainstorm cools the tank from storage to ambient"
+          >
+            <Input
+              id="ambientTemp"
+              type="number"
+              step="any"
+              placeholder="e.g. 25"
+              {...register("ambientTemp", { valueAsNumber: true })}
+            />
+          </FieldRow>
+        )}
+        {isHeated && !showsRainCooling && (
+          <FieldRow
+            label="Rain Cooling"
+            htmlFor="rainCoolingHtc"
+            unit="W/m²·K"
+            error={errors.rainCoolingHtc?.message}
+            hint="Rainstorm film coefficient on the shell + roof"
+          >
+            <Input
+              id="rainCoolingHtc"
+              type="number"
+              step="any"
+              placeholder="10"
+              {...register("rainCoolingHtc", { valueAsNumber: true })}
+            />
+          </FieldRow>
+        )}
+      </div>
+
       {/* Flash/Boiling Point */}
       <div className="grid grid-cols-2 gap-3">
         <FieldRow
@@ -124,7 +210,7 @@ export function FluidPropertiesSection() {
             Emergency Venting — Reference Fluid
           </p>
           <Badge variant="secondary" className="text-xs">
-            Hexane defaults if blank
+            {isMixture ? "From mixture composition" : "Hexane defaults if blank"}
           </Badge>
         </div>
 
@@ -134,12 +220,14 @@ export function FluidPropertiesSection() {
             htmlFor="latentHeat"
             unit="kJ/kg"
             error={errors.latentHeat?.message}
+            hint={derivesRelieving ? "At the normal boiling point" : undefined}
           >
             <Input
               id="latentHeat"
               type="number"
               step="any"
               placeholder={`${HEXANE_DEFAULTS.latentHeat}`}
+              disabled={isMixture}
               {...register("latentHeat", { valueAsNumber: true })}
             />
           </FieldRow>
@@ -148,12 +236,14 @@ export function FluidPropertiesSection() {
             htmlFor="relievingTemperature"
             unit="°C"
             error={errors.relievingTemperature?.message}
+            hint={derivesRelieving ? "Blank → boils at relieving pressure" : undefined}
           >
             <Input
               id="relievingTemperature"
               type="number"
               step="any"
-              placeholder={`${HEXANE_DEFAULTS.relievingTemperature}`}
+              placeholder={derivesRelieving ? "Derived" : `${HEXANE_DEFAULTS.relievingTemperature}`}
+              disabled={isMixture}
               {...register("relievingTemperature", { valueAsNumber: true })}
             />
           </FieldRow>
@@ -168,10 +258,47 @@ export function FluidPropertiesSection() {
               type="number"
               step="any"
               placeholder={`${HEXANE_DEFAULTS.molecularMass}`}
+              disabled={isMixture}
               {...register("molecularMass", { valueAsNumber: true })}
             />
           </FieldRow>
         </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <FieldRow
+            label="Critical Temp (T_c)"
+            htmlFor="criticalTemperature"
+            unit="°C"
+            error={errors.criticalTemperature?.message}
+            hint="Watson correction of L to a derived T_r"
+          >
+            <Input
+              id="criticalTemperature"
+              type="number"
+              step="any"
+              placeholder="Optional"
+              disabled={isMixture}
+              {...register("criticalTemperature", { valueAsNumber: true })}
+            />
+          </FieldRow>
+          <FieldRow
+            label="Allowable Overpressure"
+            htmlFor="emergencyOverpressure"
+            unit="% DP"
+            error={errors.emergencyOverpressure?.message}
+            hint="Relieving pressure = design pressure + overpressure"
+          >
+            <Input
+              id="emergencyOverpressure"
+              type="number"
+              step="any"
+              placeholder="0"
+              {...register("emergencyOverpressure", { valueAsNumber: true })}
+            />
+          </FieldRow>
+        </div>
+
+        <MixtureCompositionInput />
       </div>
     </SectionCard>
   )
@@ -0,0 +1,133 @@
+"use client"
+
+import { useFormContext, useFieldArray, Controller } from "react-hook-form"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Plus, Trash2 } from "lucide-react"
+import { VENTING_CAUSES } from "@/lib/calculations/scenarios"
+import type { CalculationInput, VentingCause } from "@/types"
+import { SectionCard } from "../components/SectionCard"
+
+const CAUSE_LABELS: Record<VentingCause, string> = {
+  FILLING: "Filling",
+  EMPTYING: "Emptying",
+  THERMAL: "Thermal",
+  CONTROL_VALVE_FAILURE: "Control valve failure",
+  DRAIN: "Drain",
+  STEAM_OUT: "Steam-out",
+  BLANKET_FAILURE: "Blanketing regulator failure",
+  COIL_RUPTURE: "Heating coil rupture",
+}
+
+// ─── Scenario row ─────────────────────────────────────────────────────────────
+// Name + one toggle per cause; toggled causes act together in that scenario
+
+function ScenarioRow({ index, onRemove }: { index: number; onRemove: () => void }) {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const fieldErrors = errors.scenarios?.[index]
+
+  return (
+    <div className="px-3 py-2 space-y-2 border-b last:border-b-0">
+      <div className="grid grid-cols-[1fr_2rem] gap-2 items-center">
+        <Input
+          className="h-7 text-xs"
+          placeholder="Scenario name, e.g. Pump-out + cooling"
+          {...register(`scenarios.${index}.name`)}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-muted-foreground hover:text-destructive"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <Controller
+        name={`scenarios.${index}.causes`}
+        control={control}
+        render={({ field }) => {
+          const selected: VentingCause[] = field.value ?? []
+          const toggle = (cause: VentingCause) =>
+            field.onChange(
+              selected.includes(cause) ? selected.filter((c) => c !== cause) : [...selected, cause],
+            )
+          return (
+            <div className="flex flex-wrap gap-1.5">
+              {VENTING_CAUSES.map((cause) => {
+                const on = selected.includes(cause)
+                return (
+                  <Button
+                    key={cause}
+                    type="button"
+                    variant={on ? "secondary" : "outline"}
+                    size="sm"
+                    aria-pressed={on}
+                    className={`h-6 text-xs ${on ? "" : "text-muted-foreground"}`}
+                    onClick={() => toggle(cause)}
+                  >
+                    {CAUSE_LABELS[cause]}
+                  </Button>
+                )
+              })}
+            </div>
+          )
+        }}
+      />
+      {fieldErrors && (
+        <div className="space-y-0.5">
+          {fieldErrors.name?.message && (
+            <p className="text-xs text-destructive">Name: {fieldErrors.name.message}</p>
+          )}
+          {fieldErrors.causes?.message && (
+            <p className="text-xs text-destructive">Causes: {fieldErrors.causes.message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Main section ─────────────────────────────────────────────────────────────
+
+export function ScenarioSection() {
+  const { control } = useFormContext<CalculationInput>()
+  const { fields, append, remove } = useFieldArray({ control, name: "scenarios" })
+
+  return (
+    <SectionCard
+      title="Venting Scenarios"
+      action={
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ name: `Case ${fields.length + 1}`, causes: [] })}
+          className="h-7 text-xs gap-1"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add
+        </Button>
+      }
+    >
+      {fields.length === 0 ? (
+        <div className="rounded-md border border-dashed py-3 text-center">
+          <p className="text-xs text-muted-foreground">
+            No scenarios — design flows combine every cause. Add scenarios to pick the governing case
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-md border overflow-hidden">
+          {fields.map((field, index) => (
+            <ScenarioRow key={field.id} index={index} onRemove={() => remove(index)} />
+          ))}
+        </div>
+      )}
+    </SectionCard>
+  )
+}
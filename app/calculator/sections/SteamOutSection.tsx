@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { useFormContext } from "react-hook-form"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { Card, CardContent, CardHeader } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import type { CalculationInput } from "@/types"
+import { FieldRow } from "../components/FieldRow"
+
+export function SteamOutSection() {
+  const [open, setOpen] = useState(false)
+
+  const {
+    register,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="shadow-sm">
+        <CardHeader className="pb-3">
+          <CollapsibleTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              className="flex w-full items-center justify-between p-0 h-auto hover:bg-transparent"
+            >
+              <span className="text-base font-semibold">
+                Steam-Out Inbreathing
+              </span>
+              <span className="flex items-center gap-1.5 text-xs text-muted-foreground font-normal">
+                {open ? (
+                  <>
+                    <ChevronDown className="h-4 w-4" />
+                    Collapse
+                  </>
+                ) : (
+                  <>
+                    <ChevronRight className="h-4 w-4" />
+                    Expand (optional)
+                  </>
+                )}
+              </span>
+            </Button>
+          </CollapsibleTrigger>
+          <Separator />
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-4 pt-0">
+            <p className="text-xs text-muted-foreground">
+              Steam filling the tank condenses once the supply stops — at the steam rate or the
+              shell cooling rate, whichever is larger. Added to design inbreathing if larger than normal venting.
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <FieldRow
+                label="Steam Rate"
+                htmlFor="steamOutRate"
+                unit="kg/h"
+                error={errors.steamOutRate?.message}
+              >
+                <Input
+                  id="steamOutRate"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. 2000"
+                  {...register("steamOutRate", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Cooling To"
+                htmlFor="steamOutAmbientTemp"
+                unit="°C"
+                error={errors.steamOutAmbientTemp?.message}
+                hint="Ambient / rain"
+              >
+                <Input
+                  id="steamOutAmbientTemp"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. 15"
+                  {...register("steamOutAmbientTemp", { valueAsNumber: true })}
+                />
+              </FieldRow>
+              <FieldRow
+                label="Shell Cooling Coeff."
+                htmlFor="steamOutCoolingHtc"
+                unit="W/m²·K"
+                error={errors.steamOutCoolingHtc?.message}
+                hint="Default: 10 (rain)"
+              >
+                <Input
+                  id="steamOutCoolingHtc"
+                  type="number"
+                  step="any"
+                  placeholder="10"
+                  {...register("steamOutCoolingHtc", { valueAsNumber: true })}
+                />
+              </FieldRow>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  )
+}
@@ -1,15 +1,169 @@
 "use client"
 
-import { useFormContext, useFieldArray } from "react-hook-form"
+import { useFormContext, useFieldArray, Controller } from "react-hook-form"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { Plus, Trash2 } from "lucide-react"
-import type { CalculationInput } from "@/types"
+import { FLUID_CATEGORY_LABELS, FLUID_LIBRARY } from "@/lib/lookups/fluids"
+import type { CalculationInput, FluidCategory, StreamType } from "@/types"
 import { SectionCard } from "../components/SectionCard"
 
+// ─── Stream operation ─────────────────────────────────────────────────────────
+// Type + simultaneity group: streams sharing a group never run together, so
+// only the largest of each group counts toward the governing process rate
+
+const STREAM_TYPE_OPTIONS: { value: StreamType; label: string }[] = [
+  { value: "PUMP", label: "Pump" },
+  { value: "GRAVITY", label: "Gravity" },
+  { value: "TRUCK_UNLOADING", label: "Truck unloading" },
+  { value: "RAIL_UNLOADING", label: "Rail unloading" },
+  { value: "MARINE", label: "Ship / barge" },
+  { value: "PIPELINE", label: "Pipeline" },
+  { value: "OTHER", label: "Other" },
+]
+
+const UNSPECIFIED = "__unspecified"
+
+interface StreamOperationFieldsProps {
+  direction: "incomingStreams" | "outgoingStreams"
+  index: number
+}
+
+function StreamOperationFields({ direction, index }: StreamOperationFieldsProps) {
+  const { register, control } = useFormContext<CalculationInput>()
+
+  return (
+    <div className="col-span-full grid grid-cols-2 gap-2">
+      <Controller
+        name={`${direction}.${index}.type`}
+        control={control}
+        render={({ field }) => (
+          <Select
+            value={field.value ?? UNSPECIFIED}
+            onValueChange={(v) => field.onChange(v === UNSPECIFIED ? undefined : v)}
+          >
+            <SelectTrigger className="h-7 w-full text-xs" aria-label="Stream type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSPECIFIED}>Type not specified</SelectItem>
+              {STREAM_TYPE_OPTIONS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      />
+      <Input
+        className="h-7 text-xs"
+        placeholder="Simultaneity group (blank = always runs)"
+        {...register(`${direction}.${index}.simultaneityGroup`)}
+      />
+    </div>
+  )
+}
+
 // ─── Incoming Streams (incomingStreams) ───────────────────────────────────────
-// Stream — streamNo + flowrate only
+// Stream — streamNo + flowrate, plus optional hot-feed data for flash vapour
+
+const FLASH_FIELDS = [
+  { name: "temperature", label: "Inlet temperature", placeholder: "T inlet (°C)" },
+  { name: "pressure", label: "Line pressure", placeholder: "P line (kPa a)" },
+  { name: "flashFraction", label: "Flash fraction", placeholder: "Flash x (0–1)" },
+  { name: "density", label: "Density", placeholder: "ρ (kg/m³)" },
+  { name: "molecularMass", label: "Molecular mass", placeholder: "M (g/mol)" },
+] as const
+
+const FLUID_CATEGORIES: FluidCategory[] = ["PETROLEUM", "CHEMICAL"]
+
+// Feed composition — library fluids in mole fractions; blank = the tank liquid.
+// Sets the feed's bubble point at tank pressure (and at its line pressure)
+
+function FeedCompositionFields({ index }: { index: number }) {
+  const {
+    register,
+    control,
+    formState: { errors },
+  } = useFormContext<CalculationInput>()
+  const { fields, append, remove } = useFieldArray({ control, name: `incomingStreams.${index}.composition` })
+  const compositionErrors = errors.incomingStreams?.[index]?.composition
+
+  return (
+    <div className="col-span-full space-y-1">
+      {fields.map((field, i) => (
+        <div key={field.id} className="grid grid-cols-[1fr_6rem_2rem] gap-2 items-center">
+          <Controller
+            name={`incomingStreams.${index}.composition.${i}.fluidId`}
+            control={control}
+            render={({ field: fluidField }) => (
+              <Select value={fluidField.value} onValueChange={fluidField.onChange}>
+                <SelectTrigger className="h-7 w-full text-xs" aria-label="Feed component">
+                  <SelectValue placeholder="Select fluid" />
+                </SelectTrigger>
+                <SelectContent>
+                  {FLUID_CATEGORIES.map((category) => (
+                    <SelectGroup key={category}>
+                      <SelectLabel>{FLUID_CATEGORY_LABELS[category]}</SelectLabel>
+                      {FLUID_LIBRARY.filter((f) => f.category === category).map(({ id, name }) => (
+                        <SelectItem key={id} value={id}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          <Input
+            className="h-7 text-xs"
+            type="number"
+            step="any"
+            placeholder="Mole fraction"
+            {...register(`incomingStreams.${index}.composition.${i}.fraction`, { valueAsNumber: true })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground hover:text-destructive"
+            onClick={() => remove(i)}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+          {(compositionErrors?.[i]?.fluidId?.message ?? compositionErrors?.[i]?.fraction?.message) && (
+            <p className="col-span-full text-xs text-destructive">
+              {compositionErrors?.[i]?.fluidId?.message ?? compositionErrors?.[i]?.fraction?.message}
+            </p>
+          )}
+        </div>
+      ))}
+      {compositionErrors?.message && <p className="text-xs text-destructive">{compositionErrors.message}</p>}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => append({ fluidId: "", fraction: NaN })}
+        className="h-6 text-xs gap-1"
+      >
+        <Plus className="h-3 w-3" />
+        {fields.length === 0 ? "Feed composition (blank = tank liquid)" : "Add component"}
+      </Button>
+    </div>
+  )
+}
 
 function IncomingStreamTable() {
   const {
@@ -31,7 +185,7 @@ function IncomingStreamTable() {
         <div>
           <p className="text-sm font-medium">Incoming Streams (to tank)</p>
           <p className="text-xs text-muted-foreground">
-            Liquid entering the tank → drives outbreathing
+            Liquid entering the tank → drives outbreathing; feeds above their bubble point at tank pressure add flash vapour
           </p>
         </div>
         <Button
@@ -93,6 +247,21 @@ function IncomingStreamTable() {
               >
                 <Trash2 className="h-3.5 w-3.5" />
               </Button>
+              <StreamOperationFields direction="incomingStreams" index={index} />
+              {/* Hot / flashing feed — optional */}
+              <div className="col-span-full grid grid-cols-5 gap-2">
+                {FLASH_FIELDS.map(({ name, placeholder }) => (
+                  <Input
+                    key={name}
+                    className="h-7 text-xs"
+                    type="number"
+                    step="any"
+                    placeholder={placeholder}
+                    {...register(`incomingStreams.${index}.${name}`, { valueAsNumber: true })}
+                  />
+                ))}
+              </div>
+              <FeedCompositionFields index={index} />
               {Array.isArray(fieldErrors) && fieldErrors[index] && (
                 <div className="col-span-full space-y-0.5">
                   {fieldErrors[index]?.streamNo?.message && (
@@ -105,6 +274,13 @@ function IncomingStreamTable() {
                       Flowrate: {fieldErrors[index].flowrate?.message}
                     </p>
                   )}
+                  {FLASH_FIELDS.map(({ name, label }) =>
+                    fieldErrors[index]?.[name]?.message ? (
+                      <p key={name} className="text-xs text-destructive">
+                        {label}: {fieldErrors[index]?.[name]?.message}
+                      </p>
+                    ) : null,
+                  )}
                 </div>
               )}
             </div>
@@ -138,7 +314,7 @@ function OutgoingStreamTable() {
         <div>
           <p className="text-sm font-medium">Outgoing Streams (from tank)</p>
           <p className="text-xs text-muted-foreground">
-            Liquid leaving the tank → drives inbreathing
+            Liquid leaving the tank → drives inbreathing; grouped streams count one at a time
           </p>
         </div>
         <Button
@@ -200,6 +376,7 @@ function OutgoingStreamTable() {
               >
                 <Trash2 className="h-3.5 w-3.5" />
               </Button>
+              <StreamOperationFields direction="outgoingStreams" index={index} />
               {Array.isArray(fieldErrors) && fieldErrors[index] && (
                 <div className="col-span-full space-y-0.5">
                   {fieldErrors[index]?.streamNo?.message && (
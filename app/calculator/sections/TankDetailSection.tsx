@@ -1,18 +1,73 @@
 "use client"
 
-import { useFormContext } from "react-hook-form"
+import { useEffect } from "react"
+import { useFormContext, Controller } from "react-hook-form"
 import { Input } from "@/components/ui/input"
-import type { CalculationInput } from "@/types"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { BottomProfile, CalculationInput, HeadType, RoofType, TankShape } from "@/types"
+import { BOTTOM_SLOPE, CONE_ROOF_SLOPE, UMBRELLA_ROOF_SEGMENTS } from "@/lib/constants"
 import { SectionCard } from "../components/SectionCard"
 import { FieldRow } from "../components/FieldRow"
 import { ConfigSelector } from "../components/ConfigSelector"
+import { StrappingTableUpload } from "../components/StrappingTableUpload"
+
+const SHAPE_OPTIONS: { value: TankShape; label: string }[] = [
+  { value: "VERTICAL_CYLINDER", label: "Vertical Cylinder" },
+  { value: "HORIZONTAL_CYLINDER", label: "Horizontal Cylinder" },
+  { value: "SPHERE", label: "Sphere" },
+  { value: "SPHEROID", label: "Spheroid" },
+]
+
+const HEAD_OPTIONS: { value: HeadType; label: string }[] = [
+  { value: "ELLIPSOIDAL_2_1", label: "2:1 Ellipsoidal" },
+  { value: "HEMISPHERICAL", label: "Hemispherical" },
+  { value: "FLAT", label: "Flat" },
+]
+
+const ROOF_OPTIONS: { value: RoofType; label: string }[] = [
+  { value: "CONE", label: "Cone Roof" },
+  { value: "DOME", label: "Dome Roof" },
+  { value: "UMBRELLA", label: "Umbrella Roof" },
+  { value: "FLAT", label: "Flat Roof" },
+]
+
+const BOTTOM_OPTIONS: { value: BottomProfile; label: string }[] = [
+  { value: "FLAT", label: "Flat Bottom" },
+  { value: "CONE_DOWN", label: "Cone-Down" },
+  { value: "CONE_UP", label: "Cone-Up" },
+  { value: "SLOPED", label: "Single Slope" },
+]
 
 export function TankDetailSection() {
   const {
     register,
+    watch,
+    control,
+    setValue,
     formState: { errors },
   } = useFormContext<CalculationInput>()
 
+  const tankShape = watch("tankShape") ?? "VERTICAL_CYLINDER"
+  const isVertical = tankShape === "VERTICAL_CYLINDER"
+  const isHorizontal = tankShape === "HORIZONTAL_CYLINDER"
+  const isSphere = tankShape === "SPHERE"
+  const isSpherical = isSphere || tankShape === "SPHEROID"
+  const diameter = watch("diameter")
+  const roofType = watch("roofType") ?? "CONE"
+  const isDomed = roofType === "DOME" || roofType === "UMBRELLA"
+  const bottomProfile = watch("bottomProfile") ?? "FLAT"
+
+  // A sphere has no separate height — mirror D so the required field stays valid
+  useEffect(() => {
+    if (isSphere) setValue("height", diameter, { shouldValidate: true })
+  }, [isSphere, diameter, setValue])
+
   return (
     <SectionCard title="Tank Details">
       {/* Identification */}
@@ -44,6 +99,60 @@ export function TankDetailSection() {
         </FieldRow>
       </div>
 
+      {/* Shape */}
+      <div className="grid grid-cols-2 gap-3">
+        <FieldRow
+          label="Tank Orientation"
+          htmlFor="tankShape"
+          error={errors.tankShape?.message}
+        >
+          <Controller
+            name="tankShape"
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value ?? "VERTICAL_CYLINDER"} onValueChange={field.onChange}>
+                <SelectTrigger id="tankShape" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHAPE_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </FieldRow>
+        {isHorizontal && (
+          <FieldRow
+            label="Head Type"
+            htmlFor="headType"
+            error={errors.headType?.message}
+          >
+            <Controller
+              name="headType"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? "ELLIPSOIDAL_2_1"} onValueChange={field.onChange}>
+                  <SelectTrigger id="headType" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HEAD_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+        )}
+      </div>
+
       {/* Geometry */}
       <div className="grid grid-cols-2 gap-3">
         <FieldRow
@@ -62,7 +171,13 @@ export function TankDetailSection() {
           />
         </FieldRow>
         <FieldRow
-          label="Height (TL–TL)"
+          label={
+            isHorizontal
+              ? "Length (TL–TL)"
+              : isSpherical
+                ? "Height (polar axis)"
+                : "Height (TL–TL)"
+          }
           htmlFor="height"
           unit="mm"
           required
@@ -73,11 +188,49 @@ export function TankDetailSection() {
             type="number"
             step="any"
             placeholder="e.g. 17500"
+            readOnly={isSphere}
             {...register("height", { valueAsNumber: true })}
           />
         </FieldRow>
       </div>
 
+      <div className="grid grid-cols-2 gap-3">
+        <FieldRow
+          label={isSpherical ? "Support Height" : "Elevation Above Grade"}
+          htmlFor="elevation"
+          unit="mm"
+          error={errors.elevation?.message}
+          hint={
+            isSpherical
+              ? "Bottom of sphere above grade — blank → on grade"
+              : "Skirt / legs / berm — blank → on grade"
+          }
+        >
+          <Input
+            id="elevation"
+            type="number"
+            step="any"
+            placeholder="0"
+            {...register("elevation", { valueAsNumber: true })}
+          />
+        </FieldRow>
+        <FieldRow
+          label="Max Liquid Level"
+          htmlFor="maxLiquidLevel"
+          unit="mm"
+          error={errors.maxLiquidLevel?.message}
+          hint="Above tank bottom — blank → liquid-full; limits the wetted shell of vertical tanks"
+        >
+          <Input
+            id="maxLiquidLevel"
+            type="number"
+            step="any"
+            placeholder="Optional"
+            {...register("maxLiquidLevel", { valueAsNumber: true })}
+          />
+        </FieldRow>
+      </div>
+
       <div className="grid grid-cols-2 gap-3">
         <FieldRow
           label="Latitude"
@@ -113,6 +266,183 @@ export function TankDetailSection() {
         </FieldRow>
       </div>
 
+      {/* Thermal venting capacity — overrides the geometric volume */}
+      <div className="grid grid-cols-3 gap-3">
+        <FieldRow
+          label="Nominal Capacity"
+          htmlFor="nominalCapacity"
+          unit="m³"
+          error={errors.nominalCapacity?.message}
+          hint="Datasheet — overrides all below"
+        >
+          <Input
+            id="nominalCapacity"
+            type="number"
+            step="any"
+            placeholder="Optional"
+            {...register("nominalCapacity", { valueAsNumber: true })}
+          />
+        </FieldRow>
+        <FieldRow
+          label="High-High Liquid Level"
+          htmlFor="highHighLiquidLevel"
+          unit="mm"
+          error={errors.highHighLiquidLevel?.message}
+          hint="Working capacity to HHLL"
+        >
+          <Input
+            id="highHighLiquidLevel"
+            type="number"
+            step="any"
+            placeholder="Optional"
+            {...register("highHighLiquidLevel", { valueAsNumber: true })}
+          />
+        </FieldRow>
+        <FieldRow
+          label="Ullage"
+          htmlFor="ullage"
+          unit="m³"
+          error={errors.ullage?.message}
+          hint="Subtracted from geometric volume"
+        >
+          <Input
+            id="ullage"
+            type="number"
+            step="any"
+            placeholder="Optional"
+            {...register("ullage", { valueAsNumber: true })}
+          />
+        </FieldRow>
+      </div>
+
+      {/* Calibrated strapping — overrides the geometric volume */}
+      <StrappingTableUpload />
+
+      {/* Roof — vertical tanks only */}
+      {isVertical && (
+        <div className="grid grid-cols-2 gap-3">
+          <FieldRow
+            label="Roof Type"
+            htmlFor="roofType"
+            error={errors.roofType?.message}
+          >
+            <Controller
+              name="roofType"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? "CONE"} onValueChange={field.onChange}>
+                  <SelectTrigger id="roofType" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROOF_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+          {roofType === "CONE" && (
+            <FieldRow
+              label="Roof Slope (1:n)"
+              htmlFor="roofSlope"
+              error={errors.roofSlope?.message}
+              hint={`h_roof = D / n — blank → 1:${CONE_ROOF_SLOPE}`}
+            >
+              <Input
+                id="roofSlope"
+                type="number"
+                step="any"
+                placeholder={`${CONE_ROOF_SLOPE}`}
+                {...register("roofSlope", { valueAsNumber: true })}
+              />
+            </FieldRow>
+          )}
+          {isDomed && (
+            <FieldRow
+              label="Roof Radius (R)"
+              htmlFor="roofRadius"
+              unit="mm"
+              error={errors.roofRadius?.message}
+              hint="0.8D – 1.2D typical — blank → 1.0 × D"
+            >
+              <Input
+                id="roofRadius"
+                type="number"
+                step="any"
+                placeholder="Optional"
+                {...register("roofRadius", { valueAsNumber: true })}
+              />
+            </FieldRow>
+          )}
+          {roofType === "UMBRELLA" && (
+            <FieldRow
+              label="Roof Plates (N)"
+              htmlFor="roofSegments"
+              error={errors.roofSegments?.message}
+              hint={`Radially-bent plates between ribs — blank → ${UMBRELLA_ROOF_SEGMENTS}`}
+            >
+              <Input
+                id="roofSegments"
+                type="number"
+                step="1"
+                placeholder={`${UMBRELLA_ROOF_SEGMENTS}`}
+                {...register("roofSegments", { valueAsNumber: true })}
+              />
+            </FieldRow>
+          )}
+        </div>
+      )}
+
+      {/* Bottom — vertical tanks only */}
+      {isVertical && (
+        <div className="grid grid-cols-2 gap-3">
+          <FieldRow
+            label="Bottom Profile"
+            htmlFor="bottomProfile"
+            error={errors.bottomProfile?.message}
+          >
+            <Controller
+              name="bottomProfile"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value ?? "FLAT"} onValueChange={field.onChange}>
+                  <SelectTrigger id="bottomProfile" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BOTTOM_OPTIONS.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </FieldRow>
+          {bottomProfile !== "FLAT" && (
+            <FieldRow
+              label="Bottom Slope (1:n)"
+              htmlFor="bottomSlope"
+              error={errors.bottomSlope?.message}
+              hint={`Rise : run — blank → 1:${BOTTOM_SLOPE}`}
+            >
+              <Input
+                id="bottomSlope"
+                type="number"
+                step="any"
+                placeholder={`${BOTTOM_SLOPE}`}
+                {...register("bottomSlope", { valueAsNumber: true })}
+              />
+            </FieldRow>
+          )}
+        </div>
+      )}
+
       {/* Configuration */}
       <ConfigSelector />
     </SectionCard>
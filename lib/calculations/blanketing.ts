@@ -0,0 +1,63 @@
+import { BlanketingResult, CalculationInput, NormalVentingResult } from "@/types"
+import {
+  AIR_MOLECULAR_MASS,
+  ATMOSPHERIC_PRESSURE_KPA,
+  BLANKET_GAS_TEMPERATURE,
+  NITROGEN_MOLECULAR_MASS,
+  NORMAL_MOLAR_VOLUME,
+} from "@/lib/constants"
+import { calcValveGasFlow } from "./gasFlow"
+
+/**
+ * Inert gas blanketing of a tank.
+ *
+ * Regulator demand — the blanket gas must replace what normal inbreathing
+ * would draw in: pump-out and thermal contraction together. The sum applies to
+ * every edition — the 5th edition's max(process, thermal) sizes the vent, but a
+ * regulator holding the pad has to meet both at once. Floating-roof tanks take
+ * the roof-landed case; the floating deck needs no pad. Inbreathing rates are
+ * air-equivalent, so the sum is converted to blanket gas by molecular mass
+ * before it sizes the regulator:
+ *
+ *   Q_air = V_in,process + V_in,thermal     [Nm³/h air]
+ *   Q_req = Q_air × √(M_air / M)            [Nm³/h blanket gas]
+ *   ṁ_req = Q_req / V_m × M / 1000          [kg/h]
+ *
+ * Where:
+ *   M_air = 28.96 g/mol, M = blanket gas molecular mass (nitrogen default)
+ *
+ * Failure case — the regulator fails open and passes its full-open flow from
+ * the supply pressure into the tank at atmospheric pressure (calcValveGasFlow).
+ *
+ * Returns undefined unless the tank is blanketed.
+ */
+export function computeBlanketing(
+  input: CalculationInput,
+  normalVenting: NormalVentingResult,
+): BlanketingResult | undefined {
+  if (!input.blanketed) return undefined
+
+  const {
+    blanketSupplyPressure: supply,
+    blanketRegulatorCv: cv,
+    blanketGasMolecularMass: molecularMass = NITROGEN_MOLECULAR_MASS,
+    blanketGasTemperature: temperature = BLANKET_GAS_TEMPERATURE,
+  } = input
+
+  const { inbreathing } = normalVenting.roofLanded ?? normalVenting
+  const airEquivalent = inbreathing.processFlowrate + inbreathing.thermalInbreathing
+  const requiredCapacity = airEquivalent * Math.sqrt(AIR_MOLECULAR_MASS / molecularMass)
+  const result: BlanketingResult = {
+    airEquivalent,
+    requiredCapacity,
+    requiredMassFlow: (requiredCapacity / NORMAL_MOLAR_VOLUME) * (molecularMass / 1000),
+  }
+
+  if (supply === undefined || cv === undefined) return result
+
+  const flow = calcValveGasFlow(cv, supply, ATMOSPHERIC_PRESSURE_KPA, molecularMass, temperature)
+  return {
+    ...result,
+    failure: { outbreathing: flow.flowrate, massFlow: flow.massFlow, choked: flow.choked },
+  }
+}
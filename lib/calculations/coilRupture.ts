@@ -0,0 +1,87 @@
+import { CalculationInput, CoilRuptureResult } from "@/types"
+import {
+  ATMOSPHERIC_PRESSURE_KPA,
+  GAS_CONSTANT,
+  HEXANE_DEFAULTS,
+  HOT_OIL_HEAT_CAPACITY,
+  NORMAL_MOLAR_VOLUME,
+  ORIFICE_DISCHARGE_COEFF,
+  STEAM_LATENT_HEAT,
+  STEAM_SATURATION_TEMP,
+  STEAM_SPECIFIC_HEAT_RATIO,
+  WATER_MOLECULAR_MASS,
+} from "@/lib/constants"
+import { calcOrificeGasFlow } from "./gasFlow"
+
+/**
+ * Saturation temperature of steam at `pressureKPa` (°C), by Clausius–Clapeyron
+ * from the atmospheric boiling point:
+ *
+ *   1/T_sat = 1/373.15 − R / (λ × M) × ln(P / 101.325)
+ */
+export function calcSteamSaturationTemp(pressureKPa: number): number {
+  const invT =
+    1 / (STEAM_SATURATION_TEMP + 273.15) -
+    (GAS_CONSTANT / (STEAM_LATENT_HEAT * WATER_MOLECULAR_MASS)) *
+      Math.log(pressureKPa / ATMOSPHERIC_PRESSURE_KPA)
+  return 1 / invT - 273.15
+}
+
+/**
+ * Vapour generated in the tank by a heating coil / heat exchanger tube rupture.
+ *
+ * A full-bore (guillotine) break of one tube discharges from both open ends,
+ * so the flow is twice that of a single bore into the tank at atmospheric
+ * pressure.
+ *
+ * STEAM — steam through the break (calcOrificeGasFlow, k = 1.33, M = 18.015)
+ * at the coil temperature, default saturation at the coil pressure. None is
+ * taken to condense in the liquid:
+ *   V = 2 × Q_orifice(d)                                        [Nm³/h]
+ *
+ * HOT_OIL — liquid through the break, displacing its own volume of vapour and
+ * boiling off stored liquid with all of its heat above the storage temperature
+ * (L, M of the tank fluid, Hexane default):
+ *   ṁ = 2 × C_d × A × √(2 ρ ΔP)                                  [kg/s]
+ *   V = ṁ / ρ + ṁ × c_p,oil × (T_oil − T_s) / L × 1000 / M × V_m  [Nm³/h]
+ *
+ * Returns undefined unless the fluid, coil pressure and tube size are given
+ * (and, for hot oil, its temperature and density).
+ */
+export function computeCoilRupture(input: CalculationInput): CoilRuptureResult | undefined {
+  const {
+    coilFluid: fluid,
+    coilPressure: pressure,
+    coilTubeDiameter: diameter,
+    coilFluidTemperature: temperature,
+    coilFluidDensity: density,
+  } = input
+  if (fluid === undefined || pressure === undefined || diameter === undefined) return undefined
+
+  if (fluid === "STEAM") {
+    const flow = calcOrificeGasFlow(
+      diameter,
+      pressure,
+      ATMOSPHERIC_PRESSURE_KPA,
+      WATER_MOLECULAR_MASS,
+      temperature ?? calcSteamSaturationTemp(pressure),
+      STEAM_SPECIFIC_HEAT_RATIO,
+    )
+    return { fluid, massFlow: 2 * flow.massFlow, flowrate: 2 * flow.flowrate, choked: flow.choked }
+  }
+
+  if (temperature === undefined || density === undefined) return undefined
+  if (pressure <= ATMOSPHERIC_PRESSURE_KPA) return { fluid, massFlow: 0, flowrate: 0, choked: false }
+
+  const area = (Math.PI / 4) * (diameter / 1000) ** 2 // m²
+  const deltaP = (pressure - ATMOSPHERIC_PRESSURE_KPA) * 1000 // Pa
+  const massFlow = 2 * ORIFICE_DISCHARGE_COEFF * area * Math.sqrt(2 * density * deltaP) * 3600 // kg/h
+
+  const latentHeat = input.latentHeat ?? HEXANE_DEFAULTS.latentHeat
+  const molecularMass = input.molecularMass ?? HEXANE_DEFAULTS.molecularMass
+  const boilOff =
+    (massFlow * HOT_OIL_HEAT_CAPACITY * Math.max(temperature - input.avgStorageTemp, 0)) / latentHeat // kg/h
+  const flowrate = massFlow / density + ((boilOff * 1000) / molecularMass) * NORMAL_MOLAR_VOLUME
+
+  return { fluid, massFlow, flowrate, choked: false }
+}
@@ -1,5 +1,12 @@
-import { CalculationInput, DerivedGeometry, EmergencyVentingResult } from "@/types"
-import { HEXANE_DEFAULTS, EMERGENCY_VENT_PRESSURE_THRESHOLD } from "@/lib/constants"
+import {
+  ApiEdition,
+  CalculationInput,
+  DerivedGeometry,
+  EmergencyVentingResult,
+  MixtureResult,
+  RelievingConditionsResult,
+} from "@/types"
+import { ATMOSPHERIC_PRESSURE_KPA, HEXANE_DEFAULTS, EMERGENCY_VENT_PRESSURE_THRESHOLD } from "@/lib/constants"
 import { getEnvironmentalFactor } from "@/lib/lookups/fFactor"
 import { emergencyVentTableLookup } from "@/lib/lookups/emergencyVentTable"
 
@@ -22,6 +29,24 @@ function selectCoefficients(
     : { a: 4_129_700, n: 0 }
 }
 
+/**
+ * Air-equivalent coefficient k of API 2000 Eq. 14, V_air = k × ṁ × √(T / M)
+ * with ṁ in kg/s: 881.55 for the 5th edition (air at 15.6 °C), 906.6 for the
+ * 6th / 7th and ISO 28300 (air at 0 °C).
+ */
+export function airEquivalentCoefficient(apiEdition: ApiEdition): number {
+  return apiEdition === "5TH" ? 881.55 : 906.6
+}
+
+/**
+ * Relieving pressure (kPa a) — the design pressure plus the allowable
+ * overpressure (% of design pressure), above atmospheric.
+ */
+export function calcRelievingPressure(input: CalculationInput): number {
+  const overpressure = input.emergencyOverpressure ?? 0
+  return ATMOSPHERIC_PRESSURE_KPA + input.designPressure * (1 + overpressure / 100)
+}
+
 // ─── Main computation ─────────────────────────────────────────────────────────
 
 /**
@@ -38,14 +63,19 @@ function selectCoefficients(
  *          ATWS ≥ 260, DP > 7 → V = 208.2 × F × ATWS^0.82
  *        User-defined fluid (all ATWS):
  *          5th                → V = 881.55 × Q × F / (1000 × L) × √((T_r+273.15)/M)
- *          6th/7th            → V = 906.6  × Q × F / (1000 × L) × √((T_r+273.15)/M)
+ *          6th/7th, ISO 28300 → V = 906.6  × Q × F / (1000 × L) × √((T_r+273.15)/M)
  *
  * Hexane defaults are used when L / T_r / M are not provided (per API 2000).
  * For user-defined fluids, actual values are used; Hexane defaults fill any gaps.
+ * A mixture (calcMixtureProperties) supplies all three, relieving conditions
+ * (calcRelievingConditions) T_r and possibly L; either is reported with the
+ * result so derived values are told apart from typed ones.
  */
 export function computeEmergencyVenting(
   input: CalculationInput,
   derived: DerivedGeometry,
+  mixture?: MixtureResult,
+  relievingConditions?: RelievingConditionsResult,
 ): EmergencyVentingResult {
   const {
     apiEdition,
@@ -60,12 +90,18 @@ export function computeEmergencyVenting(
 
   const { wettedArea } = derived
 
-  // Apply Hexane defaults when user left fields blank
-  const L   = latentHeat           ?? HEXANE_DEFAULTS.latentHeat
-  const T_r = relievingTemperature  ?? HEXANE_DEFAULTS.relievingTemperature
-  const M   = molecularMass         ?? HEXANE_DEFAULTS.molecularMass
+  // Mixture values first, then derived, then typed; Hexane defaults fill blanks
+  const L =
+    mixture?.latentHeat ?? relievingConditions?.latentHeat ?? latentHeat ?? HEXANE_DEFAULTS.latentHeat
+  const T_r =
+    mixture?.bubbleTemperature ??
+    relievingConditions?.relievingTemperature ??
+    relievingTemperature ??
+    HEXANE_DEFAULTS.relievingTemperature
+  const M = mixture?.molecularMass ?? molecularMass ?? HEXANE_DEFAULTS.molecularMass
 
   const referenceFluid: "Hexane" | "User-defined" =
+    mixture === undefined && relievingConditions === undefined &&
     latentHeat === undefined && relievingTemperature === undefined && molecularMass === undefined
       ? "Hexane"
       : "User-defined"
@@ -83,7 +119,7 @@ export function computeEmergencyVenting(
     // User-defined fluid (all ATWS) → general formula (API 2000 Eq. 14)
     // 5th: V = 881.55 × Q × F / (1000 × L) × √((T_r + 273.15) / M)
     // 6th/7th: V = 906.6 × Q × F / (1000 × L) × √((T_r + 273.15) / M)
-    const coefficient = apiEdition === "5TH" ? 881.55 : 906.6
+    const coefficient = airEquivalentCoefficient(apiEdition)
     emergencyVentRequired = (coefficient * Q * F) / (1000 * L) * Math.sqrt((T_r + 273.15) / M)
   } else if (wettedArea < 260) {
     // Hexane-like fluid, ATWS < 260 → Table 7 lookup (pre-calculated for Hexane, F=1), scaled by F
@@ -103,5 +139,7 @@ export function computeEmergencyVenting(
     emergencyVentRequired,
     coefficients: { a: coefficients.a, n: coefficients.n },
     referenceFluid,
+    ...(mixture && { mixture }),
+    ...(relievingConditions && { relievingConditions }),
   }
 }
@@ -0,0 +1,109 @@
+import { CalculationInput, Stream } from "@/types"
+import {
+  ATMOSPHERIC_PRESSURE_KPA,
+  HEXANE_DEFAULTS,
+  NORMAL_MOLAR_VOLUME,
+} from "@/lib/constants"
+import { calcSaturationTemperature } from "./vapourPressure"
+import { calcBubbleTemperature, resolveComposition } from "./mixture"
+
+/** The liquid a feed brings in: bubble point curve, latent heat and vapour M. */
+interface FeedLiquid {
+  bubblePoint: (pressure: number) => number | undefined // °C at pressure kPa(a)
+  latentHeat: number // kJ/kg
+  molecularMass: number // g/mol
+}
+
+/**
+ * Liquid of an incoming stream, in order of precedence:
+ *   1. stream.composition — Raoult bubble point, L = Σ w_i × L_i, M = Σ x_i × M_i
+ *   2. the tank liquid — stored mixture (mixtureComponents), else its vapour
+ *      pressure correlation; at tank pressure a typed BP, then Hexane, when
+ *      there is no correlation. L and M of the tank fluid (Hexane default).
+ */
+function resolveFeedLiquid(stream: Stream, input: CalculationInput): FeedLiquid {
+  const composition =
+    (stream.composition?.length && resolveComposition(stream.composition)) ||
+    (input.mixtureComponents?.length && resolveComposition(input.mixtureComponents, input.compositionBasis)) ||
+    undefined
+  if (composition) {
+    return {
+      bubblePoint: (pressure) => calcBubbleTemperature(composition, pressure),
+      latentHeat: composition.fluids.reduce((s, f, i) => s + composition.massFractions[i] * f.latentHeat, 0),
+      molecularMass: composition.molecularMass,
+    }
+  }
+
+  const { vapourPressureCorrelation, flashBoilingPointType, flashBoilingPoint } = input
+  return {
+    bubblePoint: (pressure) => {
+      if (vapourPressureCorrelation) return calcSaturationTemperature(vapourPressureCorrelation, pressure)
+      if (pressure !== ATMOSPHERIC_PRESSURE_KPA) return undefined
+      if (flashBoilingPointType === "BP" && flashBoilingPoint !== undefined) return flashBoilingPoint
+      return HEXANE_DEFAULTS.boilingPoint
+    },
+    latentHeat: input.latentHeat ?? HEXANE_DEFAULTS.latentHeat,
+    molecularMass: input.molecularMass ?? HEXANE_DEFAULTS.molecularMass,
+  }
+}
+
+function flashFraction(stream: Stream, feed: FeedLiquid): number {
+  if (stream.flashFraction !== undefined) return stream.flashFraction
+
+  const feedTemperature =
+    stream.temperature ?? (stream.pressure !== undefined ? feed.bubblePoint(stream.pressure) : undefined)
+  const bubblePoint = feed.bubblePoint(ATMOSPHERIC_PRESSURE_KPA)
+  if (feedTemperature === undefined || bubblePoint === undefined) return 0
+
+  const superheat = feedTemperature - bubblePoint
+  if (superheat <= 0) return 0
+  return Math.min((HEXANE_DEFAULTS.liquidHeatCapacity * superheat) / feed.latentHeat, 1)
+}
+
+/**
+ * Flash vapour from hot incoming feeds.
+ *
+ * A feed arriving above its own bubble point at tank pressure flashes on
+ * entry; the vapour leaves through the vents on top of the liquid
+ * displacement. A cooler feed is subcooled at tank pressure and does not flash.
+ *
+ * Flash fraction (mass vaporised), in order of precedence:
+ *   1. stream.flashFraction — e.g. from a process simulation
+ *   2. enthalpy balance from the feed temperature:
+ *        x = c_p × (T_feed − T_b) / L_feed,   0 when T_feed ≤ T_b, clamped to 1
+ *   T_feed is stream.temperature, else the feed's bubble point at its line
+ *   pressure (saturated liquid). Streams without either give no flash.
+ *
+ * Where:
+ *   T_b    = feed bubble point at P_tank (resolveFeedLiquid)           [°C]
+ *   L_feed = latent heat of the feed liquid                           [kJ/kg]
+ *   c_p    = liquid heat capacity (Hexane)                            [kJ/kg·K]
+ *   P_tank = atmospheric                                              [kPa(a)]
+ */
+export function calcFlashFraction(stream: Stream, input: CalculationInput): number {
+  return flashFraction(stream, resolveFeedLiquid(stream, input))
+}
+
+/**
+ * Flash vapour generated by one stream (Nm³/h).
+ *
+ *   V_flash = Q × ρ × x / M × V_m × 1000
+ *
+ * Q in m³/h, ρ in kg/m³, M in g/mol (stream, else feed liquid),
+ * V_m = 0.022414 Nm³/mol.
+ */
+export function calcFlashVapour(stream: Stream, input: CalculationInput): number {
+  const feed = resolveFeedLiquid(stream, input)
+  const fraction = flashFraction(stream, feed)
+  if (fraction === 0) return 0
+
+  const density = stream.density ?? HEXANE_DEFAULTS.liquidDensity
+  const molecularMass = stream.molecularMass ?? feed.molecularMass
+  const molesPerHour = (stream.flowrate * density * fraction * 1000) / molecularMass
+  return molesPerHour * NORMAL_MOLAR_VOLUME
+}
+
+/** Total flash vapour from the incoming streams of `input` (Nm³/h). */
+export function computeFlashOutbreathing(input: CalculationInput): number {
+  return input.incomingStreams.reduce((acc, s) => acc + calcFlashVapour(s, input), 0)
+}
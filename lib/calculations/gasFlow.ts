@@ -0,0 +1,133 @@
+import { BlowThroughResult, CalculationInput } from "@/types"
+import {
+  ATMOSPHERIC_PRESSURE_KPA,
+  GAS_CONSTANT,
+  GAS_SPECIFIC_HEAT_RATIO,
+  NITROGEN_MOLECULAR_MASS,
+  NORMAL_MOLAR_VOLUME,
+  ORIFICE_DISCHARGE_COEFF,
+  VALVE_N9_CV,
+  VALVE_XT,
+} from "@/lib/constants"
+
+/**
+ * Compressible gas flow through a restriction (valve or orifice).
+ *
+ * Pressures are absolute (kPa(a)), temperature upstream (°C), ideal gas (Z = 1).
+ * Flow is reported in Nm³/h (0 °C, 101.325 kPa) alongside the mass flow.
+ */
+
+export interface GasFlow {
+  massFlow: number // kg/h
+  flowrate: number // Nm³/h
+  choked: boolean
+}
+
+function fromNormalFlow(flowrate: number, molecularMass: number, choked: boolean): GasFlow {
+  // Nm³/h → mol/h → kg/h
+  return { flowrate, massFlow: (flowrate / NORMAL_MOLAR_VOLUME) * (molecularMass / 1000), choked }
+}
+
+/**
+ * Gas flow through a control valve (IEC 60534-2-1, Cv form).
+ *
+ *   x   = (P1 − P2) / P1,   F_k = k / 1.4
+ *   choked when x ≥ F_k × x_T  → x limited to F_k × x_T
+ *   Y   = 1 − x / (3 × F_k × x_T)
+ *   Q   = N9 × Cv × P1 × Y × √(x / (M × T1))     [Nm³/h]
+ *
+ * N9 = 21.2 (kPa, Nm³/h at 0 °C), x_T = 0.72 (globe valve), F_p = 1.
+ */
+export function calcValveGasFlow(
+  cv: number,
+  upstreamKPa: number,
+  downstreamKPa: number,
+  molecularMass: number,
+  temperatureC: number,
+  k: number = GAS_SPECIFIC_HEAT_RATIO,
+): GasFlow {
+  if (upstreamKPa <= downstreamKPa) return { massFlow: 0, flowrate: 0, choked: false }
+
+  const fk = k / 1.4
+  const xChoked = fk * VALVE_XT
+  const xActual = (upstreamKPa - downstreamKPa) / upstreamKPa
+  const choked = xActual >= xChoked
+  const x = Math.min(xActual, xChoked)
+  const y = 1 - x / (3 * xChoked)
+
+  const flowrate =
+    VALVE_N9_CV * cv * upstreamKPa * y * Math.sqrt(x / (molecularMass * (temperatureC + 273.15)))
+  return fromNormalFlow(flowrate, molecularMass, choked)
+}
+
+/**
+ * Gas flow through a sharp-edged restriction orifice (isentropic nozzle × C_d).
+ *
+ *   r_c = (2 / (k + 1))^(k / (k − 1)),   r = P2 / P1
+ *   choked (r ≤ r_c):  ṁ = C_d × A × P1 × √(k M / (R T) × (2 / (k + 1))^((k + 1)/(k − 1)))
+ *   subcritical:       ṁ = C_d × A × P1 × √(2 M / (R T) × k / (k − 1) × (r^(2/k) − r^((k + 1)/k)))
+ *
+ * C_d = 0.61; A from the bore in mm; ṁ in kg/s before conversion.
+ */
+export function calcOrificeGasFlow(
+  diameterMm: number,
+  upstreamKPa: number,
+  downstreamKPa: number,
+  molecularMass: number,
+  temperatureC: number,
+  k: number = GAS_SPECIFIC_HEAT_RATIO,
+): GasFlow {
+  if (upstreamKPa <= downstreamKPa) return { massFlow: 0, flowrate: 0, choked: false }
+
+  const area = (Math.PI / 4) * (diameterMm / 1000) ** 2 // m²
+  const p1 = upstreamKPa * 1000 // Pa
+  const mw = molecularMass / 1000 // kg/mol
+  const t = temperatureC + 273.15 // K
+
+  const criticalRatio = Math.pow(2 / (k + 1), k / (k - 1))
+  const r = downstreamKPa / upstreamKPa
+  const choked = r <= criticalRatio
+
+  const term = choked
+    ? ((k * mw) / (GAS_CONSTANT * t)) * Math.pow(2 / (k + 1), (k + 1) / (k - 1))
+    : ((2 * mw) / (GAS_CONSTANT * t)) * (k / (k - 1)) * (Math.pow(r, 2 / k) - Math.pow(r, (k + 1) / k))
+  const massFlow = ORIFICE_DISCHARGE_COEFF * area * p1 * Math.sqrt(term) // kg/s
+
+  return {
+    massFlow: massFlow * 3600,
+    flowrate: (massFlow / mw) * NORMAL_MOLAR_VOLUME * 3600,
+    choked,
+  }
+}
+
+/**
+ * Gas blow-through into the tank from an upstream pressurised vessel through a
+ * failed-open valve (Cv) or restriction orifice, discharging to atmospheric
+ * tank pressure. A valve Cv takes precedence when both are given. The gas
+ * molecular mass defaults to nitrogen.
+ *
+ * Returns undefined unless the upstream pressure, gas temperature and a
+ * restriction are all provided.
+ */
+export function computeBlowThrough(input: CalculationInput): BlowThroughResult | undefined {
+  const {
+    blowThroughPressure: upstream,
+    blowThroughCv: cv,
+    blowThroughOrifice: orifice,
+    blowThroughMolecularMass: molecularMass = NITROGEN_MOLECULAR_MASS,
+    blowThroughTemperature: temperature,
+  } = input
+  if (upstream === undefined || temperature === undefined) {
+    return undefined
+  }
+
+  if (cv !== undefined) {
+    const flow = calcValveGasFlow(cv, upstream, ATMOSPHERIC_PRESSURE_KPA, molecularMass, temperature)
+    return { restriction: "VALVE", ...flow }
+  }
+  if (orifice !== undefined) {
+    const flow = calcOrificeGasFlow(orifice, upstream, ATMOSPHERIC_PRESSURE_KPA, molecularMass, temperature)
+    return { restriction: "ORIFICE", ...flow }
+  }
+  return undefined
+}
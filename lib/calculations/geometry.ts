@@ -1,5 +1,22 @@
-import { CalculationInput, DerivedGeometry, TankConfiguration } from "@/types"
-import { CONE_ROOF_SLOPE, WETTED_AREA_HEIGHT_CAP_MM } from "@/lib/constants"
+import {
+  BottomProfile,
+  CalculationInput,
+  DerivedGeometry,
+  HeadType,
+  RoofType,
+  TankConfiguration,
+} from "@/types"
+import {
+  BOTTOM_SLOPE,
+  CONE_ROOF_SLOPE,
+  DOME_ROOF_RADIUS_FACTOR,
+  ELLIPSOIDAL_HEAD_DEPTH_RATIO,
+  HORIZONTAL_WETTED_AREA_MIN_FRACTION,
+  SPHERE_WETTED_AREA_MIN_FRACTION,
+  UMBRELLA_ROOF_SEGMENTS,
+  WETTED_AREA_HEIGHT_CAP_MM,
+} from "@/lib/constants"
+import { strappingTop, strappingVolumeAt } from "@/lib/lookups/strapping"
 
 // ─── Pure geometric helpers ───────────────────────────────────────────────────
 
@@ -24,37 +41,318 @@ export function calcShellSurfaceArea(diameterMm: number, heightMm: number): numb
 
 /**
  * Cone roof lateral surface area (m²).
- *   slope: h_roof = D / CONE_ROOF_SLOPE  (1:12 per API 2000 / Excel reference)
+ *   slope: h_roof = D / slope  (default 1:12 per API 2000 / Excel reference)
  *   slant = √(r² + h_roof²)
  *   A_cone = π × r × slant
  * Input in mm; result in m².
  */
-export function calcConeRoofArea(diameterMm: number): number {
+export function calcConeRoofArea(diameterMm: number, slope: number = CONE_ROOF_SLOPE): number {
   const rM = diameterMm / 2 / 1000               // radius in m
-  const hRoofM = diameterMm / CONE_ROOF_SLOPE / 1000   // cone height in m
+  const hRoofM = diameterMm / slope / 1000       // cone height in m
   const slant = Math.sqrt(rM * rM + hRoofM * hRoofM)
   return Math.PI * rM * slant
 }
 
 /**
- * Total exposed surface area (m²): shell + cone roof.
+ * Cone roof enclosed volume (m³).
+ *   V_cone = π × r² × h_roof / 3
  */
-export function calcTotalSurfaceArea(shellM2: number, coneRoofM2: number): number {
-  return shellM2 + coneRoofM2
+export function calcConeRoofVolume(diameterMm: number, slope: number = CONE_ROOF_SLOPE): number {
+  const rM = diameterMm / 2 / 1000
+  const hRoofM = diameterMm / slope / 1000
+  return (Math.PI * rM * rM * hRoofM) / 3
+}
+
+/**
+ * Dome roof rise (mm) — height of a spherical cap of radius R over chord D.
+ *   h_roof = R − √(R² − r²)
+ */
+export function calcDomeRoofHeight(diameterMm: number, roofRadiusMm: number): number {
+  const r = diameterMm / 2
+  return roofRadiusMm - Math.sqrt(roofRadiusMm * roofRadiusMm - r * r)
+}
+
+/**
+ * Dome roof surface area (m²) — spherical cap.
+ *   A_dome = 2π × R × h_roof
+ */
+export function calcDomeRoofArea(diameterMm: number, roofRadiusMm: number): number {
+  const RM = roofRadiusMm / 1000
+  const hRoofM = calcDomeRoofHeight(diameterMm, roofRadiusMm) / 1000
+  return 2 * Math.PI * RM * hRoofM
+}
+
+/**
+ * Dome roof enclosed volume (m³) — spherical cap.
+ *   V_dome = π × h_roof² × (3R − h_roof) / 3
+ */
+export function calcDomeRoofVolume(diameterMm: number, roofRadiusMm: number): number {
+  const RM = roofRadiusMm / 1000
+  const hRoofM = calcDomeRoofHeight(diameterMm, roofRadiusMm) / 1000
+  return (Math.PI * hRoofM * hRoofM * (3 * RM - hRoofM)) / 3
+}
+
+/**
+ * Umbrella roof surface area (m²) — a dome of N radially-bent plates: the
+ * ribs follow the arc of radius R, every horizontal section is a regular
+ * N-gon inscribed in the dome circle, and each plate is curved radially only
+ * (straight between ribs). Integrating chord × apothem arc length per plate:
+ *
+ *   A_umb = 2N × [F(s × R) − F(s × √(R² − r²))]
+ *   F(t)  = t/2 × √(R² − t²) + R²/2 × asin(t / R),   s = sin(π / N)
+ *
+ * Tends to the dome 2π × R × h_roof as N grows.
+ */
+export function calcUmbrellaRoofArea(diameterMm: number, roofRadiusMm: number, segments: number): number {
+  const rM = diameterMm / 2 / 1000
+  const RM = roofRadiusMm / 1000
+  const s = Math.sin(Math.PI / segments)
+  const f = (t: number) => (t / 2) * Math.sqrt(RM * RM - t * t) + ((RM * RM) / 2) * Math.asin(t / RM)
+  return 2 * segments * (f(s * RM) - f(s * Math.sqrt(RM * RM - rM * rM)))
+}
+
+/**
+ * Umbrella roof enclosed volume (m³) — the dome with each circular section
+ * replaced by its inscribed N-gon:
+ *   V_umb = V_dome × N × sin(2π / N) / 2π
+ */
+export function calcUmbrellaRoofVolume(diameterMm: number, roofRadiusMm: number, segments: number): number {
+  const polygonRatio = (segments * Math.sin((2 * Math.PI) / segments)) / (2 * Math.PI)
+  return calcDomeRoofVolume(diameterMm, roofRadiusMm) * polygonRatio
+}
+
+export interface RoofGeometry {
+  height: number // mm (rise above the shell top)
+  area: number // m²
+  volume: number // m³
+}
+
+/**
+ * Roof rise, surface area and enclosed volume for the selected roof type.
+ *
+ *   CONE     → h = D / slope; lateral cone area; cone volume
+ *   DOME     → spherical cap of radius R (default DOME_ROOF_RADIUS_FACTOR × D)
+ *   UMBRELLA → N radially-bent plates on ribs of radius R (default
+ *              UMBRELLA_ROOF_SEGMENTS); same rise as the dome, N-gon sections
+ *   FLAT     → h = 0; A = π r² (roof plate); V = 0
+ */
+export function calcRoofGeometry(
+  diameterMm: number,
+  roofType: RoofType = "CONE",
+  roofSlope: number = CONE_ROOF_SLOPE,
+  roofRadiusMm: number = DOME_ROOF_RADIUS_FACTOR * diameterMm,
+  roofSegments: number = UMBRELLA_ROOF_SEGMENTS,
+): RoofGeometry {
+  switch (roofType) {
+    case "UMBRELLA":
+      return {
+        height: calcDomeRoofHeight(diameterMm, roofRadiusMm),
+        area:   calcUmbrellaRoofArea(diameterMm, roofRadiusMm, roofSegments),
+        volume: calcUmbrellaRoofVolume(diameterMm, roofRadiusMm, roofSegments),
+      }
+    case "DOME":
+      return {
+        height: calcDomeRoofHeight(diameterMm, roofRadiusMm),
+        area:   calcDomeRoofArea(diameterMm, roofRadiusMm),
+        volume: calcDomeRoofVolume(diameterMm, roofRadiusMm),
+      }
+    case "FLAT": {
+      const rM = diameterMm / 2 / 1000
+      return { height: 0, area: Math.PI * rM * rM, volume: 0 }
+    }
+    case "CONE":
+      return {
+        height: diameterMm / roofSlope,
+        area:   calcConeRoofArea(diameterMm, roofSlope),
+        volume: calcConeRoofVolume(diameterMm, roofSlope),
+      }
+  }
+}
+
+export interface BottomGeometry {
+  depth: number // mm (low point below the shell bottom; CONE_UP: rise above it)
+  area: number // m² (bottom plate, plus the wedge wall for SLOPED)
+  volume: number // m³ (signed — added to the shell volume)
+}
+
+/**
+ * Bottom depth, plate area and volume for the selected bottom profile.
+ *
+ *   FLAT      → h = 0; A = π r²; V = 0
+ *   CONE_DOWN → h = r / n; A = π r √(r² + h²); V = +π r² h / 3
+ *   CONE_UP   → h = r / n; A = π r √(r² + h²); V = −π r² h / 3 (cone displaces liquid)
+ *   SLOPED    → h = D / n; A = π r² √(1 + 1/n²) + π r h (tilted plate + wedge wall);
+ *               V = +π r² h / 2 (wedge below the high side of the shell bottom)
+ */
+export function calcBottomGeometry(
+  diameterMm: number,
+  profile: BottomProfile = "FLAT",
+  bottomSlope: number = BOTTOM_SLOPE,
+): BottomGeometry {
+  const rM = diameterMm / 2 / 1000
+  switch (profile) {
+    case "FLAT":
+      return { depth: 0, area: Math.PI * rM * rM, volume: 0 }
+    case "CONE_DOWN":
+    case "CONE_UP": {
+      const hM = rM / bottomSlope
+      const volume = (Math.PI * rM * rM * hM) / 3
+      return {
+        depth:  hM * 1000,
+        area:   Math.PI * rM * Math.sqrt(rM * rM + hM * hM),
+        volume: profile === "CONE_DOWN" ? volume : -volume,
+      }
+    }
+    case "SLOPED": {
+      const hM = (2 * rM) / bottomSlope
+      return {
+        depth:  hM * 1000,
+        area:   Math.PI * rM * rM * Math.sqrt(1 + 1 / (bottomSlope * bottomSlope)) + Math.PI * rM * hM,
+        volume: (Math.PI * rM * rM * hM) / 2,
+      }
+    }
+  }
+}
+
+/**
+ * Drain head gained below the shell bottom (mm): the sump depth of a CONE_DOWN
+ * or SLOPED bottom. Zero for FLAT, CONE_UP (drains at the shell) and non-vertical shapes.
+ */
+export function calcBottomDrainDepth(input: CalculationInput): number {
+  if ((input.tankShape ?? "VERTICAL_CYLINDER") !== "VERTICAL_CYLINDER") return 0
+  const profile = input.bottomProfile ?? "FLAT"
+  if (profile !== "CONE_DOWN" && profile !== "SLOPED") return 0
+  return calcBottomGeometry(input.diameter, profile, input.bottomSlope).depth
+}
+
+/**
+ * Total exposed surface area (m²): shell + roof.
+ */
+export function calcTotalSurfaceArea(shellM2: number, roofM2: number): number {
+  return shellM2 + roofM2
+}
+
+/**
+ * Height of the fire-wetted zone above the tank bottom (mm).
+ *
+ *   h_w = min(LL_max, 9,144 − elevation), clamped to [0, full height]
+ *
+ * API 2000 measures the 9,144 mm (30 ft) fire height from grade, so a tank
+ * raised on a skirt, legs or berm loses the elevated portion. For the shell of a
+ * vertical tank only liquid-wetted surface counts, so the zone also stops at the
+ * maximum liquid level; horizontal tanks and spheres omit it — their minimum
+ * wetted fractions of the total surface always apply.
+ */
+export function calcWettedHeight(
+  fullHeightMm: number,
+  elevationMm: number = 0,
+  maxLiquidLevelMm: number = fullHeightMm,
+): number {
+  const fireReach = WETTED_AREA_HEIGHT_CAP_MM - elevationMm
+  return Math.max(0, Math.min(fullHeightMm, maxLiquidLevelMm, fireReach))
 }
 
 /**
  * Wetted surface area for fire exposure calculation (m²).
- *   A_wetted = min(A_shell, π × D × H_cap)
+ *   A_wetted = π × D × h_w
+ *
+ * h_w from calcWettedHeight — for a grade-mounted, liquid-full tank shorter than
+ * 9,144 mm the full shell is exposed; for taller tanks only the bottom 30 ft
+ * contributes (API 2000 §6.3).
+ */
+export function calcWettedArea(
+  diameterMm: number,
+  heightMm: number,
+  elevationMm: number = 0,
+  maxLiquidLevelMm: number = heightMm,
+): number {
+  return (Math.PI * diameterMm * calcWettedHeight(heightMm, elevationMm, maxLiquidLevelMm)) / 1e6
+}
+
+// ─── Horizontal cylinder helpers ──────────────────────────────────────────────
+
+/** Head depth (mm) measured along the tank axis. */
+export function calcHeadDepth(diameterMm: number, headType: HeadType): number {
+  switch (headType) {
+    case "FLAT":            return 0
+    case "ELLIPSOIDAL_2_1": return diameterMm * ELLIPSOIDAL_HEAD_DEPTH_RATIO
+    case "HEMISPHERICAL":   return diameterMm / 2
+  }
+}
+
+/**
+ * Surface area of ONE head (m²).
+ *   FLAT            → π r²
+ *   ELLIPSOIDAL_2_1 → half an oblate spheroid (a = r, c = r/2):
+ *                     π a² + π c² / (2e) × ln((1 + e) / (1 − e)),  e = √(1 − c²/a²)
+ *                     ≈ 1.084 × D²
+ *   HEMISPHERICAL   → 2π r²
+ */
+export function calcHeadArea(diameterMm: number, headType: HeadType): number {
+  const rM = diameterMm / 2 / 1000
+  switch (headType) {
+    case "FLAT":
+      return Math.PI * rM * rM
+    case "ELLIPSOIDAL_2_1": {
+      const cM = rM * 2 * ELLIPSOIDAL_HEAD_DEPTH_RATIO
+      const e = Math.sqrt(1 - (cM * cM) / (rM * rM))
+      return Math.PI * rM * rM + ((Math.PI * cM * cM) / (2 * e)) * Math.log((1 + e) / (1 - e))
+    }
+    case "HEMISPHERICAL":
+      return 2 * Math.PI * rM * rM
+  }
+}
+
+/**
+ * Volume enclosed by ONE head (m³).
+ *   FLAT            → 0
+ *   ELLIPSOIDAL_2_1 → ⅔ π r² × h_head = π D³ / 24
+ *   HEMISPHERICAL   → ⅔ π r³
+ */
+export function calcHeadVolume(diameterMm: number, headType: HeadType): number {
+  const rM = diameterMm / 2 / 1000
+  const depthM = calcHeadDepth(diameterMm, headType) / 1000
+  return (2 / 3) * Math.PI * rM * rM * depthM
+}
+
+/**
+ * Wetted surface area of a horizontal cylinder (m²) below a horizontal plane
+ * at `wettedHeightMm` above the tank bottom.
  *
- * The cap height is 9,144 mm (30 ft) per API 2000 §6.3.
- * Shell surface area is used as the reference — for tanks shorter than 9,144 mm the
- * full shell is exposed; for taller tanks only the bottom 30 ft contributes.
+ *   Shell: A = r × θ × L,  θ = 2 × acos((r − h) / r)  (wetted arc angle)
+ *   Heads (both):
+ *     FLAT            → 2 × circular segment: r² acos((r−h)/r) − (r−h) √(2rh − h²)
+ *     HEMISPHERICAL   → sphere zone: 2π r h  (exact)
+ *     ELLIPSOIDAL_2_1 → head area × h / D   (the hemisphere's exact fraction,
+ *                       applied to the shallower head)
  */
-export function calcWettedArea(diameterMm: number, heightMm: number): number {
-  const fullShell = (Math.PI * diameterMm * heightMm) / 1e6
-  const cappedShell = (Math.PI * diameterMm * WETTED_AREA_HEIGHT_CAP_MM) / 1e6
-  return Math.min(fullShell, cappedShell)
+export function calcHorizontalWettedArea(
+  diameterMm: number,
+  lengthMm: number,
+  headType: HeadType,
+  wettedHeightMm: number,
+): number {
+  const rM = diameterMm / 2 / 1000
+  const LM = lengthMm / 1000
+  const hM = Math.min(Math.max(wettedHeightMm, 0), diameterMm) / 1000
+  const theta = 2 * Math.acos((rM - hM) / rM)
+
+  const shell = rM * theta * LM
+
+  let heads: number
+  switch (headType) {
+    case "FLAT":
+      heads = 2 * (rM * rM * Math.acos((rM - hM) / rM) - (rM - hM) * Math.sqrt(2 * rM * hM - hM * hM))
+      break
+    case "HEMISPHERICAL":
+      heads = 2 * Math.PI * rM * hM
+      break
+    case "ELLIPSOIDAL_2_1":
+      heads = 2 * calcHeadArea(diameterMm, headType) * (hM / (2 * rM))
+      break
+  }
+
+  return shell + heads
 }
 
 // ─── Reduction factors ────────────────────────────────────────────────────────
@@ -85,7 +383,7 @@ export function calcR_in(
  *
  * where:
  *   A_inp = insulated surface area  (m²)
- *   A_TTS = total tank surface area (m²)   (shell + cone roof)
+ *   A_TTS = total tank surface area (m²)   (shell + roof)
  *   R_in  = fully-insulated reduction factor (from calcR_in)
  *
  * The uninsulated fraction contributes a factor of 1 (bare metal).
@@ -99,24 +397,275 @@ export function calcR_inp(
   return ratio * r_in + (1 - ratio) * 1
 }
 
+/**
+ * Liquid volume of a horizontal cylinder filled to `levelMm` above the bottom (m³).
+ *
+ *   Shell: A_seg × L,  A_seg = r² acos((r−h)/r) − (r−h) √(2rh − h²)
+ *   Heads (both): (h_head / r) × π h² (3r − h) / 3
+ *     — the sphere cap for HEMISPHERICAL, scaled by depth for ELLIPSOIDAL_2_1,
+ *       zero for FLAT
+ */
+export function calcHorizontalLiquidVolume(
+  diameterMm: number,
+  lengthMm: number,
+  headType: HeadType,
+  levelMm: number,
+): number {
+  const rM = diameterMm / 2 / 1000
+  const LM = lengthMm / 1000
+  const hM = Math.min(Math.max(levelMm, 0), diameterMm) / 1000
+  const depthM = calcHeadDepth(diameterMm, headType) / 1000
+
+  const segment = rM * rM * Math.acos((rM - hM) / rM) - (rM - hM) * Math.sqrt(2 * rM * hM - hM * hM)
+  const heads = (depthM / rM) * Math.PI * hM * hM * (3 * rM - hM) / 3
+
+  return segment * LM + heads
+}
+
+// ─── Sphere / spheroid ────────────────────────────────────────────────────────
+
+/**
+ * Surface area of a spheroid zone between z1 and z2 (m²), z measured from the
+ * centre along the polar axis (semi-axes a equatorial, c polar, all in m).
+ *
+ *   dA = 2π a √(1 + e z²) dz,  e = (a² − c²) / c⁴
+ *   e > 0 (oblate):  ∫ = z/2 √(1 + e z²) + asinh(√e z) / (2√e)
+ *   e < 0 (prolate): ∫ = z/2 √(1 − k² z²) + asin(k z) / (2k),  k = √(−e)
+ *   e = 0 (sphere):  ∫ = z   → the sphere zone 2π a h
+ */
+function spheroidZoneArea(aM: number, cM: number, z1: number, z2: number): number {
+  const e = (aM * aM - cM * cM) / Math.pow(cM, 4)
+  const F = (z: number): number => {
+    if (e > 0) {
+      const s = Math.sqrt(e)
+      return (z / 2) * Math.sqrt(1 + e * z * z) + Math.asinh(s * z) / (2 * s)
+    }
+    if (e < 0) {
+      const k = Math.sqrt(-e)
+      return (z / 2) * Math.sqrt(1 - k * k * z * z) + Math.asin(Math.min(k * z, 1)) / (2 * k)
+    }
+    return z
+  }
+  return 2 * Math.PI * aM * (F(z2) - F(z1))
+}
+
+/**
+ * Spheroid volume (m³).
+ *   V = 4/3 π a² c   (a = D/2 equatorial, c = H/2 polar; sphere when H = D)
+ */
+export function calcSpheroidVolume(diameterMm: number, heightMm: number): number {
+  const aM = diameterMm / 2 / 1000
+  const cM = heightMm / 2 / 1000
+  return (4 / 3) * Math.PI * aM * aM * cM
+}
+
+/**
+ * Spheroid surface area (m²) — the full zone from pole to pole.
+ */
+export function calcSpheroidSurfaceArea(diameterMm: number, heightMm: number): number {
+  const cM = heightMm / 2 / 1000
+  return spheroidZoneArea(diameterMm / 2 / 1000, cM, -cM, cM)
+}
+
+/**
+ * Spheroid surface area below `levelMm` above the bottom pole (m²).
+ */
+export function calcSpheroidWettedArea(diameterMm: number, heightMm: number, levelMm: number): number {
+  const cM = heightMm / 2 / 1000
+  const hM = Math.min(Math.max(levelMm, 0), heightMm) / 1000
+  return spheroidZoneArea(diameterMm / 2 / 1000, cM, -cM, -cM + hM)
+}
+
+/**
+ * Spheroid liquid volume up to `levelMm` above the bottom pole (m³).
+ *   V = (a² / c²) × π h² (3c − h) / 3   (spherical cap scaled to the spheroid)
+ */
+export function calcSpheroidLiquidVolume(diameterMm: number, heightMm: number, levelMm: number): number {
+  const aM = diameterMm / 2 / 1000
+  const cM = heightMm / 2 / 1000
+  const hM = Math.min(Math.max(levelMm, 0), heightMm) / 1000
+  return ((aM * aM) / (cM * cM)) * Math.PI * hM * hM * (3 * cM - hM) / 3
+}
+
+/**
+ * Liquid-full height above the tank bottom (mm): D for horizontal cylinders
+ * and spheres, `height` otherwise.
+ */
+export function calcFullHeight(input: CalculationInput): number {
+  const shape = input.tankShape ?? "VERTICAL_CYLINDER"
+  return shape === "HORIZONTAL_CYLINDER" || shape === "SPHERE" ? input.diameter : input.height
+}
+
+/**
+ * Liquid volume held up to `levelMm` above the tank bottom (m³), for the
+ * shape selected in `input`. Vertical tanks count the shell to `levelMm`
+ * (measured from the shell bottom) plus the bottom profile volume; a
+ * CONE_UP bottom displaces only the part of its cone below the level.
+ * A strapping table, when given, replaces the geometry.
+ */
+export function calcVolumeToLevel(input: CalculationInput, levelMm: number): number {
+  const { diameter, height } = input
+  if (input.strappingTable) return strappingVolumeAt(input.strappingTable, levelMm)
+  switch (input.tankShape) {
+    case "HORIZONTAL_CYLINDER":
+      return calcHorizontalLiquidVolume(diameter, height, input.headType ?? "ELLIPSOIDAL_2_1", levelMm)
+    case "SPHERE":
+    case "SPHEROID":
+      return calcSpheroidLiquidVolume(diameter, calcFullHeight(input), levelMm)
+  }
+  const level = Math.min(Math.max(levelMm, 0), height)
+  const bottom = calcBottomGeometry(diameter, input.bottomProfile, input.bottomSlope)
+  if (bottom.volume >= 0) return calcMaxTankVolume(diameter, level) + bottom.volume
+
+  // CONE_UP: only the cone below the level displaces liquid — the cone minus
+  // the similar cone of height h − level above it: V × (1 − (1 − level / h)³)
+  const submerged = 1 - Math.pow(Math.max(1 - level / bottom.depth, 0), 3)
+  return Math.max(calcMaxTankVolume(diameter, level) + bottom.volume * submerged, 0)
+}
+
 // ─── Orchestrator ─────────────────────────────────────────────────────────────
 
+type ShapeGeometry = Omit<DerivedGeometry, "reductionFactor">
+
+/**
+ * Vertical cylinder: shell + roof + bottom; wetted shell per calcWettedHeight.
+ * A flat bottom rests on its foundation and stays out of A_TTS; shaped bottoms
+ * add their plate area.
+ */
+function verticalCylinderGeometry(input: CalculationInput): ShapeGeometry {
+  const {
+    diameter,
+    height,
+    roofType,
+    roofSlope,
+    roofRadius,
+    roofSegments,
+    bottomProfile = "FLAT",
+    bottomSlope,
+    elevation,
+    maxLiquidLevel,
+  } = input
+
+  const roof             = calcRoofGeometry(diameter, roofType, roofSlope, roofRadius, roofSegments)
+  const bottom           = calcBottomGeometry(diameter, bottomProfile, bottomSlope)
+  const shellSurfaceArea = calcShellSurfaceArea(diameter, height)
+  const exposedBottom    = bottomProfile === "FLAT" ? 0 : bottom.area
+
+  return {
+    maxTankVolume:    calcMaxTankVolume(diameter, height) + bottom.volume,
+    shellSurfaceArea,
+    roofArea:         roof.area,
+    roofVolume:       roof.volume,
+    headArea:         0,
+    headVolume:       0,
+    bottomArea:       bottom.area,
+    bottomVolume:     bottom.volume,
+    totalSurfaceArea: calcTotalSurfaceArea(shellSurfaceArea, roof.area) + exposedBottom,
+    wettedHeight:     calcWettedHeight(height, elevation, maxLiquidLevel),
+    wettedArea:       calcWettedArea(diameter, height, elevation, maxLiquidLevel),
+  }
+}
+
+/**
+ * Horizontal cylinder: shell of length `height` + two heads.
+ * The wetted zone extends from the bottom to calcWettedHeight with D as full height;
+ * API 2000 takes the greater of that zone and 75 % of the total surface area.
+ */
+function horizontalCylinderGeometry(input: CalculationInput): ShapeGeometry {
+  const { diameter, height: length, headType = "ELLIPSOIDAL_2_1", elevation } = input
+
+  const shellSurfaceArea = calcShellSurfaceArea(diameter, length)
+  const headArea         = 2 * calcHeadArea(diameter, headType)
+  const headVolume       = 2 * calcHeadVolume(diameter, headType)
+  const wettedHeight     = calcWettedHeight(diameter, elevation)
+  const totalSurfaceArea = shellSurfaceArea + headArea
+  const wettedZoneArea   = calcHorizontalWettedArea(diameter, length, headType, wettedHeight)
+
+  return {
+    maxTankVolume:    calcMaxTankVolume(diameter, length) + headVolume,
+    shellSurfaceArea,
+    roofArea:         0,
+    roofVolume:       0,
+    headArea,
+    headVolume,
+    bottomArea:       0,
+    bottomVolume:     0,
+    totalSurfaceArea,
+    wettedHeight,
+    wettedArea:       Math.max(HORIZONTAL_WETTED_AREA_MIN_FRACTION * totalSurfaceArea, wettedZoneArea),
+  }
+}
+
+/**
+ * Sphere / spheroid: the whole body is one surface (no roof, heads or bottom).
+ * `elevation` is the support height; the wetted zone runs from the bottom pole
+ * to calcWettedHeight with the polar height as full height; API 2000 takes the
+ * greater of that zone and 55 % of the total surface area.
+ */
+function spheroidGeometry(input: CalculationInput): ShapeGeometry {
+  const { diameter, elevation } = input
+  const polarHeight  = calcFullHeight(input)
+  const surfaceArea  = calcSpheroidSurfaceArea(diameter, polarHeight)
+  const wettedHeight = calcWettedHeight(polarHeight, elevation)
+  const wettedZone   = calcSpheroidWettedArea(diameter, polarHeight, wettedHeight)
+
+  return {
+    maxTankVolume:    calcSpheroidVolume(diameter, polarHeight),
+    shellSurfaceArea: surfaceArea,
+    roofArea:         0,
+    roofVolume:       0,
+    headArea:         0,
+    headVolume:       0,
+    bottomArea:       0,
+    bottomVolume:     0,
+    totalSurfaceArea: surfaceArea,
+    wettedHeight,
+    wettedArea:       Math.max(SPHERE_WETTED_AREA_MIN_FRACTION * surfaceArea, wettedZone),
+  }
+}
+
 /**
  * Compute all derived geometry values from the raw calculation input.
  *
+ * Shape selection (`tankShape`, default VERTICAL_CYLINDER):
+ *   VERTICAL_CYLINDER   → roof area and volume follow `roofType` (default: 1:12 cone);
+ *                         bottom follows `bottomProfile` (default: flat)
+ *   HORIZONTAL_CYLINDER → `height` is the shell length; heads follow `headType`
+ *   SPHERE / SPHEROID   → `height` is the polar axis (ignored for SPHERE)
+ *
+ * A strapping table, when given, sets maxTankVolume to its top volume and —
+ * absent an explicit maxLiquidLevel — caps the liquid level at its top level.
+ *
+ * The total surface area A_TTS feeds R_inp.
+ *
  * Reduction factor selection:
  *   INSULATED_FULL    → R_in  (requires U_i, t, k)
  *   INSULATED_PARTIAL → R_inp (requires U_i, t, k, A_inp)
  *   All others        → 1.0   (no insulation reduction)
  */
 export function computeDerivedGeometry(input: CalculationInput): DerivedGeometry {
-  const { diameter, height, tankConfiguration } = input
+  const { tankConfiguration, strappingTable } = input
+
+  const top = strappingTable ? strappingTop(strappingTable) : undefined
+  const shapeInput =
+    top && input.maxLiquidLevel === undefined
+      ? { ...input, maxLiquidLevel: Math.min(top.level, calcFullHeight(input)) }
+      : input
 
-  const shellSurfaceArea  = calcShellSurfaceArea(diameter, height)
-  const coneRoofArea      = calcConeRoofArea(diameter)
-  const totalSurfaceArea  = calcTotalSurfaceArea(shellSurfaceArea, coneRoofArea)
-  const maxTankVolume     = calcMaxTankVolume(diameter, height)
-  const wettedArea        = calcWettedArea(diameter, height)
+  let shape: ShapeGeometry
+  switch (input.tankShape) {
+    case "HORIZONTAL_CYLINDER":
+      shape = horizontalCylinderGeometry(shapeInput)
+      break
+    case "SPHERE":
+    case "SPHEROID":
+      shape = spheroidGeometry(shapeInput)
+      break
+    default:
+      shape = verticalCylinderGeometry(shapeInput)
+  }
+  if (top) shape = { ...shape, maxTankVolume: top.volume }
+  const { totalSurfaceArea } = shape
 
   let reductionFactor = 1.0
 
@@ -157,11 +706,7 @@ export function computeDerivedGeometry(input: CalculationInput): DerivedGeometry
   }
 
   return {
-    maxTankVolume,
-    shellSurfaceArea,
-    coneRoofArea,
-    totalSurfaceArea,
-    wettedArea,
+    ...shape,
     reductionFactor,
   }
 }
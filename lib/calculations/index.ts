@@ -1,57 +1,162 @@
-import { CalculationInput, CalculationResult } from "@/types"
+import { CalculationInput, CalculationResult, VentingCause } from "@/types"
 import { CAPACITY_WARNING_M3 } from "@/lib/constants"
-import { computeDerivedGeometry } from "./geometry"
-import { computeNormalVenting } from "./normalVenting"
+import { getClauseReferences } from "@/lib/lookups/clauses"
+import { calcBottomDrainDepth, computeDerivedGeometry } from "./geometry"
+import { computeNormalVenting, governingCompartment } from "./normalVenting"
 import { computeEmergencyVenting } from "./emergencyVenting"
 import { computeDrainInbreathing } from "./drain"
+import { computeBlowThrough } from "./gasFlow"
+import { computeSteamOut } from "./steamOut"
+import { computeBlanketing } from "./blanketing"
+import { computeScenarios, governingScenario } from "./scenarios"
+import { computeVapourFlows } from "./vapourFlow"
+import { isNearVapourPressureThreshold, resolveVapourPressure } from "./vapourPressure"
+import { calcMixtureProperties } from "./mixture"
+import { calcRelievingConditions } from "./relievingConditions"
 
 /**
  * Full tank venting calculation orchestrator.
  *
  * Steps:
- *   1. Derive geometry (volume, surface areas, reduction factor)
- *   2. Normal venting (outbreathing + inbreathing per selected API edition)
- *   3. Emergency venting (fire exposure heat input → vent rate)
- *   4. Drain inbreathing (optional, only when drain data is provided)
- *   5. Summary (design governing values + warnings)
+ *   1. Vapour pressure (typed, or a correlation evaluated at the storage
+ *      temperature — replaces the typed value for every later step); mixture
+ *      L, T_r and M, or T_r and L derived at the relieving pressure (replace
+ *      the typed values likewise)
+ *   2. Derive geometry (volume, surface areas, reduction factor)
+ *   3. Normal venting (outbreathing + inbreathing per selected API edition)
+ *   4. Emergency venting (fire exposure heat input → vent rate)
+ *   5. Drain inbreathing (optional, only when drain data is provided; the head
+ *      includes the sump depth of a cone-down or sloped bottom)
+ *   6. Gas blow-through (optional, only when blow-through data is provided)
+ *   7. Steam-out inbreathing (optional, only when steam-out data is provided)
+ *   8. Inert gas blanketing (optional, only for blanketed tanks)
+ *   9. Scenario matrix (optional, only when scenarios are defined)
+ *  10. Summary (design governing values, governing compartment / scenario + warnings)
+ *  11. Actual vapour flows behind the air-equivalent design values
  */
-export function calculate(input: CalculationInput): CalculationResult {
-  // ── 1. Derived geometry ──────────────────────────────────────────────────────
+export function calculate(userInput: CalculationInput): CalculationResult {
+  // ── 1. Vapour pressure + fluid properties ───────────────────────────────────
+  const vapourPressure = resolveVapourPressure(userInput)
+  const mixture = calcMixtureProperties(userInput)
+  const relievingConditions = calcRelievingConditions(userInput)
+  const input = {
+    ...userInput,
+    vapourPressure: vapourPressure.value,
+    ...(relievingConditions && {
+      relievingTemperature: relievingConditions.relievingTemperature,
+      latentHeat:           relievingConditions.latentHeat ?? userInput.latentHeat,
+    }),
+    ...(mixture && {
+      latentHeat:           mixture.latentHeat,
+      relievingTemperature: mixture.bubbleTemperature,
+      molecularMass:        mixture.molecularMass,
+    }),
+  }
+
+  // ── 2. Derived geometry ──────────────────────────────────────────────────────
   const derived = computeDerivedGeometry(input)
 
-  // ── 2. Normal venting ────────────────────────────────────────────────────────
+  // ── 3. Normal venting ────────────────────────────────────────────────────────
   const normalVenting = computeNormalVenting(input, derived)
 
-  // ── 3. Emergency venting ─────────────────────────────────────────────────────
-  const emergencyVenting = computeEmergencyVenting(input, derived)
+  // ── 4. Emergency venting ─────────────────────────────────────────────────────
+  const emergencyVenting = computeEmergencyVenting(input, derived, mixture, relievingConditions)
 
-  // ── 4. Drain inbreathing (optional) ─────────────────────────────────────────
+  // ── 5. Drain inbreathing (optional) ─────────────────────────────────────────
   let drainInbreathing: number | undefined
   if (input.drainLineSize !== undefined && input.maxHeightAboveDrain !== undefined) {
-    drainInbreathing = computeDrainInbreathing(input.drainLineSize, input.maxHeightAboveDrain)
+    drainInbreathing = computeDrainInbreathing(
+      input.drainLineSize,
+      input.maxHeightAboveDrain + calcBottomDrainDepth(input),
+    )
   }
 
-  // ── 5. Summary ───────────────────────────────────────────────────────────────
-  // Design inbreathing governs the inbreathing device: normal inbreathing or drain (whichever larger)
-  const designInbreathing = Math.max(
-    normalVenting.inbreathing.total,
-    drainInbreathing ?? 0,
-  )
+  // ── 6. Gas blow-through (optional) ──────────────────────────────────────────
+  const blowThrough = computeBlowThrough(input)
+
+  // ── 7. Steam-out inbreathing (optional) ─────────────────────────────────────
+  const steamOut = computeSteamOut(input, derived)
+
+  // ── 8. Inert gas blanketing (optional) ──────────────────────────────────────
+  const blanketing = computeBlanketing(input, normalVenting)
+
+  // ── 9. Scenario matrix (optional) ───────────────────────────────────────────
+  const scenarios = input.scenarios?.length
+    ? computeScenarios(input.scenarios, input.apiEdition, {
+        normalVenting,
+        blowThrough,
+        drainInbreathing,
+        steamOut,
+        blanketing,
+      })
+    : undefined
+
+  // ── 10. Summary ──────────────────────────────────────────────────────────────
+  // Design inbreathing governs the inbreathing device: normal inbreathing, the
+  // roof-landed case (floating roofs), drain or steam-out — whichever is largest.
+  // Steam-out condenses while the weather cools the shell, so it adds to thermal
+  // inbreathing; the tank is out of service, so there is no pump-out. Gas
+  // blow-through and a failed-open blanketing regulator add to design
+  // outbreathing as concurrent with normal breathing — one failure at a time,
+  // so the larger of the two. With a scenario matrix the governing scenario
+  // sets both instead
+  const { roofLanded } = normalVenting
+  const designOutbreathing = scenarios
+    ? Math.max(...scenarios.map((s) => s.outbreathing))
+    : Math.max(normalVenting.outbreathing.total, roofLanded?.outbreathing.total ?? 0) +
+      Math.max(blowThrough?.flowrate ?? 0, blanketing?.failure?.outbreathing ?? 0)
+  const designInbreathing = scenarios
+    ? Math.max(...scenarios.map((s) => s.inbreathing))
+    : Math.max(
+        normalVenting.inbreathing.total,
+        roofLanded?.inbreathing.total ?? 0,
+        drainInbreathing ?? 0,
+        steamOut ? steamOut.inbreathing + (roofLanded ?? normalVenting).inbreathing.thermalInbreathing : 0,
+      )
 
   const summary = {
-    designOutbreathing: normalVenting.outbreathing.total,
+    designOutbreathing,
     designInbreathing,
     emergencyVenting:   emergencyVenting.emergencyVentRequired,
+    ...(normalVenting.compartments && {
+      governingCompartment: governingCompartment(normalVenting.compartments),
+    }),
+    ...(scenarios && { governingScenario: governingScenario(scenarios) }),
   }
 
+  // ── 11. Actual vapour flows ─────────────────────────────────────────────────
+  // Blow-through / regulator gas inside design outbreathing keeps its own M:
+  // the one added to normal breathing, or those of the governing scenario.
+  // Steam from a ruptured coil does too; hot oil only raises tank vapour
+  const coilSteam = normalVenting.coilRupture?.fluid === "STEAM" ? normalVenting.coilRupture : undefined
+  const blanketFailure = blanketing?.failure && {
+    flowrate: blanketing.failure.outbreathing,
+    massFlow: blanketing.failure.massFlow,
+  }
+  const governingOut = scenarios?.reduce((best, s) => (s.outbreathing > best.outbreathing ? s : best))
+  const runs = (cause: VentingCause) => governingOut?.contributions.some((c) => c.cause === cause)
+  const gasInflows = governingOut
+    ? [
+        runs("CONTROL_VALVE_FAILURE") ? blowThrough : undefined,
+        runs("BLANKET_FAILURE") ? blanketFailure : undefined,
+        runs("COIL_RUPTURE") ? coilSteam : undefined,
+      ]
+    : [(blowThrough?.flowrate ?? 0) >= (blanketFailure?.flowrate ?? 0) ? blowThrough : blanketFailure, coilSteam]
+  const gasInflow = gasInflows.reduce<{ flowrate: number; massFlow: number }>(
+    (acc, g) => ({ flowrate: acc.flowrate + (g?.flowrate ?? 0), massFlow: acc.massFlow + (g?.massFlow ?? 0) }),
+    { flowrate: 0, massFlow: 0 },
+  )
+  const vapourFlows = computeVapourFlows(input, summary, gasInflow)
+
   // ── Warnings ─────────────────────────────────────────────────────────────────
   const warnings = {
-    capacityExceedsTable: derived.maxTankVolume > CAPACITY_WARNING_M3,
+    capacityExceedsTable: normalVenting.capacity.value > CAPACITY_WARNING_M3,
     undergroundTank:      emergencyVenting.environmentalFactor === 0,
     hexaneDefaults:
       input.latentHeat           === undefined ||
       input.relievingTemperature === undefined ||
       input.molecularMass        === undefined,
+    vapourPressureNearThreshold: isNearVapourPressureThreshold(input, vapourPressure),
   }
 
   return {
@@ -59,9 +164,16 @@ export function calculate(input: CalculationInput): CalculationResult {
     normalVenting,
     emergencyVenting,
     drainInbreathing,
+    blowThrough,
+    steamOut,
+    blanketing,
+    scenarios,
     summary,
+    vapourFlows,
+    vapourPressure,
     warnings,
     apiEdition:    input.apiEdition,
+    clauses:       getClauseReferences(input.apiEdition),
     calculatedAt:  new Date().toISOString(),
   }
 }
@@ -0,0 +1,133 @@
+import {
+  CalculationInput,
+  CompositionBasis,
+  FluidLibraryEntry,
+  MixtureComponent,
+  MixtureComponentResult,
+  MixtureResult,
+  VapourPressureCorrelation,
+} from "@/types"
+import { ATMOSPHERIC_PRESSURE_KPA } from "@/lib/constants"
+import { getFluid } from "@/lib/lookups/fluids"
+import { calcSaturationTemperature, calcVapourPressure, solveSaturationTemperature } from "./vapourPressure"
+import { calcRelievingPressure } from "./emergencyVenting"
+import { calcWatsonLatentHeat } from "./relievingConditions"
+
+/** Library fluid with every property a mixture component needs. */
+export type MixtureFluid = FluidLibraryEntry & {
+  vapourPressure: VapourPressureCorrelation
+  latentHeat: number
+  molecularMass: number
+}
+
+/** Whether `fluid` gives a vapour pressure correlation, latent heat and M. */
+export function isMixtureFluid(fluid: FluidLibraryEntry | undefined): fluid is MixtureFluid {
+  return (
+    fluid?.vapourPressure !== undefined &&
+    fluid.latentHeat !== undefined &&
+    fluid.molecularMass !== undefined
+  )
+}
+
+/** A composition resolved against the fluid library. */
+export interface Composition {
+  fluids: MixtureFluid[]
+  moleFractions: number[] // x_i
+  massFractions: number[] // w_i
+  molecularMass: number // g/mol — Σ x_i × M_i
+}
+
+/**
+ * Mole and mass fractions of fluid library components:
+ *
+ *   x_i   = f_i / Σ f                         [mole basis]
+ *         = (f_i / M_i) / Σ (f / M)           [mass basis]
+ *   M_mix = Σ x_i × M_i                       [g/mol]
+ *   w_i   = x_i × M_i / M_mix
+ *
+ * Fractions are normalised by their sum, so percentages work as well.
+ * Returns undefined without components or when a component lacks library
+ * properties.
+ */
+export function resolveComposition(
+  components: readonly MixtureComponent[],
+  basis: CompositionBasis = "MOLE",
+): Composition | undefined {
+  if (!components.length) return undefined
+  const fluids = components.map(({ fluidId }) => getFluid(fluidId))
+  if (!fluids.every(isMixtureFluid)) return undefined
+
+  const moles = components.map((c, i) => (basis === "MASS" ? c.fraction / fluids[i].molecularMass : c.fraction))
+  const totalMoles = moles.reduce((s, n) => s + n, 0)
+  const moleFractions = moles.map((n) => n / totalMoles)
+  const molecularMass = fluids.reduce((s, f, i) => s + moleFractions[i] * f.molecularMass, 0)
+  const massFractions = fluids.map((f, i) => (moleFractions[i] * f.molecularMass) / molecularMass)
+  return { fluids, moleFractions, massFractions, molecularMass }
+}
+
+/**
+ * Bubble temperature of a composition at `pressure` (kPa), ideal liquid
+ * (Raoult's law):
+ *
+ *   T_b : Σ x_i × P_i(T_b) = P                [°C]
+ *
+ * Undefined when no bubble point lies between −100 and 400 °C.
+ */
+export function calcBubbleTemperature(composition: Composition, pressure: number): number | undefined {
+  const { fluids, moleFractions } = composition
+  const bubblePressure = (t: number) =>
+    fluids.reduce((s, f, i) => s + moleFractions[i] * calcVapourPressure(f.vapourPressure, t), 0)
+  return solveSaturationTemperature(bubblePressure, pressure)
+}
+
+/**
+ * Mixture L, T_r and M for API 2000 Eq. 14 from a composition of fluid
+ * library entries (resolveComposition, calcBubbleTemperature):
+ *
+ *   T_r   : Σ x_i × P_i(T_r) = P_relieving    [°C]      bubble temperature
+ *   L_mix = Σ w_i × L_i(T_r)                  [kJ/kg]   (= Σ x_i × ΔH_i / M_mix)
+ *
+ * Each L_i is Watson-corrected from the component's normal boiling point to
+ * T_r when the library gives its critical temperature.
+ * Returns undefined without components, when a component lacks library
+ * properties, or when no bubble point lies between −100 and 400 °C.
+ */
+export function calcMixtureProperties(input: CalculationInput): MixtureResult | undefined {
+  const { mixtureComponents, compositionBasis = "MOLE" } = input
+  const composition = mixtureComponents && resolveComposition(mixtureComponents, compositionBasis)
+  if (!composition) return undefined
+
+  const relievingPressure = calcRelievingPressure(input)
+  const bubbleTemperature = calcBubbleTemperature(composition, relievingPressure)
+  if (bubbleTemperature === undefined) return undefined
+
+  const latentHeatAt = (fluid: MixtureFluid) => {
+    const normalBoilingPoint = calcSaturationTemperature(fluid.vapourPressure, ATMOSPHERIC_PRESSURE_KPA)
+    const corrected =
+      fluid.criticalTemperature !== undefined && normalBoilingPoint !== undefined
+        ? calcWatsonLatentHeat(fluid.latentHeat, normalBoilingPoint, bubbleTemperature, fluid.criticalTemperature)
+        : undefined
+    return corrected ?? fluid.latentHeat
+  }
+
+  const { fluids, moleFractions, massFractions, molecularMass } = composition
+  const components: MixtureComponentResult[] = fluids.map((f, i) => ({
+    fluidId:        f.id,
+    name:           f.name,
+    moleFraction:   moleFractions[i],
+    massFraction:   massFractions[i],
+    molecularMass:  f.molecularMass,
+    latentHeat:     latentHeatAt(f),
+    vapourPressure: calcVapourPressure(f.vapourPressure, bubbleTemperature),
+  }))
+  const latentHeat = components.reduce((s, c) => s + c.massFraction * c.latentHeat, 0)
+
+  return {
+    basis: compositionBasis,
+    components,
+    relievingPressure,
+    molecularMass,
+    latentHeat,
+    bubbleTemperature,
+  }
+}
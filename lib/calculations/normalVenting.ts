@@ -1,7 +1,35 @@
-import { CalculationInput, DerivedGeometry, NormalVentingResult } from "@/types"
+import {
+  CalculationInput,
+  CoilRuptureResult,
+  Compartment,
+  CompartmentVentingResult,
+  DerivedGeometry,
+  FloatingRoofType,
+  GoverningCompartment,
+  InbreathingResult,
+  NormalVentingResult,
+  OutbreathingResult,
+  ProcessCase,
+  Stream,
+  ThermalCapacity,
+} from "@/types"
+import { calcVolumeToLevel } from "./geometry"
+import { calcFlashVapour, computeFlashOutbreathing } from "./flash"
+import { selectGoverningStreams, toProcessCase } from "./simultaneity"
+import { computeCoilRupture } from "./coilRupture"
+import { calcSiteThermalVenting } from "./siteThermal"
+import { strappingLevelAt } from "@/lib/lookups/strapping"
 import { getYFactor } from "@/lib/lookups/yFactor"
 import { getCFactor, isLowVolatility } from "@/lib/lookups/cFactor"
 import { normalVentInbreathing, normalVentOutbreathing } from "@/lib/lookups/normalVentTable"
+import { annexAInbreathing, annexAOutbreathing } from "@/lib/lookups/annexATable"
+import {
+  AIR_MOLAR_HEAT_CAPACITY,
+  NORMAL_MOLAR_VOLUME,
+  RAIN_COOLING_HTC,
+  VAPOUR_PRESSURE_THRESHOLD,
+  VAPOUR_SPACE_HTC,
+} from "@/lib/constants"
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -9,10 +37,187 @@ function sumFlowrates(streams: readonly { flowrate: number }[]): number {
   return streams.reduce((acc, s) => acc + s.flowrate, 0)
 }
 
+function maxBy<T>(items: readonly T[], key: (item: T) => number): T {
+  return items.reduce((best, item) => (key(item) > key(best) ? item : best))
+}
+
+/**
+ * Resolve the tank capacity V_tk that drives thermal venting.
+ *
+ * Precedence:
+ *   1. nominalCapacity            → NOMINAL
+ *   2. highHighLiquidLevel        → HIGH_HIGH_LEVEL (liquid volume up to HHLL)
+ *   3. ullage                     → ULLAGE (maxTankVolume − ullage, floored at 0)
+ *   4. strappingTable             → STRAPPING (table top volume)
+ *   5. otherwise                  → GEOMETRIC (maxTankVolume)
+ *
+ * With a strapping table the liquid height holding V_tk is reported as `level`.
+ */
+export function resolveThermalCapacity(
+  input: CalculationInput,
+  derived: DerivedGeometry,
+): ThermalCapacity {
+  const capacity = resolveCapacityValue(input, derived)
+  return input.strappingTable
+    ? { ...capacity, level: strappingLevelAt(input.strappingTable, capacity.value) }
+    : capacity
+}
+
+function resolveCapacityValue(input: CalculationInput, derived: DerivedGeometry): ThermalCapacity {
+  if (input.nominalCapacity !== undefined) {
+    return { value: input.nominalCapacity, basis: "NOMINAL" }
+  }
+  if (input.highHighLiquidLevel !== undefined) {
+    return { value: calcVolumeToLevel(input, input.highHighLiquidLevel), basis: "HIGH_HIGH_LEVEL" }
+  }
+  if (input.ullage !== undefined) {
+    return { value: Math.max(derived.maxTankVolume - input.ullage, 0), basis: "ULLAGE" }
+  }
+  if (input.strappingTable !== undefined) {
+    return { value: derived.maxTankVolume, basis: "STRAPPING" }
+  }
+  return { value: derived.maxTankVolume, basis: "GEOMETRIC" }
+}
+
+// ─── Heated tanks ─────────────────────────────────────────────────────────────
+
+/**
+ * Thermal inbreathing of a heated tank (Nm³/h) — a rainstorm cooling the
+ * shell + roof from the storage temperature T_s to the design ambient T_a.
+ *
+ *   U_in   = 1 / (1/h_rain + 1/h_i)                    [W/m²·K]
+ *   Q      = U_in × A_TTS × (T_s − T_a) × R            [W]
+ *   ṅ_air  = Q / (c_p,air × T_a)                        [mol/s]
+ *   V_IT,h = ṅ_air × V_m × 3600                         [Nm³/h]
+ *
+ * The same rain quench as the site-specific model (calcSiteThermalVenting):
+ * h_rain from `rainCoolingHtc` (default 10), the vapour-side film h_i limiting
+ * the heat drawn out of the gas. Removing heat Q from the vapour space at
+ * constant pressure contracts the gas; the air drawn in to replace it is
+ * counted at ambient (the conservative end of the cool-down). Returns 0
+ * unless the tank is HEATED and T_s > T_a.
+ */
+export function calcHeatedThermalInbreathing(
+  input: CalculationInput,
+  totalSurfaceArea: number,
+  reductionFactor: number,
+): number {
+  const { storageCondition, avgStorageTemp, ambientTemp } = input
+  if (storageCondition !== "HEATED" || ambientTemp === undefined) return 0
+
+  const deltaT = avgStorageTemp - ambientTemp
+  if (deltaT <= 0) return 0
+
+  const uIn = 1 / (1 / (input.rainCoolingHtc ?? RAIN_COOLING_HTC) + 1 / VAPOUR_SPACE_HTC)
+  const heatRemoval = uIn * totalSurfaceArea * deltaT * reductionFactor
+  const molarRate = heatRemoval / (AIR_MOLAR_HEAT_CAPACITY * (ambientTemp + 273.15))
+  return molarRate * NORMAL_MOLAR_VOLUME * 3600
+}
+
+/** The larger of the edition's thermal inbreathing and the heated-tank case. */
+function governingThermalIn(
+  standard: number,
+  heated: number,
+): Pick<InbreathingResult, "thermalInbreathing" | "thermalMethod"> {
+  return heated > standard
+    ? { thermalInbreathing: heated, thermalMethod: "HEATED" }
+    : { thermalInbreathing: standard, thermalMethod: "STANDARD" }
+}
+
 // ─── Main computation ─────────────────────────────────────────────────────────
 
 /**
- * Compute normal venting (outbreathing + inbreathing) for all API editions.
+ * Process outbreathing per m³/h of incoming liquid, by API edition:
+ *   5th       – FP >= 37.8 C or BP >= 149 C: 1.01x; FP < 37.8 C or BP < 149 C: 2.02x
+ *   6th / ISO – 1.0x
+ *   7th       – vapour pressure <= 5.0 kPa(a): 1.0x; > 5.0 kPa(a): 2.0x
+ */
+function processOutbreathingFactor(input: CalculationInput, lowVol: boolean): number {
+  switch (input.apiEdition) {
+    case "5TH":
+      return lowVol ? 1.01 : 2.02
+    case "6TH":
+    case "ISO_28300":
+      return 1.0
+    case "7TH":
+      return input.vapourPressure > VAPOUR_PRESSURE_THRESHOLD ? 2.0 : 1.0
+  }
+}
+
+interface EditionThermal {
+  yFactor: number
+  cFactor: number
+  thermalOut: number
+  thermalIn: number
+  codeOut?: number // formula values, site-specific method only
+  codeIn?: number
+}
+
+/**
+ * Thermal breathing of the 6th / 7th edition and ISO 28300 (before the
+ * heated-tank check), by thermalVentingMethod:
+ *   FORMULA       – Y × V_tk^0.9 × R out, C × V_tk^0.7 × R in
+ *   ANNEX_A       – Annex A table rates × R, keyed on V_tk and FP / BP; Y and C
+ *                   do not apply and are reported as 1
+ *   SITE_SPECIFIC – calcSiteThermalVenting over the tank A_TTS, with the
+ *                   formula values kept as codeOut / codeIn for comparison
+ */
+function editionThermal(
+  input: CalculationInput,
+  vTk: number,
+  lowVol: boolean,
+  derived: DerivedGeometry,
+): EditionThermal {
+  const { reductionFactor } = derived
+  if (input.thermalVentingMethod === "ANNEX_A") {
+    return {
+      yFactor: 1,
+      cFactor: 1,
+      thermalOut: annexAOutbreathing(vTk, lowVol) * reductionFactor,
+      thermalIn: annexAInbreathing(vTk) * reductionFactor,
+    }
+  }
+
+  const { latitude, flashBoilingPointType, flashBoilingPoint } = input
+  const yFactor = getYFactor(latitude)
+  const cFactor = getCFactor(latitude, flashBoilingPointType, flashBoilingPoint, vTk)
+  const thermalOut = yFactor * Math.pow(vTk, 0.9) * reductionFactor
+  const thermalIn = cFactor * Math.pow(vTk, 0.7) * reductionFactor
+
+  const site =
+    input.thermalVentingMethod === "SITE_SPECIFIC"
+      ? calcSiteThermalVenting(input, derived.totalSurfaceArea, reductionFactor)
+      : undefined
+  return site
+    ? {
+        yFactor,
+        cFactor,
+        thermalOut: site.outbreathing,
+        thermalIn: site.inbreathing,
+        codeOut: thermalOut,
+        codeIn: thermalIn,
+      }
+    : { yFactor, cFactor, thermalOut, thermalIn }
+}
+
+/** Formula values reported beside site-specific thermal rates. */
+function codeThermal(thermal: EditionThermal): {
+  out: Pick<OutbreathingResult, "codeThermalOutbreathing">
+  in: Pick<InbreathingResult, "codeThermalInbreathing">
+} {
+  return {
+    out: thermal.codeOut !== undefined ? { codeThermalOutbreathing: thermal.codeOut } : {},
+    in: thermal.codeIn !== undefined ? { codeThermalInbreathing: thermal.codeIn } : {},
+  }
+}
+
+const NO_PROCESS_CASE: ProcessCase = { running: [], idle: [] }
+
+type Breathing = Pick<NormalVentingResult, "outbreathing" | "inbreathing">
+
+/**
+ * Outbreathing + inbreathing for a vapour space of volume `vTk` (m³) under the
+ * selected API edition.
  *
  * Stream direction (tank perspective, per UI labels):
  *   incomingStreams  → liquid entering the tank (to tank)
@@ -25,122 +230,367 @@ function sumFlowrates(streams: readonly { flowrate: number }[]): number {
  *          (FP >= 37.8 C or BP >= 149 C: 1.01x; FP < 37.8 C or BP < 149 C: 2.02x); total = max(process, thermal)
  *   6th  – process outbreathing = incoming × 1.0; process inbreathing has no 0.94 factor; total = process + thermal
  *   7th  – process outbreathing uses vapour-pressure factor (<= 5.0 kPa(a): 1.0x, > 5.0 kPa(a): 2.0x); total = process + thermal
+ *   ISO 28300 – the 6th edition formulas (API 2000 6th adopts ISO 28300:2008)
  *
  * Reduction factor R is applied to thermal venting for all editions.
+ *
+ * Only the governing stream case is counted (selectGoverningStreams): ungrouped
+ * streams plus, per simultaneity group, the member venting the most — for
+ * outbreathing that is process factor × flowrate + its flash vapour. Each
+ * direction is its own design case, so a group holding both a fill and a draw
+ * runs the fill for outbreathing and the draw for inbreathing.
+ *
+ * Flash vapour from hot incoming feeds (computeFlashOutbreathing) is its own
+ * line item, added to the process term: 5th max(process + flash, thermal),
+ * 6th / 7th process + flash + thermal.
+ *
+ * 6th / 7th / ISO thermal rates follow thermalVentingMethod (editionThermal):
+ * the Y / C formulas by default, the Annex A tables, or the site-specific
+ * heat-transfer model (formula values reported alongside).
+ *
+ * Heated tanks (storageCondition = HEATED): thermal inbreathing is the larger of
+ * the edition value and calcHeatedThermalInbreathing; `thermalMethod` records which.
  */
-export function computeNormalVenting(
+function computeBreathing(
   input: CalculationInput,
+  vTk: number,
   derived: DerivedGeometry,
-): NormalVentingResult {
+): Breathing {
+  const { reductionFactor } = derived
+  const heatedIn = calcHeatedThermalInbreathing(input, derived.totalSurfaceArea, reductionFactor)
+
   const {
     apiEdition,
     incomingStreams,
     outgoingStreams,
     flashBoilingPointType,
     flashBoilingPoint,
-    latitude,
   } = input
 
-  const { maxTankVolume, reductionFactor } = derived
-
-  const incomingTotal = sumFlowrates(incomingStreams)
-  const outgoingTotal = sumFlowrates(outgoingStreams)
   const lowVol = isLowVolatility(flashBoilingPointType, flashBoilingPoint)
 
+  // Governing stream case per direction
+  const outFactor = processOutbreathingFactor(input, lowVol)
+  const incoming = selectGoverningStreams(
+    incomingStreams,
+    (s) => outFactor * s.flowrate + calcFlashVapour(s, input),
+  )
+  const outgoing = selectGoverningStreams(outgoingStreams, (s) => s.flowrate)
+  const incomingTotal = sumFlowrates(incoming.running)
+  const outgoingTotal = sumFlowrates(outgoing.running)
+  const flash = computeFlashOutbreathing({ ...input, incomingStreams: incoming.running })
+  const outCase = toProcessCase(incoming)
+  const inCase = toProcessCase(outgoing)
+
   // Thermal lookup — table only used for 5th edition
-  const tableIn = normalVentInbreathing(maxTankVolume)
-  const tableOut = normalVentOutbreathing(maxTankVolume, lowVol)
+  const tableIn = normalVentInbreathing(vTk)
+  const tableOut = normalVentOutbreathing(vTk, lowVol)
 
   // ── 5th Edition ─────────────────────────────────────────────────────────────
   if (apiEdition === "5TH") {
     // Process inbreathing is multiplied by 0.94 per API 5th
     const processInbreathing = 0.94 * outgoingTotal
-    // 5th edition process outbreathing from incoming liquid stream:
-    //   FP >= 37.8 C or BP >= 149 C -> 1.01 x incoming total
-    //   FP < 37.8 C or BP < 149 C   -> 2.02 x incoming total
-    const processOutbreathing = (lowVol ? 1.01 : 2.02) * incomingTotal
-    const thermalIn = tableIn * reductionFactor
+    const processOutbreathing = outFactor * incomingTotal
+    const thermalIn = governingThermalIn(tableIn * reductionFactor, heatedIn)
     const thermalOut = tableOut * reductionFactor
 
     return {
       outbreathing: {
         processFlowrate: processOutbreathing,
+        processCase: outCase,
+        flashFlowrate: flash,
+        coilRuptureFlowrate: 0,
         yFactor: 1,  // Y-factor not applicable in 5th edition
         reductionFactor,
         thermalOutbreathing: thermalOut,
-        total: Math.max(processOutbreathing, thermalOut),
+        total: Math.max(processOutbreathing + flash, thermalOut),
       },
       inbreathing: {
         processFlowrate: processInbreathing,
+        processCase: inCase,
         cFactor: 1,  // C-factor not applicable in 5th edition
         reductionFactor,
-        thermalInbreathing: thermalIn,
-        total: Math.max(processInbreathing, thermalIn),
+        ...thermalIn,
+        total: Math.max(processInbreathing, thermalIn.thermalInbreathing),
       },
     }
   }
 
-  // ── 6th Edition ─────────────────────────────────────────────────────────────
-  // Same formula as 7th: Y × V_tk^0.9 × R / C × V_tk^0.7 × R
-  // Total = process + thermal
-  if (apiEdition === "6TH") {
+  // ── 6th Edition / ISO 28300 ─────────────────────────────────────────────────
+  // Same thermal method as 7th (editionThermal); total = process + thermal
+  if (apiEdition === "6TH" || apiEdition === "ISO_28300") {
     const processInbreathing = outgoingTotal
-    const processOutbreathing = 1.0 * incomingTotal
-
-    const yFactor = getYFactor(latitude)
-    const cFactor = getCFactor(latitude, flashBoilingPointType, flashBoilingPoint, maxTankVolume)
+    const processOutbreathing = outFactor * incomingTotal
 
-    const thermalOut = yFactor * Math.pow(maxTankVolume, 0.9) * reductionFactor
-    const thermalIn = cFactor * Math.pow(maxTankVolume, 0.7) * reductionFactor
+    const thermal = editionThermal(input, vTk, lowVol, derived)
+    const code = codeThermal(thermal)
+    const { yFactor, cFactor, thermalOut } = thermal
+    const thermalIn = governingThermalIn(thermal.thermalIn, heatedIn)
 
     return {
       outbreathing: {
         processFlowrate: processOutbreathing,
+        processCase: outCase,
+        flashFlowrate: flash,
+        coilRuptureFlowrate: 0,
         yFactor,
         reductionFactor,
         thermalOutbreathing: thermalOut,
-        total: processOutbreathing + thermalOut,
+        ...code.out,
+        total: processOutbreathing + flash + thermalOut,
       },
       inbreathing: {
         processFlowrate: processInbreathing,
+        processCase: inCase,
         cFactor,
         reductionFactor,
-        thermalInbreathing: thermalIn,
-        total: processInbreathing + thermalIn,
+        ...thermalIn,
+        ...code.in,
+        total: processInbreathing + thermalIn.thermalInbreathing,
       },
     }
   }
 
   // ── 7th Edition ─────────────────────────────────────────────────────────────
-  // Uses direct formulas (not table interpolation):
+  // Uses direct formulas unless Annex A is selected (editionThermal):
   //   Thermal outbreathing = Y × V_tk^0.9 × R
   //   Thermal inbreathing  = C × V_tk^0.7 × R
   const processInbreathing = outgoingTotal
-  // 7th edition process outbreathing from incoming liquid stream:
-  //   non-volatile (vapour pressure <= 5.0 kPa(a)) -> 1.0 x incoming total
-  //   volatile (vapour pressure > 5.0 kPa(a))      -> 2.0 x incoming total
-  const processOutbreathing = (input.vapourPressure > 5.0 ? 2.0 : 1.0) * incomingTotal
-
-  const yFactor = getYFactor(latitude)
-  const cFactor = getCFactor(latitude, flashBoilingPointType, flashBoilingPoint, maxTankVolume)
+  const processOutbreathing = outFactor * incomingTotal
 
-  const thermalOut = yFactor * Math.pow(maxTankVolume, 0.9) * reductionFactor
-  const thermalIn = cFactor * Math.pow(maxTankVolume, 0.7) * reductionFactor
+  const thermal = editionThermal(input, vTk, lowVol, derived)
+  const code = codeThermal(thermal)
+  const { yFactor, cFactor, thermalOut } = thermal
+  const thermalIn = governingThermalIn(thermal.thermalIn, heatedIn)
 
   return {
     outbreathing: {
       processFlowrate: processOutbreathing,
+      processCase: outCase,
+      flashFlowrate: flash,
+      coilRuptureFlowrate: 0,
       yFactor,
       reductionFactor,
       thermalOutbreathing: thermalOut,
-      total: processOutbreathing + thermalOut,
+      ...code.out,
+      total: processOutbreathing + flash + thermalOut,
     },
     inbreathing: {
       processFlowrate: processInbreathing,
+      processCase: inCase,
       cFactor,
       reductionFactor,
-      thermalInbreathing: thermalIn,
-      total: processInbreathing + thermalIn,
+      ...thermalIn,
+      ...code.in,
+      total: processInbreathing + thermalIn.thermalInbreathing,
     },
   }
 }
+
+/**
+ * Add heating coil rupture vapour (computeCoilRupture) to outbreathing. The
+ * rupture is an upset on top of normal breathing, so it adds to the total
+ * outside the edition's process / thermal rule.
+ */
+function withCoilRupture(
+  outbreathing: OutbreathingResult,
+  coilRupture: CoilRuptureResult,
+): OutbreathingResult {
+  return {
+    ...outbreathing,
+    coilRuptureFlowrate: coilRupture.flowrate,
+    total: outbreathing.total + coilRupture.flowrate,
+  }
+}
+
+/**
+ * Compute normal venting (outbreathing + inbreathing) for all API editions.
+ *
+ * Fixed-roof tanks breathe over V_tk, resolved by resolveThermalCapacity
+ * (datasheet overrides before geometry).
+ *
+ * Floating-roof tanks (IFR / EFR, vertical cylinders only — ignored for other
+ * shapes, like the fixed-roof inputs): while the deck floats it rides on the liquid,
+ * so the rim / bleeder vents see neither process nor thermal flow. The venting
+ * basis is the roof-landed case — the deck resting on its support legs with the
+ * vapour space beneath it (liquid volume up to `roofLegHeight`) breathing like a
+ * fixed-roof tank: pump-out draws air in through the bleeder vent, refilling
+ * expels vapour until the deck refloats, and the space breathes thermally.
+ *
+ * Compartmented fixed-roof tanks are delegated to computeCompartmentVenting.
+ *
+ * A heating coil rupture adds to the fixed-roof (or tank-level compartment)
+ * outbreathing and, for floating roofs, to the roof-landed case.
+ *
+ * `thermalVentingMethod` reports the 6th / 7th / ISO thermal method (default
+ * FORMULA); it is omitted for the 5th edition, which is always tabulated.
+ */
+export function computeNormalVenting(
+  input: CalculationInput,
+  derived: DerivedGeometry,
+): NormalVentingResult {
+  const result = computeVenting(input, derived)
+  return input.apiEdition === "5TH"
+    ? result
+    : { ...result, thermalVentingMethod: input.thermalVentingMethod ?? "FORMULA" }
+}
+
+function computeVenting(input: CalculationInput, derived: DerivedGeometry): NormalVentingResult {
+  const capacity = resolveThermalCapacity(input, derived)
+  const coilRupture = computeCoilRupture(input)
+
+  const isFloating =
+    (input.tankShape ?? "VERTICAL_CYLINDER") === "VERTICAL_CYLINDER" &&
+    (input.floatingRoofType ?? FloatingRoofType.NONE) !== FloatingRoofType.NONE
+
+  if (!isFloating) {
+    const result: NormalVentingResult = input.compartments?.length
+      ? computeCompartmentVenting(input, input.compartments, capacity, derived)
+      : { capacity, ...computeBreathing(input, capacity.value, derived) }
+    return coilRupture
+      ? { ...result, outbreathing: withCoilRupture(result.outbreathing, coilRupture), coilRupture }
+      : result
+  }
+
+  const vapourSpaceVolume = calcVolumeToLevel(input, input.roofLegHeight ?? 0)
+  const breathing = computeBreathing(input, vapourSpaceVolume, derived)
+  const landed = coilRupture
+    ? { ...breathing, outbreathing: withCoilRupture(breathing.outbreathing, coilRupture) }
+    : breathing
+
+  return {
+    capacity,
+    outbreathing: {
+      ...landed.outbreathing,
+      processFlowrate: 0,
+      processCase: NO_PROCESS_CASE,
+      flashFlowrate: 0,
+      coilRuptureFlowrate: 0,
+      thermalOutbreathing: 0,
+      ...(landed.outbreathing.codeThermalOutbreathing !== undefined && { codeThermalOutbreathing: 0 }),
+      total: 0,
+    },
+    inbreathing: {
+      ...landed.inbreathing,
+      processFlowrate: 0,
+      processCase: NO_PROCESS_CASE,
+      thermalInbreathing: 0,
+      ...(landed.inbreathing.codeThermalInbreathing !== undefined && { codeThermalInbreathing: 0 }),
+      total: 0,
+    },
+    roofLanded: { vapourSpaceVolume, ...landed },
+    ...(coilRupture && { coilRupture }),
+  }
+}
+
+// ─── Compartments ─────────────────────────────────────────────────────────────
+
+/** A compartment stream with its venting rate under its compartment's fluid. */
+type SharedStream = Stream & { process: number; flash: number }
+
+/**
+ * Governing process case of a shared vapour space. Simultaneity groups span
+ * the shared vent, so a group keeps one running stream across all
+ * compartments; each stream vents at its own compartment's process factor
+ * (and flash), and outgoing streams at the edition's inbreathing factor.
+ */
+function sharedProcessFlows(input: CalculationInput, compartments: Compartment[]) {
+  const inFactor = input.apiEdition === "5TH" ? 0.94 : 1
+  const tagged = compartments.map((c) => {
+    const own = { ...input, ...c }
+    const outFactor = processOutbreathingFactor(own, isLowVolatility(c.flashBoilingPointType, c.flashBoilingPoint))
+    return {
+      incoming: c.incomingStreams.map(
+        (s): SharedStream => ({ ...s, process: outFactor * s.flowrate, flash: calcFlashVapour(s, own) }),
+      ),
+      outgoing: c.outgoingStreams.map((s): SharedStream => ({ ...s, process: inFactor * s.flowrate, flash: 0 })),
+    }
+  })
+
+  const incoming = selectGoverningStreams(tagged.flatMap((t) => t.incoming), (s) => s.process + s.flash)
+  const outgoing = selectGoverningStreams(tagged.flatMap((t) => t.outgoing), (s) => s.process)
+  const sum = (streams: SharedStream[], key: "process" | "flash") => streams.reduce((acc, s) => acc + s[key], 0)
+  return {
+    processOut: sum(incoming.running, "process"),
+    flashOut: sum(incoming.running, "flash"),
+    outCase: toProcessCase(incoming),
+    processIn: sum(outgoing.running, "process"),
+    inCase: toProcessCase(outgoing),
+  }
+}
+
+/**
+ * Normal venting of a partitioned tank. Each compartment brings its own
+ * streams and fluid (vapour pressure, flash / boiling point), which set its
+ * process factors and C-factor.
+ *
+ * SEPARATE — every compartment breathes over its own `capacity`; the tank-level
+ *   outbreathing / inbreathing report the governing (largest) compartment in
+ *   each direction.
+ * SHARED (default) — all compartments vent through one roof vapour space over
+ *   the tank V_tk: process and flash flows add up with simultaneity groups taken
+ *   across compartments (sharedProcessFlows), thermal breathing is counted once at
+ *   the most onerous compartment fluid, and the totals follow the edition rule
+ *   (5th: max(process, thermal); 6th / 7th: process + thermal). Per-compartment
+ *   results are each compartment's own streams over the shared V_tk.
+ */
+export function computeCompartmentVenting(
+  input: CalculationInput,
+  compartments: Compartment[],
+  capacity: ThermalCapacity,
+  derived: DerivedGeometry,
+): NormalVentingResult {
+  const vapourSpaceMode = input.vapourSpaceMode ?? "SHARED"
+  const results: CompartmentVentingResult[] = compartments.map((c) => {
+    const vTk = vapourSpaceMode === "SEPARATE" ? c.capacity : capacity.value
+    return { name: c.name, capacity: vTk, ...computeBreathing({ ...input, ...c }, vTk, derived) }
+  })
+
+  const governingOut = maxBy(results, (r) => r.outbreathing.total)
+  const governingIn = maxBy(results, (r) => r.inbreathing.total)
+
+  if (vapourSpaceMode === "SEPARATE") {
+    return {
+      capacity,
+      outbreathing: governingOut.outbreathing,
+      inbreathing: governingIn.inbreathing,
+      vapourSpaceMode,
+      compartments: results,
+    }
+  }
+
+  const combine = (process: number, thermal: number) =>
+    input.apiEdition === "5TH" ? Math.max(process, thermal) : process + thermal
+  const thermalOut = maxBy(results, (r) => r.outbreathing.thermalOutbreathing).outbreathing
+  const thermalIn = maxBy(results, (r) => r.inbreathing.thermalInbreathing).inbreathing
+  const { processOut, flashOut, outCase, processIn, inCase } = sharedProcessFlows(input, compartments)
+
+  return {
+    capacity,
+    outbreathing: {
+      ...thermalOut,
+      processFlowrate: processOut,
+      processCase: outCase,
+      flashFlowrate: flashOut,
+      total: combine(processOut + flashOut, thermalOut.thermalOutbreathing),
+    },
+    inbreathing: {
+      ...thermalIn,
+      processFlowrate: processIn,
+      processCase: inCase,
+      total: combine(processIn, thermalIn.thermalInbreathing),
+    },
+    vapourSpaceMode,
+    compartments: results,
+  }
+}
+
+/** Name of the compartment governing outbreathing and inbreathing. */
+export function governingCompartment(
+  compartments: CompartmentVentingResult[],
+): GoverningCompartment {
+  return {
+    outbreathing: maxBy(compartments, (r) => r.outbreathing.total).name,
+    inbreathing: maxBy(compartments, (r) => r.inbreathing.total).name,
+  }
+}
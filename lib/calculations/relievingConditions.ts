@@ -0,0 +1,63 @@
+import { CalculationInput, RelievingConditionsResult } from "@/types"
+import { ATMOSPHERIC_PRESSURE_KPA } from "@/lib/constants"
+import { calcSaturationTemperature } from "./vapourPressure"
+import { calcRelievingPressure } from "./emergencyVenting"
+
+/** Watson exponent (Watson 1943). */
+const WATSON_EXPONENT = 0.38
+
+/**
+ * Latent heat (kJ/kg) at temperature T from a value L_b known at T_b —
+ * Watson correlation:
+ *
+ *   L(T) = L_b × ((T_c − T) / (T_c − T_b))^0.38
+ *
+ * Undefined at or above the critical temperature T_c (°C).
+ */
+export function calcWatsonLatentHeat(
+  latentHeat: number,
+  referenceTemperature: number,
+  temperature: number,
+  criticalTemperature: number,
+): number | undefined {
+  if (temperature >= criticalTemperature || referenceTemperature >= criticalTemperature) return undefined
+  const ratio = (criticalTemperature - temperature) / (criticalTemperature - referenceTemperature)
+  return latentHeat * Math.pow(ratio, WATSON_EXPONENT)
+}
+
+/**
+ * Relieving temperature and latent heat from the vapour pressure curve,
+ * used when `relievingTemperature` is left blank:
+ *
+ *   P_r = P_atm + DP × (1 + overpressure / 100)        [kPa(a)]
+ *   T_r : P_sat(T_r) = P_r                             [°C]
+ *   L   = Watson(L_typed, T_b → T_r, T_c)              [kJ/kg]
+ *
+ * The typed latent heat is taken at the normal boiling point T_b (P_sat =
+ * 101.325 kPa); it is corrected only when the critical temperature is given.
+ * Returns undefined without a vapour pressure correlation, with a typed T_r,
+ * for mixtures (calcMixtureProperties derives their T_r) or when the liquid
+ * does not boil at P_r between −100 and 400 °C.
+ */
+export function calcRelievingConditions(input: CalculationInput): RelievingConditionsResult | undefined {
+  const { vapourPressureCorrelation: correlation, latentHeat, criticalTemperature } = input
+  if (!correlation || input.relievingTemperature !== undefined || input.mixtureComponents?.length) {
+    return undefined
+  }
+
+  const relievingPressure = calcRelievingPressure(input)
+  const relievingTemperature = calcSaturationTemperature(correlation, relievingPressure)
+  if (relievingTemperature === undefined) return undefined
+
+  const normalBoilingPoint = calcSaturationTemperature(correlation, ATMOSPHERIC_PRESSURE_KPA)
+  const corrected =
+    latentHeat !== undefined && criticalTemperature !== undefined && normalBoilingPoint !== undefined
+      ? calcWatsonLatentHeat(latentHeat, normalBoilingPoint, relievingTemperature, criticalTemperature)
+      : undefined
+
+  return {
+    relievingPressure,
+    relievingTemperature,
+    ...(corrected !== undefined && { latentHeat: corrected, normalBoilingPoint }),
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  ApiEdition,
+  BlanketingResult,
+  BlowThroughResult,
+  GoverningScenario,
+  NormalVentingResult,
+  ScenarioContribution,
+  ScenarioResult,
+  SteamOutResult,
+  VentingCause,
+  VentingScenario,
+} from "@/types"
+
+/** Every venting cause, in the order scenario contributions are reported. */
+export const VENTING_CAUSES: readonly VentingCause[] = [
+  "FILLING",
+  "EMPTYING",
+  "THERMAL",
+  "CONTROL_VALVE_FAILURE",
+  "DRAIN",
+  "STEAM_OUT",
+  "BLANKET_FAILURE",
+  "COIL_RUPTURE",
+]
+
+/** Causes combined under the edition rule; the rest add on top. */
+const NORMAL_BREATHING_CAUSES: readonly VentingCause[] = ["FILLING", "EMPTYING", "THERMAL"]
+
+type Direction = "outbreathing" | "inbreathing"
+
+/** Venting rates available to scenarios, from the individual calculation steps. */
+export interface ScenarioSources {
+  normalVenting: NormalVentingResult
+  blowThrough?: BlowThroughResult
+  drainInbreathing?: number
+  steamOut?: SteamOutResult
+  blanketing?: BlanketingResult
+}
+
+/**
+ * Rate of one cause on its own (Nm³/h). Floating-roof tanks take the
+ * roof-landed breathing — the floating deck vents nothing.
+ */
+function contributionOf(cause: VentingCause, sources: ScenarioSources): ScenarioContribution {
+  const { outbreathing, inbreathing } = sources.normalVenting.roofLanded ?? sources.normalVenting
+  switch (cause) {
+    case "FILLING":
+      return { cause, outbreathing: outbreathing.processFlowrate + outbreathing.flashFlowrate, inbreathing: 0 }
+    case "EMPTYING":
+      return { cause, outbreathing: 0, inbreathing: inbreathing.processFlowrate }
+    case "THERMAL":
+      return { cause, outbreathing: outbreathing.thermalOutbreathing, inbreathing: inbreathing.thermalInbreathing }
+    case "CONTROL_VALVE_FAILURE":
+      return { cause, outbreathing: sources.blowThrough?.flowrate ?? 0, inbreathing: 0 }
+    case "DRAIN":
+      return { cause, outbreathing: 0, inbreathing: sources.drainInbreathing ?? 0 }
+    case "STEAM_OUT":
+      return { cause, outbreathing: 0, inbreathing: sources.steamOut?.inbreathing ?? 0 }
+    case "BLANKET_FAILURE":
+      return { cause, outbreathing: sources.blanketing?.failure?.outbreathing ?? 0, inbreathing: 0 }
+    case "COIL_RUPTURE":
+      return { cause, outbreathing: outbreathing.coilRuptureFlowrate, inbreathing: 0 }
+  }
+}
+
+/**
+ * Venting rates of each scenario — the causes it switches on acting together.
+ *
+ * Normal breathing (FILLING / EMPTYING with THERMAL) combines per the edition
+ * rule used by computeNormalVenting: 5th max(process, thermal), 6th / 7th
+ * process + thermal. Every other cause adds on top.
+ */
+export function computeScenarios(
+  scenarios: VentingScenario[],
+  apiEdition: ApiEdition,
+  sources: ScenarioSources,
+): ScenarioResult[] {
+  const combine = (process: number, thermal: number) =>
+    apiEdition === "5TH" ? Math.max(process, thermal) : process + thermal
+
+  return scenarios.map(({ name, causes }) => {
+    const contributions = VENTING_CAUSES.filter((c) => causes.includes(c)).map((c) =>
+      contributionOf(c, sources),
+    )
+    const rate = (cause: VentingCause, direction: Direction) =>
+      contributions.find((c) => c.cause === cause)?.[direction] ?? 0
+    const additional = (direction: Direction) =>
+      contributions
+        .filter((c) => !NORMAL_BREATHING_CAUSES.includes(c.cause))
+        .reduce((acc, c) => acc + c[direction], 0)
+
+    return {
+      name,
+      contributions,
+      outbreathing:
+        combine(rate("FILLING", "outbreathing"), rate("THERMAL", "outbreathing")) + additional("outbreathing"),
+      inbreathing:
+        combine(rate("EMPTYING", "inbreathing"), rate("THERMAL", "inbreathing")) + additional("inbreathing"),
+    }
+  })
+}
+
+/** Name of the scenario governing outbreathing and inbreathing (first listed on a tie). */
+export function governingScenario(results: ScenarioResult[]): GoverningScenario {
+  const maxBy = (key: (r: ScenarioResult) => number) =>
+    results.reduce((best, r) => (key(r) > key(best) ? r : best)).name
+  return {
+    outbreathing: maxBy((r) => r.outbreathing),
+    inbreathing: maxBy((r) => r.inbreathing),
+  }
+}
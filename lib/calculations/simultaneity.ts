@@ -0,0 +1,64 @@
+import { ProcessCase, ProcessStream, Stream } from "@/types"
+
+/**
+ * Simultaneity of process streams.
+ *
+ * Streams sharing a `simultaneityGroup` are alternatives that never run
+ * together — duty / standby pumps, alternating truck bays, a line that either
+ * fills or draws — so at most one stream per group runs at a time. Ungrouped
+ * streams (blank group) are taken to run continuously, as before groups existed.
+ */
+
+export interface StreamSelection<T extends Stream> {
+  running: T[]
+  idle: T[]
+}
+
+/** Group key of a stream; blank or whitespace-only groups count as ungrouped. */
+function groupOf(stream: Stream): string | undefined {
+  return stream.simultaneityGroup?.trim() || undefined
+}
+
+/**
+ * Governing combination of streams for one venting direction.
+ *
+ * Every ungrouped stream runs; each group contributes its stream with the
+ * largest `contribution` (venting rate, Nm³/h). Group contributions add
+ * independently, so taking the best member of each group is the maximum over
+ * every combination of one-stream-per-group. Ties keep the first listed stream.
+ */
+export function selectGoverningStreams<T extends Stream>(
+  streams: readonly T[],
+  contribution: (stream: T) => number,
+): StreamSelection<T> {
+  const best = new Map<string, T>()
+  for (const stream of streams) {
+    const group = groupOf(stream)
+    if (group === undefined) continue
+    const current = best.get(group)
+    if (current === undefined || contribution(stream) > contribution(current)) {
+      best.set(group, stream)
+    }
+  }
+
+  const running: T[] = []
+  const idle: T[] = []
+  for (const stream of streams) {
+    const group = groupOf(stream)
+    if (group === undefined || best.get(group) === stream) running.push(stream)
+    else idle.push(stream)
+  }
+  return { running, idle }
+}
+
+function toProcessStream({ streamNo, description, type, simultaneityGroup, flowrate }: Stream): ProcessStream {
+  return { streamNo, description, type, simultaneityGroup: simultaneityGroup?.trim() || undefined, flowrate }
+}
+
+/** Report form of a selection (stream identity, type, group and flowrate only). */
+export function toProcessCase(selection: StreamSelection<Stream>): ProcessCase {
+  return {
+    running: selection.running.map(toProcessStream),
+    idle: selection.idle.map(toProcessStream),
+  }
+}
@@ -0,0 +1,55 @@
+import { CalculationInput } from "@/types"
+import {
+  AIR_MOLAR_HEAT_CAPACITY,
+  DESIGN_SOLAR_FLUX,
+  NORMAL_MOLAR_VOLUME,
+  OUTSIDE_AIR_HTC,
+  RAIN_COOLING_HTC,
+  VAPOUR_SPACE_HTC,
+} from "@/lib/constants"
+import { getPaintAbsorptivity } from "@/lib/lookups/paintAbsorptivity"
+
+/** Site-specific thermal out/inbreathing of one vapour space (Nm³/h). */
+export interface SiteThermalVenting {
+  outbreathing: number
+  inbreathing: number
+}
+
+/**
+ * Site-specific thermal venting — a heat-transfer model of the vapour space
+ * in place of the Y / C latitude bands.
+ *
+ *   ΔT_sol = α × I / h_o                                    [K]
+ *   U_out  = 1 / (1/h_o + 1/h_i),   U_in = 1 / (1/h_rain + 1/h_i)
+ *   Q_out  = U_out × A_TTS × (ΔT_sol + ΔT_swing / 2) × R    [W]
+ *   Q_in   = U_in  × A_TTS × (ΔT_sol + ΔT_swing) × R        [W]
+ *   V      = Q / (c_p,air × T_s) × V_m × 3600               [Nm³/h]
+ *
+ * Outbreathing: the vapour space sits at the daily mean ambient while the
+ * sunlit shell reaches the sol-air temperature above the daily maximum
+ * (absorptivity α from the paint, peak flux I). Inbreathing: the sun-heated
+ * vapour space is quenched by rain at the daily minimum. In both the gas side
+ * film h_i limits the heat flow; insulation enters through R, as for the
+ * formulas. The gas volume change is counted at the storage temperature T_s.
+ *
+ * Returns undefined unless the ambient swing and the shell paint are given.
+ */
+export function calcSiteThermalVenting(
+  input: CalculationInput,
+  totalSurfaceArea: number,
+  reductionFactor: number,
+): SiteThermalVenting | undefined {
+  const { ambientTempSwing, shellPaint, avgStorageTemp } = input
+  if (ambientTempSwing === undefined || shellPaint === undefined) return undefined
+
+  const solAirExcess = (getPaintAbsorptivity(shellPaint) * DESIGN_SOLAR_FLUX) / OUTSIDE_AIR_HTC
+  const uOut = 1 / (1 / OUTSIDE_AIR_HTC + 1 / VAPOUR_SPACE_HTC)
+  const uIn = 1 / (1 / (input.rainCoolingHtc ?? RAIN_COOLING_HTC) + 1 / VAPOUR_SPACE_HTC)
+
+  const heating = uOut * totalSurfaceArea * (solAirExcess + ambientTempSwing / 2) * reductionFactor
+  const cooling = uIn * totalSurfaceArea * (solAirExcess + ambientTempSwing) * reductionFactor
+  const toNormalFlow = (q: number) =>
+    (q / (AIR_MOLAR_HEAT_CAPACITY * (avgStorageTemp + 273.15))) * NORMAL_MOLAR_VOLUME * 3600
+
+  return { outbreathing: toNormalFlow(heating), inbreathing: toNormalFlow(cooling) }
+}
@@ -0,0 +1,63 @@
+import { CalculationInput, DerivedGeometry, SteamOutResult } from "@/types"
+import {
+  ATMOSPHERIC_PRESSURE_KPA,
+  GAS_CONSTANT,
+  RAIN_COOLING_HTC,
+  STEAM_LATENT_HEAT,
+  STEAM_SATURATION_TEMP,
+  WATER_MOLECULAR_MASS,
+} from "@/lib/constants"
+
+/** Density of saturated steam at atmospheric pressure, ideal gas (kg/m³). */
+export function calcSteamDensity(): number {
+  return (
+    (ATMOSPHERIC_PRESSURE_KPA * 1000 * (WATER_MOLECULAR_MASS / 1000)) /
+    (GAS_CONSTANT * (STEAM_SATURATION_TEMP + 273.15))
+  )
+}
+
+/**
+ * Steam-out / cleaning inbreathing.
+ *
+ * After steaming out, the tank is full of saturated steam at atmospheric
+ * pressure (100 °C). When the supply stops the steam keeps condensing, and
+ * every m³ condensed is replaced by air through the vacuum vent.
+ *
+ *   ṁ_cool = h × A_TTS × (T_sat − T_a) × 3600 / (λ × 1000)     [kg/h]
+ *   ṁ_c    = max(ṁ_steam, ṁ_cool)
+ *   V_cond = ṁ_c / ρ_steam,   ρ_steam = P_atm × M_w / (R × T_sat)   [m³/h]
+ *   Q_SO   = V_cond × 273.15 / (T_a + 273.15)                       [Nm³/h]
+ *
+ * ṁ_steam — at the moment the supply stops the shell is condensing what was
+ * being fed; ṁ_cool — the shell cooling toward T_a (default coefficient: the
+ * rainstorm value used for heated tanks). Air enters at T_a, the conservative
+ * (densest) end. The inventory ρ_steam × V_tank bounds how long it lasts.
+ *
+ * Returns undefined unless the steam rate and the cooling temperature are given.
+ */
+export function computeSteamOut(
+  input: CalculationInput,
+  derived: DerivedGeometry,
+): SteamOutResult | undefined {
+  const { steamOutRate, steamOutAmbientTemp, steamOutCoolingHtc = RAIN_COOLING_HTC } = input
+  if (steamOutRate === undefined || steamOutAmbientTemp === undefined) return undefined
+
+  const deltaT = Math.max(STEAM_SATURATION_TEMP - steamOutAmbientTemp, 0)
+  const coolingRate =
+    (steamOutCoolingHtc * derived.totalSurfaceArea * deltaT * 3600) / (STEAM_LATENT_HEAT * 1000)
+
+  const basis = coolingRate > steamOutRate ? "COOLING" : "STEAM_RATE"
+  const condensingRate = Math.max(steamOutRate, coolingRate)
+
+  const steamDensity = calcSteamDensity()
+  const condensedVolume = condensingRate / steamDensity // m³/h at T_sat
+  const steamInventory = steamDensity * derived.maxTankVolume
+
+  return {
+    condensingRate,
+    basis,
+    inbreathing: (condensedVolume * 273.15) / (steamOutAmbientTemp + 273.15),
+    steamInventory,
+    condensingTime: steamInventory / condensingRate,
+  }
+}
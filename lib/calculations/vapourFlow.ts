@@ -0,0 +1,97 @@
+import { ApiEdition, CalculationInput, VapourFlow, VapourFlowSummary, VentingSummary } from "@/types"
+import {
+  AIR_MOLECULAR_MASS,
+  ATMOSPHERIC_PRESSURE_KPA,
+  GAS_CONSTANT,
+  HEXANE_DEFAULTS,
+  NORMAL_MOLAR_VOLUME,
+} from "@/lib/constants"
+import { airEquivalentCoefficient } from "./emergencyVenting"
+import { GasFlow } from "./gasFlow"
+
+/**
+ * Actual vapour flow behind an air-equivalent rate — API 2000 Eq. 14's
+ * vapour-to-air conversion run backwards:
+ *
+ *   ṁ     = V_air × 3600 / k × √(M / T_r)          [kg/h]
+ *   ρ_v   = P_atm × M / (R × T_r)                  [kg/m³]
+ *   Q_act = ṁ / ρ_v                                [m³/h]
+ *
+ * Where:
+ *   k   = airEquivalentCoefficient (881.55 for the 5th edition, else 906.6)
+ *   T_r = relieving temperature [K], M = vapour molecular mass [g/mol]
+ */
+export function calcVapourFlow(
+  airEquivalent: number,
+  molecularMass: number,
+  relievingTemperature: number,
+  apiEdition: ApiEdition,
+): VapourFlow {
+  const t = relievingTemperature + 273.15
+  const massFlow =
+    ((airEquivalent * 3600) / airEquivalentCoefficient(apiEdition)) * Math.sqrt(molecularMass / t)
+  const density = (ATMOSPHERIC_PRESSURE_KPA * molecularMass) / (GAS_CONSTANT * t)
+  return { airEquivalent, massFlow, actualFlow: massFlow / density }
+}
+
+/**
+ * Gas behind a normal venting rate — the Nm³/h are the displaced volume at
+ * 0 °C, 101.325 kPa, so no Eq. 14 conversion applies:
+ *
+ *   ṁ     = V_n / V_m × M / 1000                   [kg/h]
+ *   Q_act = V_n × T / 273.15                       [m³/h]
+ *
+ * Where:
+ *   V_m = 0.022414 Nm³/mol, M = gas molecular mass [g/mol], T = gas temperature [K]
+ */
+export function calcDisplacedFlow(normalFlow: number, molecularMass: number, temperature: number): VapourFlow {
+  return {
+    airEquivalent: normalFlow,
+    massFlow: ((normalFlow / NORMAL_MOLAR_VOLUME) * molecularMass) / 1000,
+    actualFlow: normalFlow * ((temperature + 273.15) / 273.15),
+  }
+}
+
+/**
+ * Actual flows behind the air-equivalent design flows:
+ *   design outbreathing — tank vapour (`molecularMass`, Hexane default)
+ *     displaced at the storage temperature (calcDisplacedFlow)
+ *   design inbreathing  — air drawn in at the design ambient (storage
+ *     temperature when not given)
+ *   emergency venting   — tank vapour at the relieving temperature, Eq. 14
+ *     inverted (calcVapourFlow)
+ *
+ * `gasInflow` is the part of design outbreathing that is gas pushed in from
+ * outside (blow-through, failed-open blanketing regulator, steam from a
+ * ruptured coil) — already Nm³/h of that gas with its mass flow from the
+ * gas's own M. It is carried over as is (actual volume at the storage
+ * temperature) rather than converted with the tank vapour's M.
+ */
+export function computeVapourFlows(
+  input: CalculationInput,
+  summary: VentingSummary,
+  gasInflow?: Pick<GasFlow, "flowrate" | "massFlow">,
+): VapourFlowSummary {
+  const molecularMass = input.molecularMass ?? HEXANE_DEFAULTS.molecularMass
+  const relievingTemperature = input.relievingTemperature ?? HEXANE_DEFAULTS.relievingTemperature
+  const storageTemperature = input.avgStorageTemp
+  const ambientTemperature = input.ambientTemp ?? input.avgStorageTemp
+
+  const gasFlow = gasInflow?.flowrate ?? 0
+  const breathing = calcDisplacedFlow(summary.designOutbreathing - gasFlow, molecularMass, storageTemperature)
+  const designOutbreathing: VapourFlow = {
+    airEquivalent: summary.designOutbreathing,
+    massFlow:      breathing.massFlow + (gasInflow?.massFlow ?? 0),
+    actualFlow:    breathing.actualFlow + gasFlow * ((storageTemperature + 273.15) / 273.15),
+  }
+
+  return {
+    molecularMass,
+    relievingTemperature,
+    storageTemperature,
+    ambientTemperature,
+    designOutbreathing,
+    designInbreathing: calcDisplacedFlow(summary.designInbreathing, AIR_MOLECULAR_MASS, ambientTemperature),
+    emergencyVenting: calcVapourFlow(summary.emergencyVenting, molecularMass, relievingTemperature, input.apiEdition),
+  }
+}
@@ -0,0 +1,90 @@
+import { CalculationInput, VapourPressureCorrelation, VapourPressureResult } from "@/types"
+import { VAPOUR_PRESSURE_THRESHOLD, VAPOUR_PRESSURE_THRESHOLD_MARGIN } from "@/lib/constants"
+
+/** Bracket for saturation-temperature searches (°C). */
+const T_SEARCH_MIN = -100
+const T_SEARCH_MAX = 400
+const BISECTION_ITERATIONS = 60
+
+/**
+ * Vapour pressure (kPa) from a correlation at temperature T (°C).
+ *
+ *   ANTOINE: P = 10^(A − B / (C + T))                         [kPa, °C]
+ *   DIPPR:   P = exp(A + B / T_K + C × ln T_K + D × T_K^E) / 1000   [Pa → kPa]
+ */
+export function calcVapourPressure(correlation: VapourPressureCorrelation, temperature: number): number {
+  const { form, a, b, c } = correlation
+  if (form === "ANTOINE") return Math.pow(10, a - b / (c + temperature))
+
+  const tK = temperature + 273.15
+  const { d = 0, e = 0 } = correlation
+  return Math.exp(a + b / tK + c * Math.log(tK) + d * Math.pow(tK, e)) / 1000
+}
+
+/**
+ * Temperature (°C) at which `pressureAt(T)` (kPa, rising with temperature)
+ * reaches `pressure` (kPa). Bisection over −100 … 400 °C; undefined when the
+ * pressure is not reached inside that range.
+ */
+export function solveSaturationTemperature(
+  pressureAt: (temperature: number) => number,
+  pressure: number,
+): number | undefined {
+  const excess = (t: number) => pressureAt(t) - pressure
+  let lo = T_SEARCH_MIN
+  let hi = T_SEARCH_MAX
+  if (!(excess(lo) <= 0 && excess(hi) >= 0)) return undefined
+
+  for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2
+    if (excess(mid) < 0) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+/**
+ * Temperature (°C) at which the correlation reaches `pressure` (kPa) — the
+ * boiling point at that pressure.
+ */
+export function calcSaturationTemperature(
+  correlation: VapourPressureCorrelation,
+  pressure: number,
+): number | undefined {
+  return solveSaturationTemperature((t) => calcVapourPressure(correlation, t), pressure)
+}
+
+/**
+ * Vapour pressure used by the calculation. With a correlation the value at
+ * `avgStorageTemp` replaces the typed `vapourPressure`, and the temperature at
+ * which the correlation crosses the 7th edition 5 kPa threshold is reported.
+ */
+export function resolveVapourPressure(input: CalculationInput): VapourPressureResult {
+  const correlation = input.vapourPressureCorrelation
+  if (!correlation) return { value: input.vapourPressure, source: "INPUT" }
+
+  const thresholdTemperature = calcSaturationTemperature(correlation, VAPOUR_PRESSURE_THRESHOLD)
+  return {
+    value: calcVapourPressure(correlation, input.avgStorageTemp),
+    source: correlation.form,
+    ...(input.fluidName && { fluidName: input.fluidName }),
+    ...(thresholdTemperature !== undefined && { thresholdTemperature }),
+  }
+}
+
+/**
+ * True when the 7th edition 1.0× / 2.0× process outbreathing multiplier rests
+ * on a storage temperature within VAPOUR_PRESSURE_THRESHOLD_MARGIN of the
+ * 5 kPa crossing — a small temperature error would flip it.
+ */
+export function isNearVapourPressureThreshold(
+  input: CalculationInput,
+  vapourPressure: VapourPressureResult,
+): boolean {
+  const { thresholdTemperature } = vapourPressure
+  return (
+    input.apiEdition === "7TH" &&
+    thresholdTemperature !== undefined &&
+    Math.abs(input.avgStorageTemp - thresholdTemperature) <= VAPOUR_PRESSURE_THRESHOLD_MARGIN
+  )
+}
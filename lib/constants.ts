@@ -8,12 +8,17 @@ export const HEXANE_DEFAULTS = {
   latentHeat: 334.9, // kJ/kg
   relievingTemperature: 15.6, // °C
   molecularMass: 86.17, // g/mol
+  liquidDensity: 655, // kg/m³ — flash vapour mass flow
+  liquidHeatCapacity: 2.27, // kJ/kg·K — flash enthalpy balance
+  boilingPoint: 68.7, // °C — normal boiling point, flash onset
 } as const
 
 // ─── Fluid Classification Thresholds ─────────────────────────────────────────
 
 export const FLASH_POINT_THRESHOLD = 37.8 // °C — FP ≥ this → "low volatility"
 export const BOILING_POINT_THRESHOLD = 149 // °C — BP ≥ this → "low volatility"
+export const VAPOUR_PRESSURE_THRESHOLD = 5.0 // kPa(a) — 7th ed: VP > this → 2.0× process outbreathing
+export const VAPOUR_PRESSURE_THRESHOLD_MARGIN = 5 // K — warn when T_s is this close to the crossing
 
 // ─── Design Limits ────────────────────────────────────────────────────────────
 
@@ -24,12 +29,90 @@ export const MAX_DESIGN_PRESSURE_KPAG = 103.4  // kPag — error if exceeded
 export const EMERGENCY_VENT_PRESSURE_THRESHOLD = 7 // kPag
 export const CAPACITY_WARNING_M3 = 30_000 // m³ — warn if exceeded (outside table)
 export const WETTED_AREA_HEIGHT_CAP_MM = 9_144 // mm (30 ft) — cap for wetted area calc
+/** Minimum wetted area of a horizontal tank, as a fraction of its total surface (API 2000 §6.3) */
+export const HORIZONTAL_WETTED_AREA_MIN_FRACTION = 0.75
+/** Minimum wetted area of a sphere or spheroid, as a fraction of its total surface (API 2000 §6.3) */
+export const SPHERE_WETTED_AREA_MIN_FRACTION = 0.55
+
+// ─── Heated Tanks ─────────────────────────────────────────────────────────────
+// Thermal inbreathing of a tank held above ambient: a rainstorm cools the
+// shell + roof from the storage temperature, contracting the vapour space.
+
+/** Rainstorm film coefficient on the shell + roof (W/m²·K) */
+export const RAIN_COOLING_HTC = 10
+/** Molar heat capacity of air at constant pressure (J/mol·K) */
+export const AIR_MOLAR_HEAT_CAPACITY = 29.1
+/** Ideal-gas molar volume at 0 °C, 101.325 kPa (Nm³/mol) */
+export const NORMAL_MOLAR_VOLUME = 0.022414
+
+// ─── Site-Specific Thermal Venting ────────────────────────────────────────────
+// Heat-transfer model of the vapour space (calcSiteThermalVenting).
+
+/** Design peak solar flux on the shell + roof (W/m²) — clear-sky noon */
+export const DESIGN_SOLAR_FLUX = 1_000
+/** Outside film coefficient, wind-driven convection + radiation (W/m²·K) */
+export const OUTSIDE_AIR_HTC = 15
+/** Inside film coefficient, natural convection in the vapour space (W/m²·K) */
+export const VAPOUR_SPACE_HTC = 4
+
+// ─── Physical Constants ───────────────────────────────────────────────────────
+
+export const ATMOSPHERIC_PRESSURE_KPA = 101.325 // kPa(a) — atmospheric tank operating pressure
+export const GAS_CONSTANT = 8.314 // J/mol·K
+export const AIR_MOLECULAR_MASS = 28.96 // g/mol
+
+// ─── Gas Blow-Through ─────────────────────────────────────────────────────────
+
+/** Control valve gas sizing constant — Cv, kPa, Nm³/h at 0 °C (IEC 60534-2-1 N9) */
+export const VALVE_N9_CV = 21.2
+/** Pressure differential ratio factor x_T for a globe valve at full open (IEC 60534-2-1) */
+export const VALVE_XT = 0.72
+/** Discharge coefficient of a sharp-edged restriction orifice */
+export const ORIFICE_DISCHARGE_COEFF = 0.61
+/** Specific heat ratio k = c_p / c_v assumed for blow-through gas (light hydrocarbons) */
+export const GAS_SPECIFIC_HEAT_RATIO = 1.3
+
+// ─── Inert Gas Blanketing ─────────────────────────────────────────────────────
+
+/** Default blanket gas molecular mass — nitrogen (g/mol) */
+export const NITROGEN_MOLECULAR_MASS = 28.013
+/** Default blanket gas supply temperature (°C) */
+export const BLANKET_GAS_TEMPERATURE = 15
+
+// ─── Steam-Out ────────────────────────────────────────────────────────────────
+// A steamed-out tank holds saturated steam at atmospheric pressure; once the
+// supply stops, condensation on the cooling shell draws air in.
+
+/** Saturation temperature of steam at atmospheric pressure (°C) */
+export const STEAM_SATURATION_TEMP = 100
+/** Latent heat of condensation of steam at 100 °C (kJ/kg) */
+export const STEAM_LATENT_HEAT = 2_257
+/** Molecular mass of water (g/mol) */
+export const WATER_MOLECULAR_MASS = 18.015
+
+// ─── Heating Coil Rupture ──────────────────────────────────────────────────────
+
+/** Specific heat ratio k of steam */
+export const STEAM_SPECIFIC_HEAT_RATIO = 1.33
+/** Liquid heat capacity of a mineral hot oil (kJ/kg·K) */
+export const HOT_OIL_HEAT_CAPACITY = 2.3
 
 // ─── Tank Geometry ────────────────────────────────────────────────────────────
 
 /** Standard cone roof slope: h = D / 12 (1:12 ratio, verified against Excel) */
 export const CONE_ROOF_SLOPE = 12 // denominator: h_roof = diameter / CONE_ROOF_SLOPE
 
+/** Default dome / umbrella roof radius as a multiple of tank diameter (API 650 §5.10.6: 0.8D – 1.2D) */
+export const DOME_ROOF_RADIUS_FACTOR = 1.0
+/** Default number of radially-bent plates (gores) of an umbrella roof */
+export const UMBRELLA_ROOF_SEGMENTS = 16
+
+/** Default bottom slope, rise:run = 1:n (API 650 §5.4.4 minimum for coned bottoms: 1:120) */
+export const BOTTOM_SLOPE = 120 // denominator: cone drop = r / n, sloped drop = D / n
+
+/** Depth of a 2:1 ellipsoidal head as a fraction of diameter (h_head = D / 4) */
+export const ELLIPSOIDAL_HEAD_DEPTH_RATIO = 0.25
+
 // ─── Heat Input Coefficients (API 2000 §6.3) ─────────────────────────────────
 // Q = a × ATWS^n  (W)
 // Selected by wetted surface area (ATWS, m²) and design pressure (kPag).
@@ -28,10 +28,20 @@ const nanOptionalNonneg = z
 
 const geometrySchema = z
   .object({
+    tankShape: z.enum(["VERTICAL_CYLINDER", "HORIZONTAL_CYLINDER", "SPHERE", "SPHEROID"]).optional(),
+    headType: z.enum(["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"]).optional(),
     diameter: z.number().positive(),
     height: z.number().positive(),
+    elevation: nanOptionalNonneg,
+    maxLiquidLevel: nanOptionalPositive,
     latitude: z.number().gt(0).lte(90),
     designPressure: z.number().positive(),
+    roofType: z.enum(["CONE", "DOME", "UMBRELLA", "FLAT"]).optional(),
+    roofSlope: nanOptionalPositive,
+    roofRadius: nanOptionalPositive,
+    roofSegments: z.number().int().gte(3).optional().or(z.nan().transform(() => undefined)),
+    bottomProfile: z.enum(["FLAT", "CONE_DOWN", "CONE_UP", "SLOPED"]).optional(),
+    bottomSlope: nanOptionalPositive,
     tankConfiguration: z.nativeEnum(TankConfiguration),
     insulationThickness: nanOptionalPositive,
     insulationConductivity: nanOptionalPositive,
@@ -39,6 +49,13 @@ const geometrySchema = z
     insulatedSurfaceArea: nanOptionalNonneg,
   })
   .passthrough()
+  // A dome radius shorter than D/2 has no real cap height — hold geometry until fixed
+  .refine(
+    (d) =>
+      (d.roofType !== "DOME" && d.roofType !== "UMBRELLA") ||
+      d.roofRadius === undefined ||
+      d.roofRadius >= d.diameter / 2,
+  )
 
 /** Milliseconds of inactivity before the API call fires. */
 const DEBOUNCE_MS = 300
@@ -0,0 +1,70 @@
+import { interpolate } from "./interpolate"
+
+/**
+ * API 2000 Annex A thermal venting table (6th / 7th edition, ISO 28300 Table A.1).
+ *
+ * The informative annex keeps the tabulated method for tanks of known history
+ * as an alternative to the Y / C formulas. Keyed on tank capacity (m³):
+ *   [0] Thermal inbreathing                        (Nm³/h)
+ *   [1] Thermal outbreathing, FP ≥ 37.8 °C or BP ≥ 149 °C (Nm³/h)
+ *   [2] Thermal outbreathing, FP < 37.8 °C or BP < 149 °C (Nm³/h)
+ *
+ * Interpolated linearly between rows and clamped at the table boundaries, like
+ * the 5th edition table (normalVentTable).
+ */
+
+// [capacity m³, inbreathing Nm³/h, out FP ≥ 37.8 °C Nm³/h, out FP < 37.8 °C Nm³/h]
+type AnnexARow = readonly [number, number, number, number]
+
+const ANNEX_A_TABLE: readonly AnnexARow[] = [
+  [    10,    1.69,    1.01,    1.69],
+  [    20,    3.37,    2.02,    3.37],
+  [   100,   16.9,    10.1,    16.9 ],
+  [   200,   33.7,    20.2,    33.7 ],
+  [   300,   50.6,    30.3,    50.6 ],
+  [   500,   84.3,    50.6,    84.3 ],
+  [   700,  118,      70.8,   118   ],
+  [  1000,  169,     101,     169   ],
+  [  1500,  253,     152,     253   ],
+  [  2000,  337,     202,     337   ],
+  [  3000,  506,     303,     506   ],
+  [  3180,  536,     322,     536   ],
+  [  4000,  647,     388,     647   ],
+  [  5000,  787,     472,     787   ],
+  [  6000,  896,     538,     896   ],
+  [  7000, 1003,     602,    1003   ],
+  [  8000, 1077,     646,    1077   ],
+  [  9000, 1136,     682,    1136   ],
+  [ 10000, 1210,     726,    1210   ],
+  [ 12000, 1345,     807,    1345   ],
+  [ 14000, 1480,     888,    1480   ],
+  [ 16000, 1615,     969,    1615   ],
+  [ 18000, 1745,    1047,    1745   ],
+  [ 20000, 1877,    1126,    1877   ],
+  [ 25000, 2179,    1307,    2179   ],
+  [ 30000, 2495,    1497,    2495   ],
+]
+
+/** Extract a two-column [capacity, value] sub-table for the given column index (1, 2, or 3). */
+function buildColumn(colIdx: 1 | 2 | 3): readonly [number, number][] {
+  return ANNEX_A_TABLE.map((row) => [row[0], row[colIdx]] as [number, number])
+}
+
+const INBREATHING_COL  = buildColumn(1)
+const OUT_LOW_VOL_COL  = buildColumn(2)
+const OUT_OTHER_COL    = buildColumn(3)
+
+/** Annex A thermal inbreathing (Nm³/h) for a capacity (m³), before the reduction factor. */
+export function annexAInbreathing(capacityM3: number): number {
+  return interpolate(capacityM3, INBREATHING_COL)
+}
+
+/**
+ * Annex A thermal outbreathing (Nm³/h), before the reduction factor.
+ *
+ * @param capacityM3     Tank capacity (m³)
+ * @param lowVolatility  true → FP ≥ 37.8 °C or BP ≥ 149 °C column
+ */
+export function annexAOutbreathing(capacityM3: number, lowVolatility: boolean): number {
+  return interpolate(capacityM3, lowVolatility ? OUT_LOW_VOL_COL : OUT_OTHER_COL)
+}
@@ -0,0 +1,53 @@
+import type { ApiEdition, ClauseReferences } from "@/types"
+
+/**
+ * Clause references of each selectable standard, cited beside the results and
+ * in the report.
+ *
+ * API 2000 6th edition is the identical adoption of ISO 28300:2008, so the two
+ * share clause numbers and ISO 28300 is calculated with the 6th edition method
+ * (`equivalentTo`, shown beside the standard); the 7th edition keeps the non-refrigerated tank
+ * requirements in section 4 under the same numbers (section 3 is terms and
+ * definitions). The 5th edition tabulates thermal and emergency venting
+ * (Tables 2 and 3).
+ */
+const CLAUSES: Record<ApiEdition, ClauseReferences> = {
+  "5TH": {
+    standard: "API 2000 5th Edition",
+    liquidMovement: "4.3.2.1",
+    thermal: "4.3.2.2, Table 2",
+    emergency: "4.3.3, Table 3",
+    environmentalFactor: "4.3.3.3, Table 4",
+  },
+  "6TH": {
+    standard: "API 2000 6th Edition",
+    liquidMovement: "4.3.2.2",
+    thermal: "4.3.2.3",
+    emergency: "4.3.3",
+    environmentalFactor: "4.3.3.3",
+  },
+  "7TH": {
+    standard: "API 2000 7th Edition",
+    liquidMovement: "4.3.2.2",
+    thermal: "4.3.2.3",
+    emergency: "4.3.3",
+    environmentalFactor: "4.3.3.3",
+  },
+  ISO_28300: {
+    standard: "ISO 28300:2008",
+    equivalentTo: "API 2000 6th Edition",
+    liquidMovement: "4.3.2.2",
+    thermal: "4.3.2.3",
+    emergency: "4.3.3",
+    environmentalFactor: "4.3.3.3",
+  },
+}
+
+export function getClauseReferences(edition: ApiEdition): ClauseReferences {
+  return CLAUSES[edition]
+}
+
+/** Standard name with its equivalent, e.g. "ISO 28300:2008 (equivalent to API 2000 6th Edition)". */
+export function formatStandard({ standard, equivalentTo }: ClauseReferences): string {
+  return equivalentTo ? `${standard} (equivalent to ${equivalentTo})` : standard
+}
@@ -0,0 +1,135 @@
+import type { FluidCategory, FluidLibraryEntry } from "@/types"
+
+/**
+ * Fluid library — property sets of common stored liquids.
+ *
+ * Vapour pressure: log10(P / kPa) = A − B / (C + T / °C).
+ *   Chemicals — converted from the classic mmHg Antoine constants
+ *     (A_kPa = A_mmHg − log10(7.50062)); valid roughly between the normal
+ *     melting and boiling points.
+ *   Petroleum — the AP-42 §7.1 ln(P / psia) = A − B / (T / °R) fits
+ *     (crude grades from A = 12.82 − 0.9672 ln RVP, B = 7261 − 1216 ln RVP),
+ *     recast with C = 273.15.
+ *
+ * Emergency venting properties: latent heat at the normal boiling point,
+ * molecular mass of the vapour (AP-42 vapour molecular mass for petroleum)
+ * and, for pure chemicals, the critical temperature for the Watson
+ * correction. No relieving temperature — it is derived from the correlation
+ * at the relieving pressure. Typical values for screening — confirm against
+ * the fluid data sheet.
+ */
+export const FLUID_LIBRARY: readonly FluidLibraryEntry[] = [
+  // ── Petroleum ──────────────────────────────────────────────────────────────
+  {
+    id: "gasoline", name: "Gasoline (RVP 10)", category: "PETROLEUM",
+    vapourPressure: { form: "ANTOINE", a: 5.93019, b: 1263.6, c: 273.15 },
+    flashBoilingPointType: "FP", flashBoilingPoint: -43,
+    latentHeat: 350, molecularMass: 66,
+  },
+  {
+    id: "kerosene", name: "Kerosene / Jet A", category: "PETROLEUM",
+    vapourPressure: { form: "ANTOINE", a: 6.21943, b: 2155.3, c: 273.15 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 38,
+    latentHeat: 251, molecularMass: 130,
+  },
+  {
+    id: "diesel", name: "Diesel / Gas oil", category: "PETROLEUM",
+    vapourPressure: { form: "ANTOINE", a: 6.09392, b: 2149.0, c: 273.15 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 55,
+    latentHeat: 230, molecularMass: 130,
+  },
+  {
+    id: "crude-light", name: "Crude oil, light (RVP 10)", category: "PETROLEUM",
+    vapourPressure: { form: "ANTOINE", a: 5.43897, b: 1076.3, c: 273.15 },
+    flashBoilingPointType: "FP", flashBoilingPoint: -30,
+    latentHeat: 350, molecularMass: 50,
+  },
+  {
+    id: "crude-medium", name: "Crude oil, medium (RVP 5)", category: "PETROLEUM",
+    vapourPressure: { form: "ANTOINE", a: 5.73013, b: 1279.7, c: 273.15 },
+    flashBoilingPointType: "FP", flashBoilingPoint: -15,
+    latentHeat: 330, molecularMass: 50,
+  },
+  {
+    id: "crude-heavy", name: "Crude oil, heavy (RVP 2)", category: "PETROLEUM",
+    vapourPressure: { form: "ANTOINE", a: 6.11502, b: 1548.5, c: 273.15 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 10,
+    latentHeat: 300, molecularMass: 50,
+  },
+
+  // ── Chemicals ──────────────────────────────────────────────────────────────
+  {
+    id: "acetic-acid", name: "Acetic acid", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 6.51272, b: 1533.313, c: 222.309 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 39,
+    latentHeat: 395, molecularMass: 60.05, criticalTemperature: 319.6,
+  },
+  {
+    id: "acetone", name: "Acetone", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 6.14937, b: 1161.0, c: 224.0 },
+    flashBoilingPointType: "FP", flashBoilingPoint: -20,
+    latentHeat: 501, molecularMass: 58.08, criticalTemperature: 235.0,
+  },
+  {
+    id: "benzene", name: "Benzene", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 6.03055, b: 1211.033, c: 220.79 },
+    flashBoilingPointType: "FP", flashBoilingPoint: -11,
+    latentHeat: 393, molecularMass: 78.11, criticalTemperature: 288.9,
+  },
+  {
+    id: "ethanol", name: "Ethanol", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 7.32907, b: 1642.89, c: 230.3 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 13,
+    latentHeat: 838, molecularMass: 46.07, criticalTemperature: 240.9,
+  },
+  {
+    id: "hexane", name: "n-Hexane", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 6.00091, b: 1171.17, c: 224.41 },
+    flashBoilingPointType: "FP", flashBoilingPoint: -22,
+    latentHeat: 334.9, molecularMass: 86.17, criticalTemperature: 234.5,
+  },
+  {
+    id: "methanol", name: "Methanol", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 7.20587, b: 1582.271, c: 239.726 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 11,
+    latentHeat: 1100, molecularMass: 32.04, criticalTemperature: 239.4,
+  },
+  {
+    id: "toluene", name: "Toluene", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 6.07954, b: 1344.8, c: 219.482 },
+    flashBoilingPointType: "FP", flashBoilingPoint: 4,
+    latentHeat: 363, molecularMass: 92.14, criticalTemperature: 318.6,
+  },
+  {
+    id: "water", name: "Water", category: "CHEMICAL",
+    vapourPressure: { form: "ANTOINE", a: 7.19621, b: 1730.63, c: 233.426 },
+    flashBoilingPointType: "BP", flashBoilingPoint: 100,
+    latentHeat: 2257, molecularMass: 18.02, criticalTemperature: 374.0,
+  },
+]
+
+/** Display order and labels of the library groups. */
+export const FLUID_CATEGORY_LABELS: Record<FluidCategory, string> = {
+  PETROLEUM: "Petroleum",
+  CHEMICAL:  "Chemicals",
+  CUSTOM:    "Custom fluids",
+}
+
+/** Library entry by id, or undefined. */
+export function getFluid(id: string): FluidLibraryEntry | undefined {
+  return FLUID_LIBRARY.find((f) => f.id === id)
+}
+
+/**
+ * Entries whose name contains every word of the query (case-insensitive),
+ * built-in fluids first, then the given custom fluids.
+ */
+export function searchFluids(
+  query: string,
+  customFluids: readonly FluidLibraryEntry[] = [],
+): FluidLibraryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return [...FLUID_LIBRARY, ...customFluids].filter((f) =>
+    words.every((w) => f.name.toLowerCase().includes(w)),
+  )
+}
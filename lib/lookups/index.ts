@@ -3,4 +3,9 @@ export { getYFactor } from "./yFactor"
 export { getCFactor, isLowVolatility } from "./cFactor"
 export { getFFactorInsulated, getEnvironmentalFactor } from "./fFactor"
 export { normalVentInbreathing, normalVentOutbreathing } from "./normalVentTable"
+export { annexAInbreathing, annexAOutbreathing } from "./annexATable"
 export { emergencyVentTableLookup, EMERGENCY_VENT_TABLE_MAX_AREA_M2 } from "./emergencyVentTable"
+export { strappingVolumeAt, strappingLevelAt, strappingTop, parseStrappingCsv } from "./strapping"
+export { getClauseReferences, formatStandard } from "./clauses"
+export { getPaintAbsorptivity } from "./paintAbsorptivity"
+export { FLUID_LIBRARY, FLUID_CATEGORY_LABELS, getFluid, searchFluids } from "./fluids"
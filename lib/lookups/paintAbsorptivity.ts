@@ -0,0 +1,20 @@
+import type { ShellPaint } from "@/types"
+
+/**
+ * Solar absorptivity α of tank shell / roof paint finishes in good condition
+ * (US EPA AP-42 Chapter 7.1, Table 7.1-7). Aluminium is the specular finish;
+ * black is not tabulated there and taken at 0.97.
+ */
+const PAINT_ABSORPTIVITY: Record<ShellPaint, number> = {
+  WHITE:       0.17,
+  ALUMINIUM:   0.39,
+  LIGHT_GREY:  0.54,
+  MEDIUM_GREY: 0.68,
+  RED_PRIMER:  0.89,
+  BLACK:       0.97,
+}
+
+/** Solar absorptivity α (–) of a shell paint finish. */
+export function getPaintAbsorptivity(paint: ShellPaint): number {
+  return PAINT_ABSORPTIVITY[paint]
+}
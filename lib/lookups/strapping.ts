@@ -0,0 +1,65 @@
+import type { StrappingTable } from "@/types"
+import { interpolate } from "./interpolate"
+
+/**
+ * Tank strapping (gauge) table — calibrated liquid level vs. contained volume.
+ *
+ * When present on the input, the table is the source of truth for capacity,
+ * working volume and liquid height in place of the geometric formulas.
+ * Lookups interpolate linearly between points and clamp at the ends (no
+ * extrapolation), exactly like the API tables.
+ *
+ * Points are ordered by level (mm), strictly ascending in both level and
+ * volume (m³) — see `calculationInputSchema`.
+ */
+
+/** Contained volume (m³) at a liquid level (mm above the tank bottom). */
+export function strappingVolumeAt(table: StrappingTable, levelMm: number): number {
+  return interpolate(levelMm, table.points.map((p) => [p.level, p.volume] as [number, number]))
+}
+
+/** Liquid level (mm above the tank bottom) holding a given volume (m³). */
+export function strappingLevelAt(table: StrappingTable, volumeM3: number): number {
+  return interpolate(volumeM3, table.points.map((p) => [p.volume, p.level] as [number, number]))
+}
+
+/** Top of the table: the highest calibrated level (mm) and its volume (m³). */
+export function strappingTop(table: StrappingTable): { level: number; volume: number } {
+  return table.points[table.points.length - 1]
+}
+
+/**
+ * Parse a strapping CSV into a table.
+ *
+ * Accepted layout: one `level,volume` pair per line — level in mm, volume in m³.
+ * Comma, semicolon or tab separators; a non-numeric first line is treated as a
+ * header; blank lines are skipped. Rows are sorted by level.
+ *
+ * Throws an Error naming the offending line when a row cannot be read.
+ */
+export function parseStrappingCsv(text: string, source?: string): StrappingTable {
+  const lines = text.split(/\r?\n/)
+  const points: StrappingTable["points"] = []
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim()
+    if (line === "") return
+
+    const cells = line.split(/[,;\t]/).map((c) => c.trim())
+    const level = Number(cells[0])
+    const volume = Number(cells[1])
+
+    if (cells.length < 2 || !Number.isFinite(level) || !Number.isFinite(volume)) {
+      if (points.length === 0 && i === lines.findIndex((l) => l.trim() !== "")) return // header
+      throw new Error(`Strapping CSV line ${i + 1}: expected "level,volume", got "${line}"`)
+    }
+    points.push({ level, volume })
+  })
+
+  if (points.length < 2) {
+    throw new Error("Strapping CSV must contain at least two level,volume rows")
+  }
+
+  points.sort((a, b) => a.level - b.level)
+  return source === undefined ? { points } : { source, points }
+}
@@ -14,7 +14,68 @@ import {
   View,
   StyleSheet,
 } from "@react-pdf/renderer"
-import type { CalculationInput, CalculationResult } from "@/types"
+import type {
+  CalculationInput,
+  CalculationResult,
+  CoilRuptureResult,
+  ProcessCase,
+  ScenarioContribution,
+  ShellPaint,
+  Stream,
+  TankShape,
+  ThermalVentingMethod,
+  VapourPressureResult,
+  VentingCause,
+} from "@/types"
+import {
+  BOTTOM_SLOPE,
+  CONE_ROOF_SLOPE,
+  DOME_ROOF_RADIUS_FACTOR,
+  HEXANE_DEFAULTS,
+  NITROGEN_MOLECULAR_MASS,
+  RAIN_COOLING_HTC,
+  UMBRELLA_ROOF_SEGMENTS,
+} from "@/lib/constants"
+import { strappingTop } from "@/lib/lookups/strapping"
+import { getPaintAbsorptivity } from "@/lib/lookups/paintAbsorptivity"
+import { getFluid } from "@/lib/lookups/fluids"
+import { formatStandard } from "@/lib/lookups/clauses"
+import { VENTING_CAUSES } from "@/lib/calculations/scenarios"
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+const SHAPE_LABELS: Record<TankShape, string> = {
+  VERTICAL_CYLINDER:   "Vertical Cylinder",
+  HORIZONTAL_CYLINDER: "Horizontal Cylinder",
+  SPHERE:              "Sphere",
+  SPHEROID:            "Spheroid",
+}
+
+const THERMAL_VENTING_METHOD_LABELS: Record<ThermalVentingMethod, string> = {
+  FORMULA:       "Y / C formulas",
+  ANNEX_A:       "Annex A tables",
+  SITE_SPECIFIC: "Site-specific heat-transfer model",
+}
+
+const SHELL_PAINT_LABELS: Record<ShellPaint, string> = {
+  WHITE:       "White",
+  ALUMINIUM:   "Aluminium",
+  LIGHT_GREY:  "Light grey",
+  MEDIUM_GREY: "Medium grey",
+  RED_PRIMER:  "Red primer",
+  BLACK:       "Black",
+}
+
+const CAUSE_LABELS: Record<VentingCause, string> = {
+  FILLING:               "Filling",
+  EMPTYING:              "Emptying",
+  THERMAL:               "Thermal o/i",
+  CONTROL_VALVE_FAILURE: "CV Failure",
+  DRAIN:                 "Drain",
+  STEAM_OUT:             "Steam-out",
+  BLANKET_FAILURE:       "Blanket failure",
+  COIL_RUPTURE:          "Coil rupture",
+}
 
 // ─── Styles ───────────────────────────────────────────────────────────────────
 
@@ -135,6 +196,35 @@ function SectionTitle({ children }: { children: string }) {
   return <Text style={s.sectionTitle}>{children}</Text>
 }
 
+/** Stream numbers of each simultaneity group, in input order. */
+function groupStreams(streams: Stream[]): [string, string[]][] {
+  const groups = new Map<string, string[]>()
+  for (const { streamNo, simultaneityGroup } of streams) {
+    const group = simultaneityGroup?.trim()
+    if (group) groups.set(group, [...(groups.get(group) ?? []), streamNo])
+  }
+  return [...groups]
+}
+
+function streamList(processCase: ProcessCase): string {
+  return processCase.running.map((r) => r.streamNo || "—").join(" + ")
+}
+
+function contributionText({ outbreathing, inbreathing }: ScenarioContribution): string {
+  if (outbreathing > 0 && inbreathing > 0) return `${outbreathing.toFixed(1)} / ${inbreathing.toFixed(1)}`
+  return (outbreathing || inbreathing).toFixed(1)
+}
+
+function coilFluidText({ fluid, massFlow, choked }: CoilRuptureResult): string {
+  return `${fluid === "STEAM" ? "steam" : "hot oil"} ${massFlow.toFixed(0)} kg/h${choked ? ", choked" : ""}`
+}
+
+function vapourPressureSourceText({ source, fluidName, thresholdTemperature }: VapourPressureResult): string {
+  const form = source === "DIPPR" ? "DIPPR 101" : "Antoine"
+  const crossing = thresholdTemperature !== undefined ? `; 5 kPa at ${thresholdTemperature.toFixed(1)} °C` : ""
+  return `${form}${fluidName ? ` (${fluidName})` : ""} at storage temp${crossing}`
+}
+
 // ─── Document ─────────────────────────────────────────────────────────────────
 
 interface ReportProps {
@@ -143,17 +233,36 @@ interface ReportProps {
 }
 
 export function CalculationReport({ input, result }: ReportProps) {
-  const { derived, normalVenting, emergencyVenting, drainInbreathing, summary, warnings } = result
+  const {
+    derived,
+    normalVenting,
+    emergencyVenting,
+    drainInbreathing,
+    blowThrough,
+    steamOut,
+    blanketing,
+    summary,
+    vapourFlows,
+    warnings,
+  } = result
   const now = new Date(result.calculatedAt).toLocaleString()
+  const tankShape    = input.tankShape ?? "VERTICAL_CYLINDER"
+  const isVertical   = tankShape === "VERTICAL_CYLINDER"
+  const isHorizontal = tankShape === "HORIZONTAL_CYLINDER"
+  const isSpherical  = tankShape === "SPHERE" || tankShape === "SPHEROID"
 
   const incomingTotal  = input.incomingStreams.reduce((s, r) => s + r.flowrate, 0)
   const outgoingTotal  = input.outgoingStreams.reduce((s, r) => s + r.flowrate, 0)
+  const streamGroups   = groupStreams([...input.incomingStreams, ...input.outgoingStreams])
+  const scenarioCauses = VENTING_CAUSES.filter((cause) =>
+    result.scenarios?.some((sc) => sc.contributions.some((c) => c.cause === cause)),
+  )
 
   return (
     <Document
       title={`Venting Calc — ${input.tankNumber}`}
       author="Tank Venting Calculator"
-      subject="API 2000 Venting Calculation Report"
+      subject={`${result.clauses.standard} Venting Calculation Report`}
     >
       <Page size="A4" style={s.page}>
 
@@ -162,7 +271,7 @@ export function CalculationReport({ input, result }: ReportProps) {
           <View>
             <Text style={s.headerTitle}>Tank Venting Calculation</Text>
             <Text style={s.headerSub}>
-              API 2000 {result.apiEdition} Edition — Atmospheric & Low Pressure Storage Tanks
+              {result.clauses.standard} — Atmospheric & Low Pressure Storage Tanks
             </Text>
           </View>
           <View style={{ alignItems: "flex-end" }}>
@@ -188,18 +297,82 @@ export function CalculationReport({ input, result }: ReportProps) {
             <Text>ℹ  Hexane defaults used for latent heat / relieving temperature / molecular mass.</Text>
           </View>
         )}
+        {warnings.vapourPressureNearThreshold && (
+          <View style={s.warning}>
+            <Text>
+              ⚠  Storage temperature within 5 K of the 5 kPa vapour pressure crossing
+              ({result.vapourPressure.thresholdTemperature?.toFixed(1)} °C) — 7th edition outbreathing factor is sensitive.
+            </Text>
+          </View>
+        )}
 
         {/* ── Section I: Inputs ──────────────────────────────────────────── */}
         <SectionTitle>Section I — Input Parameters</SectionTitle>
 
         <KV label="Tank Number"            value={input.tankNumber} />
         {input.description && <KV label="Description" value={input.description} />}
-        <KV label="API Edition"            value={result.apiEdition} />
+        <KV label="Standard"               value={formatStandard(result.clauses)} />
+        {normalVenting.thermalVentingMethod === "SITE_SPECIFIC" && (
+          <>
+            <KV label="Site — Ambient Swing"   value={input.ambientTempSwing ?? "—"} unit="K" />
+            {input.shellPaint && (
+              <KV label="Site — Shell Paint"   value={`${SHELL_PAINT_LABELS[input.shellPaint]} (α = ${getPaintAbsorptivity(input.shellPaint)})`} />
+            )}
+            <KV label="Site — Rain Cooling"    value={input.rainCoolingHtc ?? "10 (default)"} unit="W/m²·K" />
+          </>
+        )}
+        <KV label="Tank Shape"             value={SHAPE_LABELS[tankShape]} />
+        {isHorizontal && <KV label="Head Type" value={input.headType ?? "ELLIPSOIDAL_2_1"} />}
         <KV label="Tank Diameter (D)"      value={input.diameter}       unit="mm" />
-        <KV label="Tank Height (H, TL-TL)" value={input.height}         unit="mm" />
+        {tankShape !== "SPHERE" && (
+          <KV label={isHorizontal ? "Tank Length (L, TL-TL)" : isSpherical ? "Polar Height (H)" : "Tank Height (H, TL-TL)"} value={input.height} unit="mm" />
+        )}
+        <KV label={isSpherical ? "Support Height" : "Elevation Above Grade"} value={input.elevation ?? 0} unit="mm" />
+        <KV label="Max Liquid Level"       value={input.maxLiquidLevel ?? "Liquid-full"} unit={input.maxLiquidLevel !== undefined ? "mm" : undefined} />
+        {input.nominalCapacity !== undefined && (
+          <KV label="Nominal Capacity"       value={input.nominalCapacity} unit="m³" />
+        )}
+        {input.highHighLiquidLevel !== undefined && (
+          <KV label="High-High Liquid Level" value={input.highHighLiquidLevel} unit="mm" />
+        )}
+        {input.ullage !== undefined && (
+          <KV label="Ullage"                 value={input.ullage} unit="m³" />
+        )}
+        {input.strappingTable && (
+          <>
+            <KV label="Strapping Table"        value={input.strappingTable.source ?? "Imported"} />
+            <KV label="  Calibration Points"   value={input.strappingTable.points.length} />
+            <KV label="  Top Level"            value={strappingTop(input.strappingTable).level} unit="mm" />
+            <KV label="  Top Volume"           value={strappingTop(input.strappingTable).volume.toFixed(2)} unit="m³" />
+          </>
+        )}
+        {isVertical && (
+          <>
+            <KV label="Roof Type"              value={input.roofType ?? "CONE"} />
+            {(input.roofType ?? "CONE") === "CONE" && (
+              <KV label="Roof Slope (1:n)"     value={input.roofSlope ?? CONE_ROOF_SLOPE} />
+            )}
+            {(input.roofType === "DOME" || input.roofType === "UMBRELLA") && (
+              <KV label="Roof Radius (R)"      value={input.roofRadius ?? input.diameter * DOME_ROOF_RADIUS_FACTOR} unit="mm" />
+            )}
+            {input.roofType === "UMBRELLA" && (
+              <KV label="Roof Plates (N)"      value={input.roofSegments ?? UMBRELLA_ROOF_SEGMENTS} />
+            )}
+            <KV label="Bottom Profile"         value={input.bottomProfile ?? "FLAT"} />
+            {(input.bottomProfile ?? "FLAT") !== "FLAT" && (
+              <KV label="Bottom Slope (1:n)"   value={input.bottomSlope ?? BOTTOM_SLOPE} />
+            )}
+          </>
+        )}
         <KV label="Site Latitude"          value={input.latitude}       unit="°" />
         <KV label="Design Pressure"        value={input.designPressure} unit="kPag" />
         <KV label="Tank Configuration"     value={input.tankConfiguration} />
+        {isVertical && input.floatingRoofType !== undefined && (
+          <KV label="Roof Construction"      value={input.floatingRoofType} />
+        )}
+        {isVertical && input.roofLegHeight !== undefined && (
+          <KV label="Roof Leg Height"        value={input.roofLegHeight} unit="mm" />
+        )}
 
         {(input.insulationThickness || input.insulationConductivity) && (
           <>
@@ -210,25 +383,133 @@ export function CalculationReport({ input, result }: ReportProps) {
           </>
         )}
 
+        {input.fluidName && (
+          <KV label="Fluid"                     value={`${input.fluidName} (${input.fluidId && getFluid(input.fluidId) ? "library" : "custom"} properties)`} />
+        )}
         <KV label="Average Storage Temperature" value={input.avgStorageTemp}    unit="°C" />
-        <KV label="Vapour Pressure"             value={input.vapourPressure}    unit="kPa" />
+        {input.storageCondition === "HEATED" && (
+          <>
+            <KV label="Heated Tank — Design Ambient" value={input.ambientTemp ?? "—"} unit="°C" />
+            <KV label="  Rain Cooling"               value={input.rainCoolingHtc ?? `${RAIN_COOLING_HTC} (default)`} unit="W/m²·K" />
+          </>
+        )}
+        <KV label="Vapour Pressure"             value={result.vapourPressure.value.toFixed(3)} unit="kPa" />
+        {result.vapourPressure.source !== "INPUT" && (
+          <KV label="  Source"                  value={vapourPressureSourceText(result.vapourPressure)} />
+        )}
         <KV label={`${input.flashBoilingPointType === "FP" ? "Flash Point" : "Boiling Point"}`}
             value={input.flashBoilingPoint ?? "—"} unit="°C" />
-        <KV label="Latent Heat (L)"             value={input.latentHeat         ?? `${334.9} (Hexane default)`} unit="kJ/kg" />
-        <KV label="Relieving Temperature (T_r)" value={input.relievingTemperature ?? `${15.6} (Hexane default)`}  unit="°C" />
-        <KV label="Molecular Mass (M)"          value={input.molecularMass      ?? `${86.17} (Hexane default)`} unit="g/mol" />
+        {emergencyVenting.mixture ? (
+          <KV label="Fluid Mixture"             value={emergencyVenting.mixture.components.map((c) => c.name).join(", ")} />
+        ) : (
+          <>
+            <KV label="Latent Heat (L)"             value={input.latentHeat         ?? `${HEXANE_DEFAULTS.latentHeat} (Hexane default)`} unit="kJ/kg" />
+            <KV label="Relieving Temperature (T_r)" value={input.relievingTemperature ?? (emergencyVenting.relievingConditions
+              ? `${emergencyVenting.relievingConditions.relievingTemperature.toFixed(1)} (derived)`
+              : `${HEXANE_DEFAULTS.relievingTemperature} (Hexane default)`)}  unit="°C" />
+            <KV label="Molecular Mass (M)"          value={input.molecularMass      ?? `${HEXANE_DEFAULTS.molecularMass} (Hexane default)`} unit="g/mol" />
+          </>
+        )}
+        {input.criticalTemperature !== undefined && (
+          <KV label="Critical Temperature (T_c)" value={input.criticalTemperature} unit="°C" />
+        )}
+        {input.emergencyOverpressure !== undefined && (
+          <KV label="Allowable Overpressure"     value={input.emergencyOverpressure} unit="% of DP" />
+        )}
         <KV label="Total Incoming Streams"      value={incomingTotal.toFixed(3)} unit="m³/h" />
         <KV label="Total Outgoing Streams"      value={outgoingTotal.toFixed(3)} unit="m³/h" />
+        {streamGroups.map(([group, streamNos]) => (
+          <KV key={group} label={`  Simultaneity Group ${group}`} value={`${streamNos.join(", ")} (one at a time)`} />
+        ))}
+        {input.incomingStreams
+          .filter((r) => r.flashFraction !== undefined || r.temperature !== undefined || r.pressure !== undefined)
+          .map((r) => (
+            <KV
+              key={r.streamNo}
+              label={`  Hot Feed ${r.streamNo}`}
+              value={
+                (r.flashFraction !== undefined
+                  ? `flash fraction ${r.flashFraction}`
+                  : r.temperature !== undefined
+                    ? `${r.temperature} °C at the inlet`
+                    : `saturated at ${r.pressure} kPa(a)`) +
+                (r.composition?.length
+                  ? `, ${r.composition.map((c) => `${getFluid(c.fluidId)?.name ?? c.fluidId} ${c.fraction}`).join(" / ")}`
+                  : "")
+              }
+            />
+          ))}
+        {input.compartments?.length ? (
+          <>
+            <KV label="Compartments"                value={input.compartments.length} />
+            <KV label="  Vapour Space"              value={input.vapourSpaceMode ?? "SHARED"} />
+            {input.compartments.map((c) => (
+              <KV
+                key={c.name}
+                label={`  ${c.name}`}
+                value={`${c.capacity} m³, Pv ${c.vapourPressure} kPa, in ${c.incomingStreams.reduce((s, r) => s + r.flowrate, 0).toFixed(3)} / out ${c.outgoingStreams.reduce((s, r) => s + r.flowrate, 0).toFixed(3)} m³/h`}
+              />
+            ))}
+          </>
+        ) : null}
         {input.drainLineSize        && <KV label="Drain Line Size"          value={input.drainLineSize}        unit="mm" />}
         {input.maxHeightAboveDrain  && <KV label="Max Height Above Drain"   value={input.maxHeightAboveDrain}  unit="mm" />}
+        {input.coilFluid !== undefined && (
+          <>
+            <KV label="Heating Coil Fluid"             value={input.coilFluid === "STEAM" ? "Steam" : "Hot oil"} />
+            <KV label="  Coil Pressure / Tube ID"      value={`${input.coilPressure ?? "—"} kPa(a) / ${input.coilTubeDiameter ?? "—"} mm`} />
+            <KV label="  Fluid Temperature"            value={input.coilFluidTemperature ?? "saturated"} unit={input.coilFluidTemperature !== undefined ? "°C" : undefined} />
+            {input.coilFluidDensity !== undefined && (
+              <KV label="  Oil Density"                value={input.coilFluidDensity} unit="kg/m³" />
+            )}
+          </>
+        )}
+        {input.steamOutRate !== undefined && (
+          <>
+            <KV label="Steam-Out Steam Rate"         value={input.steamOutRate} unit="kg/h" />
+            <KV label="  Cooling To / Coefficient"   value={`${input.steamOutAmbientTemp ?? "—"} °C / ${input.steamOutCoolingHtc ?? "10 (default)"} W/m²·K`} />
+          </>
+        )}
+        {input.blowThroughPressure !== undefined && (
+          <>
+            <KV label="Blow-Through Upstream Pressure" value={input.blowThroughPressure} unit="kPa(a)" />
+            {input.blowThroughCv !== undefined
+              ? <KV label="  Valve Cv"                 value={input.blowThroughCv} />
+              : <KV label="  Orifice Bore"             value={input.blowThroughOrifice ?? "—"} unit="mm" />}
+            <KV label="  Gas MW / Temperature"         value={`${input.blowThroughMolecularMass ?? `${NITROGEN_MOLECULAR_MASS} (N₂)`} g/mol / ${input.blowThroughTemperature ?? "—"} °C`} />
+          </>
+        )}
+        {input.blanketed && (
+          <>
+            <KV label="Inert Gas Blanketing"           value="Yes" />
+            {input.blanketRegulatorCv !== undefined && (
+              <KV label="  Regulator Cv / Supply"      value={`${input.blanketRegulatorCv} / ${input.blanketSupplyPressure ?? "—"} kPa(a)`} />
+            )}
+            <KV label="  Gas MW / Temperature"         value={`${input.blanketGasMolecularMass ?? "28.013 (nitrogen)"} g/mol / ${input.blanketGasTemperature ?? 15} °C`} />
+          </>
+        )}
 
         {/* ── Section II: Calculations ────────────────────────────────────── */}
         <SectionTitle>Section II — Calculation Results</SectionTitle>
 
         <KV label="Max Tank Volume (V)"       value={derived.maxTankVolume.toFixed(2)}       unit="m³" />
-        <KV label="Shell Surface Area"        value={derived.shellSurfaceArea.toFixed(2)}    unit="m²" />
-        <KV label="Cone Roof Area"            value={derived.coneRoofArea.toFixed(2)}        unit="m²" />
+        <KV label={isSpherical ? "Body Surface Area" : "Shell Surface Area"} value={derived.shellSurfaceArea.toFixed(2)} unit="m²" />
+        {isHorizontal && (
+          <>
+            <KV label="Head Area (both)"      value={derived.headArea.toFixed(2)}            unit="m²" />
+            <KV label="Head Volume (both)"    value={derived.headVolume.toFixed(2)}          unit="m³" />
+          </>
+        )}
+        {isVertical && (
+          <>
+            <KV label="Roof Area"             value={derived.roofArea.toFixed(2)}            unit="m²" />
+            <KV label="Roof Volume"           value={derived.roofVolume.toFixed(2)}          unit="m³" />
+            <KV label="Bottom Area"           value={derived.bottomArea.toFixed(2)}          unit="m²" />
+            <KV label="Bottom Volume"         value={derived.bottomVolume.toFixed(2)}        unit="m³" />
+          </>
+        )}
         <KV label="Total Surface Area"        value={derived.totalSurfaceArea.toFixed(2)}    unit="m²" />
+        <KV label="Wetted Height"             value={derived.wettedHeight.toFixed(0)}        unit="mm" />
         <KV label="Wetted Area (ATWS)"        value={derived.wettedArea.toFixed(2)}          unit="m²" />
         <KV label="Reduction Factor (R)"      value={derived.reductionFactor.toFixed(6)}     />
 
@@ -236,33 +517,192 @@ export function CalculationReport({ input, result }: ReportProps) {
         <Text style={{ marginTop: 8, marginBottom: 3, fontFamily: "Helvetica-Bold", fontSize: 9 }}>
           Normal Venting
         </Text>
+        <KV label="  Liquid Movement Clause"  value={result.clauses.liquidMovement} />
+        <KV label="  Thermal Clause"          value={result.clauses.thermal} />
+        {normalVenting.thermalVentingMethod && (
+          <KV label="  Thermal Venting Method" value={THERMAL_VENTING_METHOD_LABELS[normalVenting.thermalVentingMethod]} />
+        )}
+        <KV label="Thermal Capacity (V_tk)"   value={normalVenting.capacity.value.toFixed(2)} unit="m³" />
+        <KV label="  Capacity Basis"          value={normalVenting.capacity.basis} />
+        {normalVenting.capacity.level !== undefined && (
+          <KV label="  Liquid Level at V_tk"    value={normalVenting.capacity.level.toFixed(0)} unit="mm" />
+        )}
         <KV label="Process Outbreathing"      value={normalVenting.outbreathing.processFlowrate.toFixed(2)} unit="Nm³/h" />
+        {normalVenting.outbreathing.processCase.running.length > 0 && (
+          <KV label="  Governing Streams"     value={streamList(normalVenting.outbreathing.processCase)} />
+        )}
+        {normalVenting.outbreathing.flashFlowrate > 0 && (
+          <KV label="Flash Vapour (Hot Feed)"  value={normalVenting.outbreathing.flashFlowrate.toFixed(2)} unit="Nm³/h" />
+        )}
         <KV label="Thermal Outbreathing"      value={normalVenting.outbreathing.thermalOutbreathing.toFixed(2)} unit="Nm³/h" />
-        {(result.apiEdition === "6TH" || result.apiEdition === "7TH") && (
+        {normalVenting.thermalVentingMethod === "FORMULA" && (
           <KV label="  Y-factor"              value={normalVenting.outbreathing.yFactor} />
         )}
+        {normalVenting.outbreathing.codeThermalOutbreathing !== undefined && (
+          <KV label={`  Code Formula (Y = ${normalVenting.outbreathing.yFactor})`} value={normalVenting.outbreathing.codeThermalOutbreathing.toFixed(2)} unit="Nm³/h" />
+        )}
+        {normalVenting.coilRupture && !normalVenting.roofLanded && (
+          <KV label={`Coil Rupture (${coilFluidText(normalVenting.coilRupture)})`} value={normalVenting.outbreathing.coilRuptureFlowrate.toFixed(2)} unit="Nm³/h" />
+        )}
         <KV label="Total Outbreathing"        value={normalVenting.outbreathing.total.toFixed(2)} unit="Nm³/h" />
         <KV label="Process Inbreathing"       value={normalVenting.inbreathing.processFlowrate.toFixed(2)} unit="Nm³/h" />
+        {normalVenting.inbreathing.processCase.running.length > 0 && (
+          <KV label="  Governing Streams"     value={streamList(normalVenting.inbreathing.processCase)} />
+        )}
         <KV label="Thermal Inbreathing"       value={normalVenting.inbreathing.thermalInbreathing.toFixed(2)} unit="Nm³/h" />
-        {(result.apiEdition === "6TH" || result.apiEdition === "7TH") && (
+        {normalVenting.thermalVentingMethod === "FORMULA" && (
           <KV label="  C-factor"              value={normalVenting.inbreathing.cFactor} />
         )}
+        {normalVenting.inbreathing.codeThermalInbreathing !== undefined && (
+          <KV label={`  Code Formula (C = ${normalVenting.inbreathing.cFactor})`} value={normalVenting.inbreathing.codeThermalInbreathing.toFixed(2)} unit="Nm³/h" />
+        )}
+        <KV label="  Thermal Method"          value={normalVenting.inbreathing.thermalMethod} />
         <KV label="Total Inbreathing"         value={normalVenting.inbreathing.total.toFixed(2)} unit="Nm³/h" />
+        {normalVenting.roofLanded && (
+          <>
+            <KV label="Roof Landed — Vapour Space"  value={normalVenting.roofLanded.vapourSpaceVolume.toFixed(2)} unit="m³" />
+            {normalVenting.coilRupture && (
+              <KV label={`  Landed Coil Rupture (${coilFluidText(normalVenting.coilRupture)})`} value={normalVenting.roofLanded.outbreathing.coilRuptureFlowrate.toFixed(2)} unit="Nm³/h" />
+            )}
+            <KV label="  Landed Outbreathing"       value={normalVenting.roofLanded.outbreathing.total.toFixed(2)} unit="Nm³/h" />
+            <KV label="  Landed Inbreathing"        value={normalVenting.roofLanded.inbreathing.total.toFixed(2)} unit="Nm³/h" />
+          </>
+        )}
+        {normalVenting.compartments?.map((c) => (
+          <KV
+            key={c.name}
+            label={`Compartment ${c.name}`}
+            value={`out ${c.outbreathing.total.toFixed(2)} / in ${c.inbreathing.total.toFixed(2)}`}
+            unit="Nm³/h"
+          />
+        ))}
+        {summary.governingCompartment && (
+          <>
+            <KV label="Governing Compartment — Out" value={summary.governingCompartment.outbreathing} />
+            <KV label="Governing Compartment — In"  value={summary.governingCompartment.inbreathing} />
+          </>
+        )}
+        {blowThrough && (
+          <KV
+            label={`Gas Blow-Through (${blowThrough.restriction}${blowThrough.choked ? ", choked" : ""})`}
+            value={blowThrough.flowrate.toFixed(2)}
+            unit="Nm³/h"
+          />
+        )}
         {drainInbreathing !== undefined && (
           <KV label="Drain System Inbreathing" value={drainInbreathing.toFixed(2)} unit="Nm³/h" />
         )}
+        {steamOut && (
+          <>
+            <KV label="Steam-Out Inbreathing"     value={steamOut.inbreathing.toFixed(2)} unit="Nm³/h" />
+            <KV label="  Condensing Rate"         value={`${steamOut.condensingRate.toFixed(0)} (${steamOut.basis === "COOLING" ? "shell cooling" : "steam rate"})`} unit="kg/h" />
+            <KV label="  Steam Inventory / Time"  value={`${steamOut.steamInventory.toFixed(0)} kg / ${steamOut.condensingTime.toFixed(2)} h`} />
+          </>
+        )}
+        {blanketing && (
+          <>
+            <KV label="Blanketing Regulator Capacity" value={`${blanketing.requiredCapacity.toFixed(2)} (${blanketing.requiredMassFlow.toFixed(2)} kg/h)`} unit="Nm³/h" />
+            <KV label="  Air-Equivalent Demand" value={blanketing.airEquivalent.toFixed(2)} unit="Nm³/h" />
+            {blanketing.failure && (
+              <KV
+                label={`  Failed-Open Outbreathing${blanketing.failure.choked ? " (choked)" : ""}`}
+                value={blanketing.failure.outbreathing.toFixed(2)}
+                unit="Nm³/h"
+              />
+            )}
+          </>
+        )}
 
         {/* Emergency venting */}
         <Text style={{ marginTop: 8, marginBottom: 3, fontFamily: "Helvetica-Bold", fontSize: 9 }}>
           Emergency Venting (Fire Exposure)
         </Text>
+        <KV label="  Emergency Clause"         value={result.clauses.emergency} />
+        <KV label="  Env. Factor Clause"       value={result.clauses.environmentalFactor} />
         <KV label="Heat Input Coefficient (a)" value={emergencyVenting.coefficients.a.toLocaleString()} />
         <KV label="Heat Input Exponent (n)"    value={emergencyVenting.coefficients.n} />
         <KV label="Heat Input Q = a × ATWS^n"  value={emergencyVenting.heatInput.toFixed(0)} unit="W" />
         <KV label="Environmental Factor (F)"   value={emergencyVenting.environmentalFactor.toFixed(4)} />
-        <KV label="Reference Fluid"            value={emergencyVenting.referenceFluid} />
+        <KV label="Reference Fluid"            value={emergencyVenting.mixture ? "Mixture" : emergencyVenting.referenceFluid} />
+        {emergencyVenting.mixture && (
+          <>
+            {emergencyVenting.mixture.components.map((c) => (
+              <KV
+                key={c.fluidId}
+                label={`  ${c.name}`}
+                value={`x = ${c.moleFraction.toFixed(3)}, w = ${c.massFraction.toFixed(3)}, P = ${c.vapourPressure.toFixed(1)} kPa`}
+              />
+            ))}
+            <KV label="  Mixture M = Σ x·M"        value={emergencyVenting.mixture.molecularMass.toFixed(2)} unit="g/mol" />
+            <KV label="  Mixture L = Σ w·L"        value={emergencyVenting.mixture.latentHeat.toFixed(1)} unit="kJ/kg" />
+            <KV label={`  T_r = Bubble Point at ${emergencyVenting.mixture.relievingPressure.toFixed(1)} kPa a`}
+                value={`${emergencyVenting.mixture.bubbleTemperature.toFixed(1)} (derived)`} unit="°C" />
+          </>
+        )}
+        {emergencyVenting.relievingConditions && (
+          <>
+            <KV label="  Relieving Pressure (DP + OP)" value={emergencyVenting.relievingConditions.relievingPressure.toFixed(1)} unit="kPa a" />
+            <KV label="  T_r = Boiling Point at P_r"   value={`${emergencyVenting.relievingConditions.relievingTemperature.toFixed(1)} (derived)`} unit="°C" />
+            {emergencyVenting.relievingConditions.latentHeat !== undefined && emergencyVenting.relievingConditions.normalBoilingPoint !== undefined && (
+              <KV label={`  L Watson from ${emergencyVenting.relievingConditions.normalBoilingPoint.toFixed(1)} °C`}
+                  value={`${emergencyVenting.relievingConditions.latentHeat.toFixed(1)} (derived)`} unit="kJ/kg" />
+            )}
+          </>
+        )}
         <KV label="Emergency Vent Required"    value={emergencyVenting.emergencyVentRequired.toFixed(2)} unit="Nm³/h" />
 
+        {/* Scenario matrix — Nm³/h per cause, governing totals in bold */}
+        {result.scenarios && summary.governingScenario && (
+          <>
+            <Text style={{ marginTop: 8, marginBottom: 3, fontFamily: "Helvetica-Bold", fontSize: 9 }}>
+              Scenario Matrix (Nm³/h)
+            </Text>
+            <View style={s.tableHeader}>
+              <Text style={[s.tableHeaderCell, { flex: 2 }]}>Scenario</Text>
+              {scenarioCauses.map((cause) => (
+                <Text key={cause} style={[s.tableHeaderCell, { flex: 1, textAlign: "right" }]}>
+                  {CAUSE_LABELS[cause]}
+                </Text>
+              ))}
+              <Text style={[s.tableHeaderCell, { flex: 1, textAlign: "right" }]}>Out</Text>
+              <Text style={[s.tableHeaderCell, { flex: 1, textAlign: "right" }]}>In</Text>
+            </View>
+            {result.scenarios.map((sc, i) => (
+              <View key={sc.name} style={i % 2 ? [s.tableRow, s.tableRowAlt] : s.tableRow}>
+                <Text style={{ flex: 2 }}>{sc.name}</Text>
+                {scenarioCauses.map((cause) => {
+                  const contribution = sc.contributions.find((c) => c.cause === cause)
+                  return (
+                    <Text key={cause} style={{ flex: 1, textAlign: "right", color: GRAY_B }}>
+                      {contribution ? contributionText(contribution) : "—"}
+                    </Text>
+                  )
+                })}
+                <Text
+                  style={{
+                    flex: 1,
+                    textAlign: "right",
+                    fontFamily: sc.name === summary.governingScenario?.outbreathing ? "Helvetica-Bold" : "Helvetica",
+                  }}
+                >
+                  {sc.outbreathing.toFixed(2)}
+                </Text>
+                <Text
+                  style={{
+                    flex: 1,
+                    textAlign: "right",
+                    fontFamily: sc.name === summary.governingScenario?.inbreathing ? "Helvetica-Bold" : "Helvetica",
+                  }}
+                >
+                  {sc.inbreathing.toFixed(2)}
+                </Text>
+              </View>
+            ))}
+            <KV label="Governing Scenario — Out" value={summary.governingScenario.outbreathing} />
+            <KV label="Governing Scenario — In"  value={summary.governingScenario.inbreathing} />
+          </>
+        )}
+
         {/* ── Summary Banner ──────────────────────────────────────────────── */}
         <View style={s.summaryBox}>
           <View style={s.summaryItem}>
@@ -282,9 +722,33 @@ export function CalculationReport({ input, result }: ReportProps) {
           </View>
         </View>
 
+        {/* Air-equivalent beside the actual gas behind each design case */}
+        <Text style={{ marginTop: 8, marginBottom: 3, fontFamily: "Helvetica-Bold", fontSize: 9 }}>
+          Actual Vapour Flow (M {vapourFlows.molecularMass} g/mol; outbreathing at T_s {vapourFlows.storageTemperature} °C,
+          emergency at T_r {vapourFlows.relievingTemperature} °C; inbreathing air at {vapourFlows.ambientTemperature} °C)
+        </Text>
+        <View style={s.tableHeader}>
+          <Text style={[s.tableHeaderCell, { flex: 2 }]}>Design Case</Text>
+          <Text style={[s.tableHeaderCell, { flex: 1, textAlign: "right" }]}>Air (Nm³/h)</Text>
+          <Text style={[s.tableHeaderCell, { flex: 1, textAlign: "right" }]}>Vapour (kg/h)</Text>
+          <Text style={[s.tableHeaderCell, { flex: 1, textAlign: "right" }]}>Actual (m³/h)</Text>
+        </View>
+        {([
+          ["Design Outbreathing", vapourFlows.designOutbreathing],
+          ["Design Inbreathing",  vapourFlows.designInbreathing],
+          ["Emergency Venting",   vapourFlows.emergencyVenting],
+        ] as const).map(([label, flow], i) => (
+          <View key={label} style={i % 2 ? [s.tableRow, s.tableRowAlt] : s.tableRow}>
+            <Text style={{ flex: 2 }}>{label}</Text>
+            <Text style={{ flex: 1, textAlign: "right" }}>{flow.airEquivalent.toFixed(1)}</Text>
+            <Text style={{ flex: 1, textAlign: "right" }}>{flow.massFlow.toFixed(1)}</Text>
+            <Text style={{ flex: 1, textAlign: "right" }}>{flow.actualFlow.toFixed(1)}</Text>
+          </View>
+        ))}
+
         {/* ── Footer ─────────────────────────────────────────────────────── */}
         <View style={s.footer} fixed>
-          <Text>Tank Venting Calculator — API 2000</Text>
+          <Text>Tank Venting Calculator — {result.clauses.standard}</Text>
           <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
         </View>
 
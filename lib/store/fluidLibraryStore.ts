@@ -0,0 +1,43 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+import type { FluidLibraryEntry } from "@/types"
+
+// ─── State shape ──────────────────────────────────────────────────────────────
+
+interface FluidLibraryState {
+  /**
+   * User-saved fluids, listed after the built-in library.
+   * Persisted in localStorage — local to this browser.
+   */
+  customFluids: FluidLibraryEntry[]
+}
+
+// ─── Actions ──────────────────────────────────────────────────────────────────
+
+interface FluidLibraryActions {
+  /** Add a custom fluid, replacing any saved under the same id. */
+  saveCustomFluid: (fluid: FluidLibraryEntry) => void
+  removeCustomFluid: (id: string) => void
+}
+
+// ─── Store ────────────────────────────────────────────────────────────────────
+
+/**
+ * Custom fluid list. Hydration is skipped on creation so the server render
+ * and the first client render agree; the picker rehydrates once mounted.
+ */
+export const useFluidLibraryStore = create<FluidLibraryState & FluidLibraryActions>()(
+  persist(
+    (set) => ({
+      customFluids: [],
+
+      saveCustomFluid: (fluid) =>
+        set((s) => ({
+          customFluids: [...s.customFluids.filter((f) => f.id !== fluid.id), fluid],
+        })),
+      removeCustomFluid: (id) =>
+        set((s) => ({ customFluids: s.customFluids.filter((f) => f.id !== id) })),
+    }),
+    { name: "tank-vent-custom-fluids", skipHydration: true },
+  ),
+)
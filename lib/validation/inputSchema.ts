@@ -1,6 +1,19 @@
 import { z } from "zod"
-import { TankConfiguration } from "@/types"
-import { MAX_DESIGN_PRESSURE_KPAG, MIN_DESIGN_PRESSURE_KPAG } from "@/lib/constants"
+import { FloatingRoofType, TankConfiguration } from "@/types"
+import {
+  ATMOSPHERIC_PRESSURE_KPA,
+  MAX_DESIGN_PRESSURE_KPAG,
+  MIN_DESIGN_PRESSURE_KPAG,
+  STEAM_SATURATION_TEMP,
+} from "@/lib/constants"
+import { calcSaturationTemperature, calcVapourPressure } from "@/lib/calculations/vapourPressure"
+import {
+  calcBubbleTemperature,
+  calcMixtureProperties,
+  isMixtureFluid,
+  resolveComposition,
+} from "@/lib/calculations/mixture"
+import { getFluid } from "@/lib/lookups/fluids"
 
 // ─── NaN-tolerant optional helpers ────────────────────────────────────────────
 // Empty number inputs with `valueAsNumber` produce NaN. These helpers coerce
@@ -23,6 +36,17 @@ const nanOptionalNonneg = z
   .optional()
   .or(z.nan().transform(() => undefined))
 
+// ─── Mixture Component Schema ─────────────────────────────────────────────────
+
+export const mixtureComponentSchema = z.object({
+  fluidId: z
+    .string({ error: "Select a fluid" })
+    .refine((id) => getFluid(id) !== undefined, "Select a fluid from the library"),
+  fraction: z
+    .number({ error: "Fraction must be a number" })
+    .positive("Fraction must be > 0"),
+})
+
 // ─── Stream Schemas ───────────────────────────────────────────────────────────
 
 export const streamSchema = z.object({
@@ -31,12 +55,111 @@ export const streamSchema = z.object({
   flowrate: z
     .number({ error: "Flowrate must be a number" })
     .nonnegative("Flowrate must be ≥ 0"),
+  type: z
+    .enum(["PUMP", "GRAVITY", "TRUCK_UNLOADING", "RAIL_UNLOADING", "MARINE", "PIPELINE", "OTHER"] as const, {
+      error: "Unknown stream type",
+    })
+    .optional(),
+  simultaneityGroup: z.string().optional(),
+  temperature: nanOptional,
+  pressure: nanOptionalPositive,
+  composition: z.array(mixtureComponentSchema).optional(),
+  flashFraction: z
+    .number()
+    .gte(0, "Flash fraction must be ≥ 0")
+    .lte(1, "Flash fraction must be ≤ 1")
+    .optional()
+    .or(z.nan().transform(() => undefined)),
+  density: nanOptionalPositive,
+  molecularMass: nanOptionalPositive,
 })
 
 export const outgoingStreamSchema = streamSchema.extend({
   description: z.string().optional(),
 })
 
+// ─── Compartment Schema ───────────────────────────────────────────────────────
+
+export const compartmentSchema = z.object({
+  name: z.string().min(1, "Compartment name is required"),
+  capacity: z
+    .number({ error: "Capacity must be a number" })
+    .positive("Capacity must be > 0"),
+  avgStorageTemp: z.number({ error: "Average storage temperature must be a number" }),
+  vapourPressure: z
+    .number({ error: "Vapour pressure must be a number" })
+    .nonnegative("Vapour pressure must be ≥ 0"),
+  flashBoilingPointType: z.enum(["FP", "BP"] as const, {
+    error: "Must be 'FP' or 'BP'",
+  }),
+  flashBoilingPoint: nanOptional,
+  incomingStreams: z.array(streamSchema).default([]),
+  outgoingStreams: z.array(outgoingStreamSchema).default([]),
+})
+
+// ─── Vapour Pressure Correlation Schema ───────────────────────────────────────
+
+export const vapourPressureCorrelationSchema = z.object({
+  form: z.enum(["ANTOINE", "DIPPR"] as const, {
+    error: "Correlation must be 'ANTOINE' or 'DIPPR'",
+  }),
+  a: z.number({ error: "Coefficient A must be a number" }),
+  b: z.number({ error: "Coefficient B must be a number" }),
+  c: z.number({ error: "Coefficient C must be a number" }),
+  d: nanOptional,
+  e: nanOptional,
+})
+
+// ─── Scenario Schema ──────────────────────────────────────────────────────────
+
+export const scenarioSchema = z.object({
+  name: z.string().min(1, "Scenario name is required"),
+  causes: z
+    .array(
+      z.enum(
+        [
+          "FILLING",
+          "EMPTYING",
+          "THERMAL",
+          "CONTROL_VALVE_FAILURE",
+          "DRAIN",
+          "STEAM_OUT",
+          "BLANKET_FAILURE",
+          "COIL_RUPTURE",
+        ] as const,
+        { error: "Unknown venting cause" },
+      ),
+    )
+    .min(1, "Select at least one cause"),
+})
+
+// ─── Strapping Table Schema ───────────────────────────────────────────────────
+
+export const strappingPointSchema = z.object({
+  level: z.number({ error: "Level must be a number" }).nonnegative("Level must be ≥ 0"),
+  volume: z.number({ error: "Volume must be a number" }).nonnegative("Volume must be ≥ 0"),
+})
+
+export const strappingTableSchema = z
+  .object({
+    source: z.string().optional(),
+    points: z.array(strappingPointSchema).min(2, "Strapping table needs at least two points"),
+  })
+  .superRefine((table, ctx) => {
+    for (let i = 1; i < table.points.length; i++) {
+      const prev = table.points[i - 1]
+      const cur = table.points[i]
+      if (cur.level <= prev.level || cur.volume <= prev.volume) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["points", i],
+          message: "Strapping levels and volumes must both increase strictly",
+        })
+        return
+      }
+    }
+  })
+
 // ─── Main Input Schema ────────────────────────────────────────────────────────
 
 export const calculationInputSchema = z
@@ -46,12 +169,24 @@ export const calculationInputSchema = z
     description: z.string().optional(),
 
     // Tank geometry
+    tankShape: z
+      .enum(["VERTICAL_CYLINDER", "HORIZONTAL_CYLINDER", "SPHERE", "SPHEROID"] as const, {
+        error: "Tank shape must be 'VERTICAL_CYLINDER', 'HORIZONTAL_CYLINDER', 'SPHERE', or 'SPHEROID'",
+      })
+      .optional(),
+    headType: z
+      .enum(["FLAT", "ELLIPSOIDAL_2_1", "HEMISPHERICAL"] as const, {
+        error: "Head type must be 'FLAT', 'ELLIPSOIDAL_2_1', or 'HEMISPHERICAL'",
+      })
+      .optional(),
     diameter: z
       .number({ error: "Diameter must be a number" })
       .positive("Diameter must be > 0"),
     height: z
       .number({ error: "Height must be a number" })
       .positive("Height must be > 0"),
+    elevation: nanOptionalNonneg,
+    maxLiquidLevel: nanOptionalPositive,
     latitude: z
       .number({ error: "Latitude must be a number" })
       .gte(0, "Latitude must be ≥ 0°")
@@ -60,10 +195,43 @@ export const calculationInputSchema = z
       .number({ error: "Design pressure must be a number" })
       .gte(MIN_DESIGN_PRESSURE_KPAG, `Design pressure must be ≥ ${MIN_DESIGN_PRESSURE_KPAG} kPag`),
 
+    // Roof geometry
+    roofType: z
+      .enum(["CONE", "DOME", "UMBRELLA", "FLAT"] as const, {
+        error: "Roof type must be 'CONE', 'DOME', 'UMBRELLA', or 'FLAT'",
+      })
+      .optional(),
+    roofSlope: nanOptionalPositive,
+    roofRadius: nanOptionalPositive,
+    roofSegments: z
+      .number()
+      .int("Roof plates must be a whole number")
+      .gte(3, "An umbrella roof needs at least 3 plates")
+      .optional()
+      .or(z.nan().transform(() => undefined)),
+
+    // Bottom geometry
+    bottomProfile: z
+      .enum(["FLAT", "CONE_DOWN", "CONE_UP", "SLOPED"] as const, {
+        error: "Bottom profile must be 'FLAT', 'CONE_DOWN', 'CONE_UP', or 'SLOPED'",
+      })
+      .optional(),
+    bottomSlope: nanOptionalPositive,
+
+    // Thermal venting capacity overrides
+    nominalCapacity: nanOptionalPositive,
+    highHighLiquidLevel: nanOptionalPositive,
+    ullage: nanOptionalNonneg,
+    strappingTable: strappingTableSchema.optional(),
+
     // Configuration
     tankConfiguration: z.nativeEnum(TankConfiguration, {
       error: "Invalid tank configuration",
     }),
+    floatingRoofType: z
+      .nativeEnum(FloatingRoofType, { error: "Invalid floating roof type" })
+      .optional(),
+    roofLegHeight: nanOptionalPositive,
     insulationThickness: nanOptionalPositive,
     insulationConductivity: z
       .number()
@@ -75,9 +243,18 @@ export const calculationInputSchema = z
 
     // Fluid properties
     avgStorageTemp: z.number({ error: "Average storage temperature must be a number" }),
+    storageCondition: z
+      .enum(["AMBIENT", "HEATED"] as const, {
+        error: "Storage condition must be 'AMBIENT' or 'HEATED'",
+      })
+      .optional(),
+    ambientTemp: nanOptional,
     vapourPressure: z
       .number({ error: "Vapour pressure must be a number" })
       .nonnegative("Vapour pressure must be ≥ 0"),
+    vapourPressureCorrelation: vapourPressureCorrelationSchema.optional(),
+    fluidId: z.string().optional(),
+    fluidName: z.string().optional(),
     flashBoilingPointType: z.enum(["FP", "BP"] as const, {
       error: "Must be 'FP' or 'BP'",
     }),
@@ -85,19 +262,82 @@ export const calculationInputSchema = z
     latentHeat: nanOptionalPositive,
     relievingTemperature: nanOptional,
     molecularMass: nanOptionalPositive,
+    criticalTemperature: nanOptional,
+    emergencyOverpressure: nanOptionalNonneg,
+    mixtureComponents: z.array(mixtureComponentSchema).optional(),
+    compositionBasis: z
+      .enum(["MOLE", "MASS"] as const, {
+        error: "Composition basis must be 'MOLE' or 'MASS'",
+      })
+      .optional(),
 
     // Streams
     incomingStreams: z.array(streamSchema).default([]),
     outgoingStreams: z.array(outgoingStreamSchema).default([]),
 
+    // Compartments (normal venting per partition)
+    compartments: z.array(compartmentSchema).optional(),
+    vapourSpaceMode: z
+      .enum(["SHARED", "SEPARATE"] as const, {
+        error: "Vapour space mode must be 'SHARED' or 'SEPARATE'",
+      })
+      .optional(),
+
     // Drain system (both required together or both absent)
     drainLineSize: nanOptionalPositive,
     maxHeightAboveDrain: nanOptionalPositive,
 
+    // Gas blow-through (all-or-nothing; Cv or orifice)
+    blowThroughPressure: nanOptionalPositive,
+    blowThroughCv: nanOptionalPositive,
+    blowThroughOrifice: nanOptionalPositive,
+    blowThroughMolecularMass: nanOptionalPositive,
+    blowThroughTemperature: nanOptional,
+
+    // Heating coil rupture (fluid + pressure + tube size; hot oil adds T and ρ)
+    coilFluid: z
+      .enum(["STEAM", "HOT_OIL"] as const, {
+        error: "Coil fluid must be 'STEAM' or 'HOT_OIL'",
+      })
+      .optional(),
+    coilPressure: nanOptionalPositive,
+    coilTubeDiameter: nanOptionalPositive,
+    coilFluidTemperature: nanOptional,
+    coilFluidDensity: nanOptionalPositive,
+
+    // Steam-out (rate + cooling temperature together)
+    steamOutRate: nanOptionalPositive,
+    steamOutAmbientTemp: nanOptional,
+    steamOutCoolingHtc: nanOptionalPositive,
+
+    // Inert gas blanketing (regulator Cv + supply pressure together)
+    blanketed: z.boolean().optional(),
+    blanketSupplyPressure: nanOptionalPositive,
+    blanketRegulatorCv: nanOptionalPositive,
+    blanketGasMolecularMass: nanOptionalPositive,
+    blanketGasTemperature: nanOptional,
+
+    // Scenario matrix
+    scenarios: z.array(scenarioSchema).optional(),
+
     // Settings
-    apiEdition: z.enum(["5TH", "6TH", "7TH"] as const, {
-      error: "API edition must be '5TH', '6TH', or '7TH'",
+    apiEdition: z.enum(["5TH", "6TH", "7TH", "ISO_28300"] as const, {
+      error: "API edition must be '5TH', '6TH', '7TH', or 'ISO_28300'",
     }),
+    thermalVentingMethod: z
+      .enum(["FORMULA", "ANNEX_A", "SITE_SPECIFIC"] as const, {
+        error: "Thermal venting method must be 'FORMULA', 'ANNEX_A', or 'SITE_SPECIFIC'",
+      })
+      .optional(),
+
+    // Site-specific thermal venting
+    ambientTempSwing: nanOptionalPositive,
+    shellPaint: z
+      .enum(["WHITE", "ALUMINIUM", "LIGHT_GREY", "MEDIUM_GREY", "RED_PRIMER", "BLACK"] as const, {
+        error: "Unknown shell paint finish",
+      })
+      .optional(),
+    rainCoolingHtc: nanOptionalPositive,
   })
   .superRefine((data, ctx) => {
     // ── Design pressure limit ──────────────────────────────────────────────────
@@ -109,6 +349,201 @@ export const calculationInputSchema = z
       })
     }
 
+    // ── Max liquid level must sit inside the tank ─────────────────────────────
+    const fullByDiameter = data.tankShape === "HORIZONTAL_CYLINDER" || data.tankShape === "SPHERE"
+    const fullHeight = fullByDiameter ? data.diameter : data.height
+    if (data.maxLiquidLevel != null && data.maxLiquidLevel > fullHeight) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["maxLiquidLevel"],
+        message:
+          fullByDiameter
+            ? "Max liquid level must be ≤ tank diameter"
+            : "Max liquid level must be ≤ tank height",
+      })
+    }
+
+    // ── HHLL must sit inside the tank; HHLL and ullage are alternatives ────────
+    if (data.highHighLiquidLevel != null && data.highHighLiquidLevel > fullHeight) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["highHighLiquidLevel"],
+        message:
+          fullByDiameter
+            ? "High-high liquid level must be ≤ tank diameter"
+            : "High-high liquid level must be ≤ tank height",
+      })
+    }
+    if (data.highHighLiquidLevel != null && data.ullage != null) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["ullage"],
+        message: "Specify either high-high liquid level or ullage, not both",
+      })
+    }
+
+    // ── Dome / umbrella radius must span the tank ─────────────────────────────
+    const isDomed = data.roofType === "DOME" || data.roofType === "UMBRELLA"
+    if (isDomed && data.roofRadius != null && data.roofRadius < data.diameter / 2) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["roofRadius"],
+        message: "Roof radius must be ≥ D/2",
+      })
+    }
+
+    // ── Floating roofs (vertical tanks only): leg height required ─────────────
+    const isFloating =
+      (data.tankShape ?? "VERTICAL_CYLINDER") === "VERTICAL_CYLINDER" &&
+      data.floatingRoofType != null &&
+      data.floatingRoofType !== FloatingRoofType.NONE
+    if (isFloating) {
+      if (data.roofLegHeight == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["roofLegHeight"],
+          message: "Required for floating-roof tanks",
+        })
+      } else if (data.roofLegHeight > data.height) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["roofLegHeight"],
+          message: "Roof leg height must be ≤ tank height",
+        })
+      }
+    }
+
+    // ── Compartments: two or more, unique names, fixed-roof tanks only ────────
+    if (data.compartments?.length) {
+      if (data.compartments.length < 2) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["compartments"],
+          message: "A compartmented tank needs at least two compartments",
+        })
+      }
+      const seen = new Set<string>()
+      data.compartments.forEach((c, i) => {
+        if (seen.has(c.name)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["compartments", i, "name"],
+            message: "Compartment names must be unique",
+          })
+        }
+        seen.add(c.name)
+      })
+      if (isFloating) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["compartments"],
+          message: "Compartments are not supported on floating-roof tanks",
+        })
+      }
+    }
+
+    // ── Heated tanks: ambient below the storage temperature ───────────────────
+    if (data.storageCondition === "HEATED") {
+      if (data.ambientTemp == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["ambientTemp"],
+          message: "Required for heated tanks",
+        })
+      } else if (data.ambientTemp >= data.avgStorageTemp) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["ambientTemp"],
+          message: "Ambient temperature must be below the storage temperature",
+        })
+      }
+    }
+
+    // ── Vapour pressure correlation: defined at the storage temperature ──────
+    if (data.vapourPressureCorrelation) {
+      const vp = calcVapourPressure(data.vapourPressureCorrelation, data.avgStorageTemp)
+      if (!Number.isFinite(vp)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["vapourPressureCorrelation"],
+          message: "Correlation gives no vapour pressure at the storage temperature",
+        })
+      }
+    }
+
+    // ── Critical temperature: above the normal boiling point (Watson) ─────────
+    if (data.criticalTemperature != null && data.vapourPressureCorrelation) {
+      const normalBoilingPoint = calcSaturationTemperature(data.vapourPressureCorrelation, ATMOSPHERIC_PRESSURE_KPA)
+      if (normalBoilingPoint !== undefined && data.criticalTemperature <= normalBoilingPoint) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["criticalTemperature"],
+          message: `Critical temperature must be above the normal boiling point (${normalBoilingPoint.toFixed(1)} °C)`,
+        })
+      }
+    }
+
+    // ── Mixture: each fluid once, boils at the relieving pressure ────────────
+    if (data.mixtureComponents?.length) {
+      const seen = new Set<string>()
+      data.mixtureComponents.forEach((c, i) => {
+        if (seen.has(c.fluidId)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["mixtureComponents", i, "fluidId"],
+            message: "Each fluid may appear once",
+          })
+        }
+        seen.add(c.fluidId)
+        const fluid = getFluid(c.fluidId)
+        if (fluid && !isMixtureFluid(fluid)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["mixtureComponents", i, "fluidId"],
+            message: `${fluid.name} has no vapour pressure correlation, latent heat or molecular mass`,
+          })
+        }
+      })
+      const valid = data.mixtureComponents.every((c) => isMixtureFluid(getFluid(c.fluidId)) && c.fraction > 0)
+      if (valid && calcMixtureProperties(data) === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["mixtureComponents"],
+          message: "Mixture has no bubble point between −100 and 400 °C at the relieving pressure",
+        })
+      }
+    }
+
+    // ── Feed composition: boils at tank pressure ──────────────────────────────
+    data.incomingStreams.forEach((s, i) => {
+      const composition = s.composition?.length ? resolveComposition(s.composition) : undefined
+      if (composition && calcBubbleTemperature(composition, ATMOSPHERIC_PRESSURE_KPA) === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["incomingStreams", i, "composition"],
+          message: "Feed has no bubble point between −100 and 400 °C at tank pressure",
+        })
+      }
+    })
+
+    // ── Site-specific thermal venting: climate and paint ───────────────────────
+    if (data.thermalVentingMethod === "SITE_SPECIFIC" && data.apiEdition !== "5TH") {
+      if (data.ambientTempSwing == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["ambientTempSwing"],
+          message: "Required for the site-specific thermal method",
+        })
+      }
+      if (data.shellPaint == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["shellPaint"],
+          message: "Required for the site-specific thermal method",
+        })
+      }
+    }
+
     // ── Insulation fields required for insulated configurations ───────────────
     const requiresInsulation =
       data.tankConfiguration === TankConfiguration.INSULATED_FULL ||
@@ -167,6 +602,178 @@ export const calculationInputSchema = z
         message: "Required when max height above drain is specified",
       })
     }
+
+    // ── Blow-through: complete once started, upstream above atmospheric ───────
+    const hasBlowThrough =
+      data.blowThroughPressure != null ||
+      data.blowThroughCv != null ||
+      data.blowThroughOrifice != null ||
+      data.blowThroughMolecularMass != null ||
+      data.blowThroughTemperature != null
+
+    if (hasBlowThrough) {
+      const required = ["blowThroughPressure", "blowThroughTemperature"] as const
+      for (const field of required) {
+        if (data[field] == null) {
+          ctx.addIssue({
+            code: "custom",
+            path: [field],
+            message: "Required for gas blow-through",
+          })
+        }
+      }
+      if (data.blowThroughCv == null && data.blowThroughOrifice == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["blowThroughCv"],
+          message: "Specify a valve Cv or a restriction orifice size",
+        })
+      }
+      if (data.blowThroughPressure != null && data.blowThroughPressure <= ATMOSPHERIC_PRESSURE_KPA) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["blowThroughPressure"],
+          message: `Upstream pressure must exceed atmospheric (${ATMOSPHERIC_PRESSURE_KPA} kPa a)`,
+        })
+      }
+    }
+
+    // ── Coil rupture: complete once started, coil above atmospheric ──────────
+    const hasCoilRupture =
+      data.coilFluid != null ||
+      data.coilPressure != null ||
+      data.coilTubeDiameter != null ||
+      data.coilFluidTemperature != null ||
+      data.coilFluidDensity != null
+
+    if (hasCoilRupture) {
+      const required = [
+        "coilFluid",
+        "coilPressure",
+        "coilTubeDiameter",
+        ...(data.coilFluid === "HOT_OIL" ? (["coilFluidTemperature", "coilFluidDensity"] as const) : []),
+      ] as const
+      for (const field of required) {
+        if (data[field] == null) {
+          ctx.addIssue({
+            code: "custom",
+            path: [field],
+            message: "Required for heating coil rupture",
+          })
+        }
+      }
+      if (data.coilPressure != null && data.coilPressure <= ATMOSPHERIC_PRESSURE_KPA) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["coilPressure"],
+          message: `Coil pressure must exceed atmospheric (${ATMOSPHERIC_PRESSURE_KPA} kPa a)`,
+        })
+      }
+    }
+
+    // ── Steam-out: rate and cooling temperature together, below saturation ───
+    const hasSteamOut =
+      data.steamOutRate != null || data.steamOutAmbientTemp != null || data.steamOutCoolingHtc != null
+    if (hasSteamOut) {
+      if (data.steamOutRate == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["steamOutRate"],
+          message: "Required for steam-out",
+        })
+      }
+      if (data.steamOutAmbientTemp == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["steamOutAmbientTemp"],
+          message: "Required for steam-out",
+        })
+      } else if (data.steamOutAmbientTemp >= STEAM_SATURATION_TEMP) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["steamOutAmbientTemp"],
+          message: `Cooling temperature must be below ${STEAM_SATURATION_TEMP} °C`,
+        })
+      }
+    }
+
+    // ── Blanketing: regulator Cv and supply pressure together ────────────────
+    const hasBlanketFailure = data.blanketSupplyPressure != null && data.blanketRegulatorCv != null
+    if (data.blanketed) {
+      if (data.blanketRegulatorCv != null && data.blanketSupplyPressure == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["blanketSupplyPressure"],
+          message: "Required when regulator Cv is specified",
+        })
+      }
+      if (data.blanketSupplyPressure != null && data.blanketRegulatorCv == null) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["blanketRegulatorCv"],
+          message: "Required when supply pressure is specified",
+        })
+      }
+      if (data.blanketSupplyPressure != null && data.blanketSupplyPressure <= ATMOSPHERIC_PRESSURE_KPA) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["blanketSupplyPressure"],
+          message: `Supply pressure must exceed atmospheric (${ATMOSPHERIC_PRESSURE_KPA} kPa a)`,
+        })
+      }
+    }
+
+    // ── Scenarios: unique names, causes backed by their inputs ────────────────
+    const scenarioNames = new Set<string>()
+    data.scenarios?.forEach((scenario, i) => {
+      if (scenarioNames.has(scenario.name)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scenarios", i, "name"],
+          message: "Scenario names must be unique",
+        })
+      }
+      scenarioNames.add(scenario.name)
+
+      if (scenario.causes.includes("CONTROL_VALVE_FAILURE") && !hasBlowThrough) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scenarios", i, "causes"],
+          message: "Control valve failure needs the gas blow-through inputs",
+        })
+      }
+      if (
+        scenario.causes.includes("DRAIN") &&
+        (data.drainLineSize == null || data.maxHeightAboveDrain == null)
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scenarios", i, "causes"],
+          message: "Drain needs the drain system inputs",
+        })
+      }
+      if (scenario.causes.includes("STEAM_OUT") && !hasSteamOut) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scenarios", i, "causes"],
+          message: "Steam-out needs the steam-out inputs",
+        })
+      }
+      if (scenario.causes.includes("BLANKET_FAILURE") && !(data.blanketed && hasBlanketFailure)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scenarios", i, "causes"],
+          message: "Blanket failure needs the blanketing regulator inputs",
+        })
+      }
+      if (scenario.causes.includes("COIL_RUPTURE") && !hasCoilRupture) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["scenarios", i, "causes"],
+          message: "Coil rupture needs the heating coil inputs",
+        })
+      }
+    })
   })
 
 // ─── Inferred Types ───────────────────────────────────────────────────────────
@@ -13,34 +13,278 @@ export enum TankConfiguration {
   IMPOUNDMENT = "Impoundment",
 }
 
-export type ApiEdition = "5TH" | "6TH" | "7TH"
+export enum FloatingRoofType {
+  NONE = "Fixed roof (no floating deck)",
+  INTERNAL = "Internal floating roof (IFR)",
+  EXTERNAL = "External floating roof (EFR)",
+}
+
+/**
+ * Venting standard the calculation follows.
+ *   5TH / 6TH / 7TH — API 2000 editions
+ *   ISO_28300       — ISO 28300:2008; the 6th edition formulas (API 2000 6th is
+ *                     its adoption) under ISO clause numbering
+ */
+export type ApiEdition = "5TH" | "6TH" | "7TH" | "ISO_28300"
+
+/**
+ * Thermal venting method of the 6th / 7th edition and ISO 28300.
+ *   FORMULA — Y × V_tk^0.9 and C × V_tk^0.7 with the latitude-band factors
+ *   ANNEX_A — the informative annex tables for tanks of known history, keyed
+ *             on capacity and flash / boiling point
+ *   SITE_SPECIFIC — heat-transfer model of the vapour space from the site
+ *             climate and shell paint; the formula value is kept for comparison
+ * The 5th edition always uses its own tabulated rates.
+ */
+export type ThermalVentingMethod = "FORMULA" | "ANNEX_A" | "SITE_SPECIFIC"
+
+/** Shell / roof paint finish — sets the solar absorptivity of the site-specific thermal model. */
+export type ShellPaint =
+  | "WHITE"
+  | "ALUMINIUM"
+  | "LIGHT_GREY"
+  | "MEDIUM_GREY"
+  | "RED_PRIMER"
+  | "BLACK"
 export type FlashBoilingPointType = "FP" | "BP"
 
+/**
+ * Fixed-roof shape of a vertical tank.
+ *   CONE     — conical roof, h_roof = D / roofSlope (default 1:12)
+ *   DOME     — spherical cap of radius roofRadius (API 650 self-supporting dome)
+ *   UMBRELLA — roofSegments radially-bent plates on ribs of radius roofRadius
+ *   FLAT     — flat roof (no rise)
+ */
+export type RoofType = "CONE" | "DOME" | "UMBRELLA" | "FLAT"
+
+/**
+ * Tank body shape.
+ *   VERTICAL_CYLINDER   — `height` is the shell height (TL-TL), roof per `roofType`
+ *   HORIZONTAL_CYLINDER — `height` is the shell length (TL-TL), heads per `headType`
+ *   SPHERE              — `diameter` only (`height` is ignored)
+ *   SPHEROID            — `diameter` is the equatorial, `height` the polar axis
+ * For spheres and spheroids `elevation` is the support height (bottom above grade).
+ */
+export type TankShape = "VERTICAL_CYLINDER" | "HORIZONTAL_CYLINDER" | "SPHERE" | "SPHEROID"
+
+/**
+ * Bottom plate profile of a vertical tank (slope is rise:run = 1:bottomSlope).
+ *   FLAT      — flat bottom on the foundation
+ *   CONE_DOWN — cone falling to a centre sump, depth = r / n
+ *   CONE_UP   — cone rising to the centre (drains to the shell), depth = r / n
+ *   SLOPED    — single plane falling across the diameter, drop = D / n
+ */
+export type BottomProfile = "FLAT" | "CONE_DOWN" | "CONE_UP" | "SLOPED"
+
+/** End closure of a horizontal cylinder. */
+export type HeadType = "FLAT" | "ELLIPSOIDAL_2_1" | "HEMISPHERICAL"
+
+/**
+ * Source of the tank capacity V_tk used for thermal venting.
+ *   NOMINAL         — datasheet nominal capacity (`nominalCapacity`)
+ *   HIGH_HIGH_LEVEL — liquid volume up to `highHighLiquidLevel`
+ *   ULLAGE          — geometric volume less `ullage`
+ *   STRAPPING       — top of the strapping table
+ *   GEOMETRIC       — DerivedGeometry.maxTankVolume
+ */
+export type CapacityBasis = "NOMINAL" | "HIGH_HIGH_LEVEL" | "ULLAGE" | "STRAPPING" | "GEOMETRIC"
+
+/**
+ * Storage temperature regime.
+ *   AMBIENT — stored near ambient (API Y / C factors apply as tabulated)
+ *   HEATED  — held above ambient (bitumen, heavy fuel): thermal inbreathing
+ *             also checks rainstorm cooling from `avgStorageTemp` to `ambientTemp`
+ */
+export type StorageCondition = "AMBIENT" | "HEATED"
+
+/**
+ * Vapour-pressure correlation form.
+ *   ANTOINE — log10(P / kPa) = A − B / (C + T / °C)
+ *   DIPPR   — DIPPR eq. 101: ln(P / Pa) = A + B / T + C × ln T + D × T^E, T in K
+ */
+export type VapourPressureForm = "ANTOINE" | "DIPPR"
+
+/** Where the vapour pressure used by the calculation came from. */
+export type VapourPressureSource = "INPUT" | VapourPressureForm
+
+/** Basis of the reported thermal inbreathing. */
+export type ThermalMethod = "STANDARD" | "HEATED"
+
+/**
+ * How the compartments of a partitioned tank vent.
+ *   SHARED   — one roof vapour space: process flows add up, thermal breathing
+ *              runs once over the whole tank V_tk
+ *   SEPARATE — each compartment vents on its own over its own capacity
+ */
+export type VapourSpaceMode = "SHARED" | "SEPARATE"
+
+/**
+ * Medium in a heating coil / heat exchanger tube that leaks into the tank on a
+ * tube rupture.
+ *   STEAM   — steam blows through the break and vents as vapour
+ *   HOT_OIL — hot oil displaces vapour and boils off stored liquid
+ */
+export type CoilFluid = "STEAM" | "HOT_OIL"
+
+/** How a process stream is driven (reported with the governing stream case). */
+export type StreamType =
+  | "PUMP"
+  | "GRAVITY"
+  | "TRUCK_UNLOADING"
+  | "RAIL_UNLOADING"
+  | "MARINE"
+  | "PIPELINE"
+  | "OTHER"
+
+/**
+ * Venting cause a scenario can switch on.
+ *   FILLING               — process outbreathing from incoming streams (+ hot-feed flash)
+ *   EMPTYING              — process inbreathing from outgoing streams
+ *   THERMAL               — thermal outbreathing (heating) and inbreathing (cooling)
+ *   CONTROL_VALVE_FAILURE — gas blow-through from an upstream vessel (outbreathing)
+ *   DRAIN                 — drain-system inbreathing
+ *   STEAM_OUT             — condensing inbreathing after steam-out
+ *   BLANKET_FAILURE       — blanketing regulator failed open (outbreathing)
+ *   COIL_RUPTURE          — heating coil tube rupture (outbreathing)
+ */
+export type VentingCause =
+  | "FILLING"
+  | "EMPTYING"
+  | "THERMAL"
+  | "CONTROL_VALVE_FAILURE"
+  | "DRAIN"
+  | "STEAM_OUT"
+  | "BLANKET_FAILURE"
+  | "COIL_RUPTURE"
+
 // ─── Input Types ──────────────────────────────────────────────────────────────
 
+export interface StrappingPoint {
+  level: number // mm above tank bottom
+  volume: number // m³ contained at that level
+}
+
+export interface StrappingTable {
+  source?: string // file name / document reference cited in the report
+  points: StrappingPoint[] // ascending by level
+}
+
 export interface Stream {
   streamNo: string
   description?: string
   flowrate: number // m³/h
+
+  // Operation (optional)
+  type?: StreamType
+  simultaneityGroup?: string // streams sharing a group never run together (duty / standby, alternating fills)
+
+  // Hot / flashing feed (incoming streams only, optional)
+  temperature?: number // °C — feed temperature at the inlet (flashes above the feed's bubble point at tank pressure)
+  pressure?: number // kPa(a) — feed line pressure; without a temperature the feed is saturated liquid at it
+  composition?: MixtureComponent[] // feed liquid, mole fractions (default: the tank liquid)
+  flashFraction?: number // mass fraction vaporised on entry, 0–1 (e.g. from a flash simulation)
+  density?: number // kg/m³ — liquid density (default: Hexane 655)
+  molecularMass?: number // g/mol — flashed vapour (default: tank fluid / Hexane)
 }
 
 export interface OutgoingStream extends Stream {
   description?: string
 }
 
+/** Coefficients of a vapour-pressure correlation (D, E — DIPPR only). */
+export interface VapourPressureCorrelation {
+  form: VapourPressureForm
+  a: number
+  b: number
+  c: number
+  d?: number
+  e?: number
+}
+
+/** Where a fluid library entry comes from — built in, or saved by the user. */
+export type FluidCategory = "PETROLEUM" | "CHEMICAL" | "CUSTOM"
+
+/**
+ * Fluid library entry — the fluid properties a pick fills into the form.
+ * Custom fluids may carry no correlation (vapour pressure stays typed in).
+ */
+export interface FluidLibraryEntry {
+  id: string
+  name: string
+  category: FluidCategory
+  vapourPressure?: VapourPressureCorrelation
+  flashBoilingPointType: FlashBoilingPointType
+  flashBoilingPoint?: number // °C
+  latentHeat?: number // kJ/kg — at the normal boiling point
+  relievingTemperature?: number // °C — custom fluids only; otherwise derived
+  molecularMass?: number // g/mol
+  criticalTemperature?: number // °C — Watson latent heat correction
+}
+
+/** Basis of the component fractions of a mixture. */
+export type CompositionBasis = "MOLE" | "MASS"
+
+/** One component of a stored mixture — a built-in fluid library entry. */
+export interface MixtureComponent {
+  fluidId: string
+  fraction: number // mole or mass fraction per compositionBasis (normalised by the sum)
+}
+
+export interface Compartment {
+  name: string
+  capacity: number // m³ — compartment volume (SEPARATE: its thermal V_tk)
+
+  // Fluid properties (normal venting factors)
+  avgStorageTemp: number // °C
+  vapourPressure: number // kPa
+  flashBoilingPointType: FlashBoilingPointType
+  flashBoilingPoint?: number // °C
+
+  incomingStreams: Stream[]
+  outgoingStreams: OutgoingStream[]
+}
+
+/** A set of venting causes taken to act together. */
+export interface VentingScenario {
+  name: string
+  causes: VentingCause[]
+}
+
 export interface CalculationInput {
   // Identification
   tankNumber: string
   description?: string
 
   // Tank geometry
+  tankShape?: TankShape // default: VERTICAL_CYLINDER
+  headType?: HeadType // HORIZONTAL_CYLINDER only (default: ELLIPSOIDAL_2_1)
   diameter: number // mm
-  height: number // mm (TL-TL)
+  height: number // mm (TL-TL — shell length for horizontal tanks, polar axis for spheroids)
+  elevation?: number // mm — tank bottom above grade (skirt / legs / berm), default 0
+  maxLiquidLevel?: number // mm above tank bottom (default: liquid-full)
   latitude: number // degrees (0 < lat ≤ 90)
   designPressure: number // kPag
 
+  // Roof geometry (VERTICAL_CYLINDER only)
+  roofType?: RoofType // default: CONE
+  roofSlope?: number // denominator: h_roof = D / roofSlope (CONE only, default 12)
+  roofRadius?: number // mm — dome / umbrella radius (default 1.0 × D)
+  roofSegments?: number // umbrella roof plates (default 16)
+
+  // Bottom geometry (VERTICAL_CYLINDER only)
+  bottomProfile?: BottomProfile // default: FLAT
+  bottomSlope?: number // denominator: rise:run = 1:n (default 120)
+
+  // Thermal venting capacity overrides (precedence: nominal > HHLL > ullage > geometric)
+  nominalCapacity?: number // m³ — datasheet nominal capacity
+  highHighLiquidLevel?: number // mm above tank bottom — working capacity up to HHLL
+  ullage?: number // m³ — subtracted from the geometric volume
+  strappingTable?: StrappingTable // calibrated level vs volume — replaces geometric volumes
+
   // Configuration
   tankConfiguration: TankConfiguration
+  floatingRoofType?: FloatingRoofType // VERTICAL_CYLINDER only (default: NONE)
+  roofLegHeight?: number // mm — deck underside above the bottom when landed (required if floating)
   insulationThickness?: number // mm (required if insulated)
   insulationConductivity?: number // W/m·K (required if insulated)
   insideHeatTransferCoeff?: number // W/m²·K (required if insulated)
@@ -48,12 +292,21 @@ export interface CalculationInput {
 
   // Fluid properties
   avgStorageTemp: number // °C
-  vapourPressure: number // kPa
+  storageCondition?: StorageCondition // default: AMBIENT
+  ambientTemp?: number // °C — design ambient (required if HEATED)
+  vapourPressure: number // kPa (replaced by the correlation value when one is given)
+  vapourPressureCorrelation?: VapourPressureCorrelation // evaluated at avgStorageTemp
+  fluidId?: string // library / custom fluid entry the fluid properties were filled from
+  fluidName?: string // name of that entry (cited in the report)
   flashBoilingPointType: FlashBoilingPointType
   flashBoilingPoint?: number // °C
   latentHeat?: number // kJ/kg (default: Hexane 334.9)
   relievingTemperature?: number // °C (default: 15.6)
   molecularMass?: number // g/mol (default: Hexane 86.17)
+  criticalTemperature?: number // °C — Watson correction of L to a derived T_r
+  emergencyOverpressure?: number // % of design pressure — allowable accumulation (default 0)
+  mixtureComponents?: MixtureComponent[] // replaces L, T_r and M with mixture values
+  compositionBasis?: CompositionBasis // default: MOLE
 
   // Stream flowrates
   // NOTE: naming convention follows PROCESS perspective (per PD.md):
@@ -62,71 +315,290 @@ export interface CalculationInput {
   incomingStreams: Stream[]
   outgoingStreams: OutgoingStream[]
 
+  // Compartments (optional) — replace the tank-level streams and fluid for
+  // normal venting; emergency venting stays on the tank-level fluid
+  compartments?: Compartment[]
+  vapourSpaceMode?: VapourSpaceMode // default: SHARED
+
   // Drain system (optional)
   drainLineSize?: number // mm
   maxHeightAboveDrain?: number // mm
 
+  // Gas blow-through (optional) — failed-open valve from an upstream vessel;
+  // give either a valve Cv or a restriction orifice size
+  blowThroughPressure?: number // kPa(a) — upstream vessel pressure
+  blowThroughCv?: number // valve Cv at full open
+  blowThroughOrifice?: number // mm — restriction orifice bore
+  blowThroughMolecularMass?: number // g/mol (default: nitrogen 28.013)
+  blowThroughTemperature?: number // °C
+
+  // Inert gas blanketing (optional) — regulator demand; regulator Cv and
+  // supply pressure together add the failed-open outbreathing case
+  blanketed?: boolean
+  blanketSupplyPressure?: number // kPa(a) — regulator inlet
+  blanketRegulatorCv?: number // regulator Cv at full open
+  blanketGasMolecularMass?: number // g/mol (default: nitrogen 28.013)
+  blanketGasTemperature?: number // °C (default: 15)
+
+  // Heating coil tube rupture (optional) — fluid, pressure and tube size together;
+  // hot oil also needs its temperature and density
+  coilFluid?: CoilFluid
+  coilPressure?: number // kPa(a) — coil-side operating pressure
+  coilTubeDiameter?: number // mm — tube inside diameter
+  coilFluidTemperature?: number // °C — steam default: saturation at coilPressure
+  coilFluidDensity?: number // kg/m³ — hot oil only
+
+  // Steam-out (optional) — condensing inbreathing once the steam supply stops
+  steamOutRate?: number // kg/h — steam supply during steam-out
+  steamOutAmbientTemp?: number // °C — temperature the shell cools toward
+  steamOutCoolingHtc?: number // W/m²·K — shell cooling coefficient (default: rainstorm 10)
+
+  // Scenario matrix (optional) — when given, the governing scenario sets the
+  // design outbreathing / inbreathing
+  scenarios?: VentingScenario[]
+
   // Calculation settings
   apiEdition: ApiEdition
+  thermalVentingMethod?: ThermalVentingMethod // default: FORMULA (ignored for 5TH)
+
+  // Site-specific thermal venting (thermalVentingMethod = SITE_SPECIFIC)
+  ambientTempSwing?: number // K — design daily ambient swing, max − min (required)
+  shellPaint?: ShellPaint // required — solar absorptivity
+  rainCoolingHtc?: number // W/m²·K — rainstorm film coefficient, site-specific and heated (default: 10)
 }
 
 // ─── Derived Geometry ─────────────────────────────────────────────────────────
 
 export interface DerivedGeometry {
-  maxTankVolume: number // m³
-  shellSurfaceArea: number // m² (cylindrical shell only)
-  coneRoofArea: number // m²
-  totalSurfaceArea: number // m² (shell + cone roof)
-  wettedArea: number // m² (capped at π×D×9144mm)
+  maxTankVolume: number // m³ (vertical: shell + bottom; horizontal: shell + heads; sphere: whole body; strapping table top when given)
+  shellSurfaceArea: number // m² (cylindrical shell only; whole body for spheres)
+  roofArea: number // m² (per selected roof type; 0 for horizontal tanks)
+  roofVolume: number // m³ (space enclosed above the shell top; 0 for horizontal tanks)
+  headArea: number // m² (both heads; 0 for vertical tanks)
+  headVolume: number // m³ (both heads; 0 for vertical tanks)
+  bottomArea: number // m² (bottom plate; 0 for horizontal tanks)
+  bottomVolume: number // m³ (signed: + below the shell bottom, − for CONE_UP; 0 for horizontal)
+  totalSurfaceArea: number // m² (shell + roof, or shell + heads)
+  wettedHeight: number // mm — top of the wetted zone above the tank bottom
+  wettedArea: number // m² (surface below wettedHeight)
   reductionFactor: number // R_in or R_inp (1.0 for non-insulated)
 }
 
 // ─── Calculation Results ──────────────────────────────────────────────────────
 
+/** A stream as reported in the governing process case. */
+export type ProcessStream = Pick<Stream, "streamNo" | "description" | "type" | "simultaneityGroup" | "flowrate">
+
+/**
+ * Streams making up the governing process rate in one direction: every
+ * ungrouped stream plus the largest member of each simultaneity group.
+ */
+export interface ProcessCase {
+  running: ProcessStream[]
+  idle: ProcessStream[] // grouped streams not running alongside the governing member
+}
+
 export interface OutbreathingResult {
   processFlowrate: number // Nm³/h
+  processCase: ProcessCase // incoming streams behind processFlowrate / flashFlowrate
+  flashFlowrate: number // Nm³/h — vapour flashed off hot incoming feeds
+  coilRuptureFlowrate: number // Nm³/h — vapour from a ruptured heating coil (0 without coil data)
   yFactor: number
   reductionFactor: number
   thermalOutbreathing: number // Nm³/h
+  codeThermalOutbreathing?: number // Nm³/h — Y × V_tk^0.9 × R beside the site-specific value
   total: number // Nm³/h
 }
 
 export interface InbreathingResult {
   processFlowrate: number // Nm³/h
+  processCase: ProcessCase // outgoing streams behind processFlowrate
   cFactor: number
   reductionFactor: number
   thermalInbreathing: number // Nm³/h
+  codeThermalInbreathing?: number // Nm³/h — C × V_tk^0.7 × R beside the site-specific value
+  thermalMethod: ThermalMethod
   total: number // Nm³/h
 }
 
-export interface NormalVentingResult {
+export interface ThermalCapacity {
+  value: number // m³ — V_tk
+  basis: CapacityBasis
+  level?: number // mm — liquid height holding V_tk (strapping table only)
+}
+
+export interface CoilRuptureResult {
+  fluid: CoilFluid
+  massFlow: number // kg/h — coil fluid leaking through the break
+  flowrate: number // Nm³/h — vapour generated in the tank
+  choked: boolean // critical steam flow (always false for hot oil)
+}
+
+export interface RoofLandedResult {
+  vapourSpaceVolume: number // m³ — space under the deck resting on its legs
+  outbreathing: OutbreathingResult
+  inbreathing: InbreathingResult
+}
+
+export interface CompartmentVentingResult {
+  name: string
+  capacity: number // m³ — V_tk the compartment breathes over
   outbreathing: OutbreathingResult
   inbreathing: InbreathingResult
 }
 
+export interface NormalVentingResult {
+  capacity: ThermalCapacity
+  thermalVentingMethod?: ThermalVentingMethod // absent for the 5th edition (always tabulated)
+  outbreathing: OutbreathingResult // floating-roof tanks: deck floating (no vapour space); SEPARATE: governing compartment
+  inbreathing: InbreathingResult
+  roofLanded?: RoofLandedResult // present only for floating-roof tanks
+  vapourSpaceMode?: VapourSpaceMode // present only for compartmented tanks
+  compartments?: CompartmentVentingResult[] // present only for compartmented tanks
+  coilRupture?: CoilRuptureResult // present only if heating coil data provided
+}
+
 export interface HeatInputCoefficients {
   a: number
   n: number
 }
 
+/** One mixture component with its share and properties. */
+export interface MixtureComponentResult {
+  fluidId: string
+  name: string
+  moleFraction: number // x_i
+  massFraction: number // w_i
+  molecularMass: number // g/mol
+  latentHeat: number // kJ/kg — at the bubble temperature (Watson, when T_c is known)
+  vapourPressure: number // kPa — at the bubble temperature
+}
+
+/** Mixture L, T_r and M fed to API 2000 Eq. 14, with their derivation. */
+export interface MixtureResult {
+  basis: CompositionBasis
+  components: MixtureComponentResult[]
+  relievingPressure: number // kPa(a)
+  molecularMass: number // g/mol — Σ x_i × M_i
+  latentHeat: number // kJ/kg — Σ w_i × L_i
+  bubbleTemperature: number // °C — Σ x_i × P_i(T) = relieving pressure (used as T_r)
+}
+
+/** Relieving temperature and latent heat derived from the vapour pressure curve. */
+export interface RelievingConditionsResult {
+  relievingPressure: number // kPa(a) — design pressure + overpressure
+  relievingTemperature: number // °C — boiling point at the relieving pressure
+  latentHeat?: number // kJ/kg — Watson-corrected to T_r (typed L + critical temperature)
+  normalBoilingPoint?: number // °C — reference temperature of the typed L
+}
+
 export interface EmergencyVentingResult {
   heatInput: number // W
   environmentalFactor: number // F
   emergencyVentRequired: number // Nm³/h of air
   coefficients: HeatInputCoefficients
   referenceFluid: "Hexane" | "User-defined"
+  mixture?: MixtureResult // present when L, T_r and M come from a mixture
+  relievingConditions?: RelievingConditionsResult // present when T_r is derived
+}
+
+export interface BlowThroughResult {
+  restriction: "VALVE" | "ORIFICE"
+  massFlow: number // kg/h
+  flowrate: number // Nm³/h
+  choked: boolean // critical flow through the restriction
+}
+
+/** Rate contributed by one cause within a scenario (Nm³/h). */
+export interface ScenarioContribution {
+  cause: VentingCause
+  outbreathing: number // Nm³/h
+  inbreathing: number // Nm³/h
+}
+
+export interface ScenarioResult {
+  name: string
+  contributions: ScenarioContribution[] // one per enabled cause, in VentingCause order
+  outbreathing: number // Nm³/h — normal breathing per edition rule + other causes
+  inbreathing: number // Nm³/h
+}
+
+export interface GoverningScenario {
+  outbreathing: string // scenario name with the largest outbreathing
+  inbreathing: string // scenario name with the largest inbreathing
+}
+
+export interface BlanketingResult {
+  airEquivalent: number // Nm³/h air — pump-out + thermal inbreathing
+  requiredCapacity: number // Nm³/h of blanket gas — regulator flow covering airEquivalent
+  requiredMassFlow: number // kg/h
+  failure?: {
+    outbreathing: number // Nm³/h — regulator failed open into the tank
+    massFlow: number // kg/h
+    choked: boolean
+  } // present only with a regulator Cv and supply pressure
+}
+
+export interface SteamOutResult {
+  condensingRate: number // kg/h — governing steam condensation rate
+  basis: "STEAM_RATE" | "COOLING" // supply rate or shell heat removal, whichever is larger
+  inbreathing: number // Nm³/h — air drawn in to replace the condensed steam
+  steamInventory: number // kg — steam filling the tank
+  condensingTime: number // h — inventory / condensing rate
 }
 
 export interface VentingSummary {
   designOutbreathing: number // Nm³/h — governs outbreathing device
   designInbreathing: number // Nm³/h — governs inbreathing device
   emergencyVenting: number // Nm³/h
+  governingCompartment?: GoverningCompartment // compartmented tanks only
+  governingScenario?: GoverningScenario // present only when scenarios are defined
+}
+
+/** One design flow as air-equivalent and as the actual vapour behind it. */
+export interface VapourFlow {
+  airEquivalent: number // Nm³/h of air
+  massFlow: number // kg/h of vapour (air for inbreathing)
+  actualFlow: number // m³/h at the case's temperature, atmospheric pressure
+}
+
+export interface VapourFlowSummary {
+  molecularMass: number // g/mol — input or Hexane default
+  relievingTemperature: number // °C — input or Hexane default (emergency venting)
+  storageTemperature: number // °C — design outbreathing
+  ambientTemperature: number // °C — design inbreathing (design ambient, else storage)
+  designOutbreathing: VapourFlow // tank vapour at storage temperature
+  designInbreathing: VapourFlow // air at ambient
+  emergencyVenting: VapourFlow // tank vapour at relieving temperature (Eq. 14)
+}
+
+/** Where each calculation step sits in the selected standard. */
+export interface ClauseReferences {
+  standard: string // e.g. "API 2000 7th Edition", "ISO 28300:2008"
+  equivalentTo?: string // standard whose method is used unchanged (ISO 28300 → API 2000 6th Edition)
+  liquidMovement: string // process outbreathing / inbreathing
+  thermal: string // thermal outbreathing / inbreathing
+  emergency: string // fire exposure venting
+  environmentalFactor: string // F-factor credit for insulation / drainage
+}
+
+export interface GoverningCompartment {
+  outbreathing: string // compartment name with the largest outbreathing
+  inbreathing: string // compartment name with the largest inbreathing
 }
 
 export interface CalculationWarnings {
   capacityExceedsTable?: boolean // capacity > 30,000 m³
   undergroundTank?: boolean // F = 0, emergency vent = 0
   hexaneDefaults?: boolean // latent heat / MW / temp defaulted to Hexane
+  vapourPressureNearThreshold?: boolean // 7th ed: storage temp within 5 K of the 5 kPa crossing
+}
+
+export interface VapourPressureResult {
+  value: number // kPa(a) — used by the calculation
+  source: VapourPressureSource
+  fluidName?: string // library / custom fluid behind the correlation
+  thresholdTemperature?: number // °C — where the correlation crosses 5 kPa (correlation only)
 }
 
 export interface CalculationResult {
@@ -134,9 +606,16 @@ export interface CalculationResult {
   normalVenting: NormalVentingResult
   emergencyVenting: EmergencyVentingResult
   drainInbreathing?: number // Nm³/h (present only if drain data provided)
+  blowThrough?: BlowThroughResult // present only if blow-through data provided
+  blanketing?: BlanketingResult // present only for blanketed tanks
+  steamOut?: SteamOutResult // present only if steam-out data provided
+  scenarios?: ScenarioResult[] // present only when scenarios are defined
   summary: VentingSummary
+  vapourFlows: VapourFlowSummary // actual vapour behind the air-equivalent design flows
+  vapourPressure: VapourPressureResult
   warnings: CalculationWarnings
   apiEdition: ApiEdition
+  clauses: ClauseReferences // clause references of the selected standard
   calculatedAt: string // ISO timestamp
 }
 